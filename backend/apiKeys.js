@@ -0,0 +1,98 @@
+/**
+ * API key scopes and IP restrictions
+ *
+ * A key may only call routes whose resource it has a scope for: GET requests
+ * need `<resource>:read`, anything else `<resource>:write`. The resource is
+ * the last known word in the route's path, so
+ * `POST /api/workshops/:workshopId/enrolments` counts as writing guests and
+ * `GET /api/attendance/workshop/:workshopId` as reading attendance. Routes
+ * without a known word (accounts, invitations, API keys, the profile) are
+ * closed to keys altogether.
+ */
+
+const net = require('net');
+// Listed in the shared package, which the frontend's types come from
+const { API_KEY_SCOPES } = require('@eventqrollcall/shared');
+
+const API_KEY_PREFIX = 'eqk_';
+
+// Path words and the resource whose scopes cover them
+const ROUTE_RESOURCES = {
+  events: 'events',
+  workshops: 'workshops',
+  guests: 'guests',
+  enrolments: 'guests',
+  waitlist: 'guests',
+  'vip-access': 'guests',
+  attendance: 'attendance',
+  scan: 'attendance',
+  'scan-roster': 'attendance',
+  analytics: 'analytics',
+  certificates: 'analytics'
+};
+
+// Scope a key needs for a route, e.g. ('GET', '/api/guests/:id') -> 'guests:read', or null when keys can't use it
+function getRequiredScope(method, routePath) {
+  const words = String(routePath).split('/').filter(word => word && word !== 'api' && !word.startsWith(':'));
+  const word = [...words].reverse().find(w => ROUTE_RESOURCES[w]);
+  if (!word) {
+    return null;
+  }
+
+  const resource = ROUTE_RESOURCES[word];
+  // Analytics are read-only; generating certificates only reads attendance
+  const access = method === 'GET' || resource === 'analytics' ? 'read' : 'write';
+  return `${resource}:${access}`;
+}
+
+// IPv4-mapped IPv6 addresses, as Node reports IPv4 clients on dual-stack sockets, back to IPv4
+const normalizeIp = (ip) => String(ip || '').replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+
+// Why an allowed-IP entry can't be used, or null for a valid address or CIDR range
+function getAllowedIpProblem(entry) {
+  const [address, prefix, ...rest] = String(entry).split('/');
+  const family = net.isIP(address);
+  if (!family || rest.length > 0) {
+    return `${entry} is not an IP address or CIDR range`;
+  }
+  if (prefix !== undefined) {
+    const bits = Number(prefix);
+    if (!/^\d+$/.test(prefix) || bits > (family === 4 ? 32 : 128)) {
+      return `${entry} has an invalid prefix length`;
+    }
+  }
+  return null;
+}
+
+// Whether a client IP is allowed to use a key; an empty list allows every IP
+function isIpAllowed(allowedIps, ip) {
+  if (!allowedIps || allowedIps.length === 0) {
+    return true;
+  }
+
+  const client = normalizeIp(ip);
+  const family = net.isIP(client);
+  if (!family) {
+    return false;
+  }
+
+  const blockList = new net.BlockList();
+  for (const entry of allowedIps) {
+    const [address, prefix] = entry.split('/');
+    const type = net.isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (prefix !== undefined) {
+      blockList.addSubnet(address, Number(prefix), type);
+    } else {
+      blockList.addAddress(address, type);
+    }
+  }
+  return blockList.check(client, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+module.exports = {
+  API_KEY_PREFIX,
+  API_KEY_SCOPES,
+  getRequiredScope,
+  getAllowedIpProblem,
+  isIpAllowed
+};
@@ -0,0 +1,25 @@
+/**
+ * Audit log
+ *
+ * Who did what to accounts, sessions, API keys, guest codes and attendance,
+ * written to the server log one line per action. Every line starts with
+ * AUDIT_PREFIX and the time, so the trail can be filtered out of the rest of
+ * the log; the auditLog setting turns it off.
+ */
+
+const { config } = require('./config');
+
+const AUDIT_PREFIX = '[audit]';
+
+// Record an action, e.g. audit(`Password changed by ${user.username}`)
+function audit(message) {
+  if (!config.auditLog) {
+    return;
+  }
+  console.log(`${AUDIT_PREFIX} ${new Date().toISOString()} ${message}`);
+}
+
+module.exports = {
+  AUDIT_PREFIX,
+  audit
+};
@@ -0,0 +1,197 @@
+/**
+ * Backend configuration
+ *
+ * Every setting has a default, can be set in an optional JSON config file
+ * and can be overridden by an environment variable, in that order. The file
+ * is the one named by CONFIG_FILE, or config.json next to this module when it
+ * exists; its keys are the setting names below, e.g. `{ "port": 8080 }`.
+ *
+ * Settings are checked once, when this module is first loaded, and the
+ * process stops with a list of every problem rather than running with a bad
+ * value. In production (NODE_ENV=production) the development fallbacks for
+ * the secrets and for CORS are refused as well.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+// Built-in QR signing secret; codes signed with it can be forged by anyone with the source
+const DEVELOPMENT_QR_SECRET = 'qrtracker-qr-secret-key';
+// Secrets that were once hard-coded here and may have been copied into deployments
+const PUBLIC_SECRETS = [DEVELOPMENT_QR_SECRET, 'qrtracker-jwt-secret-key'];
+
+// Each setting: the environment variable that overrides it, its type, default,
+// description and optional bounds
+// Secrets are never shown in the settings page
+const SETTINGS = {
+  nodeEnv: { env: 'NODE_ENV', type: 'string', default: 'development', description: 'Runtime environment; "production" turns on the safety checks' },
+  port: { env: 'PORT', type: 'integer', default: 3000, min: 1, max: 65535, description: 'Port the API listens on' },
+  host: { env: 'HOST', type: 'string', default: '0.0.0.0', description: 'Address the API listens on' },
+  corsOrigins: { env: 'CORS_ORIGINS', type: 'list', default: ['*'], description: 'Origins the frontend is served from, comma separated; * allows any' },
+  databaseFile: { env: 'DATABASE_FILE', type: 'path', default: 'database.sqlite', description: 'SQLite database file, relative to the backend folder' },
+
+  jwtSecret: { env: 'JWT_SECRET', type: 'string', default: null, secret: true, description: 'Key access tokens are signed with; a random one per run when unset' },
+  accessTokenTtlSeconds: { env: 'ACCESS_TOKEN_TTL_SECONDS', type: 'integer', default: 15 * 60, min: 60, description: 'How long an access token is valid' },
+  refreshTokenTtlDays: { env: 'REFRESH_TOKEN_TTL_DAYS', type: 'integer', default: 30, min: 1, description: 'How long a session lasts without being used' },
+  refreshReuseGraceSeconds: { env: 'REFRESH_REUSE_GRACE_SECONDS', type: 'integer', default: 30, min: 0, description: 'How long a just-replaced refresh token is tolerated, for tabs refreshing at once' },
+  requireAdmin2fa: { env: 'REQUIRE_ADMIN_2FA', type: 'boolean', default: false, description: 'Make every admin sign in with an authenticator app' },
+  inviteTtlDays: { env: 'INVITE_TTL_DAYS', type: 'integer', default: 7, min: 1, description: 'How long an invitation link stays valid' },
+  auditLog: { env: 'AUDIT_LOG', type: 'boolean', default: true, description: 'Log account, session, API key and attendance changes on lines starting with [audit]' },
+
+  passwordMinLength: { env: 'PASSWORD_MIN_LENGTH', type: 'integer', default: 10, min: 1, description: 'Shortest accepted password' },
+  passwordRequireMixedCase: { env: 'PASSWORD_REQUIRE_MIXED_CASE', type: 'boolean', default: false, description: 'Passwords need upper and lower case letters' },
+  passwordRequireNumber: { env: 'PASSWORD_REQUIRE_NUMBER', type: 'boolean', default: true, description: 'Passwords need a digit' },
+  passwordRequireSymbol: { env: 'PASSWORD_REQUIRE_SYMBOL', type: 'boolean', default: false, description: 'Passwords need a character that is not a letter or digit' },
+
+  qrSecret: { env: 'QR_SECRET', type: 'string', default: DEVELOPMENT_QR_SECRET, secret: true, description: 'Key guest QR codes are signed with' },
+  acceptLegacyQrCodes: { env: 'ACCEPT_LEGACY_QR_CODES', type: 'boolean', default: true, description: 'Keep accepting unsigned guest-<id> QR codes' },
+  maxBatchSize: { env: 'MAX_BATCH_SIZE', type: 'integer', default: 500, min: 1, description: 'Most items a batch scan or attendance import may hold' },
+  maxScanAgeHours: { env: 'MAX_SCAN_AGE_HOURS', type: 'integer', default: 72, min: 1, description: 'Oldest queued offline scan or imported check-in that is still accepted' },
+
+  vipMaxCapacity: { env: 'VIP_MAX_CAPACITY', type: 'integer', default: 31, min: 1, description: 'Largest maximum capacity a VIP workshop may have' },
+  attestationThresholdPercent: { env: 'ATTESTATION_THRESHOLD_PERCENT', type: 'integer', default: 70, min: 0, max: 100, description: 'Attendance percentage a guest needs for an attestation' },
+  certificateTemplate: { env: 'CERTIFICATE_TEMPLATE', type: 'path', default: 'cert.jpeg', description: 'Image the guest name is printed on, relative to the backend folder' },
+  certificateFont: { env: 'CERTIFICATE_FONT', type: 'string', default: 'sans-serif', description: 'Font family of the name on certificates' },
+  certificateFontSize: { env: 'CERTIFICATE_FONT_SIZE', type: 'integer', default: 65, min: 8, max: 400, description: 'Font size of the name on certificates, in pixels' },
+  certificateTextColor: { env: 'CERTIFICATE_TEXT_COLOR', type: 'color', default: '#23519e', description: 'Colour of the name when the event has no colour of its own' }
+};
+
+const PARSERS = {
+  string: (value) => String(value),
+  path: (value) => path.resolve(__dirname, String(value)),
+  integer: (value) => {
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isInteger(number)) throw new Error('must be a whole number');
+    return number;
+  },
+  boolean: (value) => {
+    if (typeof value === 'boolean') return value;
+    if (['true', '1', 'yes'].includes(String(value).toLowerCase())) return true;
+    if (['false', '0', 'no'].includes(String(value).toLowerCase())) return false;
+    throw new Error('must be true or false');
+  },
+  list: (value) => (Array.isArray(value) ? value : String(value).split(','))
+    .map(item => String(item).trim())
+    .filter(Boolean),
+  color: (value) => {
+    if (!/^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(String(value))) throw new Error('must be a colour like #23519e');
+    return String(value);
+  }
+};
+
+function readConfigFile(problems) {
+  const file = process.env.CONFIG_FILE
+    ? path.resolve(process.cwd(), process.env.CONFIG_FILE)
+    : path.join(__dirname, 'config.json');
+
+  if (!fs.existsSync(file)) {
+    if (process.env.CONFIG_FILE) {
+      problems.push(`CONFIG_FILE ${file} does not exist`);
+    }
+    return {};
+  }
+
+  try {
+    const values = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      problems.push(`${file} must hold a JSON object`);
+      return {};
+    }
+    for (const name of Object.keys(values)) {
+      if (!SETTINGS[name]) {
+        problems.push(`${file}: unknown setting "${name}"`);
+      }
+    }
+    return values;
+  } catch (error) {
+    problems.push(`${file} is not valid JSON: ${error.message}`);
+    return {};
+  }
+}
+
+function loadConfig() {
+  const problems = [];
+  const fileValues = readConfigFile(problems);
+  const config = {};
+  const sources = {};
+
+  for (const [name, setting] of Object.entries(SETTINGS)) {
+    let raw = setting.default;
+    sources[name] = 'default';
+    if (fileValues[name] !== undefined) {
+      raw = fileValues[name];
+      sources[name] = 'file';
+    }
+    if (process.env[setting.env] !== undefined && process.env[setting.env] !== '') {
+      raw = process.env[setting.env];
+      sources[name] = 'env';
+    }
+    if (raw === null) {
+      config[name] = null;
+      continue;
+    }
+
+    try {
+      const value = PARSERS[setting.type](raw);
+      if (setting.min !== undefined && value < setting.min) throw new Error(`must be at least ${setting.min}`);
+      if (setting.max !== undefined && value > setting.max) throw new Error(`must be at most ${setting.max}`);
+      config[name] = value;
+    } catch (error) {
+      problems.push(`${name} (${setting.env}) ${error.message}`);
+    }
+  }
+
+  if (config.nodeEnv === 'production') {
+    if (!config.jwtSecret) {
+      problems.push('jwtSecret (JWT_SECRET) must be set in production, or every restart signs everyone out');
+    }
+    for (const name of ['jwtSecret', 'qrSecret']) {
+      const value = config[name];
+      if (value && PUBLIC_SECRETS.includes(value)) {
+        problems.push(`${name} (${SETTINGS[name].env}) must be set in production; the built-in one is public`);
+      } else if (value && value.length < 32) {
+        problems.push(`${name} (${SETTINGS[name].env}) must be at least 32 characters long in production`);
+      }
+    }
+    if (config.corsOrigins && config.corsOrigins.includes('*')) {
+      problems.push('corsOrigins (CORS_ORIGINS) must list the frontend\'s origins in production instead of *');
+    }
+  }
+  if (config.certificateTemplate && !fs.existsSync(config.certificateTemplate)) {
+    problems.push(`certificateTemplate (CERTIFICATE_TEMPLATE) ${config.certificateTemplate} does not exist`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  if (!config.jwtSecret) {
+    // Without a configured secret every restart signs with a new one; clients just refresh their access token
+    console.warn('JWT_SECRET is not set, using a random secret for this run');
+    config.jwtSecret = crypto.randomBytes(32).toString('hex');
+  }
+
+  return { config: Object.freeze(config), sources };
+}
+
+const { config, sources } = loadConfig();
+
+// Effective settings for the admin settings page, leaving out secrets
+function getPublicSettings() {
+  return Object.entries(SETTINGS)
+    .filter(([, setting]) => !setting.secret)
+    .map(([name, setting]) => ({
+      name,
+      env: setting.env,
+      value: setting.type === 'path' ? path.relative(__dirname, config[name]) || '.' : config[name],
+      default: setting.default,
+      source: sources[name],
+      description: setting.description
+    }));
+}
+
+module.exports = {
+  config,
+  getPublicSettings
+};
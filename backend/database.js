@@ -1,11 +1,14 @@
 const sqlite3 = require('sqlite3').verbose();
-const path = require('path');
-const { v4: uuidv4 } = require('uuid');
 const crypto = require('crypto');
+const { DEFAULT_CHECKIN_OPENS_MINUTES, DEFAULT_CHECKIN_CLOSES_MINUTES } = require('./schedule');
+const { issueQrCode, parseQrCode, getQrCodeProblem } = require('./qrcodes');
+const { API_KEY_PREFIX } = require('./apiKeys');
+const { foldSearchText, toMatchQuery } = require('./guestSearch');
+const { DEFAULT_PAGE_SIZE } = require('@eventqrollcall/shared');
+const { config } = require('./config');
 
 // Create database connection
-const dbPath = path.resolve(__dirname, 'database.sqlite');
-const db = new sqlite3.Database(dbPath, (err) => {
+const db = new sqlite3.Database(config.databaseFile, (err) => {
   if (err) {
     console.error('Could not connect to database', err);
   } else {
@@ -30,6 +33,110 @@ function initDb() {
   });
 }
 
+// Promise wrappers around the sqlite3 callback API, handed to transaction callbacks
+const runAsync = (sql, params = []) => {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, function(err) {
+      if (err) reject(err);
+      else resolve({ lastID: this.lastID, changes: this.changes });
+    });
+  });
+};
+
+const getAsync = (sql, params = []) => {
+  return new Promise((resolve, reject) => {
+    db.get(sql, params, (err, row) => {
+      if (err) reject(err);
+      else resolve(row);
+    });
+  });
+};
+
+const allAsync = (sql, params = []) => {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows || []);
+    });
+  });
+};
+
+// LIKE pattern matching the term anywhere, with its wildcards taken literally; use with ESCAPE '\\'
+const containsPattern = (term) => `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+
+// ORDER BY for a list. `sorts` maps the sort keys a route accepts to SQL;
+// ties are broken by `tieBreaker` so rows don't move between pages
+const listOrderSql = ({ sort, order }, sorts, defaultSort, tieBreaker) => {
+  const [column, defaultOrder] = sorts[sort] || sorts[defaultSort];
+  const direction = (order || (sort ? 'asc' : defaultOrder)) === 'desc' ? 'DESC' : 'ASC';
+  return `ORDER BY ${column} ${direction}, ${tieBreaker} ${direction}`;
+};
+
+// Rows of a list query. With `page` or `pageSize` set it resolves with that
+// page and the number of matching rows instead: { items, total, page, pageSize }
+const listAsync = async (select, fromWhere, params, orderBy, { page, pageSize } = {}) => {
+  if (page === undefined && pageSize === undefined) {
+    return allAsync(`${select} ${fromWhere} ${orderBy}`, params);
+  }
+
+  const currentPage = page || 1;
+  const size = pageSize || DEFAULT_PAGE_SIZE;
+  const [{ total }, items] = await Promise.all([
+    getAsync(`SELECT COUNT(*) as total ${fromWhere}`, params),
+    allAsync(`${select} ${fromWhere} ${orderBy} LIMIT ? OFFSET ?`, [...params, size, (currentPage - 1) * size])
+  ]);
+  return { items, total, page: currentPage, pageSize: size };
+};
+
+// Transactions share the single connection, so they are queued and run one at a time
+let transactionQueue = Promise.resolve();
+
+// Run fn({ run, get, all }) inside a write transaction, rolling back when it throws
+const withTransaction = (fn) => {
+  const result = transactionQueue.then(async () => {
+    await runAsync('BEGIN IMMEDIATE TRANSACTION');
+    try {
+      const value = await fn({ run: runAsync, get: getAsync, all: allAsync });
+      await runAsync('COMMIT');
+      return value;
+    } catch (error) {
+      await runAsync('ROLLBACK').catch(rollbackError => {
+        console.error('Error rolling back transaction:', rollbackError);
+      });
+      throw error;
+    }
+  });
+  
+  transactionQueue = result.catch(() => {});
+  return result;
+};
+
+// Invite and refresh tokens and API keys are stored as hashes so a leaked database can't be used to sign in
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+// Workshops a scanner works at: assigned directly or through their event. Takes the scanner's ID twice
+const SCANNER_WORKSHOPS_SQL = `(
+  SELECT sa.workshop_id FROM scanner_assignments sa WHERE sa.user_id = ? AND sa.workshop_id IS NOT NULL
+  UNION
+  SELECT sw.id FROM workshops sw JOIN scanner_assignments sa ON sa.event_id = sw.event_id WHERE sa.user_id = ?
+)`;
+
+// Events a scanner can see: assigned ones and those of assigned workshops. Takes the scanner's ID twice
+const SCANNER_EVENTS_SQL = `(
+  SELECT sa.event_id FROM scanner_assignments sa WHERE sa.user_id = ? AND sa.event_id IS NOT NULL
+  UNION
+  SELECT sw.event_id FROM workshops sw JOIN scanner_assignments sa ON sa.workshop_id = sw.id WHERE sa.user_id = ?
+)`;
+
+// Guests a scanner may scan: those on the roster of one of their events, and for assigned
+// workshops without an event, the guests of the workshop's owner. Takes the scanner's ID four times
+const SCANNER_GUESTS_SQL = `(
+  SELECT eg.guest_id FROM event_guests eg WHERE eg.event_id IN ${SCANNER_EVENTS_SQL}
+  UNION
+  SELECT sg.id FROM guests sg JOIN workshops sw ON sw.user_id = sg.user_id
+  WHERE sw.event_id IS NULL AND sw.id IN ${SCANNER_WORKSHOPS_SQL}
+)`;
+
 // User-related database operations
 const userDb = {
   // Get user by username
@@ -52,11 +159,21 @@ const userDb = {
     });
   },
   
+  // Get every account, oldest first
+  getAllUsers: () => {
+    return new Promise((resolve, reject) => {
+      db.all('SELECT * FROM users ORDER BY created_at, id', [], (err, users) => {
+        if (err) reject(err);
+        resolve(users);
+      });
+    });
+  },
+  
   // Create a new user
-  createUser: (username, password) => {
+  createUser: (username, password, role = 'scanner', mustChangePassword = false) => {
     return new Promise((resolve, reject) => {
-      db.run('INSERT INTO users (username, password) VALUES (?, ?)', 
-        [username, password], 
+      db.run('INSERT INTO users (username, password, role, must_change_password) VALUES (?, ?, ?, ?)', 
+        [username, password, role, mustChangePassword ? 1 : 0], 
         function(err) {
           if (err) reject(err);
           resolve({ id: this.lastID });
@@ -90,35 +207,692 @@ const userDb = {
         }
       });
     });
+  },
+  
+  // Change the role, permissions and/or disabled state of an account
+  updateUser: (id, { role, permissions, disabled }) => {
+    const updates = [];
+    const params = [];
+    if (role !== undefined) {
+      updates.push('role = ?');
+      params.push(role);
+    }
+    if (permissions !== undefined) {
+      updates.push('permissions = ?');
+      params.push(JSON.stringify(permissions));
+    }
+    if (disabled !== undefined) {
+      // Re-disabling keeps the original date
+      updates.push(disabled ? 'disabled_at = COALESCE(disabled_at, CURRENT_TIMESTAMP)' : 'disabled_at = NULL');
+    }
+    if (updates.length === 0) {
+      return userDb.getUserById(id);
+    }
+    
+    return new Promise((resolve, reject) => {
+      db.run(
+        `UPDATE users SET ${updates.join(', ')} WHERE id = ?`,
+        [...params, id],
+        (err) => {
+          if (err) return reject(err);
+          userDb.getUserById(id).then(resolve, reject);
+        }
+      );
+    });
+  },
+  
+  // Replace an account's password hash, flagging whether it has to be changed at the next login
+  updatePassword: (id, password, mustChangePassword = false) => {
+    return new Promise((resolve, reject) => {
+      db.run('UPDATE users SET password = ?, must_change_password = ? WHERE id = ?', [password, mustChangePassword ? 1 : 0, id], function(err) {
+        if (err) reject(err);
+        resolve({ changes: this.changes });
+      });
+    });
+  },
+  
+  // Whether the account owns events, workshops or guests that deleting it would orphan
+  ownsRecords: (id) => {
+    return new Promise((resolve, reject) => {
+      db.get(
+        `SELECT EXISTS (SELECT 1 FROM events WHERE user_id = ?)
+          OR EXISTS (SELECT 1 FROM workshops WHERE user_id = ?)
+          OR EXISTS (SELECT 1 FROM guests WHERE user_id = ?) as owns`,
+        [id, id, id],
+        (err, row) => {
+          if (err) reject(err);
+          resolve(Boolean(row.owns));
+        }
+      );
+    });
+  },
+  
+  deleteUser: (id) => {
+    return new Promise((resolve, reject) => {
+      db.run('DELETE FROM users WHERE id = ?', [id], function(err) {
+        if (err) reject(err);
+        resolve({ changes: this.changes });
+      });
+    });
+  },
+  
+  // Create a single-use invitation; returns the plain token, which is not stored
+  createInvite: (role, createdBy, expiresAt) => {
+    const id = crypto.randomUUID();
+    const token = crypto.randomBytes(24).toString('base64url');
+    
+    return new Promise((resolve, reject) => {
+      db.run(
+        'INSERT INTO user_invites (id, token_hash, role, created_by, expires_at) VALUES (?, ?, ?, ?, ?)',
+        [id, hashToken(token), role, createdBy, expiresAt],
+        (err) => {
+          if (err) reject(err);
+          resolve({ id, token, role, expires_at: expiresAt });
+        }
+      );
+    });
+  },
+  
+  // Invitations that have not been used yet, newest first
+  getPendingInvites: () => {
+    return new Promise((resolve, reject) => {
+      db.all(
+        `SELECT i.id, i.role, i.created_at, i.expires_at, u.username as created_by_username
+        FROM user_invites i
+        LEFT JOIN users u ON u.id = i.created_by
+        WHERE i.used_at IS NULL
+        ORDER BY i.created_at DESC`,
+        [],
+        (err, invites) => {
+          if (err) reject(err);
+          resolve(invites);
+        }
+      );
+    });
+  },
+  
+  deleteInvite: (id) => {
+    return new Promise((resolve, reject) => {
+      db.run('DELETE FROM user_invites WHERE id = ? AND used_at IS NULL', [id], function(err) {
+        if (err) reject(err);
+        resolve({ changes: this.changes });
+      });
+    });
+  },
+  
+  // Create an account from an invitation, using it up. Resolves null when the
+  // token is unknown, used or expired
+  registerWithInvite: (token, username, password) => {
+    return withTransaction(async ({ run, get }) => {
+      const invite = await get(
+        'SELECT * FROM user_invites WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?',
+        [hashToken(token), new Date().toISOString()]
+      );
+      if (!invite) {
+        return null;
+      }
+      
+      const { lastID } = await run('INSERT INTO users (username, password, role) VALUES (?, ?, ?)', [username, password, invite.role]);
+      await run('UPDATE user_invites SET used_at = CURRENT_TIMESTAMP, used_by = ? WHERE id = ?', [lastID, invite.id]);
+      return { id: lastID, role: invite.role };
+    });
+  },
+
+  // Keep an authenticator secret that is being set up, until a code from it is confirmed
+  setPendingTotpSecret: (id, secret) => {
+    return new Promise((resolve, reject) => {
+      db.run('UPDATE users SET totp_pending_secret = ? WHERE id = ?', [secret, id], function(err) {
+        if (err) reject(err);
+        resolve({ changes: this.changes });
+      });
+    });
+  },
+
+  // Turn two-factor authentication on with the pending secret, confirmed by a
+  // code from the given time step, and replace the recovery codes
+  enableTwoFactor: (id, step, recoveryCodes) => {
+    return withTransaction(async ({ run }) => {
+      await run(
+        `UPDATE users SET totp_secret = totp_pending_secret, totp_pending_secret = NULL,
+          totp_enabled_at = CURRENT_TIMESTAMP, totp_last_step = ?
+        WHERE id = ? AND totp_pending_secret IS NOT NULL`,
+        [step, id]
+      );
+      await userDb.replaceRecoveryCodes(id, recoveryCodes, run);
+    });
+  },
+
+  disableTwoFactor: (id) => {
+    return withTransaction(async ({ run }) => {
+      await run(
+        `UPDATE users SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL
+        WHERE id = ?`,
+        [id]
+      );
+      await run('DELETE FROM user_recovery_codes WHERE user_id = ?', [id]);
+    });
+  },
+
+  // Record that a code from this time step was used. Resolves false when it,
+  // or a later one, already was
+  useTotpStep: (id, step) => {
+    return new Promise((resolve, reject) => {
+      db.run(
+        'UPDATE users SET totp_last_step = ? WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)',
+        [step, id, step],
+        function(err) {
+          if (err) reject(err);
+          resolve(this.changes > 0);
+        }
+      );
+    });
+  },
+
+  // Store hashes of new recovery codes (already normalized) in place of the
+  // old ones; pass `run` to do it inside an open transaction
+  replaceRecoveryCodes: async (id, codes, run = null) => {
+    if (!run) {
+      return withTransaction(tx => userDb.replaceRecoveryCodes(id, codes, tx.run));
+    }
+
+    await run('DELETE FROM user_recovery_codes WHERE user_id = ?', [id]);
+    for (const code of codes) {
+      await run(
+        'INSERT INTO user_recovery_codes (id, user_id, code_hash) VALUES (?, ?, ?)',
+        [crypto.randomUUID(), id, hashToken(code)]
+      );
+    }
+  },
+
+  // Use up a recovery code (already normalized); resolves false when it is unknown or used
+  useRecoveryCode: (id, code) => {
+    return new Promise((resolve, reject) => {
+      db.run(
+        'UPDATE user_recovery_codes SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+        [id, hashToken(code)],
+        function(err) {
+          if (err) reject(err);
+          resolve(this.changes > 0);
+        }
+      );
+    });
+  },
+
+  countRecoveryCodes: (id) => {
+    return new Promise((resolve, reject) => {
+      db.get('SELECT COUNT(*) as count FROM user_recovery_codes WHERE user_id = ? AND used_at IS NULL', [id], (err, row) => {
+        if (err) reject(err);
+        resolve(row.count);
+      });
+    });
+  },
+
+  // Events and workshops of an admin that a scanner is assigned to
+  getAssignments: (userId, ownerId) => {
+    return new Promise((resolve, reject) => {
+      db.all(
+        `SELECT sa.event_id, sa.workshop_id FROM scanner_assignments sa
+        LEFT JOIN events e ON e.id = sa.event_id
+        LEFT JOIN workshops w ON w.id = sa.workshop_id
+        WHERE sa.user_id = ? AND (e.user_id = ? OR w.user_id = ?)
+        ORDER BY sa.created_at`,
+        [userId, ownerId, ownerId],
+        (err, rows) => {
+          if (err) reject(err);
+          resolve({
+            eventIds: rows.filter(row => row.event_id).map(row => row.event_id),
+            workshopIds: rows.filter(row => row.workshop_id).map(row => row.workshop_id)
+          });
+        }
+      );
+    });
+  },
+
+  // Replace a scanner's assignments to an admin's events and workshops; those
+  // made by other admins for their own events stay
+  setAssignments: (userId, ownerId, { eventIds = [], workshopIds = [] }) => {
+    return withTransaction(async ({ run }) => {
+      await run(
+        `DELETE FROM scanner_assignments WHERE user_id = ? AND (
+          event_id IN (SELECT id FROM events WHERE user_id = ?)
+          OR workshop_id IN (SELECT id FROM workshops WHERE user_id = ?)
+        )`,
+        [userId, ownerId, ownerId]
+      );
+      for (const eventId of eventIds) {
+        await run(
+          'INSERT INTO scanner_assignments (id, user_id, event_id, created_by) VALUES (?, ?, ?, ?)',
+          [crypto.randomUUID(), userId, eventId, ownerId]
+        );
+      }
+      for (const workshopId of workshopIds) {
+        await run(
+          'INSERT INTO scanner_assignments (id, user_id, workshop_id, created_by) VALUES (?, ?, ?, ?)',
+          [crypto.randomUUID(), userId, workshopId, ownerId]
+        );
+      }
+      return { eventIds, workshopIds };
+    });
   }
 };
 
-// Workshop-related database operations
-const workshopDb = {
-  // Get all workshops
-  getAllWorkshops: (userId = null) => {
+// Login session operations
+const sessionDb = {
+  // Open a session; returns it with the plain refresh token, which is not stored
+  createSession: ({ userId, userAgent, ip, expiresAt }) => {
+    const id = crypto.randomUUID();
+    const refreshToken = `${id}.${crypto.randomBytes(32).toString('base64url')}`;
+    
+    return new Promise((resolve, reject) => {
+      db.run(
+        `INSERT INTO sessions (id, user_id, refresh_token_hash, user_agent, ip, last_seen_at, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [id, userId, hashToken(refreshToken), userAgent || null, ip || null, new Date().toISOString(), expiresAt],
+        (err) => {
+          if (err) reject(err);
+          resolve({ id, refreshToken });
+        }
+      );
+    });
+  },
+  
+  getSession: (id) => {
     return new Promise((resolve, reject) => {
-      const query = userId 
-        ? 'SELECT *, is_vip as isVip, max_capacity as maxCapacity FROM workshops WHERE user_id = ?' 
-        : 'SELECT *, is_vip as isVip, max_capacity as maxCapacity FROM workshops';
+      db.get('SELECT * FROM sessions WHERE id = ?', [id], (err, session) => {
+        if (err) reject(err);
+        resolve(session);
+      });
+    });
+  },
+  
+  // Swap a session's refresh token for a new one. Resolves `{ status }`:
+  // 'rotated' with the new `refreshToken`, 'reused' when the token was the one
+  // just replaced, or 'invalid' when it is unknown, revoked or expired
+  rotateSession: (refreshToken, { userAgent, ip, expiresAt, reuseGraceSeconds }) => {
+    const [sessionId] = String(refreshToken).split('.');
+    const presentedHash = hashToken(refreshToken);
+    
+    return withTransaction(async ({ run, get }) => {
+      const session = await get('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+      if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+        return { status: 'invalid' };
+      }
       
-      const params = userId ? [userId] : [];
+      if (session.refresh_token_hash !== presentedHash) {
+        if (session.previous_token_hash !== presentedHash) {
+          return { status: 'invalid' };
+        }
+        // Another tab of the same browser can race us to the refresh; anything
+        // later means the old token was copied, so the whole session goes
+        const rotatedAgo = (Date.now() - new Date(session.rotated_at).getTime()) / 1000;
+        if (rotatedAgo > reuseGraceSeconds) {
+          await run('UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?', [session.id]);
+        }
+        return { status: 'reused', session };
+      }
       
-      db.all(query, params, (err, workshops) => {
+      const nextToken = `${session.id}.${crypto.randomBytes(32).toString('base64url')}`;
+      await run(
+        `UPDATE sessions SET refresh_token_hash = ?, previous_token_hash = ?, rotated_at = ?, last_seen_at = ?,
+          expires_at = ?, user_agent = COALESCE(?, user_agent), ip = COALESCE(?, ip)
+        WHERE id = ?`,
+        [hashToken(nextToken), presentedHash, new Date().toISOString(), new Date().toISOString(), expiresAt, userAgent || null, ip || null, session.id]
+      );
+      return { status: 'rotated', session, refreshToken: nextToken };
+    });
+  },
+  
+  // Record activity on a session
+  touchSession: (id, ip) => {
+    return new Promise((resolve, reject) => {
+      db.run('UPDATE sessions SET last_seen_at = ?, ip = COALESCE(?, ip) WHERE id = ?', [new Date().toISOString(), ip || null, id], (err) => {
         if (err) reject(err);
-        resolve(workshops);
+        resolve(true);
+      });
+    });
+  },
+  
+  // A user's sessions that are neither revoked nor expired, most recently used first
+  getUserSessions: (userId) => {
+    return new Promise((resolve, reject) => {
+      db.all(
+        `SELECT * FROM sessions
+        WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+        ORDER BY last_seen_at DESC`,
+        [userId, new Date().toISOString()],
+        (err, sessions) => {
+          if (err) reject(err);
+          resolve(sessions);
+        }
+      );
+    });
+  },
+  
+  revokeSession: (id, userId) => {
+    return new Promise((resolve, reject) => {
+      db.run(
+        'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+        [id, userId],
+        function(err) {
+          if (err) reject(err);
+          resolve({ changes: this.changes });
+        }
+      );
+    });
+  },
+  
+  // End every session of a user, optionally keeping the one making the request
+  revokeUserSessions: (userId, exceptSessionId = null) => {
+    return new Promise((resolve, reject) => {
+      db.run(
+        'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL AND id IS NOT ?',
+        [userId, exceptSessionId],
+        function(err) {
+          if (err) reject(err);
+          resolve({ changes: this.changes });
+        }
+      );
+    });
+  }
+};
+
+// API key operations
+const apiKeyDb = {
+  // Create a key for an admin; returns it with the plain key, which is not stored
+  createApiKey: ({ name, scopes, allowedIps, expiresAt, userId }) => {
+    const id = crypto.randomUUID();
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+
+    return new Promise((resolve, reject) => {
+      db.run(
+        `INSERT INTO api_keys (id, name, key_prefix, key_hash, scopes, allowed_ips, user_id, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, name, key.slice(0, 12), hashToken(key), JSON.stringify(scopes), JSON.stringify(allowedIps), userId, expiresAt || null],
+        (err) => {
+          if (err) return reject(err);
+          apiKeyDb.getApiKeyById(id).then(apiKey => resolve({ ...apiKey, key }), reject);
+        }
+      );
+    });
+  },
+
+  // A key by ID, limited to the keys of an admin when userId is given
+  getApiKeyById: (id, userId = null) => {
+    return new Promise((resolve, reject) => {
+      db.get(
+        `SELECT k.*, u.username AS created_by FROM api_keys k LEFT JOIN users u ON k.user_id = u.id
+        WHERE k.id = ?${userId ? ' AND k.user_id = ?' : ''}`,
+        userId ? [id, userId] : [id],
+        (err, apiKey) => {
+          if (err) reject(err);
+          resolve(apiKey);
+        }
+      );
+    });
+  },
+
+  // The key a request presented, whatever its state
+  getApiKeyByKey: (key) => {
+    return new Promise((resolve, reject) => {
+      db.get('SELECT * FROM api_keys WHERE key_hash = ?', [hashToken(key)], (err, apiKey) => {
+        if (err) reject(err);
+        resolve(apiKey);
+      });
+    });
+  },
+
+  // The keys acting for an admin, newest first
+  getAllApiKeys: (userId) => {
+    return new Promise((resolve, reject) => {
+      db.all(
+        'SELECT k.*, u.username AS created_by FROM api_keys k LEFT JOIN users u ON k.user_id = u.id WHERE k.user_id = ? ORDER BY k.created_at DESC',
+        [userId],
+        (err, apiKeys) => {
+          if (err) reject(err);
+          resolve(apiKeys);
+        }
+      );
+    });
+  },
+
+  // Record a request made with a key
+  touchApiKey: (id, ip) => {
+    return new Promise((resolve, reject) => {
+      db.run('UPDATE api_keys SET last_used_at = ?, last_used_ip = ? WHERE id = ?', [new Date().toISOString(), ip || null, id], (err) => {
+        if (err) reject(err);
+        resolve(true);
       });
     });
   },
+
+  deleteApiKey: (id) => {
+    return new Promise((resolve, reject) => {
+      db.run('DELETE FROM api_keys WHERE id = ?', [id], function(err) {
+        if (err) reject(err);
+        resolve({ changes: this.changes });
+      });
+    });
+  }
+};
+
+// Event-related database operations
+const eventDb = {
+  // Get all events, limited to a scanner's assignments when scannerId is given
+  getAllEvents: (userId = null, scannerId = null) => {
+    return new Promise((resolve, reject) => {
+      let query = 'SELECT * FROM events WHERE 1 = 1';
+      const params = [];
+
+      if (userId) {
+        query += ' AND user_id = ?';
+        params.push(userId);
+      }
+      if (scannerId) {
+        query += ` AND id IN ${SCANNER_EVENTS_SQL}`;
+        params.push(scannerId, scannerId);
+      }
+
+      query += ' ORDER BY start_date DESC, created_at DESC';
+
+      db.all(query, params, (err, events) => {
+        if (err) reject(err);
+        resolve(events);
+      });
+    });
+  },
+
+  // Get event by ID
+  getEventById: (id, userId = null, scannerId = null) => {
+    return new Promise((resolve, reject) => {
+      let query = 'SELECT * FROM events WHERE id = ?';
+      const params = [id];
+
+      if (userId) {
+        query += ' AND user_id = ?';
+        params.push(userId);
+      }
+      if (scannerId) {
+        query += ` AND id IN ${SCANNER_EVENTS_SQL}`;
+        params.push(scannerId, scannerId);
+      }
+
+      db.get(query, params, (err, event) => {
+        if (err) reject(err);
+        resolve(event);
+      });
+    });
+  },
+
+  // Create a new event
+  createEvent: (eventData) => {
+    const { name, description, startDate, endDate, location, logoUrl, primaryColor, attendanceBasis = 'all-workshops', dynamicQr = false, userId } = eventData;
+    const id = crypto.randomUUID();
+
+    return new Promise((resolve, reject) => {
+      db.run(
+        'INSERT INTO events (id, name, description, start_date, end_date, location, logo_url, primary_color, attendance_basis, dynamic_qr, user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [id, name, description, startDate, endDate, location, logoUrl, primaryColor, attendanceBasis, dynamicQr ? 1 : 0, userId],
+        function(err) {
+          if (err) reject(err);
+          resolve({
+            id, name, description, start_date: startDate, end_date: endDate, location, logo_url: logoUrl, primary_color: primaryColor,
+            attendance_basis: attendanceBasis, dynamic_qr: dynamicQr ? 1 : 0, user_id: userId
+          });
+        }
+      );
+    });
+  },
+
+  // Update an event
+  updateEvent: (id, eventData) => {
+    const { name, description, startDate, endDate, location, logoUrl, primaryColor, attendanceBasis = 'all-workshops', dynamicQr = false } = eventData;
+
+    return new Promise((resolve, reject) => {
+      db.run(
+        'UPDATE events SET name = ?, description = ?, start_date = ?, end_date = ?, location = ?, logo_url = ?, primary_color = ?, attendance_basis = ?, dynamic_qr = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [name, description, startDate, endDate, location, logoUrl, primaryColor, attendanceBasis, dynamicQr ? 1 : 0, id],
+        function(err) {
+          if (err) reject(err);
+          if (this.changes === 0) {
+            reject(new Error('Event not found'));
+            return;
+          }
+          resolve({
+            id, name, description, start_date: startDate, end_date: endDate, location, logo_url: logoUrl, primary_color: primaryColor,
+            attendance_basis: attendanceBasis, dynamic_qr: dynamicQr ? 1 : 0
+          });
+        }
+      );
+    });
+  },
+
+  // Delete an event together with its workshops (attendance cascades from workshops)
+  deleteEvent: (id) => {
+    return withTransaction(async ({ run }) => {
+      await run('DELETE FROM vip_access WHERE workshop_id IN (SELECT id FROM workshops WHERE event_id = ?)', [id]);
+      await run('DELETE FROM workshops WHERE event_id = ?', [id]);
+      const { changes } = await run('DELETE FROM events WHERE id = ?', [id]);
+      if (changes === 0) {
+        throw new Error('Event not found');
+      }
+      return { id };
+    });
+  },
+
+  // Add a guest to an event's roster
+  addGuestToEvent: (eventId, guestId) => {
+    return new Promise((resolve, reject) => {
+      db.run(
+        'INSERT OR IGNORE INTO event_guests (event_id, guest_id) VALUES (?, ?)',
+        [eventId, guestId],
+        (err) => {
+          if (err) reject(err);
+          else resolve({ eventId, guestId });
+        }
+      );
+    });
+  },
+
+  // Check whether a guest is on an event's roster
+  isGuestInEvent: (eventId, guestId) => {
+    return new Promise((resolve, reject) => {
+      db.get(
+        'SELECT 1 FROM event_guests WHERE event_id = ? AND guest_id = ?',
+        [eventId, guestId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(!!row);
+        }
+      );
+    });
+  },
+
+  // Remove a guest from an event's roster
+  removeGuestFromEvent: (eventId, guestId) => {
+    return new Promise((resolve, reject) => {
+      db.run(
+        'DELETE FROM event_guests WHERE event_id = ? AND guest_id = ?',
+        [eventId, guestId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+};
+
+// Workshop-related database operations
+// SQL and default order of each sort key of the workshop list
+const WORKSHOP_SORT_SQL = {
+  startTime: ['COALESCE(start_time, date)', 'asc'],
+  name: ['name COLLATE NOCASE', 'asc'],
+  location: ['location COLLATE NOCASE', 'asc'],
+  createdAt: ['created_at', 'desc']
+};
+
+const workshopDb = {
+  // Get all workshops, or a page of them, searched, filtered and sorted as in the list query
+  getAllWorkshops: (userId = null, eventId = null, scannerId = null, query = {}) => {
+    const select = `
+      SELECT *, is_vip as isVip, max_capacity as maxCapacity, event_id as eventId, min_dwell_minutes as minDwellMinutes,
+        start_time as startTime, end_time as endTime,
+        checkin_opens_minutes as checkinOpensMinutes, checkin_closes_minutes as checkinClosesMinutes, dynamic_qr as dynamicQr,
+        (SELECT COUNT(*) FROM enrolments en WHERE en.workshop_id = workshops.id AND en.status = 'enrolled') as enrolledCount,
+        (SELECT COUNT(*) FROM waitlist wl WHERE wl.workshop_id = workshops.id) as waitlistCount
+    `;
+    let fromWhere = 'FROM workshops WHERE 1 = 1';
+    const params = [];
+    
+    if (userId) {
+      fromWhere += ' AND user_id = ?';
+      params.push(userId);
+    }
+    if (eventId) {
+      fromWhere += ' AND event_id = ?';
+      params.push(eventId);
+    }
+    if (scannerId) {
+      fromWhere += ` AND id IN ${SCANNER_WORKSHOPS_SQL}`;
+      params.push(scannerId, scannerId);
+    }
+    if (query.search) {
+      const pattern = containsPattern(query.search);
+      fromWhere += " AND (name LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\' OR location LIKE ? ESCAPE '\\')";
+      params.push(pattern, pattern, pattern);
+    }
+    if (query.isVip !== undefined) {
+      fromWhere += ' AND COALESCE(is_vip, 0) = ?';
+      params.push(query.isVip ? 1 : 0);
+    }
+    // Workshops without a start time fall back to their date
+    if (query.from) {
+      fromWhere += " AND substr(COALESCE(start_time, date), 1, 10) >= ?";
+      params.push(query.from);
+    }
+    if (query.to) {
+      fromWhere += " AND substr(COALESCE(start_time, date), 1, 10) <= ?";
+      params.push(query.to);
+    }
+    
+    const orderBy = listOrderSql(query, WORKSHOP_SORT_SQL, 'startTime', 'id');
+    return listAsync(select, fromWhere, params, orderBy, query);
+  },
   
   // Get workshop by ID
-  getWorkshopById: (id, userId = null) => {
+  getWorkshopById: (id, userId = null, scannerId = null) => {
     return new Promise((resolve, reject) => {
-      const query = userId
-        ? 'SELECT * FROM workshops WHERE id = ? AND user_id = ?'
-        : 'SELECT * FROM workshops WHERE id = ?';
+      let query = 'SELECT * FROM workshops WHERE id = ?';
+      const params = [id];
       
-      const params = userId ? [id, userId] : [id];
+      if (userId) {
+        query += ' AND user_id = ?';
+        params.push(userId);
+      }
+      if (scannerId) {
+        query += ` AND id IN ${SCANNER_WORKSHOPS_SQL}`;
+        params.push(scannerId, scannerId);
+      }
       
       db.get(query, params, (err, workshop) => {
         if (err) reject(err);
@@ -129,16 +903,26 @@ const workshopDb = {
   
   // Create a new workshop
   createWorkshop: (workshopData) => {
-    const { name, description, date, location, userId, isVip = false, maxCapacity = null } = workshopData;
-    const id = uuidv4();
+    const {
+      name, description, date, location, userId, eventId, isVip = false, maxCapacity = null, minDwellMinutes = null,
+      startTime = null, endTime = null, timezone = null, checkinOpensMinutes = DEFAULT_CHECKIN_OPENS_MINUTES, checkinClosesMinutes = DEFAULT_CHECKIN_CLOSES_MINUTES,
+      dynamicQr = false
+    } = workshopData;
+    const id = crypto.randomUUID();
     
     return new Promise((resolve, reject) => {
       db.run(
-        'INSERT INTO workshops (id, name, description, date, location, user_id, created_at, updated_at, is_vip, max_capacity) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [id, name, description, date, location, userId, new Date().toISOString(), new Date().toISOString(), isVip ? 1 : 0, maxCapacity],
+        `INSERT INTO workshops (id, name, description, date, location, user_id, event_id, created_at, updated_at, is_vip, max_capacity, min_dwell_minutes,
+          start_time, end_time, timezone, checkin_opens_minutes, checkin_closes_minutes, dynamic_qr)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, name, description, date, location, userId, eventId, new Date().toISOString(), new Date().toISOString(), isVip ? 1 : 0, maxCapacity, minDwellMinutes,
+          startTime, endTime, timezone, checkinOpensMinutes, checkinClosesMinutes, dynamicQr ? 1 : 0],
         function(err) {
           if (err) reject(err);
-          resolve({ id, name, description, date, location, userId, isVip, maxCapacity });
+          resolve({
+            id, name, description, date, location, userId, eventId, isVip, maxCapacity, minDwellMinutes,
+            startTime, endTime, timezone, checkinOpensMinutes, checkinClosesMinutes, dynamicQr: !!dynamicQr
+          });
         }
       );
     });
@@ -146,19 +930,30 @@ const workshopDb = {
   
   // Update a workshop
   updateWorkshop: (id, workshopData) => {
-    const { name, description, date, location } = workshopData;
+    const {
+      name, description, date, location, maxCapacity = null, minDwellMinutes = null,
+      startTime = null, endTime = null, timezone = null, checkinOpensMinutes = DEFAULT_CHECKIN_OPENS_MINUTES, checkinClosesMinutes = DEFAULT_CHECKIN_CLOSES_MINUTES,
+      dynamicQr = false
+    } = workshopData;
     
     return new Promise((resolve, reject) => {
       db.run(
-        'UPDATE workshops SET name = ?, description = ?, date = ?, location = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-        [name, description, date, location, id],
+        `UPDATE workshops SET name = ?, description = ?, date = ?, location = ?, max_capacity = ?, min_dwell_minutes = ?,
+          start_time = ?, end_time = ?, timezone = ?, checkin_opens_minutes = ?, checkin_closes_minutes = ?, dynamic_qr = ?,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?`,
+        [name, description, date, location, maxCapacity, minDwellMinutes, startTime, endTime, timezone, checkinOpensMinutes, checkinClosesMinutes,
+          dynamicQr ? 1 : 0, id],
         function(err) {
           if (err) reject(err);
           if (this.changes === 0) {
             reject(new Error('Workshop not found'));
             return;
           }
-          resolve({ id, name, description, date, location });
+          resolve({
+            id, name, description, date, location, maxCapacity, minDwellMinutes,
+            startTime, endTime, timezone, checkinOpensMinutes, checkinClosesMinutes, dynamicQr: !!dynamicQr
+          });
         }
       );
     });
@@ -166,35 +961,82 @@ const workshopDb = {
   
   // Delete a workshop
   deleteWorkshop: (id) => {
-    return new Promise((resolve, reject) => {
-      db.run('DELETE FROM workshops WHERE id = ?', [id], function(err) {
-        if (err) reject(err);
-        if (this.changes === 0) {
-          reject(new Error('Workshop not found'));
-          return;
-        }
-        resolve({ id });
-      });
+    return withTransaction(async ({ run }) => {
+      // vip_access rows do not cascade, so clear them first
+      await run('DELETE FROM vip_access WHERE workshop_id = ?', [id]);
+      const { changes } = await run('DELETE FROM workshops WHERE id = ?', [id]);
+      if (changes === 0) {
+        throw new Error('Workshop not found');
+      }
+      return { id };
     });
   }
 };
 
 // Guest-related database operations
+// SQL and default order of each sort key of the guest list
+const GUEST_SORT_SQL = {
+  name: ['g.name COLLATE NOCASE', 'asc'],
+  email: ['g.email COLLATE NOCASE', 'asc'],
+  organization: ['g.organization COLLATE NOCASE', 'asc'],
+  createdAt: ['g.created_at', 'desc']
+};
+
+// Rewrite a guest's row in the search index from the guests table, or remove it once the guest is gone
+const reindexGuest = async (guestId) => {
+  await runAsync('DELETE FROM guests_fts WHERE guest_id = ?', [guestId]);
+  const guest = await getAsync('SELECT name, email, organization FROM guests WHERE id = ?', [guestId]);
+  if (guest) {
+    await runAsync(
+      'INSERT INTO guests_fts (guest_id, name, email, organization) VALUES (?, ?, ?, ?)',
+      [guestId, foldSearchText(guest.name), foldSearchText(guest.email), foldSearchText(guest.organization)]
+    );
+  }
+};
+
+// Rank of a search match; a match in the name counts most, then the email, then the organization
+const GUEST_SEARCH_RANK_SQL = 'bm25(guests_fts, 0, 10, 5, 2)';
+
 const guestDb = {
-  // Get all guests
-  getAllGuests: (userId = null) => {
-    return new Promise((resolve, reject) => {
-      const query = userId 
-        ? 'SELECT * FROM guests WHERE user_id = ? ORDER BY name ASC' 
-        : 'SELECT * FROM guests ORDER BY name ASC';
-      
-      const params = userId ? [userId] : [];
-      
-      db.all(query, params, (err, guests) => {
-        if (err) reject(err);
-        resolve(guests);
-      });
-    });
+  // Get all guests, or a page of them, searched, filtered and sorted as in the list query
+  getAllGuests: (userId = null, eventId = null, scannerId = null, query = {}) => {
+    let fromWhere = eventId
+      ? 'FROM guests g JOIN event_guests eg ON eg.guest_id = g.id WHERE eg.event_id = ?'
+      : 'FROM guests g WHERE 1 = 1';
+    const params = eventId ? [eventId] : [];
+    
+    if (userId) {
+      fromWhere += ' AND g.user_id = ?';
+      params.push(userId);
+    }
+    if (scannerId) {
+      fromWhere += ` AND g.id IN ${SCANNER_GUESTS_SQL}`;
+      params.push(scannerId, scannerId, scannerId, scannerId);
+    }
+    if (query.search) {
+      const pattern = containsPattern(query.search);
+      fromWhere += " AND (g.name LIKE ? ESCAPE '\\' OR g.email LIKE ? ESCAPE '\\' OR g.organization LIKE ? ESCAPE '\\')";
+      params.push(pattern, pattern, pattern);
+    }
+    if (query.isVip !== undefined) {
+      fromWhere += ' AND COALESCE(g.is_vip, 0) = ?';
+      params.push(query.isVip ? 1 : 0);
+    }
+    if (query.organization) {
+      fromWhere += ' AND g.organization = ? COLLATE NOCASE';
+      params.push(query.organization);
+    }
+    if (query.workshopId) {
+      fromWhere += ' AND g.id IN (SELECT en.guest_id FROM enrolments en WHERE en.workshop_id = ?)';
+      params.push(query.workshopId);
+    }
+    if (query.excludeEventId) {
+      fromWhere += ' AND g.id NOT IN (SELECT xg.guest_id FROM event_guests xg WHERE xg.event_id = ?)';
+      params.push(query.excludeEventId);
+    }
+    
+    const orderBy = listOrderSql(query, GUEST_SORT_SQL, 'name', 'g.id');
+    return listAsync('SELECT g.*', fromWhere, params, orderBy, query);
   },
   
   // Get guest by ID
@@ -213,32 +1055,44 @@ const guestDb = {
     });
   },
   
-  // Get guest by QR code
-  getGuestByQRCode: (qrCode, userId = null) => {
+  // Get guest by QR code; forged, revoked and replaced codes match nobody
+  getGuestByQRCode: (qrCode, userId = null, scannerId = null) => {
     return new Promise((resolve, reject) => {
-      const query = userId
-        ? 'SELECT * FROM guests WHERE qr_code = ? AND user_id = ?'
-        : 'SELECT * FROM guests WHERE qr_code = ?';
+      const parsed = parseQrCode(qrCode);
+      if (!parsed) {
+        resolve(undefined);
+        return;
+      }
+      
+      let query = 'SELECT * FROM guests WHERE id = ?';
+      const params = [parsed.guestId];
       
-      const params = userId ? [qrCode, userId] : [qrCode];
+      if (userId) {
+        query += ' AND user_id = ?';
+        params.push(userId);
+      }
+      if (scannerId) {
+        query += ` AND id IN ${SCANNER_GUESTS_SQL}`;
+        params.push(scannerId, scannerId, scannerId, scannerId);
+      }
       
       db.get(query, params, (err, guest) => {
         if (err) reject(err);
-        resolve(guest);
+        resolve(guest && !getQrCodeProblem(guest, qrCode) ? guest : undefined);
       });
     });
   },
   
   // Create a new guest
   createGuest: (guestData) => {
-    const { name, email, organization, userId, isVip } = guestData;
-    const id = uuidv4();
-    const qrCode = `guest-${id}`; // Generate QR code using the ID format required by the frontend
+    const { name, email, organization, userId, eventId, isVip } = guestData;
+    const id = crypto.randomUUID();
+    const qrCode = issueQrCode(id, 1);
     
-    return new Promise((resolve, reject) => {
+    const created = new Promise((resolve, reject) => {
       db.run(
-        'INSERT INTO guests (id, name, email, qr_code, user_id, is_vip) VALUES (?, ?, ?, ?, ?, ?)',
-        [id, name, email || '', qrCode, userId, isVip || 0],
+        'INSERT INTO guests (id, name, email, organization, qr_code, qr_serial, user_id, is_vip) VALUES (?, ?, ?, ?, ?, 1, ?, ?)',
+        [id, name, email || '', organization || null, qrCode, userId, isVip || 0],
         function(err) {
           if (err) {
             // Check for duplicate email
@@ -249,28 +1103,39 @@ const guestDb = {
             reject(err);
             return;
           }
-          resolve({ 
+          const guest = { 
             id, 
             name, 
             email, 
             qr_code: qrCode, 
             organization, 
             userId,
+            eventId,
             isVip: !!isVip
+          };
+          if (!eventId) {
+            resolve(guest);
+            return;
+          }
+          // Put the new guest on the event's roster
+          db.run('INSERT OR IGNORE INTO event_guests (event_id, guest_id) VALUES (?, ?)', [eventId, id], (err) => {
+            if (err) reject(err);
+            else resolve(guest);
           });
         }
       );
     });
+    return created.then(guest => reindexGuest(id).then(() => guest));
   },
   
   // Update a guest
   updateGuest: (id, guestData) => {
     const { name, email, organization, isVip } = guestData;
     
-    return new Promise((resolve, reject) => {
+    const updated = new Promise((resolve, reject) => {
       db.run(
-        'UPDATE guests SET name = ?, email = ?, is_vip = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-        [name, email, isVip || 0, id],
+        'UPDATE guests SET name = ?, email = ?, organization = ?, is_vip = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [name, email, organization || null, isVip || 0, id],
         function(err) {
           if (err) {
             // Check for duplicate email
@@ -295,48 +1160,411 @@ const guestDb = {
         }
       );
     });
+    return updated.then(guest => reindexGuest(id).then(() => guest));
   },
   
-  // Delete a guest
-  deleteGuest: (id) => {
+  // Revoke a guest's QR code so it no longer checks them in
+  revokeGuestQrCode: (id) => {
     return new Promise((resolve, reject) => {
-      db.run('DELETE FROM guests WHERE id = ?', [id], function(err) {
-        if (err) reject(err);
+      db.run('UPDATE guests SET qr_revoked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [id], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
         if (this.changes === 0) {
           reject(new Error('Guest not found'));
           return;
         }
-        resolve({ id });
+        guestDb.getGuestById(id).then(resolve, reject);
       });
     });
+  },
+  
+  // Issue a new signed QR code, replacing (and so invalidating) the current one
+  reissueGuestQrCode: (id) => {
+    return withTransaction(async ({ run, get }) => {
+      const guest = await get('SELECT qr_serial FROM guests WHERE id = ?', [id]);
+      if (!guest) {
+        throw new Error('Guest not found');
+      }
+      
+      const serial = guest.qr_serial + 1;
+      await run(
+        'UPDATE guests SET qr_code = ?, qr_serial = ?, qr_revoked_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [issueQrCode(id, serial), serial, id]
+      );
+      return get('SELECT * FROM guests WHERE id = ?', [id]);
+    });
+  },
+  
+  // Delete a guest
+  deleteGuest: (id) => {
+    return withTransaction(async ({ run }) => {
+      // vip_access rows do not cascade, so clear them first
+      await run('DELETE FROM vip_access WHERE guest_id = ?', [id]);
+      const { changes } = await run('DELETE FROM guests WHERE id = ?', [id]);
+      if (changes === 0) {
+        throw new Error('Guest not found');
+      }
+      await run('DELETE FROM guests_fts WHERE guest_id = ?', [id]);
+      return { id };
+    });
+  },
+  
+  // Guests with a word in their name, email or organization starting with each word
+  // of the search, best matches first. Admins find their own guests, scanners those they may scan
+  searchGuests: (search, { userId = null, eventId = null, scannerId = null, limit }) => {
+    const match = toMatchQuery(search);
+    if (!match) {
+      return Promise.resolve([]);
+    }
+    
+    let query = `
+      SELECT g.* FROM guests_fts f
+      JOIN guests g ON g.id = f.guest_id
+      WHERE guests_fts MATCH ?
+    `;
+    const params = [match];
+    
+    if (userId) {
+      query += ' AND g.user_id = ?';
+      params.push(userId);
+    }
+    if (eventId) {
+      query += ' AND g.id IN (SELECT eg.guest_id FROM event_guests eg WHERE eg.event_id = ?)';
+      params.push(eventId);
+    }
+    if (scannerId) {
+      query += ` AND g.id IN ${SCANNER_GUESTS_SQL}`;
+      params.push(scannerId, scannerId, scannerId, scannerId);
+    }
+    
+    query += ` ORDER BY ${GUEST_SEARCH_RANK_SQL}, g.name COLLATE NOCASE LIMIT ?`;
+    params.push(limit);
+    
+    return allAsync(query, params);
   }
 };
 
-// Attendance-related database operations
-const attendanceDb = {
-  // Get all attendance records
-  getAllAttendance: (userId = null) => {
+// Number of seats in use in a workshop aliased `w`: enrolled guests hold one whether
+// or not they arrived, and every other guest who checked in takes one. No-shows give
+// up their seat. Enrolment, the waitlist and check-in all count seats this way
+const SEATS_TAKEN_SQL = `(
+  (SELECT COUNT(*) FROM enrolments s WHERE s.workshop_id = w.id AND s.status = 'enrolled')
+  + (SELECT COUNT(*) FROM attendance sa WHERE sa.workshop_id = w.id AND NOT EXISTS (
+      SELECT 1 FROM enrolments se
+      WHERE se.workshop_id = sa.workshop_id AND se.guest_id = sa.guest_id AND se.status = 'enrolled'
+    ))
+)`;
+
+// Move the first waitlisted guest of a workshop into a free seat, inside an open transaction
+// Resolves with the promoted guest IDs (empty when nobody was promoted)
+const promoteNextFromWaitlist = async ({ run, all }, workshopId) => {
+  await run(
+    `INSERT OR IGNORE INTO enrolments (guest_id, workshop_id)
+     SELECT wl.guest_id, wl.workshop_id FROM waitlist wl
+     JOIN workshops w ON w.id = wl.workshop_id
+     WHERE wl.workshop_id = ? AND (w.max_capacity IS NULL OR ${SEATS_TAKEN_SQL} < w.max_capacity)
+     ORDER BY wl.position ASC
+     LIMIT 1`,
+    [workshopId]
+  );
+  const promoted = await all(
+    `SELECT wl.guest_id FROM waitlist wl
+     JOIN enrolments en ON en.guest_id = wl.guest_id AND en.workshop_id = wl.workshop_id
+     WHERE wl.workshop_id = ?`,
+    [workshopId]
+  );
+  await run(
+    'DELETE FROM waitlist WHERE workshop_id = ? AND guest_id IN (SELECT guest_id FROM enrolments WHERE workshop_id = ?)',
+    [workshopId, workshopId]
+  );
+  return promoted.map(row => row.guest_id);
+};
+
+// Enrolment-related database operations
+const enrolmentDb = {
+  // Enrol a guest in a workshop, or add them to its waitlist when it is full
+  // Resolves with the resulting status ('enrolled', 'no-show' or 'waitlisted')
+  enrolGuest: (guestId, workshopId) => {
+    return withTransaction(async ({ run, get }) => {
+      // Take a seat when one is free
+      await run(
+        `INSERT OR IGNORE INTO enrolments (guest_id, workshop_id)
+         SELECT ?, w.id FROM workshops w
+         WHERE w.id = ? AND (w.max_capacity IS NULL OR ${SEATS_TAKEN_SQL} < w.max_capacity)`,
+        [guestId, workshopId]
+      );
+      // Otherwise join the end of the waitlist
+      await run(
+        `INSERT OR IGNORE INTO waitlist (guest_id, workshop_id, position)
+         SELECT ?, ?, (SELECT COALESCE(MAX(position), 0) + 1 FROM waitlist WHERE workshop_id = ?)
+         WHERE NOT EXISTS (SELECT 1 FROM enrolments WHERE guest_id = ? AND workshop_id = ?)`,
+        [guestId, workshopId, workshopId, guestId, workshopId]
+      );
+      // A waitlisted guest who just got a seat leaves the waitlist
+      await run(
+        `DELETE FROM waitlist WHERE guest_id = ? AND workshop_id = ?
+         AND EXISTS (SELECT 1 FROM enrolments WHERE guest_id = ? AND workshop_id = ?)`,
+        [guestId, workshopId, guestId, workshopId]
+      );
+      const row = await get(
+        `SELECT status, NULL as position FROM enrolments WHERE guest_id = ? AND workshop_id = ?
+         UNION ALL
+         SELECT 'waitlisted', (SELECT COUNT(*) FROM waitlist o WHERE o.workshop_id = wl.workshop_id AND o.position <= wl.position)
+         FROM waitlist wl WHERE wl.guest_id = ? AND wl.workshop_id = ?`,
+        [guestId, workshopId, guestId, workshopId]
+      );
+      return { guestId, workshopId, status: row.status, position: row.position };
+    });
+  },
+  
+  // Remove a guest's enrolment or waitlist entry from a workshop
+  unenrolGuest: (guestId, workshopId) => {
+    return withTransaction(async ({ run }) => {
+      await run('DELETE FROM waitlist WHERE guest_id = ? AND workshop_id = ?', [guestId, workshopId]);
+      await run('DELETE FROM enrolments WHERE guest_id = ? AND workshop_id = ?', [guestId, workshopId]);
+    });
+  },
+  
+  // Mark an enrolled guest as a no-show, releasing their seat
+  markNoShow: (guestId, workshopId) => {
+    return new Promise((resolve, reject) => {
+      db.run(
+        "UPDATE enrolments SET status = 'no-show' WHERE guest_id = ? AND workshop_id = ? AND status = 'enrolled'",
+        [guestId, workshopId],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  },
+  
+  // Fill free seats of a workshop from its waitlist, in waitlist order
+  promoteFromWaitlist: (workshopId) => {
+    return withTransaction(async (tx) => {
+      const promoted = [];
+      let next = await promoteNextFromWaitlist(tx, workshopId);
+      while (next.length > 0) {
+        promoted.push(...next);
+        next = await promoteNextFromWaitlist(tx, workshopId);
+      }
+      return promoted;
+    });
+  },
+  
+  // Get an enrolment row
+  getEnrolment: (guestId, workshopId) => {
+    return new Promise((resolve, reject) => {
+      db.get(
+        'SELECT * FROM enrolments WHERE guest_id = ? AND workshop_id = ?',
+        [guestId, workshopId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row);
+        }
+      );
+    });
+  },
+  
+  // Get guests enrolled in a workshop
+  getWorkshopEnrolments: (workshopId) => {
+    return new Promise((resolve, reject) => {
+      db.all(
+        `SELECT g.*, g.is_vip as isVip, en.status as enrolmentStatus FROM guests g
+         INNER JOIN enrolments en ON en.guest_id = g.id
+         WHERE en.workshop_id = ?
+         ORDER BY g.name ASC`,
+        [workshopId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  },
+  
+  // Get the waitlist of a workshop in order
+  getWorkshopWaitlist: (workshopId) => {
+    return new Promise((resolve, reject) => {
+      db.all(
+        `SELECT g.*, g.is_vip as isVip FROM guests g
+         INNER JOIN waitlist wl ON wl.guest_id = g.id
+         WHERE wl.workshop_id = ?
+         ORDER BY wl.position ASC`,
+        [workshopId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows || []).map((row, index) => ({ ...row, waitlistPosition: index + 1 })));
+        }
+      );
+    });
+  },
+  
+  // Rewrite the waitlist order of a workshop; guestIds lists every waitlisted guest
+  reorderWaitlist: (workshopId, guestIds) => {
+    return withTransaction(async ({ run }) => {
+      for (const [index, guestId] of guestIds.entries()) {
+        await run('UPDATE waitlist SET position = ? WHERE workshop_id = ? AND guest_id = ?', [index + 1, workshopId, guestId]);
+      }
+    });
+  },
+  
+  // Get workshops a guest is enrolled in
+  getGuestEnrolments: (guestId, eventId = null) => {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT w.*, w.is_vip as isVip, w.max_capacity as maxCapacity, w.event_id as eventId, en.status as enrolmentStatus
+        FROM workshops w
+        INNER JOIN enrolments en ON en.workshop_id = w.id
+        WHERE en.guest_id = ?
+        ${eventId ? 'AND w.event_id = ?' : ''}
+        ORDER BY w.start_time ASC, w.date ASC
+      `;
+      
+      const params = eventId ? [guestId, eventId] : [guestId];
+      
+      db.all(query, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows || []);
+      });
+    });
+  },
+  
+  // Get workshops a guest is waiting for, with their place in each waitlist
+  getGuestWaitlist: (guestId, eventId = null) => {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT w.*, w.is_vip as isVip, w.max_capacity as maxCapacity, w.event_id as eventId,
+          (SELECT COUNT(*) FROM waitlist o WHERE o.workshop_id = wl.workshop_id AND o.position <= wl.position) as waitlistPosition
+        FROM workshops w
+        INNER JOIN waitlist wl ON wl.workshop_id = w.id
+        WHERE wl.guest_id = ?
+        ${eventId ? 'AND w.event_id = ?' : ''}
+        ORDER BY w.start_time ASC, w.date ASC
+      `;
+      
+      const params = eventId ? [guestId, eventId] : [guestId];
+      
+      db.all(query, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows || []);
+      });
+    });
+  },
+  
+  // Get every enrolment of a user's workshops
+  getAllEnrolments: (userId = null, eventId = null) => {
     return new Promise((resolve, reject) => {
       let query = `
-        SELECT a.* 
-        FROM attendance a
-        JOIN workshops w ON a.workshop_id = w.id
-        JOIN guests g ON a.guest_id = g.id
+        SELECT en.guest_id as guestId, en.workshop_id as workshopId, en.status, en.created_at
+        FROM enrolments en
+        JOIN workshops w ON en.workshop_id = w.id
+        WHERE 1 = 1
       `;
+      const params = [];
       
       if (userId) {
-        query += ' WHERE w.user_id = ? OR g.user_id = ?';
+        query += ' AND w.user_id = ?';
+        params.push(userId);
+      }
+      if (eventId) {
+        query += ' AND w.event_id = ?';
+        params.push(eventId);
       }
       
-      query += ' ORDER BY a.timestamp DESC';
-      
-      const params = userId ? [userId, userId] : [];
-      
-      db.all(query, params, (err, records) => {
+      db.all(query, params, (err, rows) => {
         if (err) reject(err);
-        resolve(records);
+        else resolve(rows || []);
       });
     });
+  }
+};
+
+// Minutes between check-in and check-out of an attendance row aliased `a`;
+// NULL until the guest has checked out
+const DWELL_MINUTES_SQL = '(julianday(a.checked_out_at) - julianday(a.timestamp)) * 1440';
+
+// An attendance counts towards eligibility when its workshop has no minimum
+// dwell time, or the guest checked out after staying at least that long
+const QUALIFYING_ATTENDANCE_SQL = `(
+  w.min_dwell_minutes IS NULL OR w.min_dwell_minutes <= 0
+  OR (a.checked_out_at IS NOT NULL AND ${DWELL_MINUTES_SQL} >= w.min_dwell_minutes)
+)`;
+
+// Attendance-related database operations
+// SQL and default order of each sort key of the attendance list
+const ATTENDANCE_SORT_SQL = {
+  timestamp: ['a.timestamp', 'desc'],
+  guestName: ['g.name COLLATE NOCASE', 'asc'],
+  workshopName: ['w.name COLLATE NOCASE', 'asc'],
+  dwellMinutes: [DWELL_MINUTES_SQL, 'desc']
+};
+
+const attendanceDb = {
+  // Get all attendance records, or a page of them, searched, filtered and sorted as in the list query.
+  // Records carry their guest's and workshop's names so lists need not look them up
+  getAllAttendance: (userId = null, eventId = null, scannerId = null, query = {}) => {
+    const select = `
+      SELECT a.*, ROUND(${DWELL_MINUTES_SQL}, 1) as dwell_minutes, ou.username as vip_override_username,
+        mu.username as manual_by_username, g.name as guest_name, g.email as guest_email, w.name as workshop_name
+    `;
+    let fromWhere = `
+      FROM attendance a
+      JOIN workshops w ON a.workshop_id = w.id
+      JOIN guests g ON a.guest_id = g.id
+      LEFT JOIN users ou ON a.vip_override_by = ou.id
+      LEFT JOIN users mu ON a.manual_by = mu.id
+      WHERE 1 = 1
+    `;
+    const params = [];
+    
+    if (userId) {
+      fromWhere += ' AND (w.user_id = ? OR g.user_id = ?)';
+      params.push(userId, userId);
+    }
+    if (eventId) {
+      fromWhere += ' AND w.event_id = ?';
+      params.push(eventId);
+    }
+    if (scannerId) {
+      fromWhere += ` AND w.id IN ${SCANNER_WORKSHOPS_SQL}`;
+      params.push(scannerId, scannerId);
+    }
+    if (query.search) {
+      const pattern = containsPattern(query.search);
+      fromWhere += " AND (g.name LIKE ? ESCAPE '\\' OR g.email LIKE ? ESCAPE '\\' OR w.name LIKE ? ESCAPE '\\')";
+      params.push(pattern, pattern, pattern);
+    }
+    if (query.isVip !== undefined) {
+      fromWhere += ' AND COALESCE(g.is_vip, 0) = ?';
+      params.push(query.isVip ? 1 : 0);
+    }
+    if (query.organization) {
+      fromWhere += ' AND g.organization = ? COLLATE NOCASE';
+      params.push(query.organization);
+    }
+    if (query.workshopId) {
+      fromWhere += ' AND a.workshop_id = ?';
+      params.push(query.workshopId);
+    }
+    if (query.guestId) {
+      fromWhere += ' AND a.guest_id = ?';
+      params.push(query.guestId);
+    }
+    // Days of check-in timestamps, which are stored in UTC
+    if (query.from) {
+      fromWhere += ' AND substr(a.timestamp, 1, 10) >= ?';
+      params.push(query.from);
+    }
+    if (query.to) {
+      fromWhere += ' AND substr(a.timestamp, 1, 10) <= ?';
+      params.push(query.to);
+    }
+    
+    const orderBy = listOrderSql(query, ATTENDANCE_SORT_SQL, 'timestamp', 'a.id');
+    return listAsync(select, fromWhere, params, orderBy, query);
   },
   
   // Check if attendance record exists
@@ -352,15 +1580,50 @@ const attendanceDb = {
     });
   },
   
+  // Get an attendance record by ID, if its workshop belongs to the admin or is assigned to the scanner
+  getAttendanceById: (id, userId = null, scannerId = null) => {
+    return new Promise((resolve, reject) => {
+      let query = 'SELECT a.* FROM attendance a JOIN workshops w ON a.workshop_id = w.id WHERE a.id = ?';
+      const params = [id];
+
+      if (userId) {
+        query += ' AND w.user_id = ?';
+        params.push(userId);
+      }
+      if (scannerId) {
+        query += ` AND w.id IN ${SCANNER_WORKSHOPS_SQL}`;
+        params.push(scannerId, scannerId);
+      }
+
+      db.get(query, params, (err, record) => {
+        if (err) reject(err);
+        resolve(record);
+      });
+    });
+  },
+
+  // Delete an attendance record
+  deleteAttendance: (id) => {
+    return new Promise((resolve, reject) => {
+      db.run('DELETE FROM attendance WHERE id = ?', [id], function(err) {
+        if (err) reject(err);
+        resolve({ changes: this.changes });
+      });
+    });
+  },
+
   // Create a new attendance record
   createAttendance: (attendanceData) => {
-    const { guestId, workshopId, timestamp, userId } = attendanceData;
-    const id = uuidv4();
+    const {
+      guestId, workshopId, timestamp, userId, checkinStatus = null, vipOverrideBy = null, vipOverrideReason = null
+    } = attendanceData;
+    const id = crypto.randomUUID();
     
     return new Promise((resolve, reject) => {
       db.run(
-        'INSERT INTO attendance (id, guest_id, workshop_id, timestamp, created_by) VALUES (?, ?, ?, ?, ?)',
-        [id, guestId, workshopId, timestamp, userId],
+        `INSERT INTO attendance (id, guest_id, workshop_id, timestamp, created_by, checkin_status, vip_override_by, vip_override_reason)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, guestId, workshopId, timestamp, userId, checkinStatus, vipOverrideBy, vipOverrideReason],
         function(err) {
           if (err) {
             // Check for unique constraint
@@ -371,24 +1634,48 @@ const attendanceDb = {
             reject(err);
             return;
           }
-          resolve({ id, guestId, workshopId, timestamp, createdBy: userId });
+          resolve({ id, guestId, workshopId, timestamp, createdBy: userId, checkinStatus, vipOverrideBy, vipOverrideReason });
+        }
+      );
+    });
+  },
+  
+  // Record when a guest left a workshop
+  checkOutAttendance: (id, checkedOutAt) => {
+    return new Promise((resolve, reject) => {
+      db.run(
+        'UPDATE attendance SET checked_out_at = ? WHERE id = ? AND checked_out_at IS NULL',
+        [checkedOutAt, id],
+        function(err) {
+          if (err) {
+            reject(err);
+            return;
+          }
+          if (this.changes === 0) {
+            reject(new Error('Guest already checked out'));
+            return;
+          }
+          resolve({ id, checkedOutAt });
         }
       );
     });
   },
   
   // Get workshops attended by a guest
-  getGuestAttendance: (guestId) => {
+  getGuestAttendance: (guestId, eventId = null) => {
     return new Promise((resolve, reject) => {
       const query = `
         SELECT w.* 
         FROM workshops w
         JOIN attendance a ON w.id = a.workshop_id
         WHERE a.guest_id = ?
+        ${eventId ? 'AND w.event_id = ?' : ''}
         ORDER BY w.date ASC
       `;
       
-      db.all(query, [guestId], (err, workshops) => {
+      const params = eventId ? [guestId, eventId] : [guestId];
+      
+      db.all(query, params, (err, workshops) => {
         if (err) reject(err);
         resolve(workshops);
       });
@@ -414,7 +1701,7 @@ const attendanceDb = {
   },
   
   // Get recent check-ins
-  getRecentCheckIns: (userId, count = 5) => {
+  getRecentCheckIns: (userId, count = 5, eventId = null) => {
     return new Promise((resolve, reject) => {
       const query = `
         SELECT a.*, g.name as guest_name, w.name as workshop_name
@@ -422,25 +1709,96 @@ const attendanceDb = {
         JOIN workshops w ON a.workshop_id = w.id
         JOIN guests g ON a.guest_id = g.id
         WHERE w.user_id = ?
+        ${eventId ? 'AND w.event_id = ?' : ''}
         ORDER BY a.timestamp DESC
         LIMIT ?
       `;
       
-      db.all(query, [userId, count], (err, records) => {
+      const params = eventId ? [userId, eventId, count] : [userId, count];
+      
+      db.all(query, params, (err, records) => {
         if (err) reject(err);
         resolve(records);
       });
     });
+  },
+  
+  // Get a guest's dwell time in each workshop they attended
+  getGuestDwellTimes: (guestId, eventId = null) => {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT a.workshop_id, w.name as workshop_name, a.timestamp, a.checked_out_at,
+          ROUND(${DWELL_MINUTES_SQL}, 1) as dwell_minutes,
+          w.min_dwell_minutes,
+          ${QUALIFYING_ATTENDANCE_SQL} as qualifies
+        FROM attendance a
+        JOIN workshops w ON a.workshop_id = w.id
+        WHERE a.guest_id = ?
+        ${eventId ? 'AND w.event_id = ?' : ''}
+        ORDER BY a.timestamp ASC
+      `;
+      
+      const params = eventId ? [guestId, eventId] : [guestId];
+      
+      db.all(query, params, (err, rows) => {
+        if (err) reject(err);
+        resolve(rows);
+      });
+    });
+  },
+  
+  // Get the dwell time of every guest who attended a workshop
+  getWorkshopDwellTimes: (workshopId) => {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT a.guest_id, g.name as guest_name, a.timestamp, a.checked_out_at,
+          ROUND(${DWELL_MINUTES_SQL}, 1) as dwell_minutes,
+          ${QUALIFYING_ATTENDANCE_SQL} as qualifies
+        FROM attendance a
+        JOIN workshops w ON a.workshop_id = w.id
+        JOIN guests g ON a.guest_id = g.id
+        WHERE a.workshop_id = ?
+        ORDER BY g.name ASC
+      `;
+      
+      db.all(query, [workshopId], (err, rows) => {
+        if (err) reject(err);
+        resolve(rows);
+      });
+    });
   }
 };
 
+// Whether workshop `w` (with its event joined as `e`) counts towards the
+// attendance percentage of the guest bound to the placeholder: events on the
+// enrolled basis only count the workshops the guest is enrolled in
+const COUNTED_WORKSHOP_SQL = `(
+  w.event_id IS NULL OR e.attendance_basis = 'all-workshops'
+  OR EXISTS (SELECT 1 FROM enrolments en WHERE en.workshop_id = w.id AND en.guest_id = ?)
+)`;
+
 // Analytics-related database operations
 const analyticsDb = {
   // Calculate guest attendance percentage
-  calculateGuestAttendancePercentage: (guestId, userId) => {
+  // When an event is given, only that event's workshops count. With
+  // requireMinDwell, attendances shorter than the workshop's minimum dwell
+  // time are left out.
+  calculateGuestAttendancePercentage: (guestId, userId, eventId = null, requireMinDwell = false) => {
     return new Promise((resolve, reject) => {
-      // First, get total workshops for this user
-      db.get('SELECT COUNT(*) as total FROM workshops WHERE user_id = ?', [userId], (err, workshopResult) => {
+      const scope = eventId
+        ? `w.user_id = ? AND w.event_id = ? AND ${COUNTED_WORKSHOP_SQL}`
+        : `w.user_id = ? AND ${COUNTED_WORKSHOP_SQL}`;
+      const scopeParams = eventId ? [userId, eventId, guestId] : [userId, guestId];
+      
+      // First, get total workshops in scope
+      const totalQuery = `
+        SELECT COUNT(*) as total
+        FROM workshops w
+        LEFT JOIN events e ON e.id = w.event_id
+        WHERE ${scope}
+      `;
+      
+      db.get(totalQuery, scopeParams, (err, workshopResult) => {
         if (err) {
           reject(err);
           return;
@@ -458,10 +1816,12 @@ const analyticsDb = {
           SELECT COUNT(*) as attended 
           FROM attendance a
           JOIN workshops w ON a.workshop_id = w.id
-          WHERE a.guest_id = ? AND w.user_id = ?
+          LEFT JOIN events e ON e.id = w.event_id
+          WHERE a.guest_id = ? AND ${scope}
+          ${requireMinDwell ? `AND ${QUALIFYING_ATTENDANCE_SQL}` : ''}
         `;
         
-        db.get(query, [guestId, userId], (err, attendanceResult) => {
+        db.get(query, [guestId, ...scopeParams], (err, attendanceResult) => {
           if (err) {
             reject(err);
             return;
@@ -477,34 +1837,40 @@ const analyticsDb = {
   },
   
   // Calculate workshop attendance percentage
+  // The denominator is the workshop's enrolled guests on the enrolled basis,
+  // the event roster on the all-workshops basis, and every guest of the user
+  // for workshops without an event
   calculateWorkshopAttendancePercentage: (workshopId, userId) => {
     return new Promise((resolve, reject) => {
-      // First, get total guests for this user
-      db.get('SELECT COUNT(*) as total FROM guests WHERE user_id = ?', [userId], (err, guestResult) => {
+      const query = `
+        SELECT
+          COUNT(g.id) as total,
+          COUNT(a.id) as attended
+        FROM workshops w
+        LEFT JOIN events e ON e.id = w.event_id
+        JOIN guests g ON g.user_id = ? AND (
+          w.event_id IS NULL
+          OR (e.attendance_basis = 'all-workshops'
+            AND g.id IN (SELECT guest_id FROM event_guests WHERE event_id = w.event_id))
+          OR (e.attendance_basis = 'enrolled'
+            AND g.id IN (SELECT guest_id FROM enrolments WHERE workshop_id = w.id))
+        )
+        LEFT JOIN attendance a ON a.workshop_id = w.id AND a.guest_id = g.id
+        WHERE w.id = ?
+      `;
+      
+      db.get(query, [userId, workshopId], (err, result) => {
         if (err) {
           reject(err);
           return;
         }
         
-        const totalGuests = guestResult.total;
-        
-        if (totalGuests === 0) {
+        if (!result || result.total === 0) {
           resolve(0); // No guests, so 0% attendance
           return;
         }
         
-        // Then, get attendance count for the workshop
-        db.get('SELECT COUNT(*) as attended FROM attendance WHERE workshop_id = ?', [workshopId], (err, attendanceResult) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-          
-          const attendedGuests = attendanceResult.attended;
-          const percentage = (attendedGuests / totalGuests) * 100;
-          
-          resolve(percentage);
-        });
+        resolve((result.attended / result.total) * 100);
       });
     });
   }
@@ -599,8 +1965,23 @@ const getGuestVipWorkshops = (guestId) => {
 module.exports = {
   db,
   userDb,
+  sessionDb,
+  apiKeyDb,
   initDb,
+  withTransaction,
+  SEATS_TAKEN_SQL,
+  SCANNER_WORKSHOPS_SQL,
+  SCANNER_GUESTS_SQL,
   // Export functions needed by the API endpoints
+  getAllEvents: eventDb.getAllEvents,
+  getEventById: eventDb.getEventById,
+  createEvent: eventDb.createEvent,
+  updateEvent: eventDb.updateEvent,
+  deleteEvent: eventDb.deleteEvent,
+  addGuestToEvent: eventDb.addGuestToEvent,
+  removeGuestFromEvent: eventDb.removeGuestFromEvent,
+  isGuestInEvent: eventDb.isGuestInEvent,
+  
   getAllWorkshops: workshopDb.getAllWorkshops,
   getWorkshopById: workshopDb.getWorkshopById,
   createWorkshop: workshopDb.createWorkshop,
@@ -610,16 +1991,36 @@ module.exports = {
   getAllGuests: guestDb.getAllGuests,
   getGuestById: guestDb.getGuestById,
   getGuestByQRCode: guestDb.getGuestByQRCode,
+  revokeGuestQrCode: guestDb.revokeGuestQrCode,
+  reissueGuestQrCode: guestDb.reissueGuestQrCode,
   createGuest: guestDb.createGuest,
   updateGuest: guestDb.updateGuest,
   deleteGuest: guestDb.deleteGuest,
+  searchGuests: guestDb.searchGuests,
+  
+  enrolGuest: enrolmentDb.enrolGuest,
+  unenrolGuest: enrolmentDb.unenrolGuest,
+  getWorkshopEnrolments: enrolmentDb.getWorkshopEnrolments,
+  getGuestEnrolments: enrolmentDb.getGuestEnrolments,
+  getAllEnrolments: enrolmentDb.getAllEnrolments,
+  getEnrolment: enrolmentDb.getEnrolment,
+  markNoShow: enrolmentDb.markNoShow,
+  promoteFromWaitlist: enrolmentDb.promoteFromWaitlist,
+  getWorkshopWaitlist: enrolmentDb.getWorkshopWaitlist,
+  getGuestWaitlist: enrolmentDb.getGuestWaitlist,
+  reorderWaitlist: enrolmentDb.reorderWaitlist,
   
   getAllAttendance: attendanceDb.getAllAttendance,
   getAttendanceRecord: attendanceDb.getAttendanceRecord,
+  getAttendanceById: attendanceDb.getAttendanceById,
+  deleteAttendance: attendanceDb.deleteAttendance,
   createAttendance: attendanceDb.createAttendance,
   getGuestAttendance: attendanceDb.getGuestAttendance,
   getWorkshopAttendees: attendanceDb.getWorkshopAttendees,
   getRecentCheckIns: attendanceDb.getRecentCheckIns,
+  checkOutAttendance: attendanceDb.checkOutAttendance,
+  getGuestDwellTimes: attendanceDb.getGuestDwellTimes,
+  getWorkshopDwellTimes: attendanceDb.getWorkshopDwellTimes,
   
   calculateGuestAttendancePercentage: analyticsDb.calculateGuestAttendancePercentage,
   calculateWorkshopAttendancePercentage: analyticsDb.calculateWorkshopAttendancePercentage,
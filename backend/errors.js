@@ -0,0 +1,88 @@
+/**
+ * API error responses
+ *
+ * Every error response is `{ error, code, ...details }`: `error` is a sentence
+ * for people and may be reworded, `code` is one of the names below and is
+ * what clients should branch on. Codes are only ever added, never renamed.
+ * Refused scans use the same codes in their `code` field (see scan.js).
+ */
+
+const ERROR_CODES = {
+  // Requests
+  VALIDATION_FAILED: 'A field is missing or has an invalid value; `fields` holds the problem of each field',
+  WEAK_PASSWORD: 'The new password breaks the password policy',
+  SERVER_ERROR: 'Something went wrong on the server',
+
+  // Signing in and sessions
+  UNAUTHENTICATED: 'No valid credentials were sent',
+  INVALID_CREDENTIALS: 'Wrong username or password',
+  TOKEN_EXPIRED: 'The access token expired; refresh it and retry',
+  SESSION_ENDED: 'The session was signed out or expired',
+  REFRESH_TOKEN_REUSED: 'An already used refresh token was sent; the session has been ended',
+  LOGIN_CHALLENGE_EXPIRED: 'The password step of a two-factor sign-in has to be repeated',
+  INVALID_TWO_FACTOR_CODE: 'Wrong authenticator or recovery code',
+  TWO_FACTOR_REQUIRED: 'The account has to set up two-factor authentication',
+  TWO_FACTOR_NOT_ENABLED: 'Two-factor authentication is not turned on',
+  TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already turned on',
+  TWO_FACTOR_SETUP_REQUIRED: 'Two-factor setup has to be started first',
+  TOO_MANY_ATTEMPTS: 'Too many failed sign-ins; wait `retryAfter` seconds',
+  PASSWORD_CHANGE_REQUIRED: 'The user has to change their password first',
+  ACCOUNT_DISABLED: 'The account has been disabled',
+  INVALID_API_KEY: 'The API key is unknown, revoked or expired',
+  API_KEY_SCOPE_MISSING: 'The API key lacks `requiredScope`',
+  API_KEY_NOT_ALLOWED: 'API keys cannot call this route',
+  API_KEY_IP_NOT_ALLOWED: 'The API key may not be used from this IP address',
+
+  // Accounts
+  FORBIDDEN: 'The user\'s role or permissions do not allow this',
+  SELF_CHANGE_NOT_ALLOWED: 'Admins cannot lock themselves out this way',
+  USERNAME_TAKEN: 'Another account has this username',
+  USER_OWNS_DATA: 'The account owns events, workshops or guests',
+  INVITE_REQUIRED: 'Registering needs an invitation',
+  INVITE_INVALID: 'The invitation is invalid, expired or already used',
+
+  // Not found
+  EVENT_NOT_FOUND: 'No such event, or not one of the user\'s',
+  WORKSHOP_NOT_FOUND: 'No such workshop, or not one of the user\'s',
+  GUEST_NOT_FOUND: 'No such guest, or not one of the user\'s',
+  USER_NOT_FOUND: 'No such user',
+  SESSION_NOT_FOUND: 'No such session',
+  INVITE_NOT_FOUND: 'No such invitation',
+  API_KEY_NOT_FOUND: 'No such API key',
+  ATTENDANCE_NOT_FOUND: 'No such attendance record',
+  PASS_NOT_FOUND: 'No such guest pass',
+  PASS_REVOKED: 'The guest pass has been revoked',
+
+  // Enrolments, waitlists and VIP workshops
+  NOT_ENROLLED: 'The guest is not enrolled in the workshop',
+  NOT_VIP_WORKSHOP: 'The workshop is not a VIP workshop',
+  WAITLIST_CHANGED: 'The waitlist changed since it was loaded',
+  NOT_ELIGIBLE: 'The guest does not qualify for an attestation',
+
+  // Check-ins and scans
+  ALREADY_CHECKED_IN: 'The guest already checked in to the workshop',
+  ALREADY_CHECKED_OUT: 'The guest already checked out of the workshop',
+  NOT_CHECKED_IN: 'The guest has to check in before checking out',
+  CHECKOUT_BEFORE_CHECKIN: 'The check-out time is before the check-in',
+  CAPACITY_FULL: 'The workshop has no seats left',
+  VIP_REQUIRED: 'Only VIP guests may attend the workshop',
+  VIP_NOT_INVITED: 'The VIP guest is not on the workshop\'s invite list',
+  NOT_REGISTERED: 'The guest is not registered for the workshop\'s event',
+  OUTSIDE_CHECKIN_WINDOW: 'Check-in is closed; see `opensAt` and `closesAt`',
+  INVALID_QR_CODE: 'The QR code could not be read',
+  LEGACY_QR_CODE: 'Unsigned QR codes are no longer accepted',
+  QR_CODE_REVOKED: 'The QR code was revoked or replaced',
+  QR_CODE_EXPIRED: 'The rotating QR code has expired',
+  DYNAMIC_QR_REQUIRED: 'Only the rotating code from the guest\'s pass is accepted',
+  IMPORT_ROLLED_BACK: 'An all-or-nothing import saved nothing; see the per-item results'
+};
+
+// Send an error response with its code and any details the code promises
+function sendError(res, status, code, message, details = {}) {
+  return res.status(status).json({ error: message, code, ...details });
+}
+
+module.exports = {
+  ERROR_CODES,
+  sendError
+};
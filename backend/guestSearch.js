@@ -0,0 +1,43 @@
+/**
+ * Guest search text
+ *
+ * Door staff look guests up by part of their name, email or organization
+ * when a QR code won't scan. Guests are indexed in the `guests_fts` FTS5
+ * table, and their text is folded the same way when it is indexed and when
+ * it is searched, so accents and Arabic vowel marks and letter variants
+ * don't stop a match: "helene" finds "Hélène" and "احمد" finds "أَحمد".
+ */
+
+// Letters that decomposing and dropping marks leaves apart from their plain form
+const ARABIC_FOLDS = [
+  [/ٱ/g, 'ا'], // Alef wasla to alef
+  [/ى/g, 'ي'], // Alef maksura to yeh
+  [/ة/g, 'ه'], // Teh marbuta to heh
+  [/ـ/g, ''] // Tatweel, the stretching stroke
+];
+
+// Lower case, without accents or vowel marks. NFKD splits accented letters and
+// hamza forms such as أ into a base letter and a combining mark, which is dropped
+function foldSearchText(text) {
+  let folded = String(text || '').normalize('NFKD').replace(/\p{M}/gu, '');
+  for (const [pattern, replacement] of ARABIC_FOLDS) {
+    folded = folded.replace(pattern, replacement);
+  }
+  return folded.toLowerCase();
+}
+
+// FTS5 MATCH expression finding guests with a word starting with each word of
+// the search, or null when the search has no letters or digits. Words are
+// quoted, so FTS5 operators typed into the search box are taken literally
+function toMatchQuery(search) {
+  const words = foldSearchText(search).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length === 0) {
+    return null;
+  }
+  return words.map(word => `"${word}"*`).join(' ');
+}
+
+module.exports = {
+  foldSearchText,
+  toMatchQuery
+};
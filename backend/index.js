@@ -2,11 +2,21 @@ const express = require('express');
 const bcrypt = require('bcrypt');
 const cors = require('cors');
 const jwt = require('jsonwebtoken');
+const { config, getPublicSettings } = require('./config');
 const { 
-  db, 
   userDb, 
+  sessionDb,
+  apiKeyDb,
   initDb,
   // Import the database functions directly
+  getAllEvents,
+  getEventById,
+  createEvent,
+  updateEvent,
+  deleteEvent,
+  addGuestToEvent,
+  removeGuestFromEvent,
+  isGuestInEvent,
   getAllWorkshops,
   getWorkshopById,
   createWorkshop,
@@ -15,15 +25,33 @@ const {
   getAllGuests,
   getGuestById,
   getGuestByQRCode,
+  revokeGuestQrCode,
+  reissueGuestQrCode,
   createGuest,
   updateGuest,
   deleteGuest,
+  searchGuests,
   getAllAttendance,
   getAttendanceRecord,
-  createAttendance,
+  getAttendanceById,
+  deleteAttendance,
   getGuestAttendance,
   getWorkshopAttendees,
   getRecentCheckIns,
+  enrolGuest,
+  unenrolGuest,
+  getWorkshopEnrolments,
+  getGuestEnrolments,
+  getAllEnrolments,
+  getEnrolment,
+  markNoShow,
+  promoteFromWaitlist,
+  getWorkshopWaitlist,
+  getGuestWaitlist,
+  reorderWaitlist,
+  checkOutAttendance,
+  getGuestDwellTimes,
+  getWorkshopDwellTimes,
   calculateGuestAttendancePercentage,
   calculateWorkshopAttendancePercentage,
   getVipWorkshopCount,
@@ -32,40 +60,108 @@ const {
   getVipAccessList,
   getGuestVipWorkshops
 } = require('./database');
-const { runRoleMigration } = require('./role_migration');
-const { runGuestVipMigration } = require('./guest_vip_migration');
+const { processScan, processScanBatch, getScanRoster, getScanStatus } = require('./scan');
+const { issueDynamicQrCode, issuePassToken, parsePassToken, isValidPassToken } = require('./qrcodes');
+const { generateTotpSecret, getTotpUri, matchTotpStep, generateRecoveryCodes, normalizeRecoveryCode } = require('./twofactor');
+const { PASSWORD_POLICY, getPasswordProblem } = require('./passwords');
+const { LOCKOUT_MINUTES, getRetryAfter, recordFailure, clearFailures } = require('./loginThrottle');
+const { API_KEY_PREFIX, getRequiredScope, getAllowedIpProblem, isIpAllowed } = require('./apiKeys');
+const { sendError } = require('./errors');
+const { audit } = require('./audit');
+const { validateBody, validateQuery } = require('./validation');
+const {
+  eventInputSchema,
+  createWorkshopSchema,
+  updateWorkshopSchema,
+  createGuestSchema,
+  updateGuestSchema,
+  checkInSchema,
+  checkOutSchema,
+  scanSchema,
+  manualScanSchema,
+  guestListQuerySchema,
+  workshopListQuerySchema,
+  attendanceListQuerySchema,
+  guestSearchQuerySchema,
+  guestReferenceSchema,
+  waitlistOrderSchema,
+  registerSchema,
+  createUserSchema,
+  updateUserSchema,
+  resetPasswordSchema,
+  scannerAssignmentsSchema,
+  inviteSchema,
+  apiKeyInputSchema,
+  changePasswordSchema,
+  twoFactorCodeSchema,
+  twoFactorDisableSchema
+} = require('@eventqrollcall/shared');
 const sharp = require('sharp');
 const fs = require('fs').promises;
-const path = require('path');
 
 const app = express();
-const PORT = 3000;
-const JWT_SECRET = process.env.JWT_SECRET || 'qrtracker-jwt-secret-key'; // Better to use environment variable in production
-const JWT_EXPIRES_IN = '24h';
+// Settings that can be changed per deployment live in config.js
+// Sessions' last-seen time is only written this often
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+// How long the second login step may take after the password was accepted
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
 
 // Middleware
-app.use(cors());
+app.use(cors({ origin: config.corsOrigins.includes('*') ? '*' : config.corsOrigins }));
 app.use(express.json());
 
+// Refuse a sign-in attempt from an account or IP that has to wait
+const sendTooManyAttempts = (res, retryAfter) => {
+  res.set('Retry-After', String(retryAfter));
+  return sendError(res, 429, 'TOO_MANY_ATTEMPTS', `Too many failed sign-in attempts, try again in ${retryAfter} seconds`, { retryAfter });
+};
+
+// Count a failed password or two-factor attempt. Lockouts go into the targeted
+// account's login history; resolves the seconds to wait when this one caused one
+const recordLoginFailure = async (req, username, user = null) => {
+  const locked = await recordFailure({ username, ip: req.ip });
+  if (!locked.account && !locked.ip) {
+    return 0;
+  }
+  
+  console.warn(`Sign-in locked for ${LOCKOUT_MINUTES} minutes: ${locked.account ? `account ${username}` : ''}${locked.account && locked.ip ? ' and ' : ''}${locked.ip ? `IP ${req.ip}` : ''}`);
+  if (user) {
+    await userDb.updateLoginHistory(user.id, {
+      timestamp: new Date().toISOString(),
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+      event: 'lockout',
+      lockedBy: locked.account ? 'account' : 'ip',
+      lockedUntil: locked.lockedUntil
+    });
+  }
+  return LOCKOUT_MINUTES * 60;
+};
+
 // Authentication middleware for login
 const authenticateLogin = async (req, res, next) => {
   const { username, password } = req.body;
   
   if (!username || !password) {
-    return res.status(400).json({ error: 'Username and password required' });
+    return sendError(res, 400, 'VALIDATION_FAILED', 'Username and password required');
   }
   
   try {
-    const user = await userDb.getUserByUsername(username);
-    
-    if (!user) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+    const retryAfter = await getRetryAfter({ username, ip: req.ip });
+    if (retryAfter) {
+      return sendTooManyAttempts(res, retryAfter);
     }
     
-    const passwordMatch = await bcrypt.compare(password, user.password);
+    const user = await userDb.getUserByUsername(username);
+    const passwordMatch = user && await bcrypt.compare(password, user.password);
     
     if (!passwordMatch) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+      const lockedFor = await recordLoginFailure(req, username, user);
+      return lockedFor ? sendTooManyAttempts(res, lockedFor) : sendError(res, 401, 'INVALID_CREDENTIALS', 'Invalid credentials');
+    }
+    
+    if (user.disabled_at) {
+      return sendError(res, 403, 'ACCOUNT_DISABLED', 'Account is disabled');
     }
     
     // Add user to request
@@ -73,7 +169,7 @@ const authenticateLogin = async (req, res, next) => {
     next();
   } catch (error) {
     console.error('Authentication error:', error);
-    res.status(500).json({ error: 'Server error' });
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
   }
 };
 
@@ -81,43 +177,120 @@ const authenticateLogin = async (req, res, next) => {
 const authenticateJWT = (req, res, next) => {
   const authHeader = req.headers.authorization;
   
+  // Integrations send an API key instead, as the bearer token or in X-API-Key; getUserFromJWT checks it
+  const apiKey = req.headers['x-api-key'] || (authHeader || '').split(' ')[1];
+  if (apiKey && apiKey.startsWith(API_KEY_PREFIX)) {
+    req.apiKeyToken = apiKey;
+    return next();
+  }
+  
   if (!authHeader) {
-    return res.status(401).json({ error: 'Authorization header required' });
+    return sendError(res, 401, 'UNAUTHENTICATED', 'Authorization header required');
   }
   
   const token = authHeader.split(' ')[1]; // Extract token from "Bearer <token>"
   
   if (!token) {
-    return res.status(401).json({ error: 'Token not provided' });
+    return sendError(res, 401, 'UNAUTHENTICATED', 'Token not provided');
   }
   
   try {
-    const decoded = jwt.verify(token, JWT_SECRET);
+    const decoded = jwt.verify(token, config.jwtSecret);
+    // Two-factor challenge tokens only open the second login step
+    if (decoded.purpose) {
+      return sendError(res, 401, 'UNAUTHENTICATED', 'Invalid token');
+    }
     req.userId = decoded.userId;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     if (error.name === 'TokenExpiredError') {
-      return res.status(401).json({ error: 'Token expired' });
+      return sendError(res, 401, 'TOKEN_EXPIRED', 'Token expired');
+    }
+    return sendError(res, 401, 'UNAUTHENTICATED', 'Invalid token');
+  }
+};
+
+// Routes an account that has to change its password can still use
+const PASSWORD_CHANGE_ROUTES = ['/api/profile', '/api/profile/password', '/api/logout'];
+
+// Resolve an API key to the admin it acts for, once its expiry, IP list and
+// scopes allow this request
+const authenticateApiKey = async (req, res, next) => {
+  try {
+    const apiKey = await apiKeyDb.getApiKeyByKey(req.apiKeyToken);
+    if (!apiKey || (apiKey.expires_at && new Date(apiKey.expires_at) <= new Date())) {
+      return sendError(res, 401, 'INVALID_API_KEY', 'Invalid or expired API key');
+    }
+    if (!isIpAllowed(JSON.parse(apiKey.allowed_ips), req.ip)) {
+      return sendError(res, 403, 'API_KEY_IP_NOT_ALLOWED', 'API key is not allowed from this IP address');
+    }
+    
+    const requiredScope = getRequiredScope(req.method, req.route.path);
+    if (!requiredScope) {
+      return sendError(res, 403, 'API_KEY_NOT_ALLOWED', 'API keys cannot be used for this route');
+    }
+    if (!JSON.parse(apiKey.scopes).includes(requiredScope)) {
+      return sendError(res, 403, 'API_KEY_SCOPE_MISSING', 'Forbidden: API key is missing a scope', { requiredScope });
+    }
+    
+    const user = await userDb.getUserById(apiKey.user_id);
+    if (!user || user.disabled_at) {
+      return sendError(res, 401, 'ACCOUNT_DISABLED', 'Account is disabled');
+    }
+    
+    if (!apiKey.last_used_at || Date.now() - new Date(apiKey.last_used_at).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      apiKeyDb.touchApiKey(apiKey.id, req.ip).catch(error => console.error('Error updating API key:', error));
     }
-    return res.status(401).json({ error: 'Invalid token' });
+    
+    req.user = user;
+    req.userId = user.id;
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    console.error('API key error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
   }
 };
 
 // Get user from DB for JWT authenticated routes
 const getUserFromJWT = async (req, res, next) => {
+  if (req.apiKeyToken) {
+    return authenticateApiKey(req, res, next);
+  }
+  
   try {
+    // Access tokens die with their session, e.g. when an admin signs a lost device out
+    const session = req.sessionId ? await sessionDb.getSession(req.sessionId) : null;
+    if (!session || session.revoked_at || session.user_id !== req.userId) {
+      return sendError(res, 401, 'SESSION_ENDED', 'Session has ended');
+    }
+    if (Date.now() - new Date(session.last_seen_at).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      sessionDb.touchSession(session.id, req.ip).catch(error => console.error('Error updating session:', error));
+    }
+    
     // Get user by ID (from JWT)
     const user = await userDb.getUserById(req.userId);
     
     if (!user) {
-      return res.status(404).json({ error: 'User not found' });
+      return sendError(res, 404, 'USER_NOT_FOUND', 'User not found');
+    }
+    
+    // Tokens issued before the account was disabled stop working straight away
+    if (user.disabled_at) {
+      return sendError(res, 401, 'ACCOUNT_DISABLED', 'Account is disabled');
+    }
+    
+    // Until a required password change is done, only the profile and signing out work
+    if (user.must_change_password && !PASSWORD_CHANGE_ROUTES.includes(req.path)) {
+      return sendError(res, 403, 'PASSWORD_CHANGE_REQUIRED', 'Password change required', { passwordChangeRequired: true });
     }
     
     req.user = user;
     next();
   } catch (error) {
     console.error('Get user error:', error);
-    res.status(500).json({ error: 'Server error' });
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
   }
 };
 
@@ -129,7 +302,7 @@ const authorize = (roles = []) => {
 
   return (req, res, next) => {
     if (!req.user) {
-      return res.status(401).json({ error: 'User not authenticated' });
+      return sendError(res, 401, 'UNAUTHENTICATED', 'User not authenticated');
     }
 
     // Admin can access anything
@@ -139,10 +312,9 @@ const authorize = (roles = []) => {
 
     // For scanner role, check if it's in the allowed roles
     if (!roles.includes(req.user.role)) {
-      return res.status(403).json({ 
-        error: 'Forbidden: Insufficient permissions',
+      return sendError(res, 403, 'FORBIDDEN', 'Forbidden: Insufficient permissions', {
         userRole: req.user.role,
-        requiredRoles: roles 
+        requiredRoles: roles
       });
     }
 
@@ -150,417 +322,1820 @@ const authorize = (roles = []) => {
   };
 };
 
+// Permission middleware for destructive actions, run after authorize
+const requirePermission = (permission) => {
+  return (req, res, next) => {
+    if (req.user.role === 'admin') {
+      return next();
+    }
+
+    const permissions = JSON.parse(req.user.permissions || '[]');
+    if (!permissions.includes(permission)) {
+      return sendError(res, 403, 'FORBIDDEN', 'Forbidden: Missing permission', { requiredPermission: permission });
+    }
+
+    next();
+  };
+};
+
 // Routes
 app.get('/', (req, res) => {
   res.json({ message: 'API is running' });
 });
 
-// Register user
-app.post('/api/register', async (req, res) => {
-  const { username, password } = req.body;
+// Lets the frontend tell an unreachable backend from other failures before it starts
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'ok' });
+});
+
+// Register user with an invitation from an admin
+app.post('/api/register', validateBody(registerSchema), async (req, res) => {
+  const { username, password, inviteToken } = req.body;
   
-  if (!username || !password) {
-    return res.status(400).json({ error: 'Username and password required' });
+  if (!inviteToken) {
+    return sendError(res, 403, 'INVITE_REQUIRED', 'An invitation is required to register');
+  }
+  const passwordProblem = getPasswordProblem(password, username);
+  if (passwordProblem) {
+    return sendError(res, 400, 'WEAK_PASSWORD', passwordProblem);
   }
   
   try {
     // Check if user already exists
     const existingUser = await userDb.getUserByUsername(username);
     if (existingUser) {
-      return res.status(409).json({ error: 'Username already exists' });
+      return sendError(res, 409, 'USERNAME_TAKEN', 'Username already exists');
     }
     
     // Hash password
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(password, salt);
     
-    // Create user
-    const result = await userDb.createUser(username, hashedPassword);
+    // Create user, with the role the invitation was made for
+    const result = await userDb.registerWithInvite(inviteToken, username, hashedPassword);
+    if (!result) {
+      return sendError(res, 403, 'INVITE_INVALID', 'Invitation is invalid, expired or already used');
+    }
     
     res.status(201).json({ 
       message: 'User created successfully',
       userId: result.id
     });
   } catch (error) {
-    console.error('Registration error:', error);
-    res.status(500).json({ error: 'Server error' });
+    console.error('Registration error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
+  }
+});
+
+// Rules new passwords have to follow, so forms can show them up front
+app.get('/api/password-policy', (req, res) => {
+  res.json(PASSWORD_POLICY);
+});
+
+const signAccessToken = (userId, sessionId) => jwt.sign({ userId, sessionId }, config.jwtSecret, { expiresIn: config.accessTokenTtlSeconds });
+const refreshTokenExpiry = () => new Date(Date.now() + config.refreshTokenTtlDays * 24 * 60 * 60 * 1000).toISOString();
+
+// Whether policy makes this account use two-factor authentication
+const isTwoFactorRequired = (user) => config.requireAdmin2fa && user.role === 'admin';
+
+// Token proving the password step of a login passed, good for the second step only
+const signChallengeToken = (userId) => jwt.sign({ userId, purpose: 'two-factor' }, config.jwtSecret, { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS });
+
+// Account a challenge token was issued to, or null when it is invalid, expired or the account was disabled since
+const getChallengeUser = async (challengeToken) => {
+  try {
+    const decoded = jwt.verify(String(challengeToken || ''), config.jwtSecret);
+    if (decoded.purpose !== 'two-factor') {
+      return null;
+    }
+    const user = await userDb.getUserById(decoded.userId);
+    return user && !user.disabled_at ? user : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Check a code from the user's authenticator app or one of their recovery codes
+const verifySecondFactor = async (user, { code, recoveryCode }) => {
+  if (recoveryCode) {
+    const used = await userDb.useRecoveryCode(user.id, normalizeRecoveryCode(recoveryCode));
+    if (used) {
+      audit(`Recovery code used by ${user.username}`);
+    }
+    return used;
+  }
+  
+  const step = matchTotpStep(user.totp_secret, code);
+  return step !== null && userDb.useTotpStep(user.id, step);
+};
+
+// Check the code confirming a two-factor change on the signed-in user's profile.
+// Wrong codes are throttled like sign-ins, so a stolen session can't guess its
+// way to new recovery codes; resolves false once the refusal has been sent
+const confirmProfileSecondFactor = async (req, res, factor) => {
+  const retryAfter = await getRetryAfter({ username: req.user.username, ip: req.ip });
+  if (retryAfter) {
+    sendTooManyAttempts(res, retryAfter);
+    return false;
+  }
+  
+  if (!(await verifySecondFactor(req.user, factor))) {
+    const lockedFor = await recordLoginFailure(req, req.user.username, req.user);
+    if (lockedFor) {
+      sendTooManyAttempts(res, lockedFor);
+    } else {
+      sendError(res, 400, 'INVALID_TWO_FACTOR_CODE', factor.recoveryCode ? 'Invalid or already used recovery code' : 'Invalid authentication code');
+    }
+    return false;
+  }
+  return true;
+};
+
+// Open a session for a user who passed every login step and send its tokens
+const sendLoginSession = async (req, res, user, extra = {}) => {
+  await clearFailures(user.username);
+  
+  // Record login history
+  const loginData = {
+    timestamp: new Date().toISOString(),
+    ip: req.ip,
+    userAgent: req.headers['user-agent']
+  };
+  
+  await userDb.updateLoginHistory(user.id, loginData);
+  
+  // Parse login history
+  const loginHistory = JSON.parse(user.login_history || '[]');
+  
+  // Open a session and generate its tokens
+  const session = await sessionDb.createSession({
+    userId: user.id,
+    userAgent: req.headers['user-agent'],
+    ip: req.ip,
+    expiresAt: refreshTokenExpiry()
+  });
+  const token = signAccessToken(user.id, session.id);
+  
+  res.json({
+    message: 'Login successful',
+    token,
+    refreshToken: session.refreshToken,
+    expiresIn: config.accessTokenTtlSeconds,
+    user: {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      permissions: JSON.parse(user.permissions || '[]'),
+      mustChangePassword: Boolean(user.must_change_password),
+      loginHistory: loginHistory
+    },
+    ...extra
+  });
+};
+
+// Login
+app.post('/api/login', authenticateLogin, async (req, res) => {
+  try {
+    // Accounts with two-factor authentication, or that need to set it up, continue at /api/login/2fa
+    if (req.user.totp_enabled_at || isTwoFactorRequired(req.user)) {
+      return res.json({
+        twoFactorRequired: true,
+        twoFactorSetupRequired: !req.user.totp_enabled_at,
+        challengeToken: signChallengeToken(req.user.id)
+      });
+    }
+    
+    await sendLoginSession(req, res, req.user);
+  } catch (error) {
+    console.error('Login error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
+  }
+});
+
+// Start setting up an authenticator app during login, for accounts policy requires it of
+app.post('/api/login/2fa/setup', async (req, res) => {
+  try {
+    const user = await getChallengeUser(req.body.challengeToken);
+    if (!user) {
+      return sendError(res, 401, 'LOGIN_CHALLENGE_EXPIRED', 'Sign-in has expired, please log in again');
+    }
+    if (user.totp_enabled_at) {
+      return sendError(res, 409, 'TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already set up');
+    }
+    
+    const secret = generateTotpSecret();
+    await userDb.setPendingTotpSecret(user.id, secret);
+    
+    res.json({ secret, otpauthUrl: getTotpUri(user.username, secret) });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
+  }
+});
+
+// Second login step: a code from the authenticator app or a recovery code. When
+// the app is being set up during login, the code confirms it and the response
+// carries the new recovery codes
+app.post('/api/login/2fa', async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+    
+    const user = await getChallengeUser(challengeToken);
+    if (!user) {
+      return sendError(res, 401, 'LOGIN_CHALLENGE_EXPIRED', 'Sign-in has expired, please log in again');
+    }
+    
+    // Codes are throttled like passwords, so the password alone doesn't open up guessing them
+    const retryAfter = await getRetryAfter({ username: user.username, ip: req.ip });
+    if (retryAfter) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+    const sendInvalidCode = async (error) => {
+      const lockedFor = await recordLoginFailure(req, user.username, user);
+      return lockedFor ? sendTooManyAttempts(res, lockedFor) : sendError(res, 401, 'INVALID_TWO_FACTOR_CODE', error);
+    };
+    
+    if (!user.totp_enabled_at) {
+      if (!user.totp_pending_secret) {
+        return sendError(res, 400, 'TWO_FACTOR_SETUP_REQUIRED', 'Set up an authenticator app first');
+      }
+      
+      const step = matchTotpStep(user.totp_pending_secret, code);
+      if (step === null) {
+        return await sendInvalidCode('Invalid authentication code');
+      }
+      
+      const recoveryCodes = generateRecoveryCodes();
+      await userDb.enableTwoFactor(user.id, step, recoveryCodes.map(normalizeRecoveryCode));
+      audit(`Two-factor authentication enabled by ${user.username}`);
+      return await sendLoginSession(req, res, user, { recoveryCodes });
+    }
+    
+    if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+      return await sendInvalidCode(recoveryCode ? 'Invalid or already used recovery code' : 'Invalid authentication code');
+    }
+    
+    await sendLoginSession(req, res, user);
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
+  }
+});
+
+// Get user profile
+app.get('/api/profile', authenticateJWT, getUserFromJWT, async (req, res) => {
+  try {
+    const loginHistory = JSON.parse(req.user.login_history || '[]');
+    
+    res.json({
+      user: {
+        id: req.user.id,
+        username: req.user.username,
+        role: req.user.role,
+        permissions: JSON.parse(req.user.permissions || '[]'),
+        mustChangePassword: Boolean(req.user.must_change_password),
+        loginHistory: loginHistory,
+        createdAt: req.user.created_at,
+        twoFactor: {
+          enabled: Boolean(req.user.totp_enabled_at),
+          enabledAt: req.user.totp_enabled_at || null,
+          required: isTwoFactorRequired(req.user),
+          recoveryCodesLeft: req.user.totp_enabled_at ? await userDb.countRecoveryCodes(req.user.id) : 0
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Profile error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
+  }
+});
+
+// Change your own password. Other devices are signed out, and a required change is done
+app.post('/api/profile/password', authenticateJWT, getUserFromJWT, validateBody(changePasswordSchema), async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    
+    if (!(await bcrypt.compare(currentPassword, req.user.password))) {
+      return sendError(res, 400, 'INVALID_CREDENTIALS', 'Current password is incorrect');
+    }
+    if (await bcrypt.compare(newPassword, req.user.password)) {
+      return sendError(res, 400, 'VALIDATION_FAILED', 'New password must be different from the current one');
+    }
+    const passwordProblem = getPasswordProblem(newPassword, req.user.username);
+    if (passwordProblem) {
+      return sendError(res, 400, 'WEAK_PASSWORD', passwordProblem);
+    }
+    
+    const salt = await bcrypt.genSalt(10);
+    await userDb.updatePassword(req.user.id, await bcrypt.hash(newPassword, salt));
+    await sessionDb.revokeUserSessions(req.user.id, req.sessionId);
+    audit(`Password changed by ${req.user.username}`);
+    
+    res.json({ message: 'Password changed successfully' });
+  } catch (error) {
+    console.error('Error changing password:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to change password');
+  }
+});
+
+// Start setting up an authenticator app; the secret only takes effect once a code from it is confirmed
+app.post('/api/profile/2fa/setup', authenticateJWT, getUserFromJWT, async (req, res) => {
+  try {
+    if (req.user.totp_enabled_at) {
+      return sendError(res, 409, 'TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+    }
+    
+    const secret = generateTotpSecret();
+    await userDb.setPendingTotpSecret(req.user.id, secret);
+    
+    res.json({ secret, otpauthUrl: getTotpUri(req.user.username, secret) });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to start two-factor setup');
+  }
+});
+
+// Confirm the app being set up with one of its codes; returns the recovery codes, shown only once
+app.post('/api/profile/2fa/enable', authenticateJWT, getUserFromJWT, validateBody(twoFactorCodeSchema), async (req, res) => {
+  try {
+    if (req.user.totp_enabled_at) {
+      return sendError(res, 409, 'TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+    }
+    if (!req.user.totp_pending_secret) {
+      return sendError(res, 400, 'TWO_FACTOR_SETUP_REQUIRED', 'Start the setup first');
+    }
+    
+    const step = matchTotpStep(req.user.totp_pending_secret, req.body.code);
+    if (step === null) {
+      return sendError(res, 400, 'INVALID_TWO_FACTOR_CODE', 'Invalid authentication code');
+    }
+    
+    const recoveryCodes = generateRecoveryCodes();
+    await userDb.enableTwoFactor(req.user.id, step, recoveryCodes.map(normalizeRecoveryCode));
+    audit(`Two-factor authentication enabled by ${req.user.username}`);
+    
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to enable two-factor authentication');
+  }
+});
+
+// Replace the recovery codes, confirmed with a code from the authenticator app
+app.post('/api/profile/2fa/recovery-codes', authenticateJWT, getUserFromJWT, validateBody(twoFactorCodeSchema), async (req, res) => {
+  try {
+    if (!req.user.totp_enabled_at) {
+      return sendError(res, 400, 'TWO_FACTOR_NOT_ENABLED', 'Two-factor authentication is not enabled');
+    }
+    if (!(await confirmProfileSecondFactor(req, res, { code: req.body.code }))) {
+      return;
+    }
+    
+    const recoveryCodes = generateRecoveryCodes();
+    await userDb.replaceRecoveryCodes(req.user.id, recoveryCodes.map(normalizeRecoveryCode));
+    audit(`Recovery codes regenerated by ${req.user.username}`);
+    
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Recovery code error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to regenerate recovery codes');
+  }
+});
+
+// Turn two-factor authentication off, confirmed with an app or recovery code
+app.post('/api/profile/2fa/disable', authenticateJWT, getUserFromJWT, validateBody(twoFactorDisableSchema), async (req, res) => {
+  try {
+    const { code, recoveryCode } = req.body;
+    
+    if (!req.user.totp_enabled_at) {
+      return sendError(res, 400, 'TWO_FACTOR_NOT_ENABLED', 'Two-factor authentication is not enabled');
+    }
+    if (isTwoFactorRequired(req.user)) {
+      return sendError(res, 403, 'TWO_FACTOR_REQUIRED', 'Two-factor authentication is required for your role');
+    }
+    if (!(await confirmProfileSecondFactor(req, res, { code, recoveryCode }))) {
+      return;
+    }
+    
+    await userDb.disableTwoFactor(req.user.id);
+    audit(`Two-factor authentication disabled by ${req.user.username}`);
+    
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to disable two-factor authentication');
+  }
+});
+
+// Trade a refresh token for a new access token and a new refresh token
+app.post('/api/token/refresh', async (req, res) => {
+  const { refreshToken } = req.body;
+  
+  if (!refreshToken) {
+    return sendError(res, 400, 'VALIDATION_FAILED', 'Refresh token required');
+  }
+  
+  try {
+    const result = await sessionDb.rotateSession(refreshToken, {
+      userAgent: req.headers['user-agent'],
+      ip: req.ip,
+      expiresAt: refreshTokenExpiry(),
+      reuseGraceSeconds: config.refreshReuseGraceSeconds
+    });
+    
+    if (result.status === 'reused') {
+      console.warn(`Refresh token of session ${result.session.id} was used twice`);
+      return sendError(res, 401, 'REFRESH_TOKEN_REUSED', 'Refresh token already used');
+    }
+    if (result.status !== 'rotated') {
+      return sendError(res, 401, 'SESSION_ENDED', 'Session has ended');
+    }
+    
+    const user = await userDb.getUserById(result.session.user_id);
+    if (!user || user.disabled_at) {
+      await sessionDb.revokeSession(result.session.id, result.session.user_id);
+      return sendError(res, 401, 'SESSION_ENDED', 'Session has ended');
+    }
+    
+    res.json({
+      token: signAccessToken(user.id, result.session.id),
+      refreshToken: result.refreshToken,
+      expiresIn: config.accessTokenTtlSeconds
+    });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
+  }
+});
+
+// Logout: end the current session
+app.post('/api/logout', authenticateJWT, getUserFromJWT, async (req, res) => {
+  try {
+    await sessionDb.revokeSession(req.sessionId, req.user.id);
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Server error');
+  }
+});
+
+// User management API endpoints
+// Account details sent to admins; never includes the password hash
+const toUserSummary = (user) => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  permissions: JSON.parse(user.permissions || '[]'),
+  disabled: Boolean(user.disabled_at),
+  disabledAt: user.disabled_at || null,
+  twoFactorEnabled: Boolean(user.totp_enabled_at),
+  mustChangePassword: Boolean(user.must_change_password),
+  createdAt: user.created_at,
+  loginHistory: JSON.parse(user.login_history || '[]')
+});
+
+// Get all users
+app.get('/api/users', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const users = await userDb.getAllUsers();
+    res.json(users.map(toUserSummary));
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch users');
+  }
+});
+
+// Create a user
+app.post('/api/users', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(createUserSchema), async (req, res) => {
+  try {
+    const { username, password, role } = req.body;
+    
+    const passwordProblem = getPasswordProblem(password, username);
+    if (passwordProblem) {
+      return sendError(res, 400, 'WEAK_PASSWORD', passwordProblem);
+    }
+    
+    const existingUser = await userDb.getUserByUsername(username);
+    if (existingUser) {
+      return sendError(res, 409, 'USERNAME_TAKEN', 'Username already exists');
+    }
+    
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+    // The admin knows this password, so the new user has to pick their own at first login
+    const { id } = await userDb.createUser(username, hashedPassword, role, true);
+    audit(`User ${username} (${role}) created by ${req.user.username}`);
+    
+    res.status(201).json(toUserSummary(await userDb.getUserById(id)));
+  } catch (error) {
+    console.error('Error creating user:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to create user');
+  }
+});
+
+// Change a user's role or permissions, or enable/disable the account
+app.put('/api/users/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(updateUserSchema), async (req, res) => {
+  try {
+    const { role, permissions, disabled } = req.body;
+    const user = await userDb.getUserById(req.params.id);
+    
+    if (!user) {
+      return sendError(res, 404, 'USER_NOT_FOUND', 'User not found');
+    }
+    // Admins can't lock themselves out, which also keeps at least one active admin
+    if (user.id === req.user.id && ((role !== undefined && role !== user.role) || disabled)) {
+      return sendError(res, 400, 'SELF_CHANGE_NOT_ALLOWED', 'You cannot change your own role or disable your own account');
+    }
+    
+    const updatedUser = await userDb.updateUser(user.id, {
+      role,
+      permissions: permissions === undefined ? undefined : [...new Set(permissions)],
+      disabled
+    });
+    if (disabled) {
+      await sessionDb.revokeUserSessions(user.id);
+    }
+    audit(`User ${user.username} updated by ${req.user.username}`);
+    
+    res.json(toUserSummary(updatedUser));
+  } catch (error) {
+    console.error('Error updating user:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to update user');
+  }
+});
+
+// Reset a user's password
+app.post('/api/users/:id/password', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(resetPasswordSchema), async (req, res) => {
+  try {
+    const { password } = req.body;
+    const user = await userDb.getUserById(req.params.id);
+    if (!user) {
+      return sendError(res, 404, 'USER_NOT_FOUND', 'User not found');
+    }
+    const passwordProblem = getPasswordProblem(password, user.username);
+    if (passwordProblem) {
+      return sendError(res, 400, 'WEAK_PASSWORD', passwordProblem);
+    }
+    
+    // Like a new account, someone given a password by an admin changes it at their next login
+    const salt = await bcrypt.genSalt(10);
+    await userDb.updatePassword(user.id, await bcrypt.hash(password, salt), user.id !== req.user.id);
+    // Devices signed in with the old password have to log in again
+    await sessionDb.revokeUserSessions(user.id, req.sessionId);
+    audit(`Password of ${user.username} reset by ${req.user.username}`);
+    
+    res.json({ message: 'Password reset successfully' });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to reset password');
+  }
+});
+
+// Delete a user
+app.delete('/api/users/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const user = await userDb.getUserById(req.params.id);
+    
+    if (!user) {
+      return sendError(res, 404, 'USER_NOT_FOUND', 'User not found');
+    }
+    if (user.id === req.user.id) {
+      return sendError(res, 400, 'SELF_CHANGE_NOT_ALLOWED', 'You cannot delete your own account');
+    }
+    if (await userDb.ownsRecords(user.id)) {
+      return sendError(res, 409, 'USER_OWNS_DATA', 'This user owns events, workshops or guests. Disable the account instead.');
+    }
+    
+    await userDb.deleteUser(user.id);
+    audit(`User ${user.username} deleted by ${req.user.username}`);
+    
+    res.json({ message: 'User deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to delete user');
+  }
+});
+
+// Reset a user's two-factor authentication, e.g. after they lost their phone and recovery codes
+app.delete('/api/users/:id/2fa', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const user = await userDb.getUserById(req.params.id);
+    if (!user) {
+      return sendError(res, 404, 'USER_NOT_FOUND', 'User not found');
+    }
+    if (user.id === req.user.id) {
+      return sendError(res, 400, 'SELF_CHANGE_NOT_ALLOWED', 'Turn off your own two-factor authentication from your profile');
+    }
+    
+    await userDb.disableTwoFactor(user.id);
+    audit(`Two-factor authentication of ${user.username} reset by ${req.user.username}`);
+    
+    res.json(toUserSummary(await userDb.getUserById(user.id)));
+  } catch (error) {
+    console.error('Error resetting two-factor authentication:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to reset two-factor authentication');
+  }
+});
+
+// Active sessions of a user
+const toSessionSummary = (session, currentSessionId) => ({
+  id: session.id,
+  userAgent: session.user_agent,
+  ip: session.ip,
+  createdAt: session.created_at,
+  lastSeenAt: session.last_seen_at,
+  expiresAt: session.expires_at,
+  current: session.id === currentSessionId
+});
+
+app.get('/api/users/:id/sessions', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const user = await userDb.getUserById(req.params.id);
+    if (!user) {
+      return sendError(res, 404, 'USER_NOT_FOUND', 'User not found');
+    }
+    
+    const sessions = await sessionDb.getUserSessions(user.id);
+    res.json(sessions.map(session => toSessionSummary(session, req.sessionId)));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch sessions');
+  }
+});
+
+// Sign a user out on one device
+app.delete('/api/users/:id/sessions/:sessionId', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const { changes } = await sessionDb.revokeSession(req.params.sessionId, Number(req.params.id));
+    if (!changes) {
+      return sendError(res, 404, 'SESSION_NOT_FOUND', 'Session not found');
+    }
+    
+    audit(`Session ${req.params.sessionId} of user ${req.params.id} revoked by ${req.user.username}`);
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to revoke session');
+  }
+});
+
+// Sign a user out everywhere
+app.delete('/api/users/:id/sessions', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const user = await userDb.getUserById(req.params.id);
+    if (!user) {
+      return sendError(res, 404, 'USER_NOT_FOUND', 'User not found');
+    }
+    
+    const { changes } = await sessionDb.revokeUserSessions(user.id);
+    audit(`All ${changes} sessions of ${user.username} revoked by ${req.user.username}`);
+    res.json({ message: 'Sessions revoked', revoked: changes });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to revoke sessions');
+  }
+});
+
+// Events and workshops of the current admin that a scanner works at
+app.get('/api/users/:id/assignments', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const user = await userDb.getUserById(req.params.id);
+    if (!user) {
+      return sendError(res, 404, 'USER_NOT_FOUND', 'User not found');
+    }
+    
+    res.json(await userDb.getAssignments(user.id, req.userId));
+  } catch (error) {
+    console.error('Error fetching assignments:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch assignments');
+  }
+});
+
+// Replace a scanner's assignments to the current admin's events and workshops
+app.put('/api/users/:id/assignments', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(scannerAssignmentsSchema), async (req, res) => {
+  try {
+    const { eventIds, workshopIds } = req.body;
+    const user = await userDb.getUserById(req.params.id);
+    if (!user) {
+      return sendError(res, 404, 'USER_NOT_FOUND', 'User not found');
+    }
+    if (user.role !== 'scanner') {
+      return sendError(res, 400, 'VALIDATION_FAILED', 'Only scanner accounts can be assigned to events and workshops');
+    }
+    
+    const uniqueEventIds = [...new Set(eventIds)];
+    const uniqueWorkshopIds = [...new Set(workshopIds)];
+    for (const eventId of uniqueEventIds) {
+      if (!(await getEventById(eventId, req.userId))) {
+        return sendError(res, 404, 'EVENT_NOT_FOUND', `Event ${eventId} not found`);
+      }
+    }
+    for (const workshopId of uniqueWorkshopIds) {
+      if (!(await getWorkshopById(workshopId, req.userId))) {
+        return sendError(res, 404, 'WORKSHOP_NOT_FOUND', `Workshop ${workshopId} not found`);
+      }
+    }
+    
+    const assignments = await userDb.setAssignments(user.id, req.userId, {
+      eventIds: uniqueEventIds,
+      workshopIds: uniqueWorkshopIds
+    });
+    audit(`Assignments of ${user.username} updated by ${req.user.username}`);
+    
+    res.json(assignments);
+  } catch (error) {
+    console.error('Error updating assignments:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to update assignments');
+  }
+});
+
+// Get pending invitations
+app.get('/api/invites', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    res.json(await userDb.getPendingInvites());
+  } catch (error) {
+    console.error('Error fetching invites:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch invites');
+  }
+});
+
+// Create an invitation; the token is only returned here
+app.post('/api/invites', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(inviteSchema), async (req, res) => {
+  try {
+    const { role } = req.body;
+    const expiresAt = new Date(Date.now() + config.inviteTtlDays * 24 * 60 * 60 * 1000).toISOString();
+    const invite = await userDb.createInvite(role, req.user.id, expiresAt);
+    audit(`Invite for a new ${role} created by ${req.user.username}`);
+    
+    res.status(201).json(invite);
+  } catch (error) {
+    console.error('Error creating invite:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to create invite');
+  }
+});
+
+// Withdraw an invitation that has not been used
+app.delete('/api/invites/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const { changes } = await userDb.deleteInvite(req.params.id);
+    if (!changes) {
+      return sendError(res, 404, 'INVITE_NOT_FOUND', 'Invite not found');
+    }
+    
+    res.json({ message: 'Invite deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting invite:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to delete invite');
+  }
+});
+
+// Effective server settings and where each came from; secrets are left out
+app.get('/api/settings', authenticateJWT, getUserFromJWT, authorize(['admin']), (req, res) => {
+  res.json(getPublicSettings());
+});
+
+// API keys, as listed on the settings page; the key itself is only returned when created
+const toApiKeySummary = (apiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  keyPrefix: apiKey.key_prefix,
+  scopes: JSON.parse(apiKey.scopes || '[]'),
+  allowedIps: JSON.parse(apiKey.allowed_ips || '[]'),
+  createdBy: apiKey.created_by || null,
+  createdAt: apiKey.created_at,
+  expiresAt: apiKey.expires_at || null,
+  lastUsedAt: apiKey.last_used_at || null,
+  lastUsedIp: apiKey.last_used_ip || null
+});
+
+// Get the current admin's API keys; each admin only sees and revokes their own
+app.get('/api/api-keys', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const apiKeys = await apiKeyDb.getAllApiKeys(req.user.id);
+    res.json(apiKeys.map(toApiKeySummary));
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch API keys');
+  }
+});
+
+// Create an API key acting for the current admin
+app.post('/api/api-keys', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(apiKeyInputSchema), async (req, res) => {
+  try {
+    const { name, scopes, allowedIps, expiresAt } = req.body;
+    
+    const ipProblem = allowedIps.map(getAllowedIpProblem).find(Boolean);
+    if (ipProblem) {
+      return sendError(res, 400, 'VALIDATION_FAILED', ipProblem, { fields: { allowedIps: ipProblem } });
+    }
+    
+    const apiKey = await apiKeyDb.createApiKey({
+      name,
+      scopes: [...new Set(scopes)],
+      allowedIps,
+      expiresAt: expiresAt && new Date(expiresAt).toISOString(),
+      userId: req.user.id
+    });
+    audit(`API key ${apiKey.name} (${apiKey.key_prefix}) created by ${req.user.username}`);
+    
+    res.status(201).json({ ...toApiKeySummary(apiKey), key: apiKey.key });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to create API key');
+  }
+});
+
+// Revoke an API key; integrations using it stop working straight away
+app.delete('/api/api-keys/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const apiKey = await apiKeyDb.getApiKeyById(req.params.id, req.user.id);
+    if (!apiKey) {
+      return sendError(res, 404, 'API_KEY_NOT_FOUND', 'API key not found');
+    }
+    
+    await apiKeyDb.deleteApiKey(apiKey.id);
+    audit(`API key ${apiKey.name} (${apiKey.key_prefix}) revoked by ${req.user.username}`);
+    
+    res.json({ message: 'API key revoked successfully' });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to revoke API key');
+  }
+});
+
+// Event API endpoints
+// Get all events
+app.get('/api/events', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+  try {
+    // Scanners get the events they are assigned to, admins only their own events
+    const userId = req.user.role === 'scanner' ? null : req.userId;
+    const scannerId = req.user.role === 'scanner' ? req.userId : null;
+    const events = await getAllEvents(userId, scannerId);
+    res.json(events);
+  } catch (error) {
+    console.error('Error fetching events:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch events');
+  }
+});
+
+// Get event by id
+app.get('/api/events/:id', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+  try {
+    const userId = req.user.role === 'scanner' ? null : req.userId;
+    const scannerId = req.user.role === 'scanner' ? req.userId : null;
+    const event = await getEventById(req.params.id, userId, scannerId);
+    if (!event) {
+      return sendError(res, 404, 'EVENT_NOT_FOUND', 'Event not found');
+    }
+    res.json(event);
+  } catch (error) {
+    console.error('Error fetching event:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch event');
+  }
+});
+
+// Create event
+app.post('/api/events', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(eventInputSchema), async (req, res) => {
+  try {
+    const { name, description, startDate, endDate, location, logoUrl, primaryColor, attendanceBasis, dynamicQr } = req.body;
+    
+    const { id } = await createEvent({
+      name,
+      description,
+      startDate,
+      endDate,
+      location,
+      logoUrl,
+      primaryColor,
+      attendanceBasis,
+      dynamicQr: Boolean(dynamicQr),
+      userId: req.userId
+    });
+    
+    // Answer with the stored record, as the GET route would
+    res.status(201).json(await getEventById(id, req.userId));
+  } catch (error) {
+    console.error('Error creating event:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to create event');
+  }
+});
+
+// Update event
+app.put('/api/events/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(eventInputSchema), async (req, res) => {
+  try {
+    const eventId = req.params.id;
+    const { name, description, startDate, endDate, location, logoUrl, primaryColor, attendanceBasis, dynamicQr } = req.body;
+    
+    // Verify event exists and belongs to user
+    const event = await getEventById(eventId, req.userId);
+    if (!event) {
+      return sendError(res, 404, 'EVENT_NOT_FOUND', 'Event not found');
+    }
+    
+    await updateEvent(eventId, {
+      name,
+      description,
+      startDate,
+      endDate,
+      location,
+      logoUrl,
+      primaryColor,
+      attendanceBasis: attendanceBasis || event.attendance_basis,
+      dynamicQr: dynamicQr === undefined ? Boolean(event.dynamic_qr) : Boolean(dynamicQr)
+    });
+    
+    res.json(await getEventById(eventId, req.userId));
+  } catch (error) {
+    console.error('Error updating event:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to update event');
+  }
+});
+
+// Delete event (its workshops and their attendance are removed with it)
+app.delete('/api/events/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const eventId = req.params.id;
+    
+    // Verify event exists and belongs to user
+    const event = await getEventById(eventId, req.userId);
+    if (!event) {
+      return sendError(res, 404, 'EVENT_NOT_FOUND', 'Event not found');
+    }
+    
+    await deleteEvent(eventId);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting event:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to delete event');
+  }
+});
+
+// Add an existing guest to an event's roster
+app.post('/api/events/:eventId/guests', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(guestReferenceSchema), async (req, res) => {
+  try {
+    const { eventId } = req.params;
+    const { guestId } = req.body;
+    
+    const [event, guest] = await Promise.all([
+      getEventById(eventId, req.userId),
+      getGuestById(guestId, req.userId)
+    ]);
+    
+    if (!event) {
+      return sendError(res, 404, 'EVENT_NOT_FOUND', 'Event not found');
+    }
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    
+    await addGuestToEvent(eventId, guestId);
+    res.status(201).json({ message: 'Guest added to event' });
+  } catch (error) {
+    console.error('Error adding guest to event:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to add guest to event');
+  }
+});
+
+// Remove a guest from an event's roster
+app.delete('/api/events/:eventId/guests/:guestId', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const { eventId, guestId } = req.params;
+    
+    const event = await getEventById(eventId, req.userId);
+    if (!event) {
+      return sendError(res, 404, 'EVENT_NOT_FOUND', 'Event not found');
+    }
+    
+    await removeGuestFromEvent(eventId, guestId);
+    res.status(200).json({ message: 'Guest removed from event' });
+  } catch (error) {
+    console.error('Error removing guest from event:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to remove guest from event');
+  }
+});
+
+// Workshop API endpoints
+// Get all workshops, or one page of them when the query asks for a page
+app.get('/api/workshops', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), validateQuery(workshopListQuerySchema), async (req, res) => {
+  try {
+    // Scanners get the workshops they are assigned to, admins only their own workshops
+    const userId = req.user.role === 'scanner' ? null : req.userId;
+    const scannerId = req.user.role === 'scanner' ? req.userId : null;
+    const { eventId, ...query } = req.query;
+    const workshops = await getAllWorkshops(userId, eventId || null, scannerId, query);
+    res.json(workshops);
+  } catch (error) {
+    console.error('Error fetching workshops:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch workshops');
+  }
+});
+
+// Get workshop by id
+app.get('/api/workshops/:id', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+  try {
+    // Scanners can get workshops they are assigned to, admins only their own workshop
+    const userId = req.user.role === 'scanner' ? null : req.userId;
+    const scannerId = req.user.role === 'scanner' ? req.userId : null;
+    const workshop = await getWorkshopById(req.params.id, userId, scannerId);
+    if (!workshop) {
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
+    }
+    res.json(workshop);
+  } catch (error) {
+    console.error('Error fetching workshop:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch workshop');
+  }
+});
+
+// Create workshop
+app.post('/api/workshops', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(createWorkshopSchema), async (req, res) => {
+  try {
+    const {
+      name, description, date, location, isVip, maxCapacity, eventId, minDwellMinutes,
+      startTime, endTime, timezone, checkinOpensMinutes, checkinClosesMinutes, dynamicQr
+    } = req.body;
+    
+    // Verify event exists and belongs to user
+    const event = await getEventById(eventId, req.userId);
+    if (!event) {
+      return sendError(res, 404, 'EVENT_NOT_FOUND', 'Event not found');
+    }
+    
+    // Validate VIP workshop capacity
+    if (isVip && (!maxCapacity || maxCapacity > config.vipMaxCapacity)) {
+      const message = `VIP workshops must have a maximum capacity of ${config.vipMaxCapacity} or less`;
+      return sendError(res, 400, 'VALIDATION_FAILED', message, { fields: { maxCapacity: message } });
+    }
+    
+    const { id } = await createWorkshop({
+      name,
+      description,
+      // Keep the legacy date column filled for scheduled workshops
+      date: date || startTime || '',
+      location,
+      startTime,
+      endTime,
+      timezone,
+      checkinOpensMinutes,
+      checkinClosesMinutes,
+      isVip,
+      maxCapacity: maxCapacity || null,
+      minDwellMinutes,
+      dynamicQr: Boolean(dynamicQr),
+      eventId,
+      userId: req.userId
+    });
+    
+    // Answer with the stored record, as the GET route would
+    res.status(201).json(await getWorkshopById(id, req.userId));
+  } catch (error) {
+    console.error('Error creating workshop:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to create workshop');
+  }
+});
+
+// Update workshop
+app.put('/api/workshops/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(updateWorkshopSchema), async (req, res) => {
+  try {
+    const workshopId = req.params.id;
+    const {
+      name, description, date, location, maxCapacity, minDwellMinutes,
+      startTime, endTime, timezone, checkinOpensMinutes, checkinClosesMinutes, dynamicQr
+    } = req.body;
+    
+    // Verify workshop exists and belongs to user
+    const workshop = await getWorkshopById(workshopId, req.userId);
+    if (!workshop) {
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
+    }
+    
+    // Requests without a capacity keep the current one
+    const capacity = maxCapacity === undefined ? workshop.max_capacity : maxCapacity;
+    if (workshop.is_vip && (!capacity || capacity > config.vipMaxCapacity)) {
+      const message = `VIP workshops must have a maximum capacity of ${config.vipMaxCapacity} or less`;
+      return sendError(res, 400, 'VALIDATION_FAILED', message, { fields: { maxCapacity: message } });
+    }
+    
+    await updateWorkshop(workshopId, {
+      name,
+      description,
+      date: date || startTime || '',
+      location,
+      maxCapacity: capacity,
+      minDwellMinutes,
+      startTime,
+      endTime,
+      timezone,
+      checkinOpensMinutes,
+      checkinClosesMinutes,
+      // Requests without the flag keep the current setting
+      dynamicQr: dynamicQr === undefined ? Boolean(workshop.dynamic_qr) : Boolean(dynamicQr)
+    });
+    
+    // Seats added by a larger capacity go to the waitlist
+    await promoteFromWaitlist(workshopId);
+    
+    res.json(await getWorkshopById(workshopId, req.userId));
+  } catch (error) {
+    console.error('Error updating workshop:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to update workshop');
+  }
+});
+
+// Delete workshop
+app.delete('/api/workshops/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const workshopId = req.params.id;
+    
+    // Verify workshop exists and belongs to user
+    const workshop = await getWorkshopById(workshopId, req.userId);
+    if (!workshop) {
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
+    }
+    
+    await deleteWorkshop(workshopId);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting workshop:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to delete workshop');
+  }
+});
+
+// Roster and rules of a workshop, cached by scanners so they keep working offline
+app.get('/api/workshops/:workshopId/scan-roster', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+  try {
+    const roster = await getScanRoster(req.params.workshopId, req.user);
+    
+    if (!roster) {
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
+    }
+    
+    res.json(roster);
+  } catch (error) {
+    console.error('Error fetching scan roster:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch scan roster');
+  }
+});
+
+// Guest API endpoints
+// Get all guests, or one page of them when the query asks for a page
+app.get('/api/guests', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), validateQuery(guestListQuerySchema), async (req, res) => {
+  try {
+    // Scanners get the guests of their assigned events and workshops, admins only their own guests
+    const userId = req.user.role === 'scanner' ? null : req.userId;
+    const scannerId = req.user.role === 'scanner' ? req.userId : null;
+    const { eventId, ...query } = req.query;
+    const guests = await getAllGuests(userId, eventId || null, scannerId, query);
+    res.json(guests);
+  } catch (error) {
+    console.error('Error fetching guests:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch guests');
+  }
+});
+
+// Find guests by part of their name, email or organization, best matches first,
+// for door staff to check a guest in by hand when their QR code won't scan
+app.get('/api/guests/search', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), validateQuery(guestSearchQuerySchema), async (req, res) => {
+  try {
+    const { q, eventId, limit } = req.query;
+    const guests = await searchGuests(q, {
+      userId: req.user.role === 'scanner' ? null : req.userId,
+      scannerId: req.user.role === 'scanner' ? req.userId : null,
+      eventId: eventId || null,
+      limit
+    });
+    res.json(guests);
+  } catch (error) {
+    console.error('Error searching guests:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to search guests');
+  }
+});
+
+// Get guest by id
+app.get('/api/guests/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const guest = await getGuestById(req.params.id, req.userId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    res.json(guest);
+  } catch (error) {
+    console.error('Error fetching guest by ID:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch guest');
+  }
+});
+
+// Get guest by QR code - both admin and scanner can access this
+app.get('/api/guests/qr/:qrCode', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+  try {
+    // Scanners can look up guests of their assigned events and workshops, admins only their own guest
+    const userId = req.user.role === 'scanner' ? null : req.userId;
+    const scannerId = req.user.role === 'scanner' ? req.userId : null;
+    const guest = await getGuestByQRCode(req.params.qrCode, userId, scannerId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    res.json(guest);
+  } catch (error) {
+    console.error('Error fetching guest by QR code:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch guest');
+  }
+});
+
+// Guest emails are unique across all guests
+const DUPLICATE_GUEST_EMAIL = 'Another guest already has this email';
+
+// Create guest
+app.post('/api/guests', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(createGuestSchema), async (req, res) => {
+  try {
+    const { name, email, organization, isVip, eventId } = req.body;
+    
+    // New guests join the given event's roster
+    if (eventId) {
+      const event = await getEventById(eventId, req.userId);
+      if (!event) {
+        return sendError(res, 404, 'EVENT_NOT_FOUND', 'Event not found');
+      }
+    }
+    
+    const { id } = await createGuest({
+      name,
+      email,
+      organization,
+      isVip: isVip === true ? 1 : 0,
+      eventId,
+      userId: req.userId
+    });
+    
+    // Answer with the stored record, as the GET route would
+    res.status(201).json(await getGuestById(id, req.userId));
+  } catch (error) {
+    if (error.message === 'Email already exists') {
+      return sendError(res, 409, 'VALIDATION_FAILED', DUPLICATE_GUEST_EMAIL, { fields: { email: DUPLICATE_GUEST_EMAIL } });
+    }
+    console.error('Error creating guest:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to create guest');
+  }
+});
+
+// Update guest
+app.put('/api/guests/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(updateGuestSchema), async (req, res) => {
+  try {
+    const guestId = req.params.id;
+    const { name, email, organization, isVip } = req.body;
+    
+    // Verify guest exists and belongs to user
+    const guest = await getGuestById(guestId, req.userId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    
+    await updateGuest(guestId, {
+      name,
+      email,
+      organization,
+      isVip: isVip === true ? 1 : 0
+    });
+    
+    res.json(await getGuestById(guestId, req.userId));
+  } catch (error) {
+    if (error.message === 'Email already exists') {
+      return sendError(res, 409, 'VALIDATION_FAILED', DUPLICATE_GUEST_EMAIL, { fields: { email: DUPLICATE_GUEST_EMAIL } });
+    }
+    console.error('Error updating guest:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to update guest');
+  }
+});
+
+// Revoke a guest's QR code, e.g. when a badge is lost
+app.post('/api/guests/:id/qr-code/revoke', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const guest = await getGuestById(req.params.id, req.userId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    
+    const updatedGuest = await revokeGuestQrCode(guest.id);
+    audit(`QR code of guest ${guest.id} revoked by ${req.user.username}`);
+    
+    res.json(updatedGuest);
+  } catch (error) {
+    console.error('Error revoking QR code:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to revoke QR code');
+  }
+});
+
+// Issue a guest a new signed QR code; their previous code stops working
+app.post('/api/guests/:id/qr-code/reissue', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const guest = await getGuestById(req.params.id, req.userId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    
+    const updatedGuest = await reissueGuestQrCode(guest.id);
+    audit(`QR code of guest ${guest.id} re-issued by ${req.user.username}`);
+    
+    res.json(updatedGuest);
+  } catch (error) {
+    console.error('Error re-issuing QR code:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to re-issue QR code');
+  }
+});
+
+// Get the token for a guest's pass page link
+app.get('/api/guests/:id/pass', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const guest = await getGuestById(req.params.id, req.userId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    
+    res.json({ token: issuePassToken(guest) });
+  } catch (error) {
+    console.error('Error creating pass token:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to create pass link');
+  }
+});
+
+// Guest pass page: the current rotating QR code. Public, the signed token is the credential
+app.get('/api/pass/:token', async (req, res) => {
+  try {
+    const guestId = parsePassToken(req.params.token);
+    const guest = guestId ? await getGuestById(guestId) : null;
+    if (!guest || !isValidPassToken(guest, req.params.token)) {
+      return sendError(res, 404, 'PASS_NOT_FOUND', 'Pass not found');
+    }
+    if (guest.qr_revoked_at) {
+      return sendError(res, 410, 'PASS_REVOKED', 'This pass has been revoked');
+    }
+    
+    res.json({ guestName: guest.name, ...issueDynamicQrCode(guest) });
+  } catch (error) {
+    console.error('Error fetching guest pass:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch pass');
+  }
+});
+
+// Delete guest
+app.delete('/api/guests/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const guestId = req.params.id;
+    
+    // Verify guest exists and belongs to user
+    const guest = await getGuestById(guestId, req.userId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    
+    await deleteGuest(guestId);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting guest:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to delete guest');
+  }
+});
+
+// Get VIP access list for a guest
+app.get('/api/guests/:guestId/vip-access', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const { guestId } = req.params;
+
+    // Verify guest exists
+    const guest = await getGuestById(guestId, req.userId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    
+    // No need to check VIP status here - we want to allow checking even if a guest isn't VIP
+    // so admins can see what VIP workshops a guest has access to, regardless of their VIP status
+
+    // Get all VIP workshops this guest has access to
+    const vipWorkshops = await getGuestVipWorkshops(guestId);
+    res.json(vipWorkshops);
+  } catch (error) {
+    console.error('Error fetching guest VIP access list:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch guest VIP access list');
+  }
+});
+
+// Enrolment API endpoints
+// Get all enrolments of the user's workshops
+app.get('/api/enrolments', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const enrolments = await getAllEnrolments(req.userId, req.query.eventId || null);
+    res.json(enrolments);
+  } catch (error) {
+    console.error('Error fetching enrolments:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch enrolments');
+  }
+});
+
+// Get guests enrolled in a workshop
+app.get('/api/workshops/:workshopId/enrolments', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const { workshopId } = req.params;
+    
+    // Verify workshop exists and belongs to user
+    const workshop = await getWorkshopById(workshopId, req.userId);
+    if (!workshop) {
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
+    }
+    
+    const guests = await getWorkshopEnrolments(workshopId);
+    res.json(guests);
+  } catch (error) {
+    console.error('Error fetching workshop enrolments:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch workshop enrolments');
   }
 });
 
-// Login
-app.post('/api/login', authenticateLogin, async (req, res) => {
+// Enrol a guest in a workshop
+app.post('/api/workshops/:workshopId/enrolments', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(guestReferenceSchema), async (req, res) => {
   try {
-    // Record login history
-    const loginData = {
-      timestamp: new Date().toISOString(),
-      ip: req.ip,
-      userAgent: req.headers['user-agent']
-    };
+    const { workshopId } = req.params;
+    const { guestId } = req.body;
     
-    await userDb.updateLoginHistory(req.user.id, loginData);
+    // Verify guest and workshop exist and belong to user
+    const [guest, workshop] = await Promise.all([
+      getGuestById(guestId, req.userId),
+      getWorkshopById(workshopId, req.userId)
+    ]);
     
-    // Parse login history
-    const loginHistory = JSON.parse(req.user.login_history || '[]');
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    if (!workshop) {
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
+    }
     
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: req.user.id },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRES_IN }
-    );
+    // Guests can only enrol in workshops of events they are registered for
+    if (workshop.event_id && !(await isGuestInEvent(workshop.event_id, guestId))) {
+      return sendError(res, 403, 'NOT_REGISTERED', 'Guest is not registered for this event');
+    }
     
-    res.json({
-      message: 'Login successful',
-      token,
-      user: {
-        id: req.user.id,
-        username: req.user.username,
-        role: req.user.role,
-        loginHistory: loginHistory
-      }
-    });
-  } catch (error) {
-    console.error('Login error:', error);
-    res.status(500).json({ error: 'Server error' });
-  }
-});
-
-// Get user profile
-app.get('/api/profile', authenticateJWT, getUserFromJWT, (req, res) => {
-  const loginHistory = JSON.parse(req.user.login_history || '[]');
-  
-  res.json({
-    user: {
-      id: req.user.id,
-      username: req.user.username,
-      role: req.user.role,
-      loginHistory: loginHistory,
-      createdAt: req.user.created_at
+    if (workshop.is_vip && !guest.is_vip) {
+      return sendError(res, 403, 'VIP_REQUIRED', 'Non-VIP guest cannot enrol in VIP workshops');
     }
-  });
-});
-
-// Workshop API endpoints
-// Get all workshops
-app.get('/api/workshops', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
-  try {
-    // For scanner role, pass null as userId to get all workshops
-    // For admin role, pass their userId to only get their workshops
-    const userId = req.user.role === 'scanner' ? null : req.userId;
-    const workshops = await getAllWorkshops(userId);
-    res.json(workshops);
+    
+    // Full workshops put the guest on the waitlist instead
+    const enrolment = await enrolGuest(guestId, workshopId);
+    res.status(201).json(enrolment);
   } catch (error) {
-    console.error('Error fetching workshops:', error);
-    res.status(500).json({ error: 'Failed to fetch workshops' });
+    console.error('Error enrolling guest:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to enrol guest');
   }
 });
 
-// Get workshop by id
-app.get('/api/workshops/:id', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+// Remove a guest's enrolment from a workshop
+app.delete('/api/workshops/:workshopId/enrolments/:guestId', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
   try {
-    // For scanner role, pass null as userId to get any workshop
-    // For admin role, pass their userId to only get their workshop
-    const userId = req.user.role === 'scanner' ? null : req.userId;
-    const workshop = await getWorkshopById(req.params.id, userId);
+    const { workshopId, guestId } = req.params;
+    
+    // Verify workshop exists and belongs to user
+    const workshop = await getWorkshopById(workshopId, req.userId);
     if (!workshop) {
-      return res.status(404).json({ error: 'Workshop not found' });
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
     }
-    res.json(workshop);
+    
+    await unenrolGuest(guestId, workshopId);
+    
+    // Give the freed seat to the first guest on the waitlist
+    await promoteFromWaitlist(workshopId);
+    
+    res.status(204).send();
   } catch (error) {
-    console.error('Error fetching workshop:', error);
-    res.status(500).json({ error: 'Failed to fetch workshop' });
+    console.error('Error removing enrolment:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to remove enrolment');
   }
 });
 
-// Create workshop
-app.post('/api/workshops', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+// Get workshops a guest is enrolled in
+app.get('/api/guests/:guestId/enrolments', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
   try {
-    const { name, description, date, location, isVip, maxCapacity } = req.body;
+    const { guestId } = req.params;
     
-    if (!name) {
-      return res.status(400).json({ error: 'Workshop name is required' });
-    }
-
-    // Validate VIP workshop capacity
-    if (isVip && (!maxCapacity || maxCapacity > 31)) {
-      return res.status(400).json({ error: 'VIP workshops must have a maximum capacity of 31 or less' });
+    // Verify guest exists and belongs to user
+    const guest = await getGuestById(guestId, req.userId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
     }
     
-    const newWorkshop = await createWorkshop({
-      name,
-      description,
-      date,
-      location,
-      isVip,
-      maxCapacity: isVip ? maxCapacity : null,
-      userId: req.userId
-    });
-    
-    res.status(201).json(newWorkshop);
+    const workshops = await getGuestEnrolments(guestId, req.query.eventId || null);
+    res.json(workshops);
   } catch (error) {
-    console.error('Error creating workshop:', error);
-    res.status(500).json({ error: 'Failed to create workshop' });
+    console.error('Error fetching guest enrolments:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch guest enrolments');
   }
 });
 
-// Update workshop
-app.put('/api/workshops/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+// Mark an enrolled guest as a no-show, giving their seat to the waitlist
+app.post('/api/workshops/:workshopId/enrolments/:guestId/no-show', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
   try {
-    const workshopId = req.params.id;
-    const { name, description, date, location } = req.body;
+    const { workshopId, guestId } = req.params;
     
     // Verify workshop exists and belongs to user
     const workshop = await getWorkshopById(workshopId, req.userId);
     if (!workshop) {
-      return res.status(404).json({ error: 'Workshop not found' });
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
     }
     
-    const updatedWorkshop = await updateWorkshop(workshopId, {
-      name,
-      description,
-      date,
-      location
-    });
+    const enrolment = await getEnrolment(guestId, workshopId);
+    if (!enrolment) {
+      return sendError(res, 404, 'NOT_ENROLLED', 'Guest is not enrolled in this workshop');
+    }
+    if (await getAttendanceRecord(guestId, workshopId)) {
+      return sendError(res, 409, 'ALREADY_CHECKED_IN', 'Guest has already checked in to this workshop');
+    }
+    
+    await markNoShow(guestId, workshopId);
+    const promoted = await promoteFromWaitlist(workshopId);
     
-    res.json(updatedWorkshop);
+    res.json({ guestId, workshopId, status: 'no-show', promoted });
   } catch (error) {
-    console.error('Error updating workshop:', error);
-    res.status(500).json({ error: 'Failed to update workshop' });
+    console.error('Error marking no-show:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to mark guest as no-show');
   }
 });
 
-// Delete workshop
-app.delete('/api/workshops/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+// Get the waitlist of a workshop in order
+app.get('/api/workshops/:workshopId/waitlist', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
   try {
-    const workshopId = req.params.id;
+    const { workshopId } = req.params;
     
     // Verify workshop exists and belongs to user
     const workshop = await getWorkshopById(workshopId, req.userId);
     if (!workshop) {
-      return res.status(404).json({ error: 'Workshop not found' });
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
     }
     
-    await deleteWorkshop(workshopId);
-    res.status(204).send();
+    const waitlist = await getWorkshopWaitlist(workshopId);
+    res.json(waitlist);
   } catch (error) {
-    console.error('Error deleting workshop:', error);
-    res.status(500).json({ error: 'Failed to delete workshop' });
+    console.error('Error fetching waitlist:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch waitlist');
   }
 });
 
-// Guest API endpoints
-// Get all guests
-app.get('/api/guests', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+// Reorder the waitlist of a workshop
+app.put('/api/workshops/:workshopId/waitlist', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(waitlistOrderSchema), async (req, res) => {
   try {
-    // For scanner role, pass null as userId to get all guests
-    // For admin role, pass their userId to only get their guests
-    const userId = req.user.role === 'scanner' ? null : req.userId;
-    const guests = await getAllGuests(userId);
-    res.json(guests);
+    const { workshopId } = req.params;
+    const { guestIds } = req.body;
+    
+    // Verify workshop exists and belongs to user
+    const workshop = await getWorkshopById(workshopId, req.userId);
+    if (!workshop) {
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
+    }
+    
+    // The new order must contain exactly the guests currently waiting
+    const current = await getWorkshopWaitlist(workshopId);
+    const currentIds = new Set(current.map(guest => guest.id));
+    if (guestIds.length !== currentIds.size || new Set(guestIds).size !== currentIds.size || !guestIds.every(id => currentIds.has(id))) {
+      return sendError(res, 409, 'WAITLIST_CHANGED', 'Waitlist has changed, reload it and try again');
+    }
+    
+    await reorderWaitlist(workshopId, guestIds);
+    res.json(await getWorkshopWaitlist(workshopId));
   } catch (error) {
-    console.error('Error fetching guests:', error);
-    res.status(500).json({ error: 'Failed to fetch guests' });
+    console.error('Error reordering waitlist:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to reorder waitlist');
   }
 });
 
-// Get guest by id
-app.get('/api/guests/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+// Get workshops a guest is waiting for
+app.get('/api/guests/:guestId/waitlist', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
   try {
-    const guest = await getGuestById(req.params.id, req.userId);
+    const { guestId } = req.params;
+    
+    // Verify guest exists and belongs to user
+    const guest = await getGuestById(guestId, req.userId);
     if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
     }
-    res.json(guest);
+    
+    const workshops = await getGuestWaitlist(guestId, req.query.eventId || null);
+    res.json(workshops);
   } catch (error) {
-    console.error('Error fetching guest by ID:', error);
-    res.status(500).json({ error: 'Failed to fetch guest' });
+    console.error('Error fetching guest waitlist:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch guest waitlist');
   }
 });
 
-// Get guest by QR code - both admin and scanner can access this
-app.get('/api/guests/qr/:qrCode', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+// Attendance API endpoints
+// Get all attendance records, or one page of them when the query asks for a page
+app.get('/api/attendance', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), validateQuery(attendanceListQuerySchema), async (req, res) => {
   try {
-    // For scanner role, pass null as userId to get any guest
-    // For admin role, pass their userId to only get their guest
+    // Scanners get the records of their assigned workshops, admins only their own records
     const userId = req.user.role === 'scanner' ? null : req.userId;
-    const guest = await getGuestByQRCode(req.params.qrCode, userId);
-    if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
-    }
-    res.json(guest);
+    const scannerId = req.user.role === 'scanner' ? req.userId : null;
+    const { eventId, ...query } = req.query;
+    const attendance = await getAllAttendance(userId, eventId || null, scannerId, query);
+    res.json(attendance);
   } catch (error) {
-    console.error('Error fetching guest by QR code:', error);
-    res.status(500).json({ error: 'Failed to fetch guest' });
+    console.error('Error fetching attendance:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch attendance records');
   }
 });
 
-// Create guest
-app.post('/api/guests', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+// Record attendance - both admin and scanner can access this
+app.post('/api/attendance', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), validateBody(checkInSchema), async (req, res) => {
   try {
-    const { name, email, organization, isVip } = req.body;
+    const { guestId, workshopId, vipOverride, overrideReason } = req.body;
     
-    if (!name) {
-      return res.status(400).json({ error: 'Guest name is required' });
+    if (vipOverride && req.user.role !== 'admin') {
+      return sendError(res, 403, 'FORBIDDEN', 'Only admins can override VIP access');
     }
     
-    const newGuest = await createGuest({
-      name,
-      email,
-      organization,
-      isVip: isVip === true ? 1 : 0,
-      userId: req.userId
-    });
+    // Same rules as a door scan, applied in one transaction; picking the guest by ID counts as a manual check-in
+    const result = await processScan({ guestId, workshopId, user: req.user, vipOverride, overrideReason });
+    
+    if (result.outcome === 'already-checked-in') {
+      return sendError(res, 409, 'ALREADY_CHECKED_IN', 'Attendance already recorded');
+    }
+    if (result.outcome === 'denied') {
+      const { message, code, reason, canOverride, opensAt, closesAt } = result;
+      return sendError(res, getScanStatus(result), code, message, { reason, canOverride, opensAt, closesAt });
+    }
     
-    res.status(201).json(newGuest);
+    res.status(201).json({
+      id: result.attendance.id,
+      guestId,
+      workshopId,
+      timestamp: result.attendance.timestamp,
+      createdBy: req.userId,
+      checkinStatus: result.attendance.checkinStatus,
+      vipOverrideBy: result.attendance.vipOverrideBy,
+      vipOverrideReason: result.vipOverrideReason,
+      checkinMethod: result.attendance.checkinMethod,
+      manualBy: result.attendance.manualBy
+    });
   } catch (error) {
-    console.error('Error creating guest:', error);
-    res.status(500).json({ error: 'Failed to create guest' });
+    console.error('Error recording attendance:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to record attendance');
   }
 });
 
-// Update guest
-app.put('/api/guests/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+// Import many check-ins at once (paper sign-in sheets, offline devices) with
+// the same rules as POST /api/attendance. Each item gets its own status; with
+// `allOrNothing` nothing is saved unless every item is created.
+app.post('/api/attendance/batch', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
   try {
-    const guestId = req.params.id;
-    const { name, email, organization, isVip } = req.body;
+    const { items, allOrNothing = false } = req.body;
     
-    // Verify guest exists and belongs to user
-    const guest = await getGuestById(guestId, req.userId);
-    if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
+    if (!Array.isArray(items) || items.length === 0) {
+      return sendError(res, 400, 'VALIDATION_FAILED', 'Items must be a non-empty array');
+    }
+    if (items.length > config.maxBatchSize) {
+      return sendError(res, 400, 'VALIDATION_FAILED', `A batch can hold at most ${config.maxBatchSize} items`);
     }
     
-    const updatedGuest = await updateGuest(guestId, {
-      name,
-      email,
-      organization,
-      isVip: isVip === true ? 1 : 0
-    });
+    // Imports only record check-ins
+    const scans = items.map(item => (item ? { ...item, mode: 'check-in' } : item));
+    const { committed, results } = await processScanBatch(scans, { user: req.user, allOrNothing: Boolean(allOrNothing), method: 'import' });
     
-    res.json(updatedGuest);
+    const statusOf = (result) => {
+      if (result.outcome === 'checked-in') return committed ? 'created' : 'rolled-back';
+      if (result.outcome === 'already-checked-in') return 'duplicate';
+      return result.outcome;
+    };
+    const itemResults = results.map((result, index) => ({
+      index,
+      status: statusOf(result),
+      reason: result.reason,
+      message: result.message,
+      guestId: result.guest ? result.guest.id : null,
+      guestName: result.guest ? result.guest.name : null,
+      attendanceId: committed && result.outcome === 'checked-in' ? result.attendance.id : null
+    }));
+    const count = (status) => itemResults.filter(result => result.status === status).length;
+    
+    res.status(committed ? 200 : 409).json({
+      ...(committed ? {} : { error: 'Nothing was saved because some items could not be checked in', code: 'IMPORT_ROLLED_BACK' }),
+      committed,
+      created: count('created'),
+      duplicates: count('duplicate'),
+      denied: count('denied'),
+      invalid: count('invalid'),
+      results: itemResults
+    });
   } catch (error) {
-    console.error('Error updating guest:', error);
-    res.status(500).json({ error: 'Failed to update guest' });
+    console.error('Error importing attendance:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to import attendance');
   }
 });
 
-// Delete guest
-app.delete('/api/guests/:id', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+// Process a QR scan at the door: look up the guest from the raw payload and
+// check them in or out in a single transaction
+app.post('/api/scan', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), validateBody(scanSchema), async (req, res) => {
   try {
-    const guestId = req.params.id;
+    const { qrCode, workshopId, mode, vipOverride, overrideReason } = req.body;
     
-    // Verify guest exists and belongs to user
-    const guest = await getGuestById(guestId, req.userId);
-    if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
+    if (vipOverride && req.user.role !== 'admin') {
+      return sendError(res, 403, 'FORBIDDEN', 'Only admins can override VIP access');
     }
     
-    await deleteGuest(guestId);
-    res.status(204).send();
+    const result = await processScan({ qrCode, workshopId, mode, user: req.user, vipOverride, overrideReason });
+    
+    res.status(getScanStatus(result)).json(
+      result.outcome === 'denied' ? { error: result.message, ...result } : result
+    );
   } catch (error) {
-    console.error('Error deleting guest:', error);
-    res.status(500).json({ error: 'Failed to delete guest' });
+    console.error('Error processing scan:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to process scan');
   }
 });
 
-// Get VIP access list for a guest
-app.get('/api/guests/:guestId/vip-access', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+// Check a guest in or out by hand when their QR code can't be read. The guest
+// was looked up by name, so check-ins are flagged with the user who made them
+app.post('/api/scan/manual', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), validateBody(manualScanSchema), async (req, res) => {
   try {
-    const { guestId } = req.params;
-
-    // Verify guest exists
-    const guest = await getGuestById(guestId, req.userId);
-    if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
+    const { guestId, workshopId, mode, vipOverride, overrideReason } = req.body;
+    
+    if (vipOverride && req.user.role !== 'admin') {
+      return sendError(res, 403, 'FORBIDDEN', 'Only admins can override VIP access');
     }
     
-    // No need to check VIP status here - we want to allow checking even if a guest isn't VIP
-    // so admins can see what VIP workshops a guest has access to, regardless of their VIP status
-
-    // Get all VIP workshops this guest has access to
-    const vipWorkshops = await getGuestVipWorkshops(guestId);
-    res.json(vipWorkshops);
+    const result = await processScan({ guestId, workshopId, mode, user: req.user, vipOverride, overrideReason });
+    
+    res.status(getScanStatus(result)).json(
+      result.outcome === 'denied' ? { error: result.message, ...result } : result
+    );
   } catch (error) {
-    console.error('Error fetching guest VIP access list:', error);
-    res.status(500).json({ error: 'Failed to fetch guest VIP access list' });
+    console.error('Error processing manual check-in:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to process manual check-in');
   }
 });
 
-// Attendance API endpoints
-// Get all attendance records
-app.get('/api/attendance', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+// Sync scans a device queued while offline. Each scan is processed on its own
+// with its original timestamp, which may be up to maxScanAgeHours old; the
+// per-scan results let the device report the ones that no longer apply
+// (duplicates, a workshop that filled up, ...)
+app.post('/api/scan/batch', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
   try {
-    // For scanner role, pass null as userId to get all attendance records
-    // For admin role, pass their userId to only get their attendance records
-    const userId = req.user.role === 'scanner' ? null : req.userId;
-    const attendance = await getAllAttendance(userId);
-    res.json(attendance);
+    const { scans } = req.body;
+    
+    if (!Array.isArray(scans) || scans.length === 0) {
+      return sendError(res, 400, 'VALIDATION_FAILED', 'Scans must be a non-empty array');
+    }
+    if (scans.length > config.maxBatchSize) {
+      return sendError(res, 400, 'VALIDATION_FAILED', `A batch can hold at most ${config.maxBatchSize} scans`);
+    }
+    
+    const { results } = await processScanBatch(scans, { user: req.user });
+    
+    res.json({ results });
   } catch (error) {
-    console.error('Error fetching attendance:', error);
-    res.status(500).json({ error: 'Failed to fetch attendance records' });
+    console.error('Error syncing scans:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to sync scans');
   }
 });
 
-// Record attendance - both admin and scanner can access this
-app.post('/api/attendance', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+// Record check-out - a second scan in check-out mode stores when the guest left
+app.post('/api/attendance/checkout', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), validateBody(checkOutSchema), async (req, res) => {
   try {
-    const { guestId, workshopId, timestamp } = req.body;
-    
-    if (!guestId || !workshopId) {
-      return res.status(400).json({ error: 'Guest ID and Workshop ID are required' });
-    }
+    const { guestId, workshopId } = req.body;
     
-    // For scanner role, pass null as userId to get any guest/workshop
-    // For admin role, pass their userId to only get their guest/workshop
+    // Scanners can only check guests out of workshops they are assigned to
     const userId = req.user.role === 'scanner' ? null : req.userId;
+    const scannerId = req.user.role === 'scanner' ? req.userId : null;
     
-    // Verify guest and workshop exist
-    const [guest, workshop] = await Promise.all([
-      getGuestById(guestId, userId),
-      getWorkshopById(workshopId, userId)
-    ]);
-
-    if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
-    }
+    const workshop = await getWorkshopById(workshopId, userId, scannerId);
     if (!workshop) {
-      return res.status(404).json({ error: 'Workshop not found' });
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
     }
-
-    // Check VIP access if workshop is VIP
-    if (workshop.isVip || workshop.is_vip) {
-      // First check if guest is VIP
-      if (!guest.isVip && !guest.is_vip) {
-        return res.status(403).json({ error: 'Non-VIP guest cannot attend VIP workshops' });
-      }
-
-      // Check workshop capacity
-      if (workshop.maxCapacity || workshop.max_capacity) {
-        const attendees = await getWorkshopAttendees(workshopId);
-        const maxCap = workshop.maxCapacity || workshop.max_capacity;
-        if (attendees.length >= maxCap) {
-          return res.status(403).json({ error: 'Workshop has reached maximum capacity' });
-        }
-      }
+    
+    const record = await getAttendanceRecord(guestId, workshopId);
+    if (!record) {
+      return sendError(res, 404, 'NOT_CHECKED_IN', 'Guest has not checked in to this workshop');
+    }
+    if (record.checked_out_at) {
+      return sendError(res, 409, 'ALREADY_CHECKED_OUT', 'Guest already checked out');
     }
     
-    // Check if attendance is already recorded
-    const existingRecord = await getAttendanceRecord(guestId, workshopId);
-    if (existingRecord) {
-      return res.status(409).json({ error: 'Attendance already recorded' });
+    const checkedOutAt = new Date().toISOString();
+    if (new Date(checkedOutAt) < new Date(record.timestamp)) {
+      return sendError(res, 400, 'CHECKOUT_BEFORE_CHECKIN', 'Check-out time must be after check-in time');
     }
     
-    const attendanceRecord = await createAttendance({
+    await checkOutAttendance(record.id, checkedOutAt);
+    
+    const dwellMinutes = (new Date(checkedOutAt) - new Date(record.timestamp)) / 60000;
+    res.json({
+      id: record.id,
       guestId,
       workshopId,
-      timestamp: timestamp || new Date().toISOString(),
-      userId: req.userId
+      timestamp: record.timestamp,
+      checkedOutAt,
+      dwellMinutes: Math.round(dwellMinutes * 10) / 10
     });
-    
-    res.status(201).json(attendanceRecord);
   } catch (error) {
-    console.error('Error recording attendance:', error);
-    res.status(500).json({ error: 'Failed to record attendance' });
+    if (error.message === 'Guest already checked out') {
+      return sendError(res, 409, 'ALREADY_CHECKED_OUT', error.message);
+    }
+    console.error('Error recording check-out:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to record check-out');
   }
 });
 
@@ -572,14 +2147,14 @@ app.get('/api/attendance/guest/:guestId', authenticateJWT, getUserFromJWT, autho
     // Verify guest exists and belongs to user
     const guest = await getGuestById(guestId, req.userId);
     if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
     }
     
-    const workshops = await getGuestAttendance(guestId);
+    const workshops = await getGuestAttendance(guestId, req.query.eventId || null);
     res.json(workshops);
   } catch (error) {
     console.error('Error fetching guest attendance:', error);
-    res.status(500).json({ error: 'Failed to fetch guest attendance' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch guest attendance');
   }
 });
 
@@ -591,14 +2166,14 @@ app.get('/api/attendance/workshop/:workshopId', authenticateJWT, getUserFromJWT,
     // Verify workshop exists and belongs to user
     const workshop = await getWorkshopById(workshopId, req.userId);
     if (!workshop) {
-      return res.status(404).json({ error: 'Workshop not found' });
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
     }
     
     const attendees = await getWorkshopAttendees(workshopId);
     res.json(attendees);
   } catch (error) {
     console.error('Error fetching workshop attendees:', error);
-    res.status(500).json({ error: 'Failed to fetch workshop attendees' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch workshop attendees');
   }
 });
 
@@ -606,11 +2181,11 @@ app.get('/api/attendance/workshop/:workshopId', authenticateJWT, getUserFromJWT,
 app.get('/api/attendance/recent', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
   try {
     const count = parseInt(req.query.count) || 5;
-    const recentCheckIns = await getRecentCheckIns(req.userId, count);
+    const recentCheckIns = await getRecentCheckIns(req.userId, count, req.query.eventId || null);
     res.json(recentCheckIns);
   } catch (error) {
     console.error('Error fetching recent check-ins:', error);
-    res.status(500).json({ error: 'Failed to fetch recent check-ins' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch recent check-ins');
   }
 });
 
@@ -623,14 +2198,14 @@ app.get('/api/analytics/guest/:guestId/percentage', authenticateJWT, getUserFrom
     // Verify guest exists and belongs to user
     const guest = await getGuestById(guestId, req.userId);
     if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
     }
     
-    const percentage = await calculateGuestAttendancePercentage(guestId, req.userId);
+    const percentage = await calculateGuestAttendancePercentage(guestId, req.userId, req.query.eventId || null);
     res.json({ percentage });
   } catch (error) {
     console.error('Error calculating attendance percentage:', error);
-    res.status(500).json({ error: 'Failed to calculate attendance percentage' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to calculate attendance percentage');
   }
 });
 
@@ -642,16 +2217,67 @@ app.get('/api/analytics/guest/:guestId/eligible', authenticateJWT, getUserFromJW
     // Verify guest exists and belongs to user
     const guest = await getGuestById(guestId, req.userId);
     if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
     }
     
-    const percentage = await calculateGuestAttendancePercentage(guestId, req.userId);
-    const eligible = percentage >= 70; // 70% attendance required for attestation
+    // Attendances shorter than a workshop's minimum dwell time do not count
+    const percentage = await calculateGuestAttendancePercentage(guestId, req.userId, req.query.eventId || null, true);
+    const eligible = percentage >= config.attestationThresholdPercent;
     
-    res.json({ eligible, percentage });
+    res.json({ eligible, percentage, threshold: config.attestationThresholdPercent });
   } catch (error) {
     console.error('Error checking attestation eligibility:', error);
-    res.status(500).json({ error: 'Failed to check attestation eligibility' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to check attestation eligibility');
+  }
+});
+
+// Get guest dwell time per workshop
+app.get('/api/analytics/guest/:guestId/dwell', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const { guestId } = req.params;
+    
+    // Verify guest exists and belongs to user
+    const guest = await getGuestById(guestId, req.userId);
+    if (!guest) {
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+    
+    const workshops = await getGuestDwellTimes(guestId, req.query.eventId || null);
+    const totalDwellMinutes = workshops.reduce((sum, row) => sum + (row.dwell_minutes || 0), 0);
+    
+    res.json({ workshops, totalDwellMinutes: Math.round(totalDwellMinutes * 10) / 10 });
+  } catch (error) {
+    console.error('Error fetching guest dwell times:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch guest dwell times');
+  }
+});
+
+// Get dwell time of each guest in a workshop
+app.get('/api/analytics/workshop/:workshopId/dwell', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+  try {
+    const { workshopId } = req.params;
+    
+    // Verify workshop exists and belongs to user
+    const workshop = await getWorkshopById(workshopId, req.userId);
+    if (!workshop) {
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
+    }
+    
+    const guests = await getWorkshopDwellTimes(workshopId);
+    // Only guests who checked out have a dwell time
+    const completed = guests.filter(row => row.dwell_minutes !== null);
+    const averageDwellMinutes = completed.length > 0
+      ? completed.reduce((sum, row) => sum + row.dwell_minutes, 0) / completed.length
+      : null;
+    
+    res.json({
+      guests,
+      minDwellMinutes: workshop.min_dwell_minutes,
+      averageDwellMinutes: averageDwellMinutes === null ? null : Math.round(averageDwellMinutes * 10) / 10
+    });
+  } catch (error) {
+    console.error('Error fetching workshop dwell times:', error);
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch workshop dwell times');
   }
 });
 
@@ -663,49 +2289,55 @@ app.get('/api/analytics/workshop/:workshopId/percentage', authenticateJWT, getUs
     // Verify workshop exists and belongs to user
     const workshop = await getWorkshopById(workshopId, req.userId);
     if (!workshop) {
-      return res.status(404).json({ error: 'Workshop not found' });
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
     }
     
     const percentage = await calculateWorkshopAttendancePercentage(workshopId, req.userId);
     res.json({ percentage });
   } catch (error) {
     console.error('Error calculating workshop attendance percentage:', error);
-    res.status(500).json({ error: 'Failed to calculate workshop attendance percentage' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to calculate workshop attendance percentage');
   }
 });
 
 // Generate certificate endpoint
 app.post('/api/certificates/generate', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
   try {
-    const { guestId, guestName } = req.body;
+    const { guestId, guestName, eventId } = req.body;
     
     if (!guestId || !guestName) {
-      return res.status(400).json({ error: 'Missing guest information' });
+      return sendError(res, 400, 'VALIDATION_FAILED', 'Missing guest information');
     }
 
     // Check if guest exists
     const guest = await getGuestById(guestId, req.userId);
     if (!guest) {
-      return res.status(404).json({ error: 'Guest not found' });
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
+    }
+
+    // Certificates are issued per event when one is given
+    const event = eventId ? await getEventById(eventId, req.userId) : null;
+    if (eventId && !event) {
+      return sendError(res, 404, 'EVENT_NOT_FOUND', 'Event not found');
     }
 
     // Check if guest has any attendance records
-    const attendance = await getGuestAttendance(guestId);
+    const attendance = await getGuestAttendance(guestId, eventId || null);
     if (!attendance || attendance.length === 0) {
-      return res.status(403).json({ error: 'Guest has not attended any workshops' });
+      return sendError(res, 403, 'NOT_ELIGIBLE', 'Guest has not attended any workshops');
     }
 
-    // Calculate attendance percentage
-    const percentage = await calculateGuestAttendancePercentage(guestId, req.userId);
+    // Calculate attendance percentage, leaving out visits shorter than the minimum dwell time
+    const percentage = await calculateGuestAttendancePercentage(guestId, req.userId, eventId || null, true);
     if (percentage < 1) { // At least attended one workshop
-      return res.status(403).json({ error: 'Guest has not attended any workshops' });
+      // Check-ins to workshops the guest is not enrolled in don't count on the enrolled basis
+      return sendError(res, 403, 'NOT_ELIGIBLE', event && event.attendance_basis === 'enrolled'
+        ? 'Guest has not attended any workshop they are enrolled in. This event bases attendance on enrolments; change it to every workshop of the event to count all check-ins'
+        : 'Guest has not attended any workshops');
     }
 
-    // Read the certificate template
-    const certificateTemplate = path.join(__dirname, 'cert.jpeg');
-    
     // Create a sharp instance with the template
-    const image = sharp(certificateTemplate);
+    const image = sharp(config.certificateTemplate);
     
     // Get image metadata
     const metadata = await image.metadata();
@@ -718,7 +2350,7 @@ app.post('/api/certificates/generate', authenticateJWT, getUserFromJWT, authoriz
     const svgText = `
       <svg width="${metadata.width}" height="${metadata.height}">
         <style>
-          .name { font: bold 65px sans-serif; fill: #23519e; }
+          .name { font: bold ${config.certificateFontSize}px ${config.certificateFont}; fill: ${(event && event.primary_color) || config.certificateTextColor}; }
         </style>
         <text x="${textX}" y="${textY}" text-anchor="middle" class="name">${guestName}</text>
       </svg>
@@ -744,63 +2376,47 @@ app.post('/api/certificates/generate', authenticateJWT, getUserFromJWT, authoriz
     res.send(certificateBuffer);
   } catch (error) {
     console.error('Error generating certificate:', error);
-    res.status(500).json({ error: 'Failed to generate certificate' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to generate certificate');
   }
 });
 
 // VIP Access Management Endpoints
-app.post('/api/workshops/:workshopId/vip-access', authenticateJWT, getUserFromJWT, authorize(['admin']), async (req, res) => {
+app.post('/api/workshops/:workshopId/vip-access', authenticateJWT, getUserFromJWT, authorize(['admin']), validateBody(guestReferenceSchema), async (req, res) => {
   try {
     const { workshopId } = req.params;
     const { guestId } = req.body;
 
-    console.log(`Adding VIP access: Workshop ${workshopId}, Guest ${guestId}`);
-
-    if (!workshopId || !guestId) {
-      console.log('Missing required parameters', { workshopId, guestId });
-      return res.status(400).json({ error: 'Workshop ID and Guest ID are required' });
-    }
-
     // Verify workshop exists and is VIP
     const workshop = await getWorkshopById(workshopId, req.userId);
     if (!workshop) {
-      console.log(`Workshop not found: ${workshopId}`);
-      return res.status(404).json({ error: 'Workshop not found' });
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
     }
     
-    console.log('Workshop details:', workshop);
-    
     if (!workshop.is_vip && !workshop.isVip) {
-      console.log('Workshop is not VIP');
-      return res.status(400).json({ error: 'This is not a VIP workshop' });
+      return sendError(res, 400, 'NOT_VIP_WORKSHOP', 'This is not a VIP workshop');
     }
 
     // Check current VIP count
     const currentCount = await getVipWorkshopCount(workshopId);
-    console.log(`Current VIP count: ${currentCount}, Max capacity: ${workshop.max_capacity || workshop.maxCapacity}`);
     
     if (currentCount >= (workshop.max_capacity || workshop.maxCapacity)) {
-      return res.status(400).json({ error: 'VIP workshop has reached maximum capacity' });
+      return sendError(res, 400, 'CAPACITY_FULL', 'VIP workshop has reached maximum capacity');
     }
 
     // Verify guest exists
     const guest = await getGuestById(guestId, req.userId);
     if (!guest) {
-      console.log(`Guest not found: ${guestId}`);
-      return res.status(404).json({ error: 'Guest not found' });
+      return sendError(res, 404, 'GUEST_NOT_FOUND', 'Guest not found');
     }
-    
-    console.log('Guest details:', guest);
 
     // Add VIP access
-    console.log('Adding VIP access...');
-    const result = await addVipAccess(guestId, workshopId);
-    console.log('VIP access added:', result);
+    await addVipAccess(guestId, workshopId);
+    audit(`VIP access to workshop ${workshopId} granted to guest ${guestId} by ${req.user.username}`);
     
     res.status(201).json({ message: 'VIP access granted successfully' });
   } catch (error) {
     console.error('Error granting VIP access:', error);
-    res.status(500).json({ error: `Failed to grant VIP access: ${error.message}` });
+    sendError(res, 500, 'SERVER_ERROR', `Failed to grant VIP access: ${error.message}`);
   }
 });
 
@@ -811,18 +2427,19 @@ app.delete('/api/workshops/:workshopId/vip-access/:guestId', authenticateJWT, ge
     // Verify workshop exists and is VIP
     const workshop = await getWorkshopById(workshopId, req.userId);
     if (!workshop) {
-      return res.status(404).json({ error: 'Workshop not found' });
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
     }
     if (!workshop.isVip) {
-      return res.status(400).json({ error: 'This is not a VIP workshop' });
+      return sendError(res, 400, 'NOT_VIP_WORKSHOP', 'This is not a VIP workshop');
     }
 
     // Remove VIP access
     await removeVipAccess(guestId, workshopId);
+    audit(`VIP access to workshop ${workshopId} removed from guest ${guestId} by ${req.user.username}`);
     res.status(200).json({ message: 'VIP access removed successfully' });
   } catch (error) {
     console.error('Error removing VIP access:', error);
-    res.status(500).json({ error: 'Failed to remove VIP access' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to remove VIP access');
   }
 });
 
@@ -833,10 +2450,10 @@ app.get('/api/workshops/:workshopId/vip-access', authenticateJWT, getUserFromJWT
     // Verify workshop exists and is VIP
     const workshop = await getWorkshopById(workshopId, req.userId);
     if (!workshop) {
-      return res.status(404).json({ error: 'Workshop not found' });
+      return sendError(res, 404, 'WORKSHOP_NOT_FOUND', 'Workshop not found');
     }
     if (!workshop.isVip) {
-      return res.status(400).json({ error: 'This is not a VIP workshop' });
+      return sendError(res, 400, 'NOT_VIP_WORKSHOP', 'This is not a VIP workshop');
     }
 
     // Get VIP access list
@@ -844,44 +2461,42 @@ app.get('/api/workshops/:workshopId/vip-access', authenticateJWT, getUserFromJWT
     res.json(vipGuests);
   } catch (error) {
     console.error('Error fetching VIP access list:', error);
-    res.status(500).json({ error: 'Failed to fetch VIP access list' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to fetch VIP access list');
   }
 });
 
-// Delete attendance record
-app.delete('/api/attendance/:id', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), async (req, res) => {
+// Delete attendance record - scanners need the attendance:delete permission
+app.delete('/api/attendance/:id', authenticateJWT, getUserFromJWT, authorize(['admin', 'scanner']), requirePermission('attendance:delete'), async (req, res) => {
   try {
     const { id } = req.params;
     
-    // Verify attendance record exists
-    const record = await db.get('SELECT * FROM attendance WHERE id = ?', [id]);
+    // Verify the record exists in one of the user's workshops
+    const userId = req.user.role === 'scanner' ? null : req.userId;
+    const scannerId = req.user.role === 'scanner' ? req.userId : null;
+    const record = await getAttendanceById(id, userId, scannerId);
     if (!record) {
-      return res.status(404).json({ error: 'Attendance record not found' });
+      return sendError(res, 404, 'ATTENDANCE_NOT_FOUND', 'Attendance record not found');
     }
     
-    // Delete the record
-    await db.run('DELETE FROM attendance WHERE id = ?', [id]);
+    await deleteAttendance(id);
+    audit(`Attendance record ${id} deleted by ${req.user.username}`);
     
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting attendance record:', error);
-    res.status(500).json({ error: 'Failed to delete attendance record' });
+    sendError(res, 500, 'SERVER_ERROR', 'Failed to delete attendance record');
   }
 });
 
 // Initialize database and start server
 async function startServer() {
   try {
-    // Ensure database tables are created before starting the server
+    // Apply pending migrations before starting the server
     await initDb();
     
-    // Run migrations
-    await runRoleMigration();
-    await runGuestVipMigration();
-    
     // Start server
-    app.listen(PORT, '0.0.0.0', () => {
-      console.log(`Server running on http://0.0.0.0:${PORT}`);
+    app.listen(config.port, config.host, () => {
+      console.log(`Server running on http://${config.host}:${config.port}`);
     });
   } catch (error) {
     console.error('Failed to initialize database:', error);
@@ -0,0 +1,95 @@
+/**
+ * Sign-in throttling
+ *
+ * Failed password and two-factor attempts are counted per account and per
+ * client IP. The first few failures are free; after that each one makes the
+ * key wait twice as long as the last before it may try again, and enough
+ * failures lock it out for a while. Counts are forgotten once a key has gone
+ * a full lockout period without failing. A successful sign-in clears the
+ * account's count but not the IP's, so one known password can't be used to
+ * keep guessing at others.
+ */
+
+const { withTransaction } = require('./database');
+
+const POLICIES = {
+  account: { freeAttempts: 3, lockoutAfter: 10 },
+  ip: { freeAttempts: 10, lockoutAfter: 50 }
+};
+const MAX_DELAY_SECONDS = 60;
+const LOCKOUT_MINUTES = 15;
+
+const throttleKey = (kind, id) => `${kind}:${id}`;
+
+// Whether a row's failures are old enough to be forgotten
+const isExpired = (row, now) => !row.locked_until
+  && now - new Date(row.last_failure_at).getTime() > LOCKOUT_MINUTES * 60 * 1000;
+
+// Seconds a key still has to wait before its next attempt, 0 when it may try now
+function getWait(kind, row, now) {
+  if (!row || isExpired(row, now)) {
+    return 0;
+  }
+
+  if (row.locked_until) {
+    return Math.max(0, Math.ceil((new Date(row.locked_until).getTime() - now) / 1000));
+  }
+
+  const extra = row.failures - POLICIES[kind].freeAttempts;
+  if (extra <= 0) {
+    return 0;
+  }
+  const delay = Math.min(2 ** (extra - 1), MAX_DELAY_SECONDS);
+  return Math.max(0, Math.ceil((new Date(row.last_failure_at).getTime() + delay * 1000 - now) / 1000));
+}
+
+// Seconds the account and IP of an attempt have to wait, the longer of the two
+function getRetryAfter({ username, ip }) {
+  return withTransaction(async ({ all }) => {
+    const now = Date.now();
+    const rows = await all(
+      'SELECT * FROM login_throttles WHERE key IN (?, ?)',
+      [throttleKey('account', username), throttleKey('ip', ip)]
+    );
+    return Math.max(0, ...rows.map(row => getWait(row.key.startsWith('ip:') ? 'ip' : 'account', row, now)));
+  });
+}
+
+// Count a failed attempt. Resolves which of the account and IP it locked out, with the lockout's end
+function recordFailure({ username, ip }) {
+  return withTransaction(async ({ run, get }) => {
+    const now = Date.now();
+    const lockedUntil = new Date(now + LOCKOUT_MINUTES * 60 * 1000).toISOString();
+    const locked = { account: false, ip: false, lockedUntil };
+
+    for (const [kind, id] of [['account', username], ['ip', ip]]) {
+      const key = throttleKey(kind, id);
+      const row = await get('SELECT * FROM login_throttles WHERE key = ?', [key]);
+      // A lockout that ran out starts the count again
+      const expired = row && (isExpired(row, now) || (row.locked_until && new Date(row.locked_until).getTime() <= now));
+      const failures = (row && !expired ? row.failures : 0) + 1;
+      const lock = failures >= POLICIES[kind].lockoutAfter;
+
+      await run(
+        `INSERT INTO login_throttles (key, failures, last_failure_at, locked_until) VALUES (?, ?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET failures = excluded.failures, last_failure_at = excluded.last_failure_at, locked_until = excluded.locked_until`,
+        [key, lock ? 0 : failures, new Date(now).toISOString(), lock ? lockedUntil : null]
+      );
+      locked[kind] = lock;
+    }
+
+    return locked;
+  });
+}
+
+// Forget an account's failures after it signed in
+function clearFailures(username) {
+  return withTransaction(({ run }) => run('DELETE FROM login_throttles WHERE key = ?', [throttleKey('account', username)]));
+}
+
+module.exports = {
+  LOCKOUT_MINUTES,
+  getRetryAfter,
+  recordFailure,
+  clearFailures
+};
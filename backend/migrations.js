@@ -1,230 +1,216 @@
 /**
- * Database Migration Script
- * 
- * This script creates and initializes the database schema with proper relationships
- * based on the application's data model.
+ * Database Migration Runner
+ *
+ * Applies the numbered migration files in ./migrations against the shared
+ * connection from database.js. Applied versions are recorded in the
+ * `schema_migrations` table so each migration runs exactly once.
+ *
+ * Usage:
+ *   node migrations.js            Apply all pending migrations
+ *   node migrations.js down [n]   Roll back the last n migrations (default 1)
+ *   node migrations.js status     List applied and pending migrations
  */
 
-const sqlite3 = require('sqlite3').verbose();
+const fs = require('fs');
 const path = require('path');
 const bcrypt = require('bcrypt');
+const { db } = require('./database');
 
-// Create database connection
-const dbPath = path.resolve(__dirname, 'database.sqlite');
-const db = new sqlite3.Database(dbPath, (err) => {
-  if (err) {
-    console.error('Could not connect to database:', err);
-    process.exit(1);
-  } else {
-    console.log('Connected to SQLite database');
-  }
-});
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
 
-// Run migrations
-async function runMigrations() {
+// Promise wrappers around the sqlite3 callback API
+function run(sql, params = []) {
   return new Promise((resolve, reject) => {
-    // Enable foreign keys
-    db.run('PRAGMA foreign_keys = ON', (err) => {
-      if (err) {
-        console.error('Error enabling foreign keys:', err);
-        reject(err);
-        return;
-      }
-      
-      // Use transaction for all migrations
-      db.serialize(() => {
-        // Start transaction
-        db.run('BEGIN TRANSACTION');
-        
-        // Create users table
-        db.run(`
-          CREATE TABLE IF NOT EXISTS users (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            username TEXT UNIQUE NOT NULL,
-            password TEXT NOT NULL,
-            login_history TEXT DEFAULT '[]',
-            role TEXT DEFAULT 'user',
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-          )
-        `, handleError);
-        
-        // Drop existing tables in correct order (to handle foreign key constraints)
-        db.run(`DROP TABLE IF EXISTS vip_access`, handleError);
-        db.run(`DROP TABLE IF EXISTS attendance`, handleError);
-        db.run(`DROP TABLE IF EXISTS workshops`, handleError);
-        db.run(`DROP TABLE IF EXISTS guests`, handleError);
-        
-        // Create workshops table
-        db.run(`
-          CREATE TABLE IF NOT EXISTS workshops (
-            id TEXT PRIMARY KEY,
-            name TEXT NOT NULL,
-            description TEXT,
-            date TEXT NOT NULL,
-            location TEXT NOT NULL,
-            user_id INTEGER,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            is_vip INTEGER DEFAULT 0,
-            max_capacity INTEGER DEFAULT NULL,
-            FOREIGN KEY (user_id) REFERENCES users(id)
-          )
-        `, handleError);
-        
-        // Create guests table
-        db.run(`
-          CREATE TABLE IF NOT EXISTS guests (
-            id TEXT PRIMARY KEY,
-            name TEXT NOT NULL,
-            email TEXT UNIQUE NOT NULL,
-            qr_code TEXT UNIQUE NOT NULL,
-            user_id INTEGER,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            is_vip INTEGER DEFAULT 0,
-            FOREIGN KEY (user_id) REFERENCES users(id)
-          )
-        `, handleError);
-        
-        // Create attendance records table
-        db.run(`
-          CREATE TABLE IF NOT EXISTS attendance (
-            id TEXT PRIMARY KEY,
-            workshop_id TEXT NOT NULL,
-            guest_id TEXT NOT NULL,
-            timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-            created_by INTEGER,
-            FOREIGN KEY (workshop_id) REFERENCES workshops(id) ON DELETE CASCADE,
-            FOREIGN KEY (guest_id) REFERENCES guests(id) ON DELETE CASCADE,
-            FOREIGN KEY (created_by) REFERENCES users(id),
-            UNIQUE(workshop_id, guest_id)
-          )
-        `, handleError);
-        
-        // Create VIP access table
-        db.run(`
-          CREATE TABLE IF NOT EXISTS vip_access (
-            id TEXT PRIMARY KEY,
-            guest_id TEXT NOT NULL,
-            workshop_id TEXT NOT NULL,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            FOREIGN KEY (guest_id) REFERENCES guests(id),
-            FOREIGN KEY (workshop_id) REFERENCES workshops(id),
-            UNIQUE(guest_id, workshop_id)
-          )
-        `, handleError);
-        
-        // Create indexes for better performance
-        db.run(`CREATE INDEX IF NOT EXISTS idx_workshops_date ON workshops(date)`, handleError);
-        db.run(`CREATE INDEX IF NOT EXISTS idx_guests_email ON guests(email)`, handleError);
-        db.run(`CREATE INDEX IF NOT EXISTS idx_guests_qr_code ON guests(qr_code)`, handleError);
-        db.run(`CREATE INDEX IF NOT EXISTS idx_attendance_workshop ON attendance(workshop_id)`, handleError);
-        db.run(`CREATE INDEX IF NOT EXISTS idx_attendance_guest ON attendance(guest_id)`, handleError);
-        db.run(`CREATE INDEX IF NOT EXISTS idx_attendance_timestamp ON attendance(timestamp)`, handleError);
-        
-        // Commit transaction if everything succeeds
-        db.run('COMMIT', (err) => {
-          if (err) {
-            console.error('Error committing transaction:', err);
-            // Try to rollback
-            db.run('ROLLBACK');
-            reject(err);
-            return;
-          }
-          
-          // Create admin user if not exists
-          createAdminUser()
-            .then(() => {
-              console.log('Migrations completed successfully');
-              resolve();
-            })
-            .catch(error => {
-              console.error('Error creating admin user:', error);
-              reject(error);
-            });
-        });
-      });
+    db.run(sql, params, function(err) {
+      if (err) reject(err);
+      else resolve({ lastID: this.lastID, changes: this.changes });
     });
   });
 }
 
-// Helper function to handle errors
-function handleError(err) {
-  if (err) {
-    console.error('Migration error:', err);
-    // Don't exit here, just log the error
-    // The transaction will handle rollback if needed
-  }
+function get(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    db.get(sql, params, (err, row) => {
+      if (err) reject(err);
+      else resolve(row);
+    });
+  });
 }
 
-// Create admin user if it doesn't exist
-async function createAdminUser() {
+function all(sql, params = []) {
   return new Promise((resolve, reject) => {
-    // Check if admin user exists
-    db.get('SELECT * FROM users WHERE username = ?', ['admin'], async (err, user) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-      
-      // If admin user doesn't exist, create it
-      if (!user) {
-        try {
-          // Generate salt and hash password
-          const salt = await bcrypt.genSalt(10);
-          const hashedPassword = await bcrypt.hash('admin123', salt);
-          
-          // Insert admin user
-          db.run(
-            'INSERT INTO users (username, password, role) VALUES (?, ?, ?)',
-            ['admin', hashedPassword, 'admin'],
-            function(err) {
-              if (err) {
-                reject(err);
-                return;
-              }
-              console.log('Admin user created successfully');
-              resolve();
-            }
-          );
-        } catch (error) {
-          reject(error);
-        }
-      } else {
-        // Admin user already exists
-        resolve();
-      }
+    db.all(sql, params, (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows || []);
     });
   });
 }
 
-// Close database connection on process exit
-process.on('exit', () => {
-  db.close((err) => {
-    if (err) {
-      console.error('Error closing database connection:', err);
-    } else {
-      console.log('Database connection closed');
+async function columnExists(table, column) {
+  const columns = await all(`PRAGMA table_info(${table})`);
+  return columns.some(col => col.name === column);
+}
+
+// Helpers handed to every migration's up/down function
+const migrationContext = { db, run, get, all, columnExists };
+
+// Load migration files sorted by their numeric prefix (e.g. 001_initial_schema.js)
+function loadMigrations() {
+  return fs.readdirSync(MIGRATIONS_DIR)
+    .filter(file => /^\d+_.+\.js$/.test(file))
+    .sort()
+    .map(file => {
+      const migration = require(path.join(MIGRATIONS_DIR, file));
+      const [version] = file.split('_');
+
+      if (typeof migration.up !== 'function' || typeof migration.down !== 'function') {
+        throw new Error(`Migration ${file} must export up and down functions`);
+      }
+
+      return {
+        version,
+        name: path.basename(file, '.js'),
+        up: migration.up,
+        down: migration.down
+      };
+    });
+}
+
+async function ensureMigrationsTable() {
+  await run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function getAppliedVersions() {
+  const rows = await all('SELECT version FROM schema_migrations ORDER BY version ASC');
+  return rows.map(row => row.version);
+}
+
+// Run a single migration step inside its own transaction
+async function runInTransaction(label, fn) {
+  await run('BEGIN TRANSACTION');
+  try {
+    await fn();
+    await run('COMMIT');
+  } catch (error) {
+    console.error(`Migration ${label} failed, rolling back:`, error);
+    await run('ROLLBACK').catch(rollbackError => {
+      console.error('Error rolling back transaction:', rollbackError);
+    });
+    throw error;
+  }
+}
+
+// Apply every migration that has not been recorded yet
+async function runMigrations() {
+  await run('PRAGMA foreign_keys = ON');
+  await ensureMigrationsTable();
+
+  const applied = new Set(await getAppliedVersions());
+  const pending = loadMigrations().filter(migration => !applied.has(migration.version));
+
+  if (pending.length === 0) {
+    console.log('Database schema is up to date');
+  }
+
+  for (const migration of pending) {
+    await runInTransaction(migration.name, async () => {
+      await migration.up(migrationContext);
+      await run('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+    });
+    console.log(`Applied migration ${migration.name}`);
+  }
+
+  await createAdminUser();
+  console.log('Migrations completed successfully');
+}
+
+// Roll back the most recently applied migrations
+async function rollbackMigrations(steps = 1) {
+  await ensureMigrationsTable();
+
+  const migrations = loadMigrations();
+  const applied = await getAppliedVersions();
+  const toRollback = applied.slice(-steps).reverse();
+
+  for (const version of toRollback) {
+    const migration = migrations.find(m => m.version === version);
+    if (!migration) {
+      throw new Error(`No migration file found for applied version ${version}`);
     }
-  });
-});
 
-// Handle process termination signals
-process.on('SIGINT', () => {
-  console.log('Process terminated by user');
-  process.exit(0);
-});
+    await runInTransaction(migration.name, async () => {
+      await migration.down(migrationContext);
+      await run('DELETE FROM schema_migrations WHERE version = ?', [version]);
+    });
+    console.log(`Rolled back migration ${migration.name}`);
+  }
+}
+
+// List every migration file with its applied state
+async function getMigrationStatus() {
+  await ensureMigrationsTable();
 
-// Export migration function
+  const rows = await all('SELECT version, applied_at FROM schema_migrations');
+  const appliedAt = new Map(rows.map(row => [row.version, row.applied_at]));
+
+  return loadMigrations().map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: appliedAt.get(migration.version) || null
+  }));
+}
+
+// Create admin user if it doesn't exist; its default password has to be changed at first login
+async function createAdminUser() {
+  const user = await get('SELECT * FROM users WHERE username = ?', ['admin']);
+  if (user) {
+    return;
+  }
+
+  const salt = await bcrypt.genSalt(10);
+  const hashedPassword = await bcrypt.hash('admin123', salt);
+
+  await run(
+    'INSERT INTO users (username, password, role, must_change_password) VALUES (?, ?, ?, 1)',
+    ['admin', hashedPassword, 'admin']
+  );
+  console.log('Admin user created successfully');
+}
+
+// Export migration functions
 module.exports = {
   runMigrations,
-  db
+  rollbackMigrations,
+  getMigrationStatus
 };
 
 // Run migrations if this file is executed directly
 if (require.main === module) {
-  runMigrations()
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  const commands = {
+    up: () => runMigrations(),
+    down: () => rollbackMigrations(parseInt(arg) || 1),
+    status: async () => {
+      const status = await getMigrationStatus();
+      status.forEach(migration => {
+        console.log(`${migration.appliedAt ? '[applied]' : '[pending]'} ${migration.name}`);
+      });
+    }
+  };
+
+  if (!commands[command]) {
+    console.error(`Unknown command: ${command}. Use up, down [n] or status.`);
+    process.exit(1);
+  }
+
+  commands[command]()
     .then(() => {
       console.log('Migration script completed');
       process.exit(0);
@@ -233,4 +219,4 @@ if (require.main === module) {
       console.error('Migration failed:', error);
       process.exit(1);
     });
-} 
\ No newline at end of file
+}
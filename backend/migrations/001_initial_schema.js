@@ -0,0 +1,95 @@
+/**
+ * Initial schema
+ *
+ * Creates the base tables and indexes. Every statement uses IF NOT EXISTS so
+ * databases created before the migration runner existed are adopted as-is.
+ */
+
+module.exports = {
+  async up({ run }) {
+    await run(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT UNIQUE NOT NULL,
+        password TEXT NOT NULL,
+        login_history TEXT DEFAULT '[]',
+        role TEXT DEFAULT 'user',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS workshops (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        date TEXT NOT NULL,
+        location TEXT NOT NULL,
+        user_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        is_vip INTEGER DEFAULT 0,
+        max_capacity INTEGER DEFAULT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS guests (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        qr_code TEXT UNIQUE NOT NULL,
+        user_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        is_vip INTEGER DEFAULT 0,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS attendance (
+        id TEXT PRIMARY KEY,
+        workshop_id TEXT NOT NULL,
+        guest_id TEXT NOT NULL,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        created_by INTEGER,
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id) ON DELETE CASCADE,
+        FOREIGN KEY (guest_id) REFERENCES guests(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id),
+        UNIQUE(workshop_id, guest_id)
+      )
+    `);
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS vip_access (
+        id TEXT PRIMARY KEY,
+        guest_id TEXT NOT NULL,
+        workshop_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (guest_id) REFERENCES guests(id),
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id),
+        UNIQUE(guest_id, workshop_id)
+      )
+    `);
+
+    // Indexes for better performance
+    await run('CREATE INDEX IF NOT EXISTS idx_workshops_date ON workshops(date)');
+    await run('CREATE INDEX IF NOT EXISTS idx_guests_email ON guests(email)');
+    await run('CREATE INDEX IF NOT EXISTS idx_guests_qr_code ON guests(qr_code)');
+    await run('CREATE INDEX IF NOT EXISTS idx_attendance_workshop ON attendance(workshop_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_attendance_guest ON attendance(guest_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_attendance_timestamp ON attendance(timestamp)');
+  },
+
+  async down({ run }) {
+    // Drop in reverse dependency order
+    await run('DROP TABLE IF EXISTS vip_access');
+    await run('DROP TABLE IF EXISTS attendance');
+    await run('DROP TABLE IF EXISTS guests');
+    await run('DROP TABLE IF EXISTS workshops');
+    await run('DROP TABLE IF EXISTS users');
+  }
+};
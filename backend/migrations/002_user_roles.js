@@ -0,0 +1,23 @@
+/**
+ * User roles
+ *
+ * Databases created before role-based access control have no `role` column.
+ * Adds it when missing, then gives the seeded admin the 'admin' role and
+ * every other account the 'scanner' role.
+ */
+
+module.exports = {
+  async up({ run, columnExists }) {
+    if (!(await columnExists('users', 'role'))) {
+      await run("ALTER TABLE users ADD COLUMN role TEXT DEFAULT 'scanner'");
+    }
+
+    await run("UPDATE users SET role = 'admin' WHERE username = 'admin'");
+    await run("UPDATE users SET role = 'scanner' WHERE username != 'admin'");
+  },
+
+  async down() {
+    // The column is part of the initial schema and previous role values are
+    // not recorded, so there is nothing to undo.
+  }
+};
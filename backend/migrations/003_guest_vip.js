@@ -0,0 +1,18 @@
+/**
+ * Guest VIP flag
+ *
+ * Databases created before VIP workshops have no `is_vip` column on guests.
+ * Adds it when missing, defaulting existing guests to non-VIP.
+ */
+
+module.exports = {
+  async up({ run, columnExists }) {
+    if (!(await columnExists('guests', 'is_vip'))) {
+      await run('ALTER TABLE guests ADD COLUMN is_vip INTEGER DEFAULT 0');
+    }
+  },
+
+  async down() {
+    // The column is part of the initial schema, so there is nothing to undo.
+  }
+};
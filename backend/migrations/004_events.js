@@ -0,0 +1,77 @@
+/**
+ * Events
+ *
+ * Adds the `events` table that groups workshops and guests, the
+ * `event_guests` roster table and a `workshops.event_id` column. Existing
+ * workshops and guests are moved into a default event per owning user.
+ */
+
+const crypto = require('crypto');
+
+module.exports = {
+  async up({ run, all, columnExists }) {
+    await run(`
+      CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        start_date TEXT,
+        end_date TEXT,
+        location TEXT,
+        logo_url TEXT,
+        primary_color TEXT,
+        user_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS event_guests (
+        event_id TEXT NOT NULL,
+        guest_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (event_id, guest_id),
+        FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE,
+        FOREIGN KEY (guest_id) REFERENCES guests(id) ON DELETE CASCADE
+      )
+    `);
+
+    if (!(await columnExists('workshops', 'event_id'))) {
+      await run('ALTER TABLE workshops ADD COLUMN event_id TEXT');
+    }
+
+    await run('CREATE INDEX IF NOT EXISTS idx_events_user ON events(user_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_workshops_event ON workshops(event_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_event_guests_guest ON event_guests(guest_id)');
+
+    // Move existing data into a default event for each user that owns any
+    const owners = await all(`
+      SELECT user_id FROM workshops WHERE event_id IS NULL AND user_id IS NOT NULL
+      UNION
+      SELECT user_id FROM guests WHERE user_id IS NOT NULL
+    `);
+
+    for (const { user_id: userId } of owners) {
+      const eventId = crypto.randomUUID();
+
+      await run(
+        'INSERT INTO events (id, name, description, user_id) VALUES (?, ?, ?, ?)',
+        [eventId, 'Default Event', 'Workshops and guests created before events were introduced', userId]
+      );
+      await run('UPDATE workshops SET event_id = ? WHERE user_id = ? AND event_id IS NULL', [eventId, userId]);
+      await run(
+        'INSERT OR IGNORE INTO event_guests (event_id, guest_id) SELECT ?, id FROM guests WHERE user_id = ?',
+        [eventId, userId]
+      );
+    }
+  },
+
+  async down({ run }) {
+    await run('DROP INDEX IF EXISTS idx_workshops_event');
+    await run('ALTER TABLE workshops DROP COLUMN event_id');
+    await run('DROP TABLE IF EXISTS event_guests');
+    await run('DROP TABLE IF EXISTS events');
+  }
+};
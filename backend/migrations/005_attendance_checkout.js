@@ -0,0 +1,24 @@
+/**
+ * Attendance check-out
+ *
+ * Adds `attendance.checked_out_at` so a second scan can record when a guest
+ * left, and `workshops.min_dwell_minutes`, the minimum time a guest must stay
+ * for the attendance to count towards attestation eligibility.
+ */
+
+module.exports = {
+  async up({ run, columnExists }) {
+    if (!(await columnExists('attendance', 'checked_out_at'))) {
+      await run('ALTER TABLE attendance ADD COLUMN checked_out_at DATETIME');
+    }
+
+    if (!(await columnExists('workshops', 'min_dwell_minutes'))) {
+      await run('ALTER TABLE workshops ADD COLUMN min_dwell_minutes INTEGER');
+    }
+  },
+
+  async down({ run }) {
+    await run('ALTER TABLE workshops DROP COLUMN min_dwell_minutes');
+    await run('ALTER TABLE attendance DROP COLUMN checked_out_at');
+  }
+};
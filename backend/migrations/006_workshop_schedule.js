@@ -0,0 +1,34 @@
+/**
+ * Workshop schedule and check-in windows
+ *
+ * Adds start/end wall-clock times with an IANA time zone to workshops, the
+ * per-workshop check-in window offsets, and `attendance.checkin_status` to
+ * record whether a check-in was on time or late. Existing workshops keep
+ * only their free-text `date` and stay unscheduled, so their check-ins are
+ * not restricted.
+ */
+
+const COLUMNS = [
+  ['workshops', 'start_time', 'TEXT'],
+  ['workshops', 'end_time', 'TEXT'],
+  ['workshops', 'timezone', 'TEXT'],
+  ['workshops', 'checkin_opens_minutes', 'INTEGER DEFAULT 15'],
+  ['workshops', 'checkin_closes_minutes', 'INTEGER DEFAULT 20'],
+  ['attendance', 'checkin_status', 'TEXT']
+];
+
+module.exports = {
+  async up({ run, columnExists }) {
+    for (const [table, column, type] of COLUMNS) {
+      if (!(await columnExists(table, column))) {
+        await run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+  },
+
+  async down({ run }) {
+    for (const [table, column] of [...COLUMNS].reverse()) {
+      await run(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+    }
+  }
+};
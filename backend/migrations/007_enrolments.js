@@ -0,0 +1,39 @@
+/**
+ * Workshop enrolments
+ *
+ * Adds the `enrolments` table linking guests to the workshops they
+ * registered for, and `events.attendance_basis` choosing what attendance
+ * percentages are measured against:
+ *   - 'enrolled'       the workshops a guest is enrolled in
+ *   - 'all-workshops'  every workshop of the event
+ * Existing events keep the all-workshops basis so their eligibility does not
+ * change until enrolments are recorded.
+ */
+
+module.exports = {
+  async up({ run, columnExists }) {
+    await run(`
+      CREATE TABLE IF NOT EXISTS enrolments (
+        guest_id TEXT NOT NULL,
+        workshop_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (guest_id, workshop_id),
+        FOREIGN KEY (guest_id) REFERENCES guests(id) ON DELETE CASCADE,
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id) ON DELETE CASCADE
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS idx_enrolments_workshop ON enrolments(workshop_id)');
+
+    if (!(await columnExists('events', 'attendance_basis'))) {
+      await run("ALTER TABLE events ADD COLUMN attendance_basis TEXT NOT NULL DEFAULT 'enrolled'");
+      await run("UPDATE events SET attendance_basis = 'all-workshops'");
+    }
+  },
+
+  async down({ run }) {
+    await run('ALTER TABLE events DROP COLUMN attendance_basis');
+    await run('DROP INDEX IF EXISTS idx_enrolments_workshop');
+    await run('DROP TABLE IF EXISTS enrolments');
+  }
+};
@@ -0,0 +1,36 @@
+/**
+ * Workshop waitlists
+ *
+ * Adds `enrolments.status` so guests who miss a workshop can be marked as
+ * 'no-show' (they keep counting towards their attendance but give up their
+ * seat), and the `waitlist` table holding guests who asked to enrol in a full
+ * workshop, ordered by `position`.
+ */
+
+module.exports = {
+  async up({ run, columnExists }) {
+    if (!(await columnExists('enrolments', 'status'))) {
+      await run("ALTER TABLE enrolments ADD COLUMN status TEXT NOT NULL DEFAULT 'enrolled'");
+    }
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS waitlist (
+        guest_id TEXT NOT NULL,
+        workshop_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (guest_id, workshop_id),
+        FOREIGN KEY (guest_id) REFERENCES guests(id) ON DELETE CASCADE,
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id) ON DELETE CASCADE
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS idx_waitlist_workshop ON waitlist(workshop_id, position)');
+  },
+
+  async down({ run }) {
+    await run('DROP INDEX IF EXISTS idx_waitlist_workshop');
+    await run('DROP TABLE IF EXISTS waitlist');
+    await run('ALTER TABLE enrolments DROP COLUMN status');
+  }
+};
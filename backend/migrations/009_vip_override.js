@@ -0,0 +1,27 @@
+/**
+ * VIP access overrides
+ *
+ * Records on an attendance row which admin let a guest into a VIP workshop
+ * despite the invite list, and the note they gave for it.
+ */
+
+const COLUMNS = [
+  ['attendance', 'vip_override_by', 'INTEGER'],
+  ['attendance', 'vip_override_reason', 'TEXT']
+];
+
+module.exports = {
+  async up({ run, columnExists }) {
+    for (const [table, column, type] of COLUMNS) {
+      if (!(await columnExists(table, column))) {
+        await run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+  },
+
+  async down({ run }) {
+    for (const [table, column] of [...COLUMNS].reverse()) {
+      await run(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+    }
+  }
+};
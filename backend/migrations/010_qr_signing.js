@@ -0,0 +1,28 @@
+/**
+ * Signed guest QR codes
+ *
+ * `guests.qr_serial` counts how often a guest's code was issued; existing
+ * guests start at 0 and keep their unsigned `guest-<id>` code until it is
+ * re-issued. `guests.qr_revoked_at` is set when an admin revokes the code.
+ */
+
+const COLUMNS = [
+  ['guests', 'qr_serial', 'INTEGER NOT NULL DEFAULT 0'],
+  ['guests', 'qr_revoked_at', 'DATETIME']
+];
+
+module.exports = {
+  async up({ run, columnExists }) {
+    for (const [table, column, type] of COLUMNS) {
+      if (!(await columnExists(table, column))) {
+        await run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+  },
+
+  async down({ run }) {
+    for (const [table, column] of [...COLUMNS].reverse()) {
+      await run(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+    }
+  }
+};
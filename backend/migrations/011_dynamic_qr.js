@@ -0,0 +1,27 @@
+/**
+ * Dynamic QR codes
+ *
+ * `dynamic_qr` on an event or a workshop makes check-ins there require the
+ * guest's rotating code instead of their printed one.
+ */
+
+const COLUMNS = [
+  ['events', 'dynamic_qr', 'INTEGER NOT NULL DEFAULT 0'],
+  ['workshops', 'dynamic_qr', 'INTEGER NOT NULL DEFAULT 0']
+];
+
+module.exports = {
+  async up({ run, columnExists }) {
+    for (const [table, column, type] of COLUMNS) {
+      if (!(await columnExists(table, column))) {
+        await run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+  },
+
+  async down({ run }) {
+    for (const [table, column] of [...COLUMNS].reverse()) {
+      await run(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+    }
+  }
+};
@@ -0,0 +1,36 @@
+/**
+ * User management
+ *
+ * `users.disabled_at` is set when an admin disables an account; disabled
+ * users can no longer log in or use their tokens. `user_invites` holds the
+ * single-use invitations `/api/register` now requires. Only a hash of each
+ * invite token is stored.
+ */
+
+module.exports = {
+  async up({ run, columnExists }) {
+    if (!(await columnExists('users', 'disabled_at'))) {
+      await run('ALTER TABLE users ADD COLUMN disabled_at DATETIME');
+    }
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS user_invites (
+        id TEXT PRIMARY KEY,
+        token_hash TEXT UNIQUE NOT NULL,
+        role TEXT NOT NULL DEFAULT 'scanner',
+        created_by INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME,
+        used_by INTEGER,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+        FOREIGN KEY (used_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+  },
+
+  async down({ run }) {
+    await run('DROP TABLE IF EXISTS user_invites');
+    await run('ALTER TABLE users DROP COLUMN disabled_at');
+  }
+};
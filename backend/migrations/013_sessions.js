@@ -0,0 +1,37 @@
+/**
+ * Login sessions
+ *
+ * Every login opens a row in `sessions`. Access tokens name the session they
+ * belong to and stop working once it is revoked; the session's refresh token
+ * is rotated on every use and only its hash is stored. The hash it replaced is
+ * kept in `previous_token_hash` so a refresh token that is used twice can be
+ * told apart from an unknown one.
+ */
+
+module.exports = {
+  async up({ run }) {
+    await run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        refresh_token_hash TEXT UNIQUE NOT NULL,
+        previous_token_hash TEXT,
+        user_agent TEXT,
+        ip TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at DATETIME,
+        rotated_at DATETIME,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)');
+  },
+
+  async down({ run }) {
+    await run('DROP INDEX IF EXISTS idx_sessions_user');
+    await run('DROP TABLE IF EXISTS sessions');
+  }
+};
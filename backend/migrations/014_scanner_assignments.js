@@ -0,0 +1,41 @@
+/**
+ * Scanner assignments and permissions
+ *
+ * Scanner accounts used to see every workshop, guest and attendance record.
+ * `scanner_assignments` now lists the events and workshops each scanner works
+ * at; an event assignment covers all of its workshops. Each row names exactly
+ * one of the two. `users.permissions` is a JSON array of extra actions a
+ * scanner may take, such as deleting attendance records.
+ */
+
+module.exports = {
+  async up({ run, columnExists }) {
+    if (!(await columnExists('users', 'permissions'))) {
+      await run("ALTER TABLE users ADD COLUMN permissions TEXT DEFAULT '[]'");
+    }
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS scanner_assignments (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        event_id TEXT,
+        workshop_id TEXT,
+        created_by INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK ((event_id IS NULL) != (workshop_id IS NULL)),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE,
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS idx_scanner_assignments_user ON scanner_assignments(user_id)');
+  },
+
+  async down({ run }) {
+    await run('DROP INDEX IF EXISTS idx_scanner_assignments_user');
+    await run('DROP TABLE IF EXISTS scanner_assignments');
+    await run('ALTER TABLE users DROP COLUMN permissions');
+  }
+};
@@ -0,0 +1,47 @@
+/**
+ * Two-factor authentication
+ *
+ * `users.totp_secret` and `totp_enabled_at` are set once an account has
+ * confirmed an authenticator app; `totp_pending_secret` holds a secret that is
+ * still being set up. `totp_last_step` is the time step of the last accepted
+ * code, so codes can't be replayed. `user_recovery_codes` holds hashes of
+ * single-use recovery codes.
+ */
+
+const COLUMNS = [
+  ['totp_secret', 'TEXT'],
+  ['totp_pending_secret', 'TEXT'],
+  ['totp_enabled_at', 'DATETIME'],
+  ['totp_last_step', 'INTEGER']
+];
+
+module.exports = {
+  async up({ run, columnExists }) {
+    for (const [name, type] of COLUMNS) {
+      if (!(await columnExists('users', name))) {
+        await run(`ALTER TABLE users ADD COLUMN ${name} ${type}`);
+      }
+    }
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS user_recovery_codes (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        used_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS idx_user_recovery_codes_user ON user_recovery_codes(user_id)');
+  },
+
+  async down({ run }) {
+    await run('DROP INDEX IF EXISTS idx_user_recovery_codes_user');
+    await run('DROP TABLE IF EXISTS user_recovery_codes');
+    for (const [name] of [...COLUMNS].reverse()) {
+      await run(`ALTER TABLE users DROP COLUMN ${name}`);
+    }
+  }
+};
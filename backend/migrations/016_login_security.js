@@ -0,0 +1,39 @@
+/**
+ * Login throttling and forced password changes
+ *
+ * `login_throttles` counts recent failed sign-ins per key (`account:<username>`
+ * or `ip:<address>`) and holds temporary lockouts. `users.must_change_password`
+ * sends an account to the password change screen before anything else; the
+ * seeded admin gets it while it still has the default password.
+ */
+
+const bcrypt = require('bcrypt');
+
+const DEFAULT_ADMIN_PASSWORD = 'admin123';
+
+module.exports = {
+  async up({ run, get, columnExists }) {
+    if (!(await columnExists('users', 'must_change_password'))) {
+      await run('ALTER TABLE users ADD COLUMN must_change_password INTEGER DEFAULT 0');
+    }
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS login_throttles (
+        key TEXT PRIMARY KEY,
+        failures INTEGER NOT NULL DEFAULT 0,
+        last_failure_at DATETIME,
+        locked_until DATETIME
+      )
+    `);
+
+    const admin = await get('SELECT id, password FROM users WHERE username = ?', ['admin']);
+    if (admin && await bcrypt.compare(DEFAULT_ADMIN_PASSWORD, admin.password)) {
+      await run('UPDATE users SET must_change_password = 1 WHERE id = ?', [admin.id]);
+    }
+  },
+
+  async down({ run }) {
+    await run('DROP TABLE IF EXISTS login_throttles');
+    await run('ALTER TABLE users DROP COLUMN must_change_password');
+  }
+};
@@ -0,0 +1,37 @@
+/**
+ * API keys
+ *
+ * Keys let integrations such as the registration site or badge printers call
+ * the API without a person's login. Each key acts for the admin who created
+ * it, limited to its `scopes` and optionally to an expiry date and a list of
+ * client IPs or CIDR ranges in `allowed_ips`. Only a hash of the key is
+ * stored; `key_prefix` is its first characters, for telling keys apart.
+ */
+
+module.exports = {
+  async up({ run }) {
+    await run(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT UNIQUE NOT NULL,
+        scopes TEXT NOT NULL DEFAULT '[]',
+        allowed_ips TEXT NOT NULL DEFAULT '[]',
+        user_id INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME,
+        last_used_at DATETIME,
+        last_used_ip TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id)');
+  },
+
+  async down({ run }) {
+    await run('DROP INDEX IF EXISTS idx_api_keys_user');
+    await run('DROP TABLE IF EXISTS api_keys');
+  }
+};
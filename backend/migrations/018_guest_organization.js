@@ -0,0 +1,26 @@
+/**
+ * Guest organization and list indexes
+ *
+ * Guests get the `organization` column the guest form always sent but was
+ * never stored, so lists can be filtered by it. The indexes back the sorts
+ * and filters of the paged guest, workshop and attendance lists.
+ */
+
+module.exports = {
+  async up({ run, columnExists }) {
+    if (!(await columnExists('guests', 'organization'))) {
+      await run('ALTER TABLE guests ADD COLUMN organization TEXT');
+    }
+
+    await run('CREATE INDEX IF NOT EXISTS idx_guests_user_name ON guests(user_id, name)');
+    await run('CREATE INDEX IF NOT EXISTS idx_guests_organization ON guests(organization)');
+    await run('CREATE INDEX IF NOT EXISTS idx_workshops_start_time ON workshops(start_time)');
+  },
+
+  async down({ run }) {
+    await run('DROP INDEX IF EXISTS idx_workshops_start_time');
+    await run('DROP INDEX IF EXISTS idx_guests_organization');
+    await run('DROP INDEX IF EXISTS idx_guests_user_name');
+    await run('ALTER TABLE guests DROP COLUMN organization');
+  }
+};
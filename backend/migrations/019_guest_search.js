@@ -0,0 +1,37 @@
+/**
+ * Guest search index
+ *
+ * `guests_fts` is an FTS5 index over the name, email and organization of
+ * every guest, holding the text folded by guestSearch.js. database.js
+ * rewrites a guest's row whenever the guest is created, updated or deleted;
+ * this migration indexes the guests that already exist.
+ */
+
+const { foldSearchText } = require('../guestSearch');
+
+module.exports = {
+  async up({ run, all }) {
+    await run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS guests_fts USING fts5(
+        guest_id UNINDEXED,
+        name,
+        email,
+        organization,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+
+    await run('DELETE FROM guests_fts');
+    const guests = await all('SELECT id, name, email, organization FROM guests');
+    for (const guest of guests) {
+      await run(
+        'INSERT INTO guests_fts (guest_id, name, email, organization) VALUES (?, ?, ?, ?)',
+        [guest.id, foldSearchText(guest.name), foldSearchText(guest.email), foldSearchText(guest.organization)]
+      );
+    }
+  },
+
+  async down({ run }) {
+    await run('DROP TABLE IF EXISTS guests_fts');
+  }
+};
@@ -0,0 +1,26 @@
+/**
+ * Manual check-ins
+ *
+ * Records on an attendance row which user checked the guest in by hand,
+ * after looking them up by name because their QR code could not be read.
+ */
+
+const COLUMNS = [
+  ['attendance', 'manual_by', 'INTEGER']
+];
+
+module.exports = {
+  async up({ run, columnExists }) {
+    for (const [table, column, type] of COLUMNS) {
+      if (!(await columnExists(table, column))) {
+        await run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+  },
+
+  async down({ run }) {
+    for (const [table, column] of [...COLUMNS].reverse()) {
+      await run(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+    }
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * Check-in methods
+ *
+ * Records on an attendance row how the guest was identified: 'scan' for a
+ * QR code, 'manual' for staff picking the guest by name or ID, 'import' for
+ * an attendance import. Rows from before this are left unset, apart from
+ * check-ins already flagged as manual.
+ */
+
+module.exports = {
+  async up({ run, columnExists }) {
+    if (!(await columnExists('attendance', 'checkin_method'))) {
+      await run('ALTER TABLE attendance ADD COLUMN checkin_method TEXT');
+    }
+    await run("UPDATE attendance SET checkin_method = 'manual' WHERE manual_by IS NOT NULL AND checkin_method IS NULL");
+  },
+
+  async down({ run }) {
+    await run('ALTER TABLE attendance DROP COLUMN checkin_method');
+  }
+};
@@ -0,0 +1,26 @@
+/**
+ * Attendance basis of events without enrolments
+ *
+ * New events used to count attendance against enrolments, so an event that
+ * never records any showed every guest at 0% and refused their certificates.
+ * Events on the enrolled basis that have no enrolments yet are switched to
+ * counting every workshop of the event, which new events now start with.
+ */
+
+module.exports = {
+  async up({ run }) {
+    await run(`
+      UPDATE events SET attendance_basis = 'all-workshops'
+      WHERE attendance_basis = 'enrolled'
+        AND NOT EXISTS (
+          SELECT 1 FROM enrolments en
+          JOIN workshops w ON w.id = en.workshop_id
+          WHERE w.event_id = events.id
+        )
+    `);
+  },
+
+  async down() {
+    // Which events were switched is not recorded, so their basis stays as it is.
+  }
+};
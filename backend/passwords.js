@@ -0,0 +1,52 @@
+/**
+ * Password strength policy
+ *
+ * Applies to every password a person picks or is given: registration, admin
+ * created accounts, admin resets and self-service changes. Length and the
+ * kinds of characters required come from the password settings in config.js;
+ * common passwords and passwords containing the username are always refused.
+ */
+
+const { config } = require('./config');
+
+const PASSWORD_POLICY = {
+  minLength: config.passwordMinLength,
+  requireMixedCase: config.passwordRequireMixedCase,
+  requireNumber: config.passwordRequireNumber,
+  requireSymbol: config.passwordRequireSymbol
+};
+
+// Passwords that show up first in every guessing list, including this app's old default
+const COMMON_PASSWORDS = new Set([
+  'admin123', 'administrator', 'password', 'password1', 'password123', 'passw0rd',
+  '123456', '12345678', '123456789', '1234567890', 'qwerty', 'qwerty123',
+  'qwertyuiop', 'letmein', 'welcome', 'welcome1', 'iloveyou', 'abc123', 'changeme'
+]);
+
+// Why a password breaks the policy, or null when it is acceptable
+function getPasswordProblem(password, username = '') {
+  if (typeof password !== 'string' || password.length < PASSWORD_POLICY.minLength) {
+    return `Password must be at least ${PASSWORD_POLICY.minLength} characters long`;
+  }
+  if (PASSWORD_POLICY.requireMixedCase && !(/[a-z]/.test(password) && /[A-Z]/.test(password))) {
+    return 'Password must contain both upper and lower case letters';
+  }
+  if (PASSWORD_POLICY.requireNumber && !/\d/.test(password)) {
+    return 'Password must contain a number';
+  }
+  if (PASSWORD_POLICY.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    return 'Password must contain a symbol';
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    return 'Password is too common';
+  }
+  if (username && password.toLowerCase().includes(String(username).toLowerCase())) {
+    return 'Password must not contain the username';
+  }
+  return null;
+}
+
+module.exports = {
+  PASSWORD_POLICY,
+  getPasswordProblem
+};
@@ -0,0 +1,151 @@
+/**
+ * Guest QR code payloads
+ *
+ * Signed codes look like `eq1.<guestId>.<serial>.<signature>`: a format
+ * version, the guest, a serial that goes up every time the code is re-issued
+ * and an HMAC of the three. Only the server can mint them, and a guest's
+ * code is only valid while it matches the one stored on their row and has
+ * not been revoked.
+ *
+ * Older badges carry unsigned `guest-<id>` codes. They keep working until
+ * ACCEPT_LEGACY_QR_CODES is set to 'false', or the guest's code is re-issued.
+ *
+ * Events and workshops can require dynamic codes instead: `eqt1.<guestId>.<code>`
+ * where the code is a TOTP (RFC 6238) that changes every 30 seconds, so a
+ * forwarded screenshot stops working almost straight away. Guests open them
+ * on their pass page, reached through a signed pass token.
+ */
+
+const crypto = require('crypto');
+const { config } = require('./config');
+
+const QR_VERSION = 'eq1';
+const DYNAMIC_VERSION = 'eqt1';
+const LEGACY_PREFIX = 'guest-';
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 8;
+// Steps either side of the current one that are still accepted, for clock skew
+const TOTP_SKEW_STEPS = 1;
+const QR_SECRET = config.qrSecret;
+const ACCEPT_LEGACY_QR_CODES = config.acceptLegacyQrCodes;
+
+const sign = (body) => crypto.createHmac('sha256', QR_SECRET).update(body).digest('base64url').slice(0, 22);
+
+// Signed payload for a guest's code with the given serial
+function issueQrCode(guestId, serial) {
+  const body = `${QR_VERSION}.${guestId}.${serial}`;
+  return `${body}.${sign(body)}`;
+}
+
+// Per-guest TOTP key; it changes whenever the guest's code is re-issued
+const totpKey = (guest) => crypto.createHmac('sha256', QR_SECRET).update(`totp.${guest.id}.${guest.qr_serial}`).digest();
+
+// HOTP value (RFC 4226) of a time step
+function totpAt(guest, step) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', totpKey(guest)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const value = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(value % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+const stepOf = (time) => Math.floor(new Date(time).getTime() / 1000 / TOTP_STEP_SECONDS);
+
+// Dynamic payload valid at the given time, and when it rotates
+function issueDynamicQrCode(guest, time = new Date()) {
+  const step = stepOf(time);
+  return {
+    payload: `${DYNAMIC_VERSION}.${guest.id}.${totpAt(guest, step)}`,
+    expiresAt: new Date((step + 1) * TOTP_STEP_SECONDS * 1000).toISOString(),
+    periodSeconds: TOTP_STEP_SECONDS
+  };
+}
+
+// Read a scanned payload: `{ guestId, serial, legacy, dynamic }`, or null when
+// it is malformed or its signature does not match. Dynamic codes are only
+// checked against the guest by getQrCodeProblem.
+function parseQrCode(payload) {
+  if (typeof payload !== 'string') {
+    return null;
+  }
+
+  if (payload.startsWith(LEGACY_PREFIX)) {
+    const guestId = payload.slice(LEGACY_PREFIX.length);
+    return guestId ? { guestId, serial: 0, legacy: true, dynamic: false } : null;
+  }
+
+  if (payload.startsWith(`${DYNAMIC_VERSION}.`)) {
+    const [, guestId, code, ...rest] = payload.split('.');
+    if (!guestId || rest.length > 0 || !/^\d+$/.test(code || '') || code.length !== TOTP_DIGITS) {
+      return null;
+    }
+    return { guestId, serial: null, legacy: false, dynamic: true, code };
+  }
+
+  const parts = payload.split('.');
+  if (parts.length !== 4 || parts[0] !== QR_VERSION || !/^\d+$/.test(parts[2])) {
+    return null;
+  }
+
+  const [version, guestId, serial, signature] = parts;
+  const expected = Buffer.from(sign(`${version}.${guestId}.${serial}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  return { guestId, serial: Number(serial), legacy: false, dynamic: false };
+}
+
+// Why a guest's row refuses a scanned payload at the given time, or null when
+// it is their current code
+function getQrCodeProblem(guest, payload, time = new Date()) {
+  if (payload.startsWith(LEGACY_PREFIX) && !ACCEPT_LEGACY_QR_CODES) {
+    return 'legacy-qr';
+  }
+  if (guest.qr_revoked_at) {
+    return 'qr-revoked';
+  }
+
+  const parsed = parseQrCode(payload);
+  if (parsed && parsed.dynamic) {
+    const step = stepOf(time);
+    for (let skew = -TOTP_SKEW_STEPS; skew <= TOTP_SKEW_STEPS; skew++) {
+      if (totpAt(guest, step + skew) === parsed.code) {
+        return null;
+      }
+    }
+    return 'qr-expired';
+  }
+
+  return guest.qr_code !== payload ? 'qr-revoked' : null;
+}
+
+// Token in a guest's pass page link; re-issuing their code invalidates it
+function issuePassToken(guest) {
+  return `${guest.id}.${sign(`pass.${guest.id}.${guest.qr_serial}`)}`;
+}
+
+// Guest ID a pass token claims to be for; check it with isValidPassToken
+function parsePassToken(token) {
+  const [guestId, signature, ...rest] = String(token).split('.');
+  return guestId && signature && rest.length === 0 ? guestId : null;
+}
+
+function isValidPassToken(guest, token) {
+  const expected = Buffer.from(issuePassToken(guest));
+  const actual = Buffer.from(String(token));
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+module.exports = {
+  ACCEPT_LEGACY_QR_CODES,
+  issueQrCode,
+  issueDynamicQrCode,
+  parseQrCode,
+  getQrCodeProblem,
+  issuePassToken,
+  parsePassToken,
+  isValidPassToken
+};
@@ -0,0 +1,456 @@
+/**
+ * Door scan processing
+ *
+ * Resolves a scanned QR payload (or a guest ID) to a guest and applies every
+ * check-in or check-out rule inside a single transaction: event roster, VIP
+ * invite list, capacity and the check-in window. Running the reads and the
+ * write together means two scans at the same time cannot both take the last
+ * seat of a workshop.
+ */
+
+const crypto = require('crypto');
+const { withTransaction, SEATS_TAKEN_SQL, SCANNER_WORKSHOPS_SQL, SCANNER_GUESTS_SQL } = require('./database');
+const { classifyCheckIn, getCheckInWindow } = require('./schedule');
+const { parseQrCode, getQrCodeProblem } = require('./qrcodes');
+const { batchItemSchema, validate } = require('@eventqrollcall/shared');
+const { config } = require('./config');
+const { audit } = require('./audit');
+
+// How far ahead of the server's clock a device's clock may run
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// HTTP status, error code (see errors.js) and message for every way a scan can be refused
+const DENIALS = {
+  'invalid-qr': { status: 400, code: 'INVALID_QR_CODE', message: 'QR code is not valid' },
+  'legacy-qr': { status: 403, code: 'LEGACY_QR_CODE', message: 'Old-style QR codes are no longer accepted, issue the guest a new code' },
+  'qr-revoked': { status: 403, code: 'QR_CODE_REVOKED', message: 'QR code has been revoked or replaced' },
+  'qr-expired': { status: 403, code: 'QR_CODE_EXPIRED', message: 'QR code has expired, ask the guest to refresh their pass' },
+  'dynamic-qr-required': { status: 403, code: 'DYNAMIC_QR_REQUIRED', message: 'This workshop only accepts the live QR code from the guest\'s pass page' },
+  'guest-not-found': { status: 404, code: 'GUEST_NOT_FOUND', message: 'Guest not found' },
+  'workshop-not-found': { status: 404, code: 'WORKSHOP_NOT_FOUND', message: 'Workshop not found' },
+  'not-registered': { status: 403, code: 'NOT_REGISTERED', message: 'Guest is not registered for this event' },
+  'not-vip': { status: 403, code: 'VIP_REQUIRED', message: 'Non-VIP guest cannot attend VIP workshops' },
+  'not-invited': { status: 403, code: 'VIP_NOT_INVITED', message: 'Guest is not invited to this VIP workshop' },
+  'capacity': { status: 403, code: 'CAPACITY_FULL', message: 'Workshop has reached maximum capacity' },
+  'out-of-window': { status: 403, code: 'OUTSIDE_CHECKIN_WINDOW', message: 'Check-in is outside the workshop check-in window' },
+  'not-checked-in': { status: 404, code: 'NOT_CHECKED_IN', message: 'Guest has not checked in to this workshop' },
+  'already-checked-out': { status: 409, code: 'ALREADY_CHECKED_OUT', message: 'Guest already checked out' },
+  'checkout-before-checkin': { status: 400, code: 'CHECKOUT_BEFORE_CHECKIN', message: 'Check-out time must be after check-in time' }
+};
+
+const deny = (reason, guest, extra = {}) => ({
+  outcome: 'denied',
+  reason,
+  code: DENIALS[reason].code,
+  message: DENIALS[reason].message,
+  guest,
+  attendance: null,
+  ...extra
+});
+
+const summarizeGuest = (guest) => ({
+  id: guest.id,
+  name: guest.name,
+  email: guest.email,
+  isVip: Boolean(guest.is_vip)
+});
+
+const summarizeAttendance = (record) => {
+  const dwellMinutes = record.checked_out_at
+    ? Math.round((new Date(record.checked_out_at) - new Date(record.timestamp)) / 6000) / 10
+    : null;
+
+  return {
+    id: record.id,
+    timestamp: record.timestamp,
+    checkinStatus: record.checkin_status || null,
+    checkedOutAt: record.checked_out_at || null,
+    dwellMinutes,
+    vipOverrideBy: record.vip_override_by || null,
+    manualBy: record.manual_by || null,
+    checkinMethod: record.checkin_method || null
+  };
+};
+
+// Seats in use in a workshop, counted as enrolment and the waitlist count them
+const SEATS_IN_USE_SQL = `SELECT ${SEATS_TAKEN_SQL} as seats FROM workshops w WHERE w.id = ?`;
+
+async function checkIn(tx, { guest, workshop, user, timestamp, vipOverride, overrideReason, method }) {
+  const existing = await tx.get('SELECT * FROM attendance WHERE guest_id = ? AND workshop_id = ?', [guest.id, workshop.id]);
+  if (existing) {
+    return {
+      outcome: 'already-checked-in',
+      message: 'Guest already checked in to this workshop',
+      guest: summarizeGuest(guest),
+      attendance: summarizeAttendance(existing)
+    };
+  }
+
+  // VIP workshops only admit VIP guests on their invite list, unless an admin overrides it
+  let vipOverrideBy = null;
+  if (workshop.is_vip) {
+    let reason = null;
+    if (!guest.is_vip) {
+      reason = 'not-vip';
+    } else if (!(await tx.get('SELECT 1 FROM vip_access WHERE guest_id = ? AND workshop_id = ?', [guest.id, workshop.id]))) {
+      reason = 'not-invited';
+    }
+
+    if (reason && !vipOverride) {
+      return deny(reason, summarizeGuest(guest), { canOverride: user.role === 'admin' });
+    }
+    if (reason) {
+      vipOverrideBy = user.id;
+      audit(`VIP access overridden by ${user.username} for guest ${guest.id} in workshop ${workshop.id} (${reason})`);
+    }
+  }
+
+  // Enrolled guests always have a seat; anyone else, no-shows included, needs a free one
+  if (workshop.max_capacity) {
+    const enrolment = await tx.get(
+      "SELECT 1 FROM enrolments WHERE guest_id = ? AND workshop_id = ? AND status = 'enrolled'",
+      [guest.id, workshop.id]
+    );
+    if (!enrolment) {
+      const { seats } = await tx.get(SEATS_IN_USE_SQL, [workshop.id]);
+      if (seats >= workshop.max_capacity) {
+        return deny('capacity', summarizeGuest(guest));
+      }
+    }
+  }
+
+  // Scheduled workshops only accept check-ins inside their check-in window
+  const checkinStatus = classifyCheckIn(workshop, timestamp);
+  if (checkinStatus === 'out-of-window') {
+    const { opensAt, closesAt } = getCheckInWindow(workshop);
+    return deny('out-of-window', summarizeGuest(guest), {
+      opensAt: opensAt.toISOString(),
+      closesAt: closesAt.toISOString()
+    });
+  }
+
+  const record = {
+    id: crypto.randomUUID(),
+    guest_id: guest.id,
+    workshop_id: workshop.id,
+    timestamp,
+    created_by: user.id,
+    checkin_status: checkinStatus,
+    vip_override_by: vipOverrideBy,
+    vip_override_reason: vipOverrideBy ? overrideReason || null : null,
+    checkin_method: method,
+    // Who picked the guest by hand instead of scanning their QR code
+    manual_by: method === 'manual' ? user.id : null
+  };
+
+  await tx.run(
+    `INSERT INTO attendance (id, guest_id, workshop_id, timestamp, created_by, checkin_status, vip_override_by, vip_override_reason, checkin_method, manual_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [record.id, record.guest_id, record.workshop_id, record.timestamp, record.created_by,
+      record.checkin_status, record.vip_override_by, record.vip_override_reason, record.checkin_method, record.manual_by]
+  );
+
+  return {
+    outcome: 'checked-in',
+    message: checkinStatus === 'late' ? 'Guest checked in late' : 'Guest checked in',
+    guest: summarizeGuest(guest),
+    attendance: summarizeAttendance(record),
+    vipOverrideReason: record.vip_override_reason
+  };
+}
+
+async function checkOut(tx, { guest, workshop, timestamp }) {
+  const record = await tx.get('SELECT * FROM attendance WHERE guest_id = ? AND workshop_id = ?', [guest.id, workshop.id]);
+  if (!record) {
+    return deny('not-checked-in', summarizeGuest(guest));
+  }
+  if (record.checked_out_at) {
+    return deny('already-checked-out', summarizeGuest(guest), { attendance: summarizeAttendance(record) });
+  }
+  if (new Date(timestamp) < new Date(record.timestamp)) {
+    return deny('checkout-before-checkin', summarizeGuest(guest));
+  }
+
+  await tx.run('UPDATE attendance SET checked_out_at = ? WHERE id = ?', [timestamp, record.id]);
+
+  return {
+    outcome: 'checked-out',
+    message: 'Guest checked out',
+    guest: summarizeGuest(guest),
+    attendance: summarizeAttendance({ ...record, checked_out_at: timestamp })
+  };
+}
+
+// Whether the workshop, or the event it belongs to, only accepts rotating codes
+async function requiresDynamicQr(tx, workshop) {
+  if (workshop.dynamic_qr) {
+    return true;
+  }
+  if (!workshop.event_id) {
+    return false;
+  }
+  const event = await tx.get('SELECT dynamic_qr FROM events WHERE id = ?', [workshop.event_id]);
+  return Boolean(event && event.dynamic_qr);
+}
+
+// Admins scan into their own workshops and guests, scanners into those they are assigned to
+const scopeFilter = (user, table) => {
+  if (user.role !== 'scanner') {
+    return 'user_id = ?';
+  }
+  return table === 'guests' ? `id IN ${SCANNER_GUESTS_SQL}` : `id IN ${SCANNER_WORKSHOPS_SQL}`;
+};
+
+const scopeParams = (user, table) => {
+  if (user.role !== 'scanner') {
+    return [user.id];
+  }
+  return Array(table === 'guests' ? 4 : 2).fill(user.id);
+};
+
+// Apply one scan inside an open transaction. `timestamp` is when a queued or
+// imported scan happened; batches check it with getTimestampProblem first.
+// `method` says how the guest was identified, see CHECKIN_METHODS in the shared
+// domain; by default a QR code is a scan and a guest ID a manual check-in
+async function scanInTransaction(tx, { qrCode, guestId, workshopId, mode = 'check-in', user, timestamp, vipOverride = false, overrideReason = null, method = qrCode ? 'scan' : 'manual' }) {
+  const scanTime = timestamp || new Date().toISOString();
+
+  // Scanned payloads must carry a valid signature (or be an accepted legacy code)
+  const parsed = qrCode ? parseQrCode(qrCode) : null;
+  if (qrCode && !parsed) {
+    return deny('invalid-qr', null);
+  }
+
+  const guest = await tx.get(
+    `SELECT * FROM guests WHERE id = ? AND ${scopeFilter(user, 'guests')}`,
+    [parsed ? parsed.guestId : guestId, ...scopeParams(user, 'guests')]
+  );
+  if (!guest) {
+    return deny('guest-not-found', null);
+  }
+
+  // Dynamic codes are checked against the time of the scan, so queued offline scans still verify
+  const qrProblem = qrCode ? getQrCodeProblem(guest, qrCode, scanTime) : null;
+  if (qrProblem) {
+    return deny(qrProblem, summarizeGuest(guest));
+  }
+
+  const workshop = await tx.get(
+    `SELECT * FROM workshops WHERE id = ? AND ${scopeFilter(user, 'workshops')}`,
+    [workshopId, ...scopeParams(user, 'workshops')]
+  );
+  if (!workshop) {
+    return deny('workshop-not-found', summarizeGuest(guest));
+  }
+  // Workshops without an event admit their owner's guests
+  if (!workshop.event_id && guest.user_id !== workshop.user_id) {
+    return deny('guest-not-found', null);
+  }
+
+  if (qrCode && !parsed.dynamic && await requiresDynamicQr(tx, workshop)) {
+    return deny('dynamic-qr-required', summarizeGuest(guest));
+  }
+
+  // Guests must be on the roster of the workshop's event
+  if (workshop.event_id) {
+    const registered = await tx.get('SELECT 1 FROM event_guests WHERE event_id = ? AND guest_id = ?', [workshop.event_id, guest.id]);
+    if (!registered) {
+      return deny('not-registered', summarizeGuest(guest));
+    }
+  }
+
+  return mode === 'check-out'
+    ? checkOut(tx, { guest, workshop, timestamp: scanTime })
+    : checkIn(tx, { guest, workshop, user, timestamp: scanTime, vipOverride, overrideReason, method });
+}
+
+/**
+ * Process one scan at the door
+ *
+ * The guest is identified by `qrCode` (the scanned payload) or `guestId`.
+ * Admins only see their own guests and workshops; scanners those of the
+ * events and workshops they are assigned to. A guest picked by `guestId`
+ * rather than a scanned code is a manual check-in, which records the user
+ * who made it. The scan is timed by the server's clock, so a caller
+ * can't move it into the check-in window or back to when a code was valid.
+ * Resolves with `{ outcome, message, guest, attendance }` where outcome is
+ * 'checked-in', 'already-checked-in', 'checked-out' or 'denied' (with a
+ * `reason` from DENIALS).
+ */
+function processScan(scan) {
+  return withTransaction(tx => scanInTransaction(tx, { ...scan, timestamp: null }));
+}
+
+// Why the time a queued or imported scan claims can't be accepted, or null
+function getTimestampProblem(timestamp, now = Date.now()) {
+  if (!timestamp) {
+    return null;
+  }
+  const time = Date.parse(timestamp);
+  if (time > now + MAX_CLOCK_SKEW_MS) {
+    return 'Timestamp is in the future';
+  }
+  if (time < now - config.maxScanAgeHours * 60 * 60 * 1000) {
+    return `Timestamp is more than ${config.maxScanAgeHours} hours old`;
+  }
+  return null;
+}
+
+// Why a batch item can't be processed at all, or null when it is well-formed
+function validateBatchItem(item) {
+  const result = validate(batchItemSchema, item);
+  return result.success ? getTimestampProblem(item.timestamp) : result.message;
+}
+
+class BatchRolledBack extends Error {}
+
+/**
+ * Process many scans with the same rules as processScan
+ *
+ * Items are `{ clientId?, qrCode | guestId, workshopId, mode?, timestamp? }`.
+ * A timestamp may not be in the future or older than `maxScanAgeHours`.
+ * Unlike a live scan, an item is timed by its timestamp whether or not the
+ * batch is atomic. By default each item is committed on its own. With
+ * `allOrNothing` every item runs in one transaction that is rolled back
+ * unless all of them check the guest in or out. Resolves with `{ committed, results }`; results keep
+ * the order of the items, and malformed items get outcome 'invalid'.
+ * `method` overrides how check-ins are recorded, e.g. 'import'.
+ */
+async function processScanBatch(items, { user, allOrNothing = false, method }) {
+  const errors = items.map(validateBatchItem);
+  const scanOf = (item) => ({
+    qrCode: item.qrCode,
+    guestId: item.guestId,
+    workshopId: item.workshopId,
+    mode: item.mode || 'check-in',
+    timestamp: item.timestamp,
+    user,
+    method
+  });
+  const invalid = (item, message) => ({ clientId: item && item.clientId, outcome: 'invalid', message });
+
+  if (!allOrNothing) {
+    const results = [];
+    for (const [index, item] of items.entries()) {
+      results.push(errors[index]
+        ? invalid(item, errors[index])
+        : { clientId: item.clientId, ...(await withTransaction(tx => scanInTransaction(tx, scanOf(item)))) });
+    }
+    return { committed: true, results };
+  }
+
+  // A malformed item fails the whole batch before anything is written
+  if (errors.some(Boolean)) {
+    return {
+      committed: false,
+      results: items.map((item, index) => (errors[index] ? invalid(item, errors[index]) : { clientId: item.clientId, outcome: 'skipped', message: 'Not processed' }))
+    };
+  }
+
+  const results = [];
+  try {
+    await withTransaction(async (tx) => {
+      for (const item of items) {
+        results.push({ clientId: item.clientId, ...(await scanInTransaction(tx, scanOf(item))) });
+      }
+      if (results.some(result => !['checked-in', 'checked-out'].includes(result.outcome))) {
+        throw new BatchRolledBack();
+      }
+    });
+    return { committed: true, results };
+  } catch (error) {
+    if (!(error instanceof BatchRolledBack)) {
+      throw error;
+    }
+    return { committed: false, results };
+  }
+}
+
+/**
+ * Everything a scanner needs to keep checking guests in while offline
+ *
+ * Returns the workshop's rules (VIP, capacity, seats already in use and the
+ * check-in window as instants) and every guest who could be scanned into it,
+ * flagged with their invite, enrolment and attendance state. Resolves with
+ * null when the workshop does not exist for this user.
+ */
+function getScanRoster(workshopId, user) {
+  return withTransaction(async (tx) => {
+    const workshop = await tx.get(
+      `SELECT * FROM workshops WHERE id = ? AND ${scopeFilter(user, 'workshops')}`,
+      [workshopId, ...scopeParams(user, 'workshops')]
+    );
+    if (!workshop) {
+      return null;
+    }
+
+    // Guests of the workshop's event, or every guest the scan could match when it has none
+    const guestFilter = workshop.event_id
+      ? 'g.id IN (SELECT guest_id FROM event_guests WHERE event_id = ?)'
+      : 'g.user_id = ?';
+    const guestParams = workshop.event_id ? [workshop.event_id] : [workshop.user_id];
+
+    const guests = await tx.all(`
+      SELECT g.id, g.name, g.email, g.qr_code, g.qr_revoked_at, g.is_vip,
+        EXISTS (SELECT 1 FROM vip_access va WHERE va.guest_id = g.id AND va.workshop_id = ?) as invited,
+        EXISTS (SELECT 1 FROM enrolments en WHERE en.guest_id = g.id AND en.workshop_id = ? AND en.status = 'enrolled') as enrolled,
+        a.timestamp as checked_in_at,
+        a.checked_out_at
+      FROM guests g
+      LEFT JOIN attendance a ON a.guest_id = g.id AND a.workshop_id = ?
+      WHERE ${guestFilter}
+    `, [workshop.id, workshop.id, workshop.id, ...guestParams]);
+
+    const { seats } = await tx.get(SEATS_IN_USE_SQL, [workshop.id]);
+    const window = getCheckInWindow(workshop);
+    const dynamicQr = await requiresDynamicQr(tx, workshop);
+
+    return {
+      workshop: {
+        id: workshop.id,
+        name: workshop.name,
+        eventId: workshop.event_id || null,
+        isVip: Boolean(workshop.is_vip),
+        maxCapacity: workshop.max_capacity || null,
+        seatsInUse: seats,
+        dynamicQr,
+        checkInWindow: window
+          ? {
+            opensAt: window.opensAt.toISOString(),
+            startsAt: window.startsAt.toISOString(),
+            closesAt: window.closesAt.toISOString()
+          }
+          : null
+      },
+      guests: guests.map(guest => ({
+        id: guest.id,
+        name: guest.name,
+        email: guest.email,
+        qrCode: guest.qr_code,
+        // Codes the server would refuse: revoked, or legacy ones that are no longer accepted
+        qrRevoked: Boolean(getQrCodeProblem(guest, guest.qr_code)),
+        isVip: Boolean(guest.is_vip),
+        invited: Boolean(guest.invited),
+        enrolled: Boolean(guest.enrolled),
+        checkedInAt: guest.checked_in_at || null,
+        checkedOutAt: guest.checked_out_at || null
+      })),
+      generatedAt: new Date().toISOString()
+    };
+  });
+}
+
+// HTTP status for a scan result
+function getScanStatus(result) {
+  if (result.outcome === 'denied') {
+    return DENIALS[result.reason].status;
+  }
+  return result.outcome === 'checked-in' ? 201 : 200;
+}
+
+module.exports = {
+  processScan,
+  processScanBatch,
+  getScanRoster,
+  getScanStatus
+};
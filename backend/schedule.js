@@ -0,0 +1,84 @@
+/**
+ * Workshop scheduling helpers
+ *
+ * Workshops store their start and end as wall-clock times ("2025-05-12T10:00")
+ * together with an IANA time zone. The check-in window is measured from the
+ * start time: it opens `checkin_opens_minutes` before and closes
+ * `checkin_closes_minutes` after it.
+ */
+
+const DEFAULT_CHECKIN_OPENS_MINUTES = 15;
+const DEFAULT_CHECKIN_CLOSES_MINUTES = 20;
+
+// Difference in milliseconds between the wall clock in a time zone and UTC at a given instant
+function getTimeZoneOffset(date, timeZone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const values = Object.fromEntries(parts.map(part => [part.type, Number(part.value)]));
+  const wallClockAsUtc = Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second);
+
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Convert a wall-clock time in a time zone to the matching instant
+function zonedTimeToUtc(localDateTime, timeZone) {
+  const [datePart, timePart] = localDateTime.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour, minute] = timePart.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Re-check the offset at the result so times next to a DST change resolve correctly
+  const offset = getTimeZoneOffset(new Date(wallClockAsUtc), timeZone);
+  const correctedOffset = getTimeZoneOffset(new Date(wallClockAsUtc - offset), timeZone);
+
+  return new Date(wallClockAsUtc - correctedOffset);
+}
+
+// Get the check-in window of a workshop row, or null when it has no start time
+function getCheckInWindow(workshop) {
+  if (!workshop.start_time) {
+    return null;
+  }
+
+  const start = zonedTimeToUtc(workshop.start_time, workshop.timezone || 'UTC');
+  const opensBefore = workshop.checkin_opens_minutes ?? DEFAULT_CHECKIN_OPENS_MINUTES;
+  const closesAfter = workshop.checkin_closes_minutes ?? DEFAULT_CHECKIN_CLOSES_MINUTES;
+
+  return {
+    startsAt: start,
+    opensAt: new Date(start.getTime() - opensBefore * 60000),
+    closesAt: new Date(start.getTime() + closesAfter * 60000)
+  };
+}
+
+// Classify a check-in as 'on-time', 'late' or 'out-of-window'
+// Unscheduled workshops accept check-ins at any time and return null
+function classifyCheckIn(workshop, checkInTime) {
+  const window = getCheckInWindow(workshop);
+  if (!window) {
+    return null;
+  }
+
+  const time = new Date(checkInTime);
+  if (time < window.opensAt || time > window.closesAt) {
+    return 'out-of-window';
+  }
+
+  return time <= window.startsAt ? 'on-time' : 'late';
+}
+
+module.exports = {
+  DEFAULT_CHECKIN_OPENS_MINUTES,
+  DEFAULT_CHECKIN_CLOSES_MINUTES,
+  zonedTimeToUtc,
+  getCheckInWindow,
+  classifyCheckIn
+};
@@ -0,0 +1,58 @@
+const { ADMIN, setUpDatabase, tearDownDatabase, createFixture } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { foldSearchText, toMatchQuery } = require('../guestSearch');
+const { createGuest, updateGuest, deleteGuest, searchGuests } = require('../database');
+
+before(setUpDatabase);
+after(tearDownDatabase);
+
+const names = (guests) => guests.map(guest => guest.name);
+
+test('folds accents, Arabic vowel marks and letter variants', () => {
+  assert.equal(foldSearchText('Hélène'), 'helene');
+  assert.equal(foldSearchText('أَحمد'), 'احمد');
+  assert.equal(foldSearchText('مدرسة'), foldSearchText('مدرسه'));
+});
+
+test('quotes every search word as a prefix and ignores FTS5 syntax', () => {
+  assert.equal(toMatchQuery('Ann OR "mar'), '"ann"* "or"* "mar"*');
+  assert.equal(toMatchQuery(' -*" '), null);
+});
+
+test('finds guests by the start of any word of their name, email or organization', async () => {
+  const { event } = await createFixture({ guests: 0 });
+  const guest = (name, organization) => createGuest({ name, email: `${name.split(' ')[0].toLowerCase()}-${event.id}@example.org`, organization, userId: ADMIN.id, eventId: event.id });
+  await guest('Hélène Martin', 'Acme');
+  await guest('أَحمد علي', 'Globex');
+  await guest('Marc Dupont', 'Acme');
+
+  const search = (text) => searchGuests(text, { eventId: event.id, limit: 10 }).then(names);
+
+  assert.deepEqual(await search('helene'), ['Hélène Martin']);
+  assert.deepEqual(await search('احمد'), ['أَحمد علي']);
+  assert.deepEqual((await search('mar')).sort(), ['Hélène Martin', 'Marc Dupont']);
+  assert.deepEqual(await search('acme dup'), ['Marc Dupont']);
+  assert.deepEqual(await search('marc-'), ['Marc Dupont']);
+});
+
+test('keeps the index in step with edits and deletions', async () => {
+  const { event, guests: [guest] } = await createFixture();
+  const search = (text) => searchGuests(text, { eventId: event.id, limit: 10 }).then(names);
+
+  await updateGuest(guest.id, { name: 'Zoé Renamed', email: `zoe-${event.id}@example.org` });
+  assert.deepEqual(await search('zoe'), ['Zoé Renamed']);
+  assert.deepEqual(await search('guest'), []);
+
+  await deleteGuest(guest.id);
+  assert.deepEqual(await search('zoe'), []);
+});
+
+test('only finds guests of the given event', async () => {
+  const { event } = await createFixture();
+  await createFixture();
+
+  const results = await searchGuests('guest', { eventId: event.id, limit: 10 });
+
+  assert.deepEqual(results.map(guest => guest.email), [`guest1-${event.id}@example.org`]);
+});
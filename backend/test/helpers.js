@@ -0,0 +1,73 @@
+/**
+ * Shared setup of the backend tests
+ *
+ * Require this before any backend module: it points the backend at a fresh
+ * database file in a temporary folder, so tests never touch database.sqlite.
+ * `node --test` runs every test file in its own process, so each file gets a
+ * database of its own.
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eventqrollcall-test-'));
+process.env.DATABASE_FILE = path.join(dir, 'database.sqlite');
+
+const { db, initDb, createEvent, createWorkshop, createGuest } = require('../database');
+
+// The admin account the migrations create
+const ADMIN = { id: 1, username: 'admin', role: 'admin' };
+
+// Run fn with console.log silenced, to keep progress messages out of the test output
+async function quietly(fn) {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+  }
+}
+
+// Apply every migration to the test database
+function setUpDatabase() {
+  return quietly(initDb);
+}
+
+// Close the connection and delete the test database
+function tearDownDatabase() {
+  return new Promise((resolve, reject) => {
+    db.close(err => {
+      fs.rmSync(dir, { recursive: true, force: true });
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+// Wall-clock time as workshops store it (YYYY-MM-DDTHH:mm), in UTC
+const toLocalDateTime = (time) => new Date(time).toISOString().slice(0, 16);
+
+/**
+ * An event of the admin with one workshop and one guest on its roster.
+ * `workshop` overrides the workshop's fields, e.g. its schedule
+ */
+async function createFixture({ workshop = {}, guests = 1 } = {}) {
+  const event = await createEvent({ name: 'Test event', userId: ADMIN.id });
+  const createdWorkshop = await createWorkshop({ name: 'Test workshop', date: toLocalDateTime(Date.now()).slice(0, 10), location: 'Room 1', userId: ADMIN.id, eventId: event.id, ...workshop });
+  const createdGuests = [];
+  for (let i = 0; i < guests; i++) {
+    createdGuests.push(await createGuest({ name: `Guest ${i + 1}`, email: `guest${i + 1}-${event.id}@example.org`, userId: ADMIN.id, eventId: event.id }));
+  }
+  return { event, workshop: createdWorkshop, guests: createdGuests };
+}
+
+module.exports = {
+  ADMIN,
+  quietly,
+  setUpDatabase,
+  tearDownDatabase,
+  toLocalDateTime,
+  createFixture
+};
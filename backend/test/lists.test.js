@@ -0,0 +1,45 @@
+const { ADMIN, setUpDatabase, tearDownDatabase, createFixture } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { guestListQuerySchema, validate, MAX_PAGE_SIZE } = require('@eventqrollcall/shared');
+const { createGuest, getAllGuests } = require('../database');
+
+before(setUpDatabase);
+after(tearDownDatabase);
+
+test('reads page numbers from the query string and bounds the page size', () => {
+  assert.deepEqual(validate(guestListQuerySchema, { page: '2', pageSize: '10', sort: 'email' }).data, { page: 2, pageSize: 10, sort: 'email' });
+
+  const tooLarge = validate(guestListQuerySchema, { pageSize: String(MAX_PAGE_SIZE + 1) });
+  assert.equal(tooLarge.success, false);
+  assert.ok(tooLarge.fields.pageSize);
+  assert.equal(validate(guestListQuerySchema, { sort: 'password' }).success, false);
+});
+
+test('splits a list into pages that cover every row once', async () => {
+  const { event } = await createFixture({ guests: 5 });
+  const page = (number) => getAllGuests(ADMIN.id, event.id, null, { page: number, pageSize: 2 });
+
+  const pages = [await page(1), await page(2), await page(3)];
+
+  assert.deepEqual(pages.map(({ total, items }) => [total, items.length]), [[5, 2], [5, 2], [5, 1]]);
+  assert.deepEqual(pages.flatMap(({ items }) => items.map(guest => guest.name)), ['Guest 1', 'Guest 2', 'Guest 3', 'Guest 4', 'Guest 5']);
+  assert.deepEqual((await page(4)).items, []);
+});
+
+test('returns the whole list when no page is asked for', async () => {
+  const { event } = await createFixture({ guests: 3 });
+
+  const guests = await getAllGuests(ADMIN.id, event.id, null, { sort: 'name', order: 'desc' });
+
+  assert.deepEqual(guests.map(guest => guest.name), ['Guest 3', 'Guest 2', 'Guest 1']);
+});
+
+test('takes wildcards in a search literally', async () => {
+  const { event } = await createFixture({ guests: 1 });
+  await createGuest({ name: '100% Club', email: `club-${event.id}@example.org`, userId: ADMIN.id, eventId: event.id });
+
+  const guests = await getAllGuests(ADMIN.id, event.id, null, { search: '%' });
+
+  assert.deepEqual(guests.map(guest => guest.name), ['100% Club']);
+});
@@ -0,0 +1,56 @@
+const { setUpDatabase, tearDownDatabase } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { LOCKOUT_MINUTES, getRetryAfter, recordFailure, clearFailures } = require('../loginThrottle');
+
+before(setUpDatabase);
+after(tearDownDatabase);
+
+const fail = async (attempt, times) => {
+  let result;
+  for (let i = 0; i < times; i++) {
+    result = await recordFailure(attempt);
+  }
+  return result;
+};
+
+test('lets the first failures of an account retry straight away', async () => {
+  const attempt = { username: 'alice', ip: '192.0.2.1' };
+
+  await fail(attempt, 3);
+
+  assert.equal(await getRetryAfter(attempt), 0);
+});
+
+test('doubles the wait with every failure after that', async () => {
+  const attempt = { username: 'bob', ip: '192.0.2.2' };
+
+  await fail(attempt, 4);
+  assert.equal(await getRetryAfter(attempt), 1);
+
+  await fail(attempt, 2);
+  assert.equal(await getRetryAfter(attempt), 4);
+});
+
+test('locks an account out after ten failures', async () => {
+  const attempt = { username: 'carol', ip: '192.0.2.3' };
+
+  assert.equal((await fail(attempt, 9)).account, false);
+  const locked = await recordFailure(attempt);
+
+  assert.equal(locked.account, true);
+  assert.equal(locked.ip, false);
+  assert.equal(await getRetryAfter(attempt), LOCKOUT_MINUTES * 60);
+});
+
+test('keeps throttling the IP after the account signed in', async () => {
+  const ip = '192.0.2.4';
+  for (let i = 0; i < 12; i++) {
+    await recordFailure({ username: `guess${i}`, ip });
+  }
+
+  await clearFailures('guess11');
+
+  assert.equal(await getRetryAfter({ username: 'guess11', ip }), 2);
+  assert.equal(await getRetryAfter({ username: 'guess11', ip: '192.0.2.5' }), 0);
+});
@@ -0,0 +1,36 @@
+const { ADMIN, quietly, setUpDatabase, tearDownDatabase, createFixture } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { runMigrations, rollbackMigrations, getMigrationStatus } = require('../migrations');
+const { getEventById, userDb } = require('../database');
+
+before(setUpDatabase);
+after(tearDownDatabase);
+
+test('applies every migration and creates an admin who must change their password', async () => {
+  const status = await getMigrationStatus();
+
+  assert.ok(status.length > 0);
+  assert.deepEqual(status.filter(migration => !migration.appliedAt), []);
+  const admin = await userDb.getUserById(ADMIN.id);
+  assert.equal(admin.username, 'admin');
+  assert.equal(admin.must_change_password, 1);
+});
+
+test('keeps existing data when run again', async () => {
+  const { event } = await createFixture();
+
+  await quietly(runMigrations);
+
+  assert.equal((await getEventById(event.id, ADMIN.id)).name, 'Test event');
+});
+
+test('rolls every migration back and applies them again', async () => {
+  const count = (await getMigrationStatus()).length;
+
+  await quietly(() => rollbackMigrations(count));
+  assert.deepEqual((await getMigrationStatus()).filter(migration => migration.appliedAt), []);
+
+  await quietly(runMigrations);
+  assert.deepEqual((await getMigrationStatus()).filter(migration => !migration.appliedAt), []);
+});
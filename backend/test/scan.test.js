@@ -0,0 +1,144 @@
+const { ADMIN, setUpDatabase, tearDownDatabase, toLocalDateTime, createFixture } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { processScan, processScanBatch } = require('../scan');
+const { createGuest } = require('../database');
+const { config } = require('../config');
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+before(setUpDatabase);
+after(tearDownDatabase);
+
+// A workshop that started three hours ago, whose check-in window has long closed
+const pastWorkshop = () => {
+  const start = Date.now() - 3 * HOUR;
+  return {
+    startTime: toLocalDateTime(start),
+    endTime: toLocalDateTime(start + 2 * HOUR),
+    timezone: 'UTC',
+    checkinOpensMinutes: 30,
+    checkinClosesMinutes: 15,
+    start
+  };
+};
+
+test('a queued offline scan is timed by when it was scanned, not when it syncs', async () => {
+  const { start, ...schedule } = pastWorkshop();
+  const { workshop, guests: [guest] } = await createFixture({ workshop: schedule });
+  const scannedAt = new Date(start + 5 * MINUTE).toISOString();
+
+  const { committed, results } = await processScanBatch(
+    [{ clientId: 'c1', qrCode: guest.qr_code, workshopId: workshop.id, timestamp: scannedAt }],
+    { user: ADMIN }
+  );
+
+  assert.equal(committed, true);
+  assert.equal(results[0].clientId, 'c1');
+  assert.equal(results[0].outcome, 'checked-in');
+  assert.equal(results[0].attendance.timestamp, scannedAt);
+});
+
+test('a live scan is timed by the server clock', async () => {
+  const { start, ...schedule } = pastWorkshop();
+  const { workshop, guests: [guest] } = await createFixture({ workshop: schedule });
+
+  const result = await processScan({ qrCode: guest.qr_code, workshopId: workshop.id, user: ADMIN, timestamp: new Date(start).toISOString() });
+
+  assert.equal(result.outcome, 'denied');
+  assert.equal(result.code, 'OUTSIDE_CHECKIN_WINDOW');
+});
+
+test('an import is timed by its items whether or not it is all or nothing', async () => {
+  const { start, ...schedule } = pastWorkshop();
+  const scannedAt = new Date(start + 5 * MINUTE).toISOString();
+
+  for (const allOrNothing of [false, true]) {
+    const { workshop, guests: [guest] } = await createFixture({ workshop: schedule });
+    const { committed, results } = await processScanBatch(
+      [{ guestId: guest.id, workshopId: workshop.id, timestamp: scannedAt }],
+      { user: ADMIN, allOrNothing, method: 'import' }
+    );
+
+    assert.equal(committed, true, `allOrNothing: ${allOrNothing}`);
+    assert.equal(results[0].outcome, 'checked-in', `allOrNothing: ${allOrNothing}`);
+    assert.equal(results[0].attendance.timestamp, scannedAt);
+    assert.equal(results[0].attendance.checkinMethod, 'import');
+  }
+});
+
+test('checks a guest in once and then out', async () => {
+  const { workshop, guests: [guest] } = await createFixture();
+  const scan = { qrCode: guest.qr_code, workshopId: workshop.id, user: ADMIN };
+
+  const first = await processScan(scan);
+  assert.equal(first.outcome, 'checked-in');
+  assert.equal(first.attendance.checkinMethod, 'scan');
+
+  const second = await processScan(scan);
+  assert.equal(second.outcome, 'already-checked-in');
+  assert.equal(second.attendance.id, first.attendance.id);
+
+  const checkOut = await processScan({ ...scan, mode: 'check-out' });
+  assert.equal(checkOut.outcome, 'checked-out');
+  assert.ok(checkOut.attendance.checkedOutAt);
+});
+
+test('refuses a tampered QR code', async () => {
+  const { workshop, guests: [guest] } = await createFixture();
+
+  const result = await processScan({ qrCode: `${guest.qr_code}x`, workshopId: workshop.id, user: ADMIN });
+
+  assert.equal(result.outcome, 'denied');
+  assert.equal(result.code, 'INVALID_QR_CODE');
+});
+
+test('refuses a guest who is not on the roster of the workshop\'s event', async () => {
+  const { workshop } = await createFixture({ guests: 0 });
+  const outsider = await createGuest({ name: 'Outsider', email: `outsider-${workshop.id}@example.org`, userId: ADMIN.id });
+
+  const result = await processScan({ qrCode: outsider.qr_code, workshopId: workshop.id, user: ADMIN });
+
+  assert.equal(result.outcome, 'denied');
+  assert.equal(result.code, 'NOT_REGISTERED');
+});
+
+test('refuses a check-in once the workshop is full', async () => {
+  const { workshop, guests: [first, second] } = await createFixture({ workshop: { maxCapacity: 1 }, guests: 2 });
+
+  assert.equal((await processScan({ qrCode: first.qr_code, workshopId: workshop.id, user: ADMIN })).outcome, 'checked-in');
+  const result = await processScan({ qrCode: second.qr_code, workshopId: workshop.id, user: ADMIN });
+
+  assert.equal(result.outcome, 'denied');
+  assert.equal(result.code, 'CAPACITY_FULL');
+});
+
+test('refuses batch items timed in the future or too long ago', async () => {
+  const { workshop, guests: [guest] } = await createFixture();
+  const item = { guestId: guest.id, workshopId: workshop.id };
+
+  const { committed, results } = await processScanBatch([
+    { ...item, clientId: 'future', timestamp: new Date(Date.now() + 10 * MINUTE).toISOString() },
+    { ...item, clientId: 'old', timestamp: new Date(Date.now() - (config.maxScanAgeHours + 1) * HOUR).toISOString() }
+  ], { user: ADMIN });
+
+  assert.equal(committed, true);
+  assert.deepEqual(results.map(result => [result.clientId, result.outcome]), [['future', 'invalid'], ['old', 'invalid']]);
+  assert.match(results[0].message, /future/);
+  assert.match(results[1].message, /hours old/);
+});
+
+test('rolls an all-or-nothing batch back when one item is refused', async () => {
+  const { workshop, guests: [first, second] } = await createFixture({ workshop: { maxCapacity: 1 }, guests: 2 });
+
+  const { committed, results } = await processScanBatch([
+    { guestId: first.id, workshopId: workshop.id },
+    { guestId: second.id, workshopId: workshop.id }
+  ], { user: ADMIN, allOrNothing: true });
+
+  assert.equal(committed, false);
+  assert.deepEqual(results.map(result => result.outcome), ['checked-in', 'denied']);
+  // The first check-in was undone, so its seat is still free
+  assert.equal((await processScan({ guestId: second.id, workshopId: workshop.id, user: ADMIN })).outcome, 'checked-in');
+});
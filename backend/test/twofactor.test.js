@@ -0,0 +1,43 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { generateTotpSecret, getTotpUri, matchTotpStep, generateRecoveryCodes, normalizeRecoveryCode } = require('../twofactor');
+
+// The SHA-1 secret of the RFC 6238 test vectors, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+test('matches the RFC 6238 test vectors', () => {
+  assert.equal(matchTotpStep(RFC_SECRET, '287082', 59 * 1000), 1);
+  assert.equal(matchTotpStep(RFC_SECRET, '081804', 1111111109 * 1000), 37037036);
+  assert.equal(matchTotpStep(RFC_SECRET, '005924', 1234567890 * 1000), 41152263);
+});
+
+test('accepts a code from the step before or after, but no further', () => {
+  assert.equal(matchTotpStep(RFC_SECRET, '287082', 89 * 1000), 1);
+  assert.equal(matchTotpStep(RFC_SECRET, '287082', 119 * 1000), null);
+});
+
+test('ignores spaces in a code and refuses malformed ones', () => {
+  assert.equal(matchTotpStep(RFC_SECRET, ' 287 082 ', 59 * 1000), 1);
+  assert.equal(matchTotpStep(RFC_SECRET, '28708', 59 * 1000), null);
+  assert.equal(matchTotpStep(RFC_SECRET, 'abcdef', 59 * 1000), null);
+  assert.equal(matchTotpStep(RFC_SECRET, null, 59 * 1000), null);
+});
+
+test('enrols a new secret through an otpauth URI', () => {
+  const secret = generateTotpSecret();
+  const uri = new URL(getTotpUri('alice', secret));
+
+  assert.match(secret, /^[A-Z2-7]{32}$/);
+  assert.equal(uri.protocol, 'otpauth:');
+  assert.equal(uri.searchParams.get('secret'), secret);
+  assert.equal(uri.searchParams.get('issuer'), 'EventQRollcall');
+});
+
+test('generates distinct recovery codes that compare without case, spaces or dashes', () => {
+  const codes = generateRecoveryCodes();
+
+  assert.equal(codes.length, 10);
+  assert.equal(new Set(codes).size, codes.length);
+  codes.forEach(code => assert.match(code, /^[a-z2-7]{5}-[a-z2-7]{5}$/));
+  assert.equal(normalizeRecoveryCode(` ${codes[0].toUpperCase().replace('-', ' - ')} `), normalizeRecoveryCode(codes[0]));
+});
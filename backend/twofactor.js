@@ -0,0 +1,122 @@
+/**
+ * Two-factor authentication for accounts
+ *
+ * Users enrol an authenticator app by scanning an `otpauth://` URI holding a
+ * random base32 secret, then sign in with the 6-digit TOTP (RFC 6238) it
+ * shows. Each time step is only accepted once per account, so a code seen over
+ * someone's shoulder can't be replayed. Single-use recovery codes get people
+ * in when they lose their phone; only their hashes are stored.
+ */
+
+const crypto = require('crypto');
+
+const ISSUER = 'EventQRollcall';
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Steps either side of the current one that are still accepted, for clock skew
+const TOTP_SKEW_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(text) {
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+  for (const char of text.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// New random secret, base32 encoded as authenticator apps expect
+function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+// URI to show as a QR code so an authenticator app can enrol the secret
+function getTotpUri(username, secret) {
+  const label = encodeURIComponent(`${ISSUER}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// HOTP value (RFC 4226) of a time step
+function totpAt(secret, step) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const value = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(value % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+// Time step a code was generated in, or null when it matches none near the given time.
+// Callers store the step so the same code can't be used twice
+function matchTotpStep(secret, code, time = new Date()) {
+  const normalized = String(code || '').replace(/\s+/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const step = Math.floor(new Date(time).getTime() / 1000 / TOTP_STEP_SECONDS);
+  for (let skew = -TOTP_SKEW_STEPS; skew <= TOTP_SKEW_STEPS; skew++) {
+    if (totpAt(secret, step + skew) === normalized) {
+      return step + skew;
+    }
+  }
+  return null;
+}
+
+// Fresh recovery codes, formatted `xxxxx-xxxxx` for reading off paper
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Recovery codes are compared without case, spaces or dashes
+function normalizeRecoveryCode(code) {
+  return String(code || '').toLowerCase().replace(/[\s-]+/g, '');
+}
+
+module.exports = {
+  generateTotpSecret,
+  getTotpUri,
+  matchTotpStep,
+  generateRecoveryCodes,
+  normalizeRecoveryCode
+};
@@ -0,0 +1,41 @@
+/**
+ * Request body and query string validation
+ *
+ * Routes take their schemas from the shared package, so the API and the
+ * frontend's forms agree on what is valid.
+ */
+
+const { validate } = require('@eventqrollcall/shared');
+const { sendError } = require('./errors');
+
+// Middleware checking the request body against a schema. Bad bodies get a 400
+// with the problem of each field in `fields`; the route sees the parsed body,
+// with unknown fields dropped and empty optional fields unset
+function validateBody(schema) {
+  return (req, res, next) => {
+    const result = validate(schema, req.body);
+    if (!result.success) {
+      return sendError(res, 400, 'VALIDATION_FAILED', result.message, { fields: result.fields });
+    }
+    req.body = result.data;
+    next();
+  };
+}
+
+// Middleware checking the query string against a schema, like validateBody.
+// The route sees parsed values, e.g. numbers for `page` and booleans for flags
+function validateQuery(schema) {
+  return (req, res, next) => {
+    const result = validate(schema, req.query);
+    if (!result.success) {
+      return sendError(res, 400, 'VALIDATION_FAILED', result.message, { fields: result.fields });
+    }
+    req.query = result.data;
+    next();
+  };
+}
+
+module.exports = {
+  validateBody,
+  validateQuery
+};
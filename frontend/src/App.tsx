@@ -13,6 +13,13 @@ import LoginPage from './pages/LoginPage';
 import NotFoundPage from './pages/NotFoundPage';
 import UnauthorizedPage from './pages/UnauthorizedPage';
 import AttendancePage from './pages/AttendancePage';
+import EventsPage from './pages/EventsPage';
+import GuestPassPage from './pages/GuestPassPage';
+import UsersPage from './pages/UsersPage';
+import RegisterPage from './pages/RegisterPage';
+import ProfilePage from './pages/ProfilePage';
+import ChangePasswordPage from './pages/ChangePasswordPage';
+import SettingsPage from './pages/SettingsPage';
 
 // Layout
 import Layout from './components/Layout';
@@ -20,13 +27,16 @@ import Layout from './components/Layout';
 // Context Providers
 import { ThemeProvider } from './context/ThemeContext';
 import { AuthProvider, AuthContext } from './context/AuthContext';
+import { EventProvider } from './context/EventContext';
+import { ScanQueueProvider } from './context/ScanQueueContext';
 
 // Components for route protection
 import RoleRoute from './components/RoleRoute';
+import BackendGate from './components/BackendGate';
 
 // Protected route component
 const ProtectedRoute = ({ children }: { children: JSX.Element }) => {
-  const { isAuthenticated, isLoading } = useContext(AuthContext);
+  const { user, isAuthenticated, isLoading } = useContext(AuthContext);
   const location = useLocation();
 
   if (isLoading) {
@@ -44,6 +54,11 @@ const ProtectedRoute = ({ children }: { children: JSX.Element }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  // A default or admin-issued password has to be replaced before anything else
+  if (user?.mustChangePassword && location.pathname !== '/change-password') {
+    return <Navigate to="/change-password" replace />;
+  }
+
   return children;
 };
 
@@ -70,7 +85,15 @@ const AppRoutes = () => {
   return (
     <Routes>
       <Route path="/login" element={<LoginPage />} />
+      <Route path="/register" element={<RegisterPage />} />
       <Route path="/unauthorized" element={<UnauthorizedPage />} />
+      <Route path="/change-password" element={
+        <ProtectedRoute>
+          <ChangePasswordPage />
+        </ProtectedRoute>
+      } />
+      {/* Guests open their pass without an account */}
+      <Route path="/pass/:token" element={<GuestPassPage />} />
       
       <Route path="/" element={
         <ProtectedRoute>
@@ -87,6 +110,12 @@ const AppRoutes = () => {
         } />
         
         {/* Admin-only pages */}
+        <Route path="/events" element={
+          <RoleRoute allowedRoles={['admin']}>
+            <EventsPage />
+          </RoleRoute>
+        } />
+        
         <Route path="/workshops" element={
           <RoleRoute allowedRoles={['admin']}>
             <WorkshopsPage />
@@ -117,6 +146,20 @@ const AppRoutes = () => {
           </RoleRoute>
         } />
         
+        <Route path="/users" element={
+          <RoleRoute allowedRoles={['admin']}>
+            <UsersPage />
+          </RoleRoute>
+        } />
+        
+        <Route path="/settings" element={
+          <RoleRoute allowedRoles={['admin']}>
+            <SettingsPage />
+          </RoleRoute>
+        } />
+        
+        <Route path="/profile" element={<ProfilePage />} />
+        
         <Route path="/404" element={<NotFoundPage />} />
         <Route path="*" element={<Navigate to="/404" replace />} />
       </Route>
@@ -127,11 +170,17 @@ const AppRoutes = () => {
 export function App() {
   return (
     <ThemeProvider>
-      <Router>
-        <AuthProvider>
-          <AppRoutes />
-        </AuthProvider>
-      </Router>
+      <BackendGate>
+        <Router>
+          <AuthProvider>
+            <EventProvider>
+              <ScanQueueProvider>
+                <AppRoutes />
+              </ScanQueueProvider>
+            </EventProvider>
+          </AuthProvider>
+        </Router>
+      </BackendGate>
     </ThemeProvider>
   );
 }
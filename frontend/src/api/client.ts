@@ -0,0 +1,268 @@
+/**
+ * HTTP client for the backend
+ *
+ * Every call to the API goes through `request`, which adds the access token,
+ * refreshes it once when the server says it has expired, turns error
+ * responses into an ApiError carrying the server's error code, and maps the
+ * snake_case keys of database rows to camelCase so callers only ever see one
+ * naming style.
+ */
+
+import { getApiUrl } from '../config';
+import { ApiErrorCode, FieldErrors } from '../types';
+
+/**
+ * Thrown for every error response; branch on `code`, the message is for people
+ */
+export class ApiError extends Error {
+  status: number;
+  code: ApiErrorCode;
+  // Anything else the server sent with the error, e.g. `retryAfter` or `opensAt`
+  details: Record<string, unknown>;
+
+  constructor(message: string, status: number, code: ApiErrorCode, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Thrown when the server could not be reached at all (no connection, DNS, CORS, ...)
+ */
+export class NetworkError extends Error {
+  constructor(message: string = 'Could not reach the server') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Whether a value is a JSON object, to narrow response bodies before reading their fields
+ */
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Whether an error is an API error with one of the given codes
+ */
+export const isApiError = (error: unknown, ...codes: ApiErrorCode[]): error is ApiError =>
+  error instanceof ApiError && (codes.length === 0 || codes.includes(error.code));
+
+/**
+ * Problems with single fields the server reported for a VALIDATION_FAILED error, if any
+ */
+export const getFieldErrors = (error: unknown): FieldErrors | null => {
+  if (!isApiError(error, 'VALIDATION_FAILED')) return null;
+  const { fields } = error.details;
+  return isPlainObject(fields) && Object.values(fields).every(message => typeof message === 'string')
+    ? fields as FieldErrors
+    : null;
+};
+
+/**
+ * Get the auth token from localStorage
+ */
+export const getAuthToken = (): string | null => {
+  return localStorage.getItem('authToken');
+};
+
+/**
+ * Set the auth token in localStorage
+ */
+export const setAuthToken = (token: string): void => {
+  localStorage.setItem('authToken', token);
+};
+
+/**
+ * Get the refresh token from localStorage
+ */
+export const getRefreshToken = (): string | null => {
+  return localStorage.getItem('refreshToken');
+};
+
+/**
+ * Set the refresh token in localStorage
+ */
+export const setRefreshToken = (token: string): void => {
+  localStorage.setItem('refreshToken', token);
+};
+
+/**
+ * Remove the auth and refresh tokens from localStorage
+ */
+export const removeAuthToken = (): void => {
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('refreshToken');
+};
+
+/**
+ * When an access token expires, in milliseconds since the epoch
+ */
+export const getTokenExpiry = (token: string | null): number | null => {
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const toCamelCaseKey = (key: string): string => key.replace(/_([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+
+/**
+ * Rename snake_case keys to camelCase, deeply. Where a response already has
+ * both spellings of a field the camelCase one wins
+ */
+export const toCamelCase = <T>(value: unknown): T => {
+  if (Array.isArray(value)) {
+    return value.map(item => toCamelCase(item)) as T;
+  }
+  if (!isPlainObject(value)) {
+    return value as T;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const camelKey = toCamelCaseKey(key);
+    if (camelKey !== key && camelKey in value) continue;
+    result[camelKey] = toCamelCase(item);
+  }
+  return result as T;
+};
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // Sent as JSON
+  body?: unknown;
+  // Empty values are left out, so an unset event filter needs no special casing
+  query?: Record<string, QueryValue>;
+  // Send the access token; public routes pass false
+  auth?: boolean;
+  signal?: AbortSignal;
+  // Resolve with the body of error responses that still carry a result, e.g. refused scans
+  acceptErrorBody?: (body: unknown) => boolean;
+}
+
+const buildUrl = (path: string, query?: Record<string, QueryValue>): string => {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query || {})) {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(name, String(value));
+    }
+  }
+  const search = params.toString();
+  return `${getApiUrl()}/api${path}${search ? `?${search}` : ''}`;
+};
+
+const send = async (path: string, options: RequestOptions, token: string | null): Promise<Response> => {
+  try {
+    return await fetch(buildUrl(path, options.query), {
+      method: options.method || 'GET',
+      headers: {
+        ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new NetworkError();
+  }
+};
+
+const readBody = async (response: Response): Promise<unknown> => {
+  if (response.status === 204) return undefined;
+  return response.json().catch(() => ({}));
+};
+
+const toApiError = (response: Response, body: unknown): ApiError => {
+  const { error, code, ...details } = isPlainObject(body) ? body : {};
+  return new ApiError(
+    typeof error === 'string' && error ? error : `Request failed with status ${response.status}`,
+    response.status,
+    // Codes are the server's to choose; ApiErrorCode lists the ones it sends
+    typeof code === 'string' && code ? code as ApiErrorCode : (response.status >= 500 ? 'SERVER_ERROR' : 'VALIDATION_FAILED'),
+    details
+  );
+};
+
+// Refresh in flight, shared so concurrent callers don't spend the refresh token twice
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Swap the refresh token for a new access token. Resolves null when the
+ * session has ended; rejects when the server can't be reached
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const sentToken = getRefreshToken();
+      if (!sentToken) return null;
+
+      const response = await send('/token/refresh', { method: 'POST', body: { refreshToken: sentToken } }, null);
+      if (!response.ok) {
+        // Another tab may have refreshed first and stored the new tokens
+        const currentToken = getRefreshToken();
+        return currentToken && currentToken !== sentToken ? getAuthToken() : null;
+      }
+
+      const data: unknown = await response.json();
+      if (!isPlainObject(data) || typeof data.token !== 'string' || typeof data.refreshToken !== 'string') {
+        return null;
+      }
+      setAuthToken(data.token);
+      setRefreshToken(data.refreshToken);
+      return data.token;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Send a request, refreshing the access token once if the server turns it down
+const sendWithAuth = async (path: string, options: RequestOptions): Promise<Response> => {
+  if (options.auth === false) {
+    return send(path, options, null);
+  }
+
+  const response = await send(path, options, getAuthToken());
+  if (response.status !== 401 || !getRefreshToken()) {
+    return response;
+  }
+
+  const token = await refreshAccessToken();
+  return token ? send(path, options, token) : response;
+};
+
+/**
+ * Call an API route, e.g. `request<Guest[]>('/guests', { query: { eventId } })`.
+ * Resolves with the camelCased response body; rejects with ApiError or NetworkError
+ */
+export const request = async <T = void>(path: string, options: RequestOptions = {}): Promise<T> => {
+  const response = await sendWithAuth(path, options);
+  const body = await readBody(response);
+
+  if (!response.ok && !options.acceptErrorBody?.(body)) {
+    throw toApiError(response, body);
+  }
+  return toCamelCase<T>(body);
+};
+
+/**
+ * Call an API route that answers with a file, such as a certificate image
+ */
+export const requestBlob = async (path: string, options: RequestOptions = {}): Promise<Blob> => {
+  const response = await sendWithAuth(path, options);
+  if (!response.ok) {
+    throw toApiError(response, await readBody(response));
+  }
+  return response.blob();
+};
@@ -0,0 +1,453 @@
+import { eventSchema, workshopSchema, guestSchema, enrolledGuestSchema, waitlistedGuestSchema, waitlistedWorkshopSchema, attendanceRecordSchema, userInviteSchema, pageSchema } from '@eventqrollcall/shared';
+import { EventInfo, EventInput, Workshop, NewWorkshopInput, WorkshopInput, WorkshopListQuery, Guest, NewGuestInput, GuestInput, GuestListQuery, AttendanceRecord, AttendanceListQuery, Page, Enrolment, EnrolmentResult, EnrolledGuest, WaitlistedGuest, WaitlistedWorkshop, ScanMode, ScanResult, ScanRoster, QueuedScan, BatchScanResult, AttendanceImportItem, AttendanceImportResult, DynamicPass, ManagedUser, UserInvite, UserRole, UserPermission, UserSession, ScannerAssignments, TwoFactorStatus, TwoFactorSetup, PasswordPolicy, ApiKey, ApiKeyInput, ServerSetting, AccountProfile, LoginResponse } from '../types';
+import { request, requestBlob, isPlainObject } from './client';
+import { getApiUrl } from '../config';
+
+export { ApiError, NetworkError, isApiError, getFieldErrors } from './client';
+
+// Give up on the startup health check after this long
+const HEALTH_CHECK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Whether the backend answers at the configured address
+ */
+export const checkBackendHealth = async (): Promise<boolean> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+  try {
+    // A frontend host answering in the backend's place serves index.html, not JSON
+    const response = await fetch(`${getApiUrl()}/api/health`, { signal: controller.signal });
+    return response.ok && Boolean(response.headers.get('content-type')?.includes('json'));
+  } catch (error) {
+    console.error('Backend health check failed:', error);
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Responses are checked against the shared schemas, which also turn SQLite's
+// 0/1 flags into booleans and fill in the fields older rows lack
+const mapEvent = (event: unknown): EventInfo => eventSchema.parse(event);
+
+const mapWorkshop = (workshop: unknown): Workshop => workshopSchema.parse(workshop);
+
+const mapGuest = (guest: unknown): Guest => guestSchema.parse(guest);
+
+const mapAttendance = (record: unknown): AttendanceRecord => attendanceRecordSchema.parse(record);
+
+const workshopPageSchema = pageSchema(workshopSchema);
+const guestPageSchema = pageSchema(guestSchema);
+const attendancePageSchema = pageSchema(attendanceRecordSchema);
+
+const mapInvite = (invite: unknown): UserInvite => userInviteSchema.parse(invite);
+
+// Event API calls
+export const fetchEvents = async (): Promise<EventInfo[]> => {
+  const events = await request<unknown[]>('/events');
+  return events.map(mapEvent);
+};
+
+export const createEvent = async (event: EventInput): Promise<EventInfo> =>
+  mapEvent(await request('/events', { method: 'POST', body: event }));
+
+export const updateEvent = async (event: EventInput & { id: string }): Promise<EventInfo> =>
+  mapEvent(await request(`/events/${event.id}`, { method: 'PUT', body: event }));
+
+export const deleteEvent = (id: string): Promise<void> =>
+  request(`/events/${id}`, { method: 'DELETE' });
+
+export const addGuestToEvent = (eventId: string, guestId: string): Promise<void> =>
+  request(`/events/${eventId}/guests`, { method: 'POST', body: { guestId } });
+
+export const removeGuestFromEvent = (eventId: string, guestId: string): Promise<void> =>
+  request(`/events/${eventId}/guests/${guestId}`, { method: 'DELETE' });
+
+// Workshop API calls
+export const fetchWorkshops = async (eventId?: string | null): Promise<Workshop[]> => {
+  const workshops = await request<unknown[]>('/workshops', { query: { eventId } });
+  return workshops.map(mapWorkshop);
+};
+
+// One page of the workshops, searched, filtered and sorted on the server
+export const fetchWorkshopPage = async (query: WorkshopListQuery & { page: number }): Promise<Page<Workshop>> =>
+  workshopPageSchema.parse(await request('/workshops', { query }));
+
+export const createWorkshop = async (workshop: NewWorkshopInput): Promise<Workshop> =>
+  mapWorkshop(await request('/workshops', { method: 'POST', body: workshop }));
+
+export const updateWorkshop = async (workshop: WorkshopInput & { id: string }): Promise<Workshop> =>
+  mapWorkshop(await request(`/workshops/${workshop.id}`, { method: 'PUT', body: workshop }));
+
+export const deleteWorkshop = (id: string): Promise<void> =>
+  request(`/workshops/${id}`, { method: 'DELETE' });
+
+export const getWorkshopById = async (id: string): Promise<Workshop> =>
+  mapWorkshop(await request(`/workshops/${id}`));
+
+// Guest API calls
+export const fetchGuests = async (eventId?: string | null): Promise<Guest[]> => {
+  const guests = await request<unknown[]>('/guests', { query: { eventId } });
+  return guests.map(mapGuest);
+};
+
+// One page of the guests, searched, filtered and sorted on the server
+export const fetchGuestPage = async (query: GuestListQuery & { page: number }): Promise<Page<Guest>> =>
+  guestPageSchema.parse(await request('/guests', { query }));
+
+// Guests matching a few words of their name, email or organization, best matches first
+export const searchGuests = async (q: string, eventId?: string | null): Promise<Guest[]> => {
+  const guests = await request<unknown[]>('/guests/search', { query: { q, eventId } });
+  return guests.map(mapGuest);
+};
+
+export const createGuest = async (guest: NewGuestInput): Promise<Guest> =>
+  mapGuest(await request('/guests', { method: 'POST', body: guest }));
+
+export const updateGuest = async (guest: GuestInput & { id: string }): Promise<Guest> =>
+  mapGuest(await request(`/guests/${guest.id}`, { method: 'PUT', body: guest }));
+
+export const deleteGuest = (id: string): Promise<void> =>
+  request(`/guests/${id}`, { method: 'DELETE' });
+
+export const getGuestByQRCode = async (qrCode: string): Promise<Guest> =>
+  mapGuest(await request(`/guests/qr/${encodeURIComponent(qrCode)}`));
+
+// Stop a guest's QR code from checking them in, e.g. when a badge is lost
+export const revokeGuestQrCode = async (guestId: string): Promise<Guest> =>
+  mapGuest(await request(`/guests/${guestId}/qr-code/revoke`, { method: 'POST' }));
+
+// Give a guest a new signed QR code; the previous one stops working
+export const reissueGuestQrCode = async (guestId: string): Promise<Guest> =>
+  mapGuest(await request(`/guests/${guestId}/qr-code/reissue`, { method: 'POST' }));
+
+// Token for the guest's pass page link, where they show their rotating QR code
+export const getGuestPassToken = async (guestId: string): Promise<string> => {
+  const { token } = await request<{ token: string }>(`/guests/${guestId}/pass`);
+  return token;
+};
+
+// Current code for a pass page; public, the token is all the guest has
+export const fetchGuestPass = (token: string): Promise<DynamicPass> =>
+  request(`/pass/${encodeURIComponent(token)}`, { auth: false });
+
+// Attendance API calls
+export const fetchAttendance = async (eventId?: string | null): Promise<AttendanceRecord[]> => {
+  const records = await request<unknown[]>('/attendance', { query: { eventId } });
+  return records.map(mapAttendance);
+};
+
+// One page of the attendance records, searched, filtered and sorted on the server
+export const fetchAttendancePage = async (query: AttendanceListQuery & { page: number }): Promise<Page<AttendanceRecord>> =>
+  attendancePageSchema.parse(await request('/attendance', { query }));
+
+// Admins can pass a VIP override to let a guest in despite the invite list.
+// Refusals reject with an ApiError whose code says why, e.g. CAPACITY_FULL
+export const recordAttendance = async (
+  guestId: string,
+  workshopId: string,
+  vipOverride?: { reason?: string }
+): Promise<AttendanceRecord> =>
+  mapAttendance(await request('/attendance', {
+    method: 'POST',
+    body: {
+      guestId,
+      workshopId,
+      ...(vipOverride ? { vipOverride: true, overrideReason: vipOverride.reason } : {})
+    }
+  }));
+
+// Import many check-ins at once; resolves with per-item results even when an
+// all-or-nothing import was rolled back
+export const importAttendance = (items: AttendanceImportItem[], allOrNothing: boolean = false): Promise<AttendanceImportResult> =>
+  request('/attendance/batch', {
+    method: 'POST',
+    body: { items, allOrNothing },
+    acceptErrorBody: body => isPlainObject(body) && Array.isArray(body.results)
+  });
+
+// Check a guest in or out from a scanned QR payload in a single request
+// Refused scans resolve with outcome 'denied' and a code instead of throwing
+export const scanQRCode = (
+  qrCode: string,
+  workshopId: string,
+  mode: ScanMode = 'check-in',
+  vipOverride?: { reason?: string }
+): Promise<ScanResult> =>
+  request('/scan', {
+    method: 'POST',
+    body: {
+      qrCode,
+      workshopId,
+      mode,
+      ...(vipOverride ? { vipOverride: true, overrideReason: vipOverride.reason } : {})
+    },
+    acceptErrorBody: body => isPlainObject(body) && Boolean(body.outcome)
+  });
+
+// Check a guest in or out by hand when their QR code can't be read, with the same rules as a scan
+// The server flags the check-in with the signed-in user
+export const manualScan = (
+  guestId: string,
+  workshopId: string,
+  mode: ScanMode = 'check-in',
+  vipOverride?: { reason?: string }
+): Promise<ScanResult> =>
+  request('/scan/manual', {
+    method: 'POST',
+    body: {
+      guestId,
+      workshopId,
+      mode,
+      ...(vipOverride ? { vipOverride: true, overrideReason: vipOverride.reason } : {})
+    },
+    acceptErrorBody: body => isPlainObject(body) && Boolean(body.outcome)
+  });
+
+// Workshop rules and guest roster for scanning while offline
+export const getScanRoster = (workshopId: string): Promise<ScanRoster> =>
+  request(`/workshops/${workshopId}/scan-roster`);
+
+// Send scans queued offline, with their original timestamps
+export const syncScans = async (scans: QueuedScan[]): Promise<BatchScanResult[]> => {
+  const { results } = await request<{ results: BatchScanResult[] }>('/scan/batch', {
+    method: 'POST',
+    body: {
+      scans: scans.map(({ clientId, qrCode, workshopId, mode, timestamp }) => ({ clientId, qrCode, workshopId, mode, timestamp }))
+    }
+  });
+  return results;
+};
+
+export const checkOutAttendance = async (guestId: string, workshopId: string): Promise<AttendanceRecord> =>
+  mapAttendance(await request('/attendance/checkout', {
+    method: 'POST',
+    body: { guestId, workshopId }
+  }));
+
+export const deleteAttendance = (id: string): Promise<void> =>
+  request(`/attendance/${id}`, { method: 'DELETE' });
+
+export const getGuestAttendance = async (guestId: string, eventId?: string | null): Promise<Workshop[]> => {
+  const workshops = await request<unknown[]>(`/attendance/guest/${guestId}`, { query: { eventId } });
+  return workshops.map(mapWorkshop);
+};
+
+export const getWorkshopAttendees = async (workshopId: string): Promise<Guest[]> => {
+  const guests = await request<unknown[]>(`/attendance/workshop/${workshopId}`);
+  return guests.map(mapGuest);
+};
+
+export const calculateAttendancePercentage = async (guestId: string, eventId?: string | null): Promise<number> => {
+  const { percentage } = await request<{ percentage: number }>(`/analytics/guest/${guestId}/percentage`, { query: { eventId } });
+  return percentage;
+};
+
+export const isEligibleForAttestation = async (guestId: string, eventId?: string | null): Promise<boolean> => {
+  const { eligible } = await request<{ eligible: boolean }>(`/analytics/guest/${guestId}/eligible`, { query: { eventId } });
+  return eligible;
+};
+
+export const getWorkshopAttendancePercentage = async (workshopId: string): Promise<number> => {
+  const { percentage } = await request<{ percentage: number }>(`/analytics/workshop/${workshopId}/percentage`);
+  return percentage;
+};
+
+export const getLastCheckIns = async (count: number = 5, eventId?: string | null): Promise<AttendanceRecord[]> => {
+  const records = await request<unknown[]>('/attendance/recent', { query: { count, eventId } });
+  return records.map(mapAttendance);
+};
+
+// Authentication API calls
+// Password step of a login; throttled attempts reject with TOO_MANY_ATTEMPTS and `retryAfter`
+export const loginUser = (username: string, password: string): Promise<LoginResponse> =>
+  request('/login', { method: 'POST', body: { username, password }, auth: false });
+
+// Second login step: a code from the authenticator app or a recovery code,
+// with the challenge token the password step returned
+export const verifyLoginTwoFactor = (
+  challengeToken: string,
+  factor: { code?: string; recoveryCode?: string }
+): Promise<LoginResponse> =>
+  request('/login/2fa', { method: 'POST', body: { challengeToken, ...factor }, auth: false });
+
+// Start setting up an authenticator app during login, when policy requires one
+export const startLoginTwoFactorSetup = (challengeToken: string): Promise<TwoFactorSetup> =>
+  request('/login/2fa/setup', { method: 'POST', body: { challengeToken }, auth: false });
+
+// End the current session on the server; the local tokens are cleared by the caller
+export const logoutUser = async (): Promise<void> => {
+  try {
+    await request('/logout', { method: 'POST' });
+  } catch (error) {
+    // Offline: the session simply expires on the server
+    console.error('Logout request failed:', error);
+  }
+};
+
+export const fetchUserProfile = async (): Promise<AccountProfile> => {
+  const { user } = await request<{ user: AccountProfile }>('/profile');
+  return user;
+};
+
+// Registration needs an invitation token from an admin
+export const register = (username: string, password: string, inviteToken: string): Promise<{ userId: string }> =>
+  request('/register', { method: 'POST', body: { username, password, inviteToken }, auth: false });
+
+export const generateCertificate = (guestId: string, guestName: string, eventId?: string | null): Promise<Blob> =>
+  requestBlob('/certificates/generate', { method: 'POST', body: { guestId, guestName, eventId } });
+
+// VIP Access Management
+export const addVipAccess = (guestId: string, workshopId: string): Promise<void> =>
+  request(`/workshops/${workshopId}/vip-access`, { method: 'POST', body: { guestId } });
+
+export const removeVipAccess = (guestId: string, workshopId: string): Promise<void> =>
+  request(`/workshops/${workshopId}/vip-access/${guestId}`, { method: 'DELETE' });
+
+export const getVipAccessList = async (guestId: string): Promise<Workshop[]> => {
+  try {
+    const workshops = await request<unknown[]>(`/guests/${guestId}/vip-access`);
+    return workshops.map(mapWorkshop);
+  } catch (error) {
+    console.error('Error fetching VIP access list:', error);
+    return []; // Return empty array instead of failing completely
+  }
+};
+
+// Enrolment Management
+export const fetchEnrolments = (eventId?: string | null): Promise<Enrolment[]> =>
+  request('/enrolments', { query: { eventId } });
+
+export const enrolGuest = (guestId: string, workshopId: string): Promise<EnrolmentResult> =>
+  request(`/workshops/${workshopId}/enrolments`, { method: 'POST', body: { guestId } });
+
+export const unenrolGuest = (guestId: string, workshopId: string): Promise<void> =>
+  request(`/workshops/${workshopId}/enrolments/${guestId}`, { method: 'DELETE' });
+
+export const getWorkshopEnrolments = async (workshopId: string): Promise<EnrolledGuest[]> => {
+  const guests = await request<unknown[]>(`/workshops/${workshopId}/enrolments`);
+  return guests.map(guest => enrolledGuestSchema.parse(guest));
+};
+
+export const getGuestEnrolments = async (guestId: string, eventId?: string | null): Promise<Workshop[]> => {
+  const workshops = await request<unknown[]>(`/guests/${guestId}/enrolments`, { query: { eventId } });
+  return workshops.map(mapWorkshop);
+};
+
+export const markNoShow = (guestId: string, workshopId: string): Promise<{ promoted: string[] }> =>
+  request(`/workshops/${workshopId}/enrolments/${guestId}/no-show`, { method: 'POST' });
+
+export const getWorkshopWaitlist = async (workshopId: string): Promise<WaitlistedGuest[]> => {
+  const guests = await request<unknown[]>(`/workshops/${workshopId}/waitlist`);
+  return guests.map(guest => waitlistedGuestSchema.parse(guest));
+};
+
+// Rejects with WAITLIST_CHANGED when someone else changed the waitlist first
+export const reorderWaitlist = async (workshopId: string, guestIds: string[]): Promise<WaitlistedGuest[]> => {
+  const guests = await request<unknown[]>(`/workshops/${workshopId}/waitlist`, { method: 'PUT', body: { guestIds } });
+  return guests.map(guest => waitlistedGuestSchema.parse(guest));
+};
+
+export const getGuestWaitlist = async (guestId: string, eventId?: string | null): Promise<WaitlistedWorkshop[]> => {
+  const workshops = await request<unknown[]>(`/guests/${guestId}/waitlist`, { query: { eventId } });
+  return workshops.map(workshop => waitlistedWorkshopSchema.parse(workshop));
+};
+
+// User management API calls (admin only)
+export const fetchUsers = (): Promise<ManagedUser[]> =>
+  request('/users');
+
+export const createUser = (username: string, password: string, role: UserRole): Promise<ManagedUser> =>
+  request('/users', { method: 'POST', body: { username, password, role } });
+
+// Change a user's role and/or enable or disable the account
+export const updateUser = (
+  id: number,
+  changes: { role?: UserRole; permissions?: UserPermission[]; disabled?: boolean }
+): Promise<ManagedUser> =>
+  request(`/users/${id}`, { method: 'PUT', body: changes });
+
+export const resetUserPassword = (id: number, password: string): Promise<void> =>
+  request(`/users/${id}/password`, { method: 'POST', body: { password } });
+
+export const deleteUser = (id: number): Promise<void> =>
+  request(`/users/${id}`, { method: 'DELETE' });
+
+// Devices a user is signed in on
+export const fetchUserSessions = (userId: number): Promise<UserSession[]> =>
+  request(`/users/${userId}/sessions`);
+
+// Sign a user out on one device
+export const revokeUserSession = (userId: number, sessionId: string): Promise<void> =>
+  request(`/users/${userId}/sessions/${sessionId}`, { method: 'DELETE' });
+
+// Sign a user out on every device
+export const revokeAllUserSessions = (userId: number): Promise<void> =>
+  request(`/users/${userId}/sessions`, { method: 'DELETE' });
+
+// Turn off a user's two-factor authentication, e.g. after they lost their phone
+export const resetUserTwoFactor = (userId: number): Promise<ManagedUser> =>
+  request(`/users/${userId}/2fa`, { method: 'DELETE' });
+
+// Two-factor authentication of the signed-in user
+export const fetchTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  const user = await fetchUserProfile();
+  return user.twoFactor as TwoFactorStatus;
+};
+
+export const startTwoFactorSetup = (): Promise<TwoFactorSetup> =>
+  request('/profile/2fa/setup', { method: 'POST' });
+
+// Confirm the app being set up; resolves with the new recovery codes
+export const enableTwoFactor = async (code: string): Promise<string[]> => {
+  const { recoveryCodes } = await request<{ recoveryCodes: string[] }>('/profile/2fa/enable', { method: 'POST', body: { code } });
+  return recoveryCodes;
+};
+
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  const { recoveryCodes } = await request<{ recoveryCodes: string[] }>('/profile/2fa/recovery-codes', { method: 'POST', body: { code } });
+  return recoveryCodes;
+};
+
+export const disableTwoFactor = (factor: { code?: string; recoveryCode?: string }): Promise<void> =>
+  request('/profile/2fa/disable', { method: 'POST', body: factor });
+
+// Rules new passwords have to follow; open to signed-out visitors for the registration form
+export const fetchPasswordPolicy = (): Promise<PasswordPolicy> =>
+  request('/password-policy', { auth: false });
+
+// Change the signed-in user's password; other devices are signed out
+export const changePassword = (currentPassword: string, newPassword: string): Promise<void> =>
+  request('/profile/password', { method: 'POST', body: { currentPassword, newPassword } });
+
+// A scanner's assignments to the current admin's events and workshops
+export const fetchScannerAssignments = (userId: number): Promise<ScannerAssignments> =>
+  request(`/users/${userId}/assignments`);
+
+export const updateScannerAssignments = (userId: number, assignments: ScannerAssignments): Promise<ScannerAssignments> =>
+  request(`/users/${userId}/assignments`, { method: 'PUT', body: assignments });
+
+// Effective server configuration, without secrets
+export const fetchServerSettings = (): Promise<ServerSetting[]> =>
+  request('/settings');
+
+export const fetchApiKeys = (): Promise<ApiKey[]> =>
+  request('/api-keys');
+
+// The returned key carries the secret `key`, which can't be fetched again
+export const createApiKey = (apiKey: ApiKeyInput): Promise<ApiKey> =>
+  request('/api-keys', { method: 'POST', body: apiKey });
+
+export const revokeApiKey = (id: string): Promise<void> =>
+  request(`/api-keys/${id}`, { method: 'DELETE' });
+
+export const fetchInvites = async (): Promise<UserInvite[]> => {
+  const invites = await request<unknown[]>('/invites');
+  return invites.map(mapInvite);
+};
+
+export const createInvite = async (role: UserRole): Promise<UserInvite> =>
+  mapInvite(await request('/invites', { method: 'POST', body: { role } }));
+
+export const deleteInvite = (id: string): Promise<void> =>
+  request(`/invites/${id}`, { method: 'DELETE' });
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { TwoFactorSetup } from '../types';
+
+interface AuthenticatorSetupProps {
+  setup: TwoFactorSetup;
+}
+
+// QR code and secret to enrol in an authenticator app
+const AuthenticatorSetup = ({ setup }: AuthenticatorSetupProps) => {
+  const [qrDataUrl, setQrDataUrl] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(setup.otpauthUrl, { width: 200, margin: 1 })
+      .then(dataUrl => {
+        if (!cancelled) setQrDataUrl(dataUrl);
+      })
+      .catch(err => console.error('Could not render authenticator QR code:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [setup.otpauthUrl]);
+
+  return (
+    <div className="flex flex-col items-center text-center">
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+        Scan this code with an authenticator app such as Google Authenticator, Authy or 1Password.
+      </p>
+      {qrDataUrl && <img src={qrDataUrl} alt="Authenticator QR code" className="w-48 h-48 bg-white p-2 rounded" />}
+      <p className="mt-3 text-xs text-neutral-500 dark:text-neutral-400">Can't scan it? Enter this key instead:</p>
+      <code className="mt-1 text-sm font-mono break-all text-neutral-800 dark:text-neutral-200">
+        {setup.secret.match(/.{1,4}/g)?.join(' ')}
+      </code>
+    </div>
+  );
+};
+
+export default AuthenticatorSetup;
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import { WifiOff, RefreshCw } from 'lucide-react';
+import { checkBackendHealth } from '../api';
+import { describeApiUrl } from '../config';
+
+interface BackendGateProps {
+  children: ReactNode;
+}
+
+type BackendStatus = 'checking' | 'reachable' | 'unreachable';
+
+/**
+ * Checks once at startup that the backend answers, and shows a connection
+ * error screen with a retry button instead of the app when it doesn't.
+ * Later outages are left to the pages, so scanning can keep queueing offline.
+ */
+const BackendGate = ({ children }: BackendGateProps) => {
+  const [status, setStatus] = useState<BackendStatus>('checking');
+
+  const check = useCallback(async () => {
+    setStatus('checking');
+    setStatus(await checkBackendHealth() ? 'reachable' : 'unreachable');
+  }, []);
+
+  useEffect(() => {
+    check();
+  }, [check]);
+
+  if (status === 'reachable') {
+    return <>{children}</>;
+  }
+
+  if (status === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <div className="max-w-md w-full space-y-6 bg-white dark:bg-gray-800 p-8 rounded-xl shadow-lg text-center">
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100 dark:bg-red-900/30">
+          <WifiOff className="h-6 w-6 text-red-600 dark:text-red-400" />
+        </div>
+        <div>
+          <h1 className="text-xl font-medium text-gray-900 dark:text-gray-100">Can't reach the server</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            EventQRollcall could not connect to its server at
+          </p>
+          <p className="mt-1 text-sm font-mono break-all text-gray-900 dark:text-gray-100">{describeApiUrl()}</p>
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            Check your internet connection and try again. If this keeps happening, the server may be down
+            or the app may be pointed at the wrong address; an administrator can set it with
+            <span className="font-mono"> apiUrl</span> in config.json.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={check}
+          className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Try again
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BackendGate;
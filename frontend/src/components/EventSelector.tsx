@@ -0,0 +1,61 @@
+import { useContext } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarDays } from 'lucide-react';
+import { EventContext } from '../context/EventContext';
+import { AuthContext } from '../context/AuthContext';
+
+interface EventSelectorProps {
+  className?: string;
+}
+
+/**
+ * Dropdown for switching the event that every page is filtered by
+ */
+const EventSelector = ({ className = '' }: EventSelectorProps) => {
+  const { events, selectedEventId, selectedEvent, selectEvent } = useContext(EventContext);
+  const { hasRole } = useContext(AuthContext);
+
+  if (events.length === 0) {
+    return (
+      <div className={`px-4 py-3 rounded-lg bg-neutral-50 dark:bg-neutral-750 text-sm text-neutral-500 dark:text-neutral-400 ${className}`}>
+        No events yet.{' '}
+        {hasRole('admin') && (
+          <Link to="/events" className="text-primary-600 dark:text-primary-400 hover:underline">
+            Create one
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <label htmlFor="event-selector" className="flex items-center text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider mb-1.5 px-1">
+        <CalendarDays size={14} className="mr-1.5" />
+        Event
+      </label>
+      <div className="flex items-center">
+        {selectedEvent?.primaryColor && (
+          <span
+            className="h-3 w-3 rounded-full mr-2 flex-shrink-0"
+            style={{ backgroundColor: selectedEvent.primaryColor }}
+          />
+        )}
+        <select
+          id="event-selector"
+          value={selectedEventId || ''}
+          onChange={(e) => selectEvent(e.target.value)}
+          className="input-field w-full text-sm"
+        >
+          {events.map(event => (
+            <option key={event.id} value={event.id}>
+              {event.name}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default EventSelector;
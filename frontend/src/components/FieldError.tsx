@@ -0,0 +1,12 @@
+interface FieldErrorProps {
+  message?: string;
+}
+
+// Problem with a form field, from the shared schemas or the server, shown under the field
+const FieldError = ({ message }: FieldErrorProps) => {
+  if (!message) return null;
+
+  return <p className="mt-1 text-xs text-error-600 dark:text-error-400">{message}</p>;
+};
+
+export default FieldError;
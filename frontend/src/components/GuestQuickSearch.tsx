@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from 'react';
+import { Search, Star } from 'lucide-react';
+import { searchGuests } from '../api';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { Guest } from '../types';
+
+interface GuestQuickSearchProps {
+  // Only find guests on this event's roster
+  eventId?: string | null;
+  // Makes every result a button, e.g. to check the guest in by hand
+  onSelect?: (guest: Guest) => void;
+  selectedGuestId?: string | null;
+}
+
+/**
+ * Search box for door staff to look a guest up by part of their name, email
+ * or organization when their QR code won't scan. Accents and Arabic vowel
+ * marks are ignored by the server, and the best matches come first.
+ */
+const GuestQuickSearch = ({ eventId, onSelect, selectedGuestId }: GuestQuickSearchProps) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const search = useDebouncedValue(searchTerm.trim());
+  const [results, setResults] = useState<Guest[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const request = ++latestRequest.current;
+    if (!search) {
+      setResults([]);
+      setError(null);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    searchGuests(search, eventId)
+      .then(guests => {
+        if (request !== latestRequest.current) return;
+        setResults(guests);
+        setError(null);
+      })
+      .catch(err => {
+        if (request !== latestRequest.current) return;
+        console.error('Error searching guests:', err);
+        setError('Failed to search guests. Please try again.');
+      })
+      .finally(() => {
+        if (request === latestRequest.current) {
+          setSearching(false);
+        }
+      });
+  }, [search, eventId]);
+
+  return (
+    <div>
+      <label htmlFor="guest-search" className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+        Find a Guest
+      </label>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={20} />
+        <input
+          id="guest-search"
+          type="search"
+          placeholder="Name, email or organization..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="input-field pl-10 w-full"
+          autoComplete="off"
+        />
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm text-error-600 dark:text-error-400">{error}</p>
+      )}
+
+      {search && !error && !searching && results.length === 0 && (
+        <p className="mt-3 text-sm text-neutral-500 dark:text-neutral-400">No guests match your search.</p>
+      )}
+
+      {results.length > 0 && (
+        <ul className={`mt-3 divide-y divide-neutral-200 dark:divide-neutral-700 ${searching ? 'opacity-60' : ''}`}>
+          {results.map(guest => {
+            const details = (
+              <>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-neutral-900 dark:text-neutral-100">{guest.name}</span>
+                  {guest.isVip && (
+                    <Star size={14} className="text-warning-500" aria-label="VIP" />
+                  )}
+                  {guest.qrRevokedAt && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-error-100 dark:bg-error-900/30 text-error-800 dark:text-error-300">
+                      QR revoked
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                  {[guest.email, guest.organization].filter(Boolean).join(' · ')}
+                </p>
+              </>
+            );
+
+            return (
+              <li key={guest.id}>
+                {onSelect ? (
+                  <button
+                    type="button"
+                    onClick={() => onSelect(guest)}
+                    className={`w-full text-left px-2 py-2 rounded-lg ${
+                      guest.id === selectedGuestId
+                        ? 'bg-primary-50 dark:bg-primary-900/20'
+                        : 'hover:bg-neutral-50 dark:hover:bg-neutral-700/50'
+                    }`}
+                  >
+                    {details}
+                  </button>
+                ) : (
+                  <div className="py-2">{details}</div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GuestQuickSearch;
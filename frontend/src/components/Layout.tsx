@@ -1,15 +1,16 @@
 import { useState, useEffect, useContext } from 'react';
 import { Outlet, NavLink, useLocation } from 'react-router-dom';
-import { Award, BookOpen, ChartBar, House, LogOut, Menu, QrCode, Users, X, ClipboardCheck } from 'lucide-react';
-import { ThemeContext } from '../context/ThemeContext';
+import { Award, BookOpen, CalendarDays, ChartBar, House, LogOut, Menu, QrCode, Users, X, ClipboardCheck, UserCog, ShieldCheck, Settings } from 'lucide-react';
 import { AuthContext } from '../context/AuthContext';
+import { EventContext } from '../context/EventContext';
 import ThemeToggle from './ThemeToggle';
+import EventSelector from './EventSelector';
 
 const Layout = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const location = useLocation();
-  const { } = useContext(ThemeContext);
   const { user, logout, hasRole } = useContext(AuthContext);
+  const { isLoading: eventsLoading } = useContext(EventContext);
 
   // Close sidebar on location change (mobile)
   useEffect(() => {
@@ -19,11 +20,14 @@ const Layout = () => {
   const navItems = [
     { path: '/', label: 'Dashboard', icon: <House size={20} />, roles: ['admin', 'scanner'] },
     { path: '/scan', label: 'Scan QR', icon: <QrCode size={20} />, roles: ['admin', 'scanner'] },
+    { path: '/events', label: 'Events', icon: <CalendarDays size={20} />, roles: ['admin'] },
     { path: '/workshops', label: 'Workshops', icon: <BookOpen size={20} />, roles: ['admin'] },
     { path: '/guests', label: 'Guests', icon: <Users size={20} />, roles: ['admin'] },
     { path: '/attendance', label: 'Attendance', icon: <ClipboardCheck size={20} />, roles: ['admin', 'scanner'] },
     { path: '/attestations', label: 'Attestations', icon: <Award size={20} />, roles: ['admin'] },
     { path: '/analytics', label: 'Analytics', icon: <ChartBar size={20} />, roles: ['admin'] },
+    { path: '/users', label: 'Users', icon: <UserCog size={20} />, roles: ['admin'] },
+    { path: '/settings', label: 'Settings', icon: <Settings size={20} />, roles: ['admin'] },
   ];
 
   // Filter nav items based on user role
@@ -72,6 +76,8 @@ const Layout = () => {
               </div>
             </div>
 
+            <EventSelector className="mb-6" />
+
             <nav className="flex-1 overflow-y-auto">
               <ul className="space-y-1.5">
                 {filteredNavItems.map((item) => (
@@ -115,9 +121,18 @@ const Layout = () => {
                         </span>
                       </div>
                     </div>
+                    <NavLink
+                      to="/profile"
+                      className="ml-auto p-1.5 text-neutral-400 hover:text-neutral-500 dark:hover:text-neutral-300 
+                                hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-full"
+                      title="Profile and security"
+                      aria-label="Profile and security"
+                    >
+                      <ShieldCheck size={18} />
+                    </NavLink>
                     <button
                       onClick={logout}
-                      className="ml-auto p-1.5 text-neutral-400 hover:text-neutral-500 dark:hover:text-neutral-300 
+                      className="ml-1 p-1.5 text-neutral-400 hover:text-neutral-500 dark:hover:text-neutral-300 
                                 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-full"
                       title="Log out"
                       aria-label="Log out"
@@ -145,7 +160,14 @@ const Layout = () => {
         {/* Main content */}
         <main className="flex-1 p-4 md:p-6 overflow-y-auto">
           <div className="max-w-6xl mx-auto animate-fade-in">
-            <Outlet />
+            {/* Pages filter by the selected event, so wait until events are loaded */}
+            {eventsLoading ? (
+              <div className="flex justify-center items-center h-64">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+              </div>
+            ) : (
+              <Outlet />
+            )}
           </div>
         </main>
       </div>
@@ -0,0 +1,198 @@
+import { useContext, useState } from 'react';
+import { Check, CircleX, ShieldAlert, Star, UserCheck } from 'lucide-react';
+import { manualScan } from '../utils/dataUtils';
+import { AuthContext } from '../context/AuthContext';
+import { ScanQueueContext } from '../context/ScanQueueContext';
+import { isApiError } from '../api';
+import GuestQuickSearch from './GuestQuickSearch';
+import { ApiErrorCode, CheckInStatus, Guest, ScanMode, ScanResult } from '../types';
+
+interface ManualCheckInProps {
+  workshopId: string;
+  mode?: ScanMode;
+  // Only find guests on this event's roster
+  eventId?: string | null;
+  onSuccess?: (guestName: string, checkinStatus?: CheckInStatus | null) => void;
+  // `code` is the server's error code, when the failure came with one
+  onError?: (message: string, code?: ApiErrorCode) => void;
+}
+
+/**
+ * Fallback for guests whose QR code can't be read: staff look the guest up by
+ * name or email, confirm it is really them, and check them in or out with the
+ * same rules as a scan. The server flags the check-in with the signed-in user.
+ */
+const ManualCheckIn = ({ workshopId, mode = 'check-in', eventId, onSuccess, onError }: ManualCheckInProps) => {
+  const [guest, setGuest] = useState<Guest | null>(null);
+  const [identityConfirmed, setIdentityConfirmed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  // Guest refused entry to a VIP workshop whom an admin may still let in
+  const [pendingOverride, setPendingOverride] = useState<Guest | null>(null);
+  // Remounts the search box to clear it once a guest has been checked in
+  const [searchKey, setSearchKey] = useState(0);
+  const { hasRole } = useContext(AuthContext);
+  const { isOnline, recordOnlineScan } = useContext(ScanQueueContext);
+
+  const selectGuest = (selected: Guest) => {
+    setGuest(selected);
+    setIdentityConfirmed(false);
+    setPendingOverride(null);
+    setResult(null);
+  };
+
+  const showResult = (scanResult: ScanResult, scannedGuest: Guest) => {
+    const guestName = scanResult.guest?.name || scannedGuest.name;
+
+    if (scanResult.outcome === 'denied') {
+      let errorMessage = scanResult.message;
+      if (scanResult.code === 'OUTSIDE_CHECKIN_WINDOW' && scanResult.opensAt && scanResult.closesAt) {
+        const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        errorMessage = `Outside the check-in window (${formatTime(scanResult.opensAt)} – ${formatTime(scanResult.closesAt)})`;
+      }
+      setPendingOverride(scanResult.canOverride ? scannedGuest : null);
+      setResult({ success: false, message: errorMessage });
+      if (onError) onError(errorMessage, scanResult.code);
+      return;
+    }
+
+    let message = `${guestName} checked in by hand`;
+    if (scanResult.outcome === 'already-checked-in') {
+      message = `${guestName} already checked in to this workshop`;
+    } else if (scanResult.outcome === 'checked-out') {
+      message = `${guestName} checked out`;
+    } else if (scanResult.attendance?.vipOverrideBy) {
+      message = `${guestName} let in by admin override`;
+    } else if (scanResult.attendance?.checkinStatus === 'late') {
+      message = `${guestName} checked in late by hand`;
+    }
+
+    setResult({ success: true, message });
+    setGuest(null);
+    setIdentityConfirmed(false);
+    setSearchKey(prev => prev + 1);
+    if (onSuccess) {
+      onSuccess(guestName, scanResult.outcome === 'checked-in' ? scanResult.attendance?.checkinStatus : undefined);
+    }
+  };
+
+  const submit = async (selected: Guest, vipOverride?: { reason?: string }) => {
+    setSubmitting(true);
+    setPendingOverride(null);
+    try {
+      const scanResult = await manualScan(selected.id, workshopId, vipOverride ? 'check-in' : mode, vipOverride);
+      showResult(scanResult, selected);
+      recordOnlineScan(workshopId, scanResult);
+    } catch (error) {
+      console.error('Error checking guest in by hand:', error);
+      const message = error instanceof Error ? error.message : 'Failed to check the guest in';
+      setResult({ success: false, message });
+      if (onError) onError(message, isApiError(error) ? error.code : undefined);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Let a refused guest into a VIP workshop; the server records which admin did it
+  const handleVipOverride = () => {
+    if (!pendingOverride) return;
+
+    const reason = window.prompt(`Why are you letting ${pendingOverride.name} in? (optional)`);
+    if (reason === null) return;
+
+    submit(pendingOverride, { reason: reason.trim() || undefined });
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <GuestQuickSearch key={searchKey} eventId={eventId} onSelect={selectGuest} selectedGuestId={guest?.id} />
+
+      {guest && (
+        <div className="mt-4 p-4 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-900">
+          <div className="flex items-center gap-2">
+            <span className="text-lg font-medium text-neutral-900 dark:text-neutral-100">{guest.name}</span>
+            {guest.isVip && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-warning-100 dark:bg-warning-900/30 text-warning-800 dark:text-warning-300">
+                <Star size={12} className="mr-1" />
+                VIP
+              </span>
+            )}
+          </div>
+          {guest.email && <p className="text-sm text-neutral-600 dark:text-neutral-400">{guest.email}</p>}
+          {guest.organization && <p className="text-sm text-neutral-600 dark:text-neutral-400">{guest.organization}</p>}
+          {guest.qrRevokedAt && (
+            <p className="mt-2 text-sm text-error-700 dark:text-error-400">
+              This guest's QR code was revoked. Take extra care that this is really them.
+            </p>
+          )}
+
+          <label className="mt-4 flex items-start text-sm text-neutral-700 dark:text-neutral-300">
+            <input
+              type="checkbox"
+              checked={identityConfirmed}
+              onChange={(e) => setIdentityConfirmed(e.target.checked)}
+              className="mt-0.5 mr-2 h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300 rounded"
+            />
+            I have confirmed this is the guest, e.g. with a photo ID or their email address
+          </label>
+
+          {!isOnline && (
+            <p className="mt-3 text-sm text-warning-700 dark:text-warning-400">
+              Manual check-ins need a connection to the server.
+            </p>
+          )}
+
+          <div className="mt-4 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setGuest(null)}
+              className="px-4 py-2 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => submit(guest)}
+              disabled={!identityConfirmed || submitting || !isOnline}
+              className="flex items-center px-4 py-2 text-sm rounded-lg bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <UserCheck size={16} className="mr-1.5" />
+              {mode === 'check-out' ? 'Check out' : 'Check in'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className={`mt-4 p-4 rounded-lg shadow-sm ${
+          result.success
+            ? 'bg-success-50 dark:bg-success-900/20 border-2 border-success-500/20'
+            : 'bg-error-50 dark:bg-error-900/20 border-2 border-error-500/20'
+        }`}>
+          <div className="flex items-center">
+            {result.success ? (
+              <Check size={20} className="text-success-500 mr-2 flex-shrink-0" />
+            ) : (
+              <CircleX size={20} className="text-error-500 mr-2 flex-shrink-0" />
+            )}
+            <p className={result.success ? 'text-success-700 dark:text-success-400' : 'text-error-700 dark:text-error-400'}>
+              {result.message}
+            </p>
+          </div>
+          {pendingOverride && hasRole(['admin']) && (
+            <button
+              onClick={handleVipOverride}
+              disabled={submitting}
+              className="mt-3 inline-flex items-center px-3 py-1.5 text-sm bg-warning-600 text-white rounded-lg hover:bg-warning-700 focus:outline-none focus:ring-2 focus:ring-warning-500 focus:ring-offset-2 transition-colors"
+            >
+              <ShieldAlert size={16} className="mr-1" />
+              Let in anyway
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManualCheckIn;
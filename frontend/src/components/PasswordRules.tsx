@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { PasswordPolicy } from '../types';
+import { fetchPasswordPolicy } from '../api';
+
+// What the server's password policy asks of a new password, shown under the field
+const PasswordRules = () => {
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPasswordPolicy()
+      .then(result => {
+        if (!cancelled) setPolicy(result);
+      })
+      .catch(err => console.error('Could not load password rules:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!policy) return null;
+
+  const rules = [
+    `At least ${policy.minLength} characters`,
+    policy.requireMixedCase && 'Upper and lower case letters',
+    policy.requireNumber && 'A number',
+    policy.requireSymbol && 'A symbol',
+    'Not a common password or your username'
+  ].filter(Boolean);
+
+  return (
+    <ul className="mt-2 list-disc list-inside text-xs text-gray-500 dark:text-gray-400">
+      {rules.map(rule => (
+        <li key={rule as string}>{rule}</li>
+      ))}
+    </ul>
+  );
+};
+
+export default PasswordRules;
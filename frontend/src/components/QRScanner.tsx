@@ -1,7 +1,11 @@
-import { useEffect, useState, useRef } from 'react';
+import { useContext, useEffect, useState, useRef } from 'react';
 import { Html5Qrcode, Html5QrcodeScannerState } from 'html5-qrcode';
-import { getAttendance, getGuestByQRCode, getWorkshopById, recordAttendance } from '../utils/dataUtils';
-import { Camera, Check, CircleX } from 'lucide-react';
+import { formatDwellTime, scanQRCode } from '../utils/dataUtils';
+import { AuthContext } from '../context/AuthContext';
+import { ScanQueueContext } from '../context/ScanQueueContext';
+import { NetworkError, isApiError } from '../api';
+import { ApiErrorCode, CheckInStatus, ScanMode, ScanResult } from '../types';
+import { Camera, Check, CircleX, ShieldAlert } from 'lucide-react';
 import successSound from '../media/success.wav';
 import errorSound from '../media/error.wav';
 // Linux-compatible short beep sounds in WAV format
@@ -11,15 +15,21 @@ const ERROR_AUDIO = errorSound;
 
 interface QRScannerProps {
   workshopId: string;
-  onSuccess?: (guestName: string) => void;
-  onError?: (message: string) => void;
+  mode?: ScanMode;
+  onSuccess?: (guestName: string, checkinStatus?: CheckInStatus | null) => void;
+  // `code` is the server's error code, when the failure came with one
+  onError?: (message: string, code?: ApiErrorCode) => void;
   soundEnabled?: boolean;
 }
 
-const QRScanner = ({ workshopId, onSuccess, onError, soundEnabled = true }: QRScannerProps) => {
+const QRScanner = ({ workshopId, mode = 'check-in', onSuccess, onError, soundEnabled = true }: QRScannerProps) => {
   const [scanning, setScanning] = useState(false);
   const [scanResult, setScanResult] = useState<{ success: boolean; message: string } | null>(null);
   const [cameraError, setCameraError] = useState<string | null>(null);
+  // Guest refused entry to a VIP workshop whom an admin may still let in
+  const [pendingOverride, setPendingOverride] = useState<{ qrCode: string; guestName: string } | null>(null);
+  const { hasRole } = useContext(AuthContext);
+  const { cacheRoster, scanOffline, recordOnlineScan } = useContext(ScanQueueContext);
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const successAudioRef = useRef<HTMLAudioElement | null>(null);
   const errorAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -122,14 +132,20 @@ const QRScanner = ({ workshopId, onSuccess, onError, soundEnabled = true }: QRSc
     };
   }, []);
 
-  // Ensure scanner is properly stopped if workshopId changes
+  // Ensure scanner is properly stopped if workshopId or mode changes
   useEffect(() => {
     if (scanning) {
       stopScanner();
     }
-    // Reset scan result when workshop changes
+    // Reset scan result when workshop or mode changes
     setScanResult(null);
-  }, [workshopId]);
+    setPendingOverride(null);
+  }, [workshopId, mode]);
+
+  // Keep a copy of the workshop's roster so scanning carries on if the connection drops
+  useEffect(() => {
+    cacheRoster(workshopId);
+  }, [workshopId, cacheRoster]);
 
   const startScanner = async () => {
     if (!isMounted.current) return;
@@ -222,102 +238,109 @@ const QRScanner = ({ workshopId, onSuccess, onError, soundEnabled = true }: QRSc
     }
   };
 
+  // Turn a scan outcome into the result banner and callbacks
+  // Offline results are only provisional until the queue is synced
+  const showScanResult = (result: ScanResult, qrCode: string, offline = false) => {
+    const guestName = result.guest?.name || 'Guest';
+    
+    if (result.outcome === 'denied') {
+      let errorMessage = result.message;
+      if (result.code === 'OUTSIDE_CHECKIN_WINDOW' && result.opensAt && result.closesAt) {
+        const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        errorMessage = `Outside the check-in window (${formatTime(result.opensAt)} – ${formatTime(result.closesAt)})`;
+      } else if (result.code === 'VIP_REQUIRED') {
+        errorMessage = 'This guest does not have VIP status for this workshop';
+      } else if (result.code === 'VIP_NOT_INVITED') {
+        errorMessage = 'This VIP guest is not on the invite list for this workshop';
+      }
+      
+      if (result.canOverride && result.guest) {
+        setPendingOverride({ qrCode, guestName });
+      }
+      
+      playSound(false);
+      setScanResult({ success: false, message: errorMessage });
+      if (onError) onError(errorMessage, result.code);
+      return;
+    }
+    
+    let message = `${guestName} checked in successfully`;
+    if (result.outcome === 'already-checked-in') {
+      message = `${guestName} already checked in to this workshop`;
+    } else if (result.outcome === 'checked-out') {
+      message = `${guestName} checked out after ${formatDwellTime(result.attendance?.dwellMinutes)}`;
+    } else if (result.attendance?.vipOverrideBy) {
+      message = `${guestName} let in by admin override`;
+    } else if (result.attendance?.checkinStatus === 'late') {
+      message = `${guestName} checked in late`;
+    }
+    
+    if (offline && result.outcome !== 'already-checked-in') {
+      message = `${message} (saved offline, will sync)`;
+    }
+    
+    playSound(true);
+    setScanResult({ success: true, message });
+    if (onSuccess) {
+      onSuccess(guestName, result.outcome === 'checked-in' ? result.attendance?.checkinStatus : undefined);
+    }
+  };
+
   const onScanSuccess = async (decodedText: string) => {
     if (!isMounted.current) return;
     
     // Don't stop scanner immediately, just process the result
     // This allows for continuous scanning of multiple guests
-    
-    // Check if QR code format is valid
-    if (!decodedText.startsWith('guest-')) {
-      playSound(false);
-      setScanResult({ success: false, message: 'Invalid QR code format' });
-      if (onError) onError('Invalid QR code format');
-      return;
-    }
+    setPendingOverride(null);
     
     try {
-      // Find guest by QR code
-      const guest = await getGuestByQRCode(decodedText);
-      
-      if (!guest) {
-        playSound(false);
-        setScanResult({ success: false, message: 'Guest not found' });
-        if (onError) onError('Guest not found');
-        return;
-      }
-      
-      // Check if workshop exists
-      const workshop = await getWorkshopById(workshopId);
-      
-      if (!workshop) {
-        playSound(false);
-        setScanResult({ success: false, message: 'Workshop not found' });
-        if (onError) onError('Workshop not found');
-        return;
-      }
-
-      // Get attendance records
-      const attendance = await getAttendance();
-
-      // Check if guest has VIP access for VIP workshops
-      if (workshop.isVip && !guest.isVip) {
-        playSound(false);
-        setScanResult({ success: false, message: 'This is a VIP workshop. Guest does not have VIP access.' });
-        if (onError) onError('This is a VIP workshop. Guest does not have VIP access.');
-        return;
-      }
-      
-      // Check workshop capacity if set
-      if (workshop.maxCapacity) {
-        const workshopAttendance = attendance.filter(record => record.workshop_id === workshopId);
-        if (workshopAttendance.length >= workshop.maxCapacity) {
-          playSound(false);
-          setScanResult({ success: false, message: 'Workshop has reached maximum capacity' });
-          if (onError) onError('Workshop has reached maximum capacity');
-          return;
+      // The server looks the guest up and applies every check-in rule in one go.
+      // When it can't be reached the scan is checked against the cached roster and queued.
+      let result: ScanResult | null = null;
+      if (navigator.onLine) {
+        try {
+          result = await scanQRCode(decodedText, workshopId, mode);
+        } catch (error) {
+          if (!(error instanceof NetworkError)) throw error;
         }
       }
       
-      // Check if attendance is already recorded
-      const existingRecord = attendance.find(
-        record => record.guestId === guest.id && record.workshopId === workshopId
-      );
-      
-      if (existingRecord) {
-        playSound(true);
-        setScanResult({ 
-          success: true, 
-          message: `${guest.name} already checked in to this workshop` 
-        });
-        if (onSuccess) onSuccess(guest.name);
-        return;
+      if (result) {
+        showScanResult(result, decodedText);
+        recordOnlineScan(workshopId, result);
+      } else {
+        showScanResult(await scanOffline(decodedText, workshopId, mode), decodedText, true);
       }
-      
-      // Record attendance
-      await recordAttendance(guest.id, workshopId);
-      
-      playSound(true);
-      setScanResult({ 
-        success: true, 
-        message: `${guest.name} checked in successfully` 
-      });
-      
-      if (onSuccess) onSuccess(guest.name);
     } catch (error) {
       console.error('Error processing QR code:', error);
       playSound(false);
-      
-      // Handle specific error messages
-      let errorMessage = 'Error processing QR code';
-      if (error instanceof Error) {
-        if (error.message === "Non-VIP guest cannot attend VIP workshops") {
-          errorMessage = "This guest does not have VIP access for this workshop";
-        }
-      }
-      
+      const errorMessage = error instanceof Error ? error.message : 'Error processing QR code';
       setScanResult({ success: false, message: errorMessage });
-      if (onError) onError(errorMessage);
+      if (onError) onError(errorMessage, isApiError(error) ? error.code : undefined);
+    }
+  };
+
+  // Let a refused guest into a VIP workshop; the server records which admin did it
+  const handleVipOverride = async () => {
+    if (!pendingOverride) return;
+    
+    const reason = window.prompt(`Why are you letting ${pendingOverride.guestName} in? (optional)`);
+    if (reason === null) return;
+    
+    try {
+      const result = await scanQRCode(pendingOverride.qrCode, workshopId, 'check-in', { reason: reason.trim() || undefined });
+      showScanResult(result, pendingOverride.qrCode);
+      recordOnlineScan(workshopId, result);
+    } catch (error) {
+      console.error('Error overriding VIP access:', error);
+      playSound(false);
+      const message = error instanceof NetworkError
+        ? 'VIP overrides need a connection to the server'
+        : error instanceof Error ? error.message : 'Failed to override VIP access';
+      setScanResult({ success: false, message });
+      if (onError) onError(message, isApiError(error) ? error.code : undefined);
+    } finally {
+      setPendingOverride(null);
     }
   };
 
@@ -386,6 +409,15 @@ const QRScanner = ({ workshopId, onSuccess, onError, soundEnabled = true }: QRSc
               {scanResult.message}
             </p>
           </div>
+          {pendingOverride && hasRole(['admin']) && (
+            <button
+              onClick={handleVipOverride}
+              className="mt-3 inline-flex items-center px-3 py-1.5 text-sm bg-warning-600 text-white rounded-lg hover:bg-warning-700 focus:outline-none focus:ring-2 focus:ring-warning-500 focus:ring-offset-2 transition-colors"
+            >
+              <ShieldAlert size={16} className="mr-1" />
+              Let in anyway
+            </button>
+          )}
         </div>
       )}
       
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { Copy } from 'lucide-react';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+// Freshly issued recovery codes; the server never shows them again
+const RecoveryCodes = ({ codes }: RecoveryCodesProps) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyCodes = () => {
+    navigator.clipboard.writeText(codes.join('\n'))
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(err => console.error('Could not copy recovery codes:', err));
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 p-3 rounded-md bg-neutral-100 dark:bg-neutral-800 font-mono text-sm text-neutral-800 dark:text-neutral-200">
+        {codes.map(code => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={copyCodes}
+        className="mt-2 inline-flex items-center text-sm text-primary-600 dark:text-primary-400 hover:underline"
+      >
+        <Copy size={14} className="mr-1" />
+        {copied ? 'Copied' : 'Copy codes'}
+      </button>
+    </div>
+  );
+};
+
+export default RecoveryCodes;
@@ -0,0 +1,45 @@
+/**
+ * Runtime configuration
+ *
+ * The backend address is settled once at startup, before the app renders:
+ * `apiUrl` from /config.json next to the built app, so one build can be
+ * pointed at any server, then VITE_API_URL from the build environment, then
+ * the origin the app itself is served from.
+ */
+
+interface RuntimeConfig {
+  apiUrl?: string;
+}
+
+// Backend origin without a trailing slash; empty means the app's own origin
+let apiUrl = '';
+
+const normalizeUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+/**
+ * Read /config.json, if the deployment has one, and settle the backend address
+ */
+export const loadRuntimeConfig = async (): Promise<void> => {
+  let runtimeConfig: RuntimeConfig = {};
+  try {
+    const response = await fetch('/config.json', { cache: 'no-store' });
+    // Hosts that rewrite unknown paths to index.html answer with HTML instead of a 404
+    if (response.ok && response.headers.get('content-type')?.includes('json')) {
+      runtimeConfig = await response.json();
+    }
+  } catch (error) {
+    console.error('Could not read config.json:', error);
+  }
+
+  apiUrl = normalizeUrl(runtimeConfig.apiUrl || import.meta.env.VITE_API_URL || '');
+};
+
+/**
+ * Backend origin requests go to, e.g. `https://api.example.com`; empty for the app's own origin
+ */
+export const getApiUrl = (): string => apiUrl;
+
+/**
+ * Backend address to show people, with the app's own origin spelled out
+ */
+export const describeApiUrl = (): string => apiUrl || window.location.origin;
@@ -1,37 +1,85 @@
-import { createContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { loginUser, getAuthToken, setAuthToken, removeAuthToken, fetchUserProfile } from '../utils/api';
+import {
+  getAuthToken,
+  setAuthToken,
+  getRefreshToken,
+  setRefreshToken,
+  removeAuthToken,
+  getTokenExpiry,
+  refreshAccessToken
+} from '../api/client';
+import {
+  loginUser,
+  logoutUser,
+  fetchUserProfile,
+  verifyLoginTwoFactor,
+  changePassword as changeAccountPassword,
+  isApiError
+} from '../api';
+import { UserPermission, LoginRecord, LoginResponse, AccountProfile } from '../types';
 
 interface User {
   username: string;
   name: string;
   role: string;
-  id?: string;
-  loginHistory?: any[];
+  id?: number;
+  permissions?: UserPermission[];
+  // Set on the seeded admin and on passwords given out by an admin, until the user picks their own
+  mustChangePassword?: boolean;
+  loginHistory?: LoginRecord[];
 }
 
+// Outcome of the password step; accounts with two-factor authentication continue with completeTwoFactor
+export type LoginResult =
+  | { status: 'signed-in' }
+  | { status: 'failed' }
+  | { status: 'throttled'; retryAfter: number }
+  | { status: 'two-factor'; challengeToken: string; setupRequired: boolean };
+
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  completeTwoFactor: (challengeToken: string, factor: { code?: string; recoveryCode?: string }) => Promise<{ recoveryCodes?: string[] }>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
   logout: () => void;
   isLoading: boolean;
   hasRole: (roles: string | string[]) => boolean;
+  hasPermission: (permission: UserPermission) => boolean;
 }
 
 export const AuthContext = createContext<AuthContextType>({
   user: null,
   isAuthenticated: false,
-  login: async () => false,
+  login: async () => ({ status: 'failed' }),
+  completeTwoFactor: async () => ({}),
+  changePassword: async () => {},
   logout: () => {},
   isLoading: true,
   hasRole: () => false,
+  hasPermission: () => false,
 });
 
 interface AuthProviderProps {
   children: ReactNode;
 }
 
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Wait before trying again when the server could not be reached
+const REFRESH_RETRY_MS = 30 * 1000;
+
+const toUser = (profile: AccountProfile): User => ({
+  id: profile.id,
+  username: profile.username,
+  name: profile.username, // Using username as name if not provided
+  role: profile.role || 'scanner', // Use role from API or default to scanner
+  permissions: profile.permissions || [],
+  mustChangePassword: Boolean(profile.mustChangePassword),
+  loginHistory: profile.loginHistory || [],
+});
+
 export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -42,26 +90,16 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     const checkAuth = async () => {
       const token = getAuthToken();
       
-      if (token) {
+      // An expired access token is refreshed by the profile request
+      if (token || getRefreshToken()) {
         try {
-          // Fetch user profile with token
-          const data = await fetchUserProfile();
-          
-          if (data && data.user) {
-            // Extract user data from profile response
-            const userData: User = {
-              id: data.user.id,
-              username: data.user.username,
-              name: data.user.username, // Using username as name if not provided
-              role: data.user.role || 'scanner', // Use role from API or default to scanner
-              loginHistory: data.user.loginHistory || [],
-            };
-            
-            setUser(userData);
-          }
+          setUser(toUser(await fetchUserProfile()));
         } catch (error) {
           console.error('Authentication error:', error);
-          removeAuthToken();
+          // Only forget the session when the server turned it down, not when it was out of reach
+          if (isApiError(error)) {
+            removeAuthToken();
+          }
         }
       }
       
@@ -84,7 +122,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           if (userData) {
             try {
               setUser(JSON.parse(userData));
-            } catch (e) {
+            } catch {
               // Handle invalid JSON
             }
           }
@@ -96,49 +134,114 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     return () => window.removeEventListener('storage', handleStorageChange);
   }, []);
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  // Store the tokens of a new session and the signed-in user
+  const startSession = (data: LoginResponse) => {
+    // Store JWT and refresh tokens
+    setAuthToken(data.token!);
+    setRefreshToken(data.refreshToken!);
+    
+    // Store user info in state
+    setUser(toUser(data.user!));
+  };
+
+  const login = async (username: string, password: string): Promise<LoginResult> => {
     setIsLoading(true);
     
     try {
       // Call the backend API for authentication using the utility function
       const data = await loginUser(username, password);
       
+      if (data.twoFactorRequired && data.challengeToken) {
+        return { status: 'two-factor', challengeToken: data.challengeToken, setupRequired: Boolean(data.twoFactorSetupRequired) };
+      }
       if (!data.token) {
-        setIsLoading(false);
-        return false;
+        return { status: 'failed' };
       }
       
-      // Store JWT token
-      setAuthToken(data.token);
-      
-      // Create user object from the response
-      const user: User = {
-        id: data.user.id,
-        username: data.user.username,
-        name: data.user.username, // Using username as name if not provided
-        role: data.user.role || 'scanner', // Use role from API or default to scanner
-        loginHistory: data.user.loginHistory || [],
-      };
-      
-      // Store user info in state
-      setUser(user);
-      
-      setIsLoading(false);
-      return true;
+      startSession(data);
+      return { status: 'signed-in' };
     } catch (error) {
+      if (isApiError(error, 'TOO_MANY_ATTEMPTS')) {
+        const { retryAfter } = error.details;
+        return { status: 'throttled', retryAfter: typeof retryAfter === 'number' ? retryAfter : 0 };
+      }
       console.error('Login error:', error);
+      return { status: 'failed' };
+    } finally {
       setIsLoading(false);
-      return false;
     }
   };
 
-  const logout = () => {
+  // Second login step; rejects with the server's message when the code is wrong.
+  // Recovery codes are returned when an authenticator app was set up along the way
+  const completeTwoFactor = async (
+    challengeToken: string,
+    factor: { code?: string; recoveryCode?: string }
+  ): Promise<{ recoveryCodes?: string[] }> => {
+    const data = await verifyLoginTwoFactor(challengeToken, factor);
+    startSession(data);
+    return { recoveryCodes: data.recoveryCodes };
+  };
+
+  // Change the user's password; rejects with the server's message when it is refused.
+  // Afterwards a required change no longer holds them on the password screen
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    await changeAccountPassword(currentPassword, newPassword);
+    setUser(prev => (prev ? { ...prev, mustChangePassword: false } : prev));
+  };
+
+  // Clear the local session, e.g. once the server says it has ended
+  const endSession = useCallback(() => {
     removeAuthToken();
     setUser(null);
     // Use replace to prevent going back to protected page after logout
     navigate('/login', { replace: true });
+  }, [navigate]);
+
+  const logout = () => {
+    logoutUser().finally(endSession);
   };
 
+  // Refresh the access token shortly before it expires, so nobody gets logged out mid-shift
+  useEffect(() => {
+    if (!user) return;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const refresh = async () => {
+      try {
+        const token = await refreshAccessToken();
+        if (!token) {
+          endSession();
+          return;
+        }
+        schedule();
+      } catch (error) {
+        // Offline at the venue: keep the session and try again later
+        console.error('Token refresh failed:', error);
+        timer = setTimeout(refresh, REFRESH_RETRY_MS);
+      }
+    };
+
+    const schedule = () => {
+      clearTimeout(timer);
+      const expiresAt = getTokenExpiry(getAuthToken());
+      const delay = expiresAt ? Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 0) : 0;
+      timer = setTimeout(refresh, delay);
+    };
+
+    // Timers don't run while a phone sleeps, so check again when the app comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') schedule();
+    };
+
+    schedule();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [user, endSession]);
+
   // Function to check if user has a specific role
   const hasRole = (roles: string | string[]): boolean => {
     if (!user) return false;
@@ -153,15 +256,27 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     return roleArray.includes(user.role);
   };
 
+  const hasPermission = (permission: UserPermission): boolean => {
+    if (!user) return false;
+    
+    // Admins can take every action
+    if (user.role === 'admin') return true;
+    
+    return (user.permissions || []).includes(permission);
+  };
+
   return (
     <AuthContext.Provider
       value={{
         user,
         isAuthenticated: !!user,
         login,
+        completeTwoFactor,
+        changePassword,
         logout,
         isLoading,
         hasRole,
+        hasPermission,
       }}
     >
       {children}
@@ -0,0 +1,94 @@
+import { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { EventInfo } from '../types';
+import { fetchEvents } from '../api';
+import { AuthContext } from './AuthContext';
+
+interface EventContextType {
+  events: EventInfo[];
+  selectedEventId: string | null;
+  selectedEvent: EventInfo | null;
+  selectEvent: (eventId: string) => void;
+  refreshEvents: () => Promise<void>;
+  isLoading: boolean;
+}
+
+export const EventContext = createContext<EventContextType>({
+  events: [],
+  selectedEventId: null,
+  selectedEvent: null,
+  selectEvent: () => {},
+  refreshEvents: async () => {},
+  isLoading: true,
+});
+
+interface EventProviderProps {
+  children: ReactNode;
+}
+
+const SELECTED_EVENT_KEY = 'selected-event-id';
+
+export const EventProvider = ({ children }: EventProviderProps) => {
+  const { isAuthenticated } = useContext(AuthContext);
+  const [events, setEvents] = useState<EventInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Remember the selected event between visits
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(
+    () => localStorage.getItem(SELECTED_EVENT_KEY)
+  );
+
+  const refreshEvents = async () => {
+    try {
+      const eventsData = await fetchEvents();
+      setEvents(eventsData);
+
+      // Fall back to the first event when the stored one no longer exists
+      setSelectedEventId(prev => {
+        if (prev && eventsData.some(event => event.id === prev)) return prev;
+        return eventsData.length > 0 ? eventsData[0].id : null;
+      });
+    } catch (error) {
+      console.error('Error fetching events:', error);
+    }
+  };
+
+  // Load events once the user is signed in
+  useEffect(() => {
+    if (isAuthenticated) {
+      setIsLoading(true);
+      refreshEvents().finally(() => setIsLoading(false));
+    } else {
+      setEvents([]);
+      setIsLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  // Persist the selection
+  useEffect(() => {
+    if (selectedEventId) {
+      localStorage.setItem(SELECTED_EVENT_KEY, selectedEventId);
+    } else {
+      localStorage.removeItem(SELECTED_EVENT_KEY);
+    }
+  }, [selectedEventId]);
+
+  const selectEvent = (eventId: string) => {
+    setSelectedEventId(eventId);
+  };
+
+  const selectedEvent = events.find(event => event.id === selectedEventId) || null;
+
+  return (
+    <EventContext.Provider
+      value={{
+        events,
+        selectedEventId: selectedEvent ? selectedEvent.id : null,
+        selectedEvent,
+        selectEvent,
+        refreshEvents,
+        isLoading,
+      }}
+    >
+      {children}
+    </EventContext.Provider>
+  );
+};
@@ -0,0 +1,234 @@
+import { createContext, useState, useEffect, useContext, useCallback, useRef, ReactNode } from 'react';
+import { ScanConflict, ScanMode, ScanResult, ScanRoster, ScanSyncState } from '../types';
+import { getScanRoster, syncScans, NetworkError } from '../api';
+import {
+  saveRoster,
+  getRoster,
+  enqueueScan,
+  getQueuedScans,
+  countQueuedScans,
+  removeQueuedScans,
+  saveConflicts,
+  getConflicts,
+  clearConflicts as clearStoredConflicts
+} from '../utils/offlineStore';
+import { evaluateOfflineScan, applyScanToRoster } from '../utils/offlineScan';
+import { AuthContext } from './AuthContext';
+
+interface ScanQueueContextType {
+  isOnline: boolean;
+  queueDepth: number;
+  syncState: ScanSyncState;
+  lastSyncedAt: string | null;
+  conflicts: ScanConflict[];
+  // Fetch and cache a workshop's roster, falling back to the cached copy when offline
+  cacheRoster: (workshopId: string) => Promise<ScanRoster | null>;
+  // Check a scan against the cached roster and queue it when accepted
+  scanOffline: (qrCode: string, workshopId: string, mode: ScanMode) => Promise<ScanResult>;
+  // Keep the cached roster in step with a scan the server accepted
+  recordOnlineScan: (workshopId: string, result: ScanResult) => Promise<void>;
+  syncNow: () => Promise<void>;
+  clearConflicts: () => Promise<void>;
+}
+
+export const ScanQueueContext = createContext<ScanQueueContextType>({
+  isOnline: true,
+  queueDepth: 0,
+  syncState: 'idle',
+  lastSyncedAt: null,
+  conflicts: [],
+  cacheRoster: async () => null,
+  scanOffline: async () => { throw new Error('ScanQueueProvider is missing'); },
+  recordOnlineScan: async () => {},
+  syncNow: async () => {},
+  clearConflicts: async () => {},
+});
+
+interface ScanQueueProviderProps {
+  children: ReactNode;
+}
+
+// Scans sent per sync request
+const SYNC_BATCH_SIZE = 50;
+// How often a non-empty queue is retried while the browser reports being online
+const SYNC_INTERVAL_MS = 30000;
+
+// What a queued scan was recorded as offline; anything else from the server is a conflict
+const EXPECTED_OUTCOME: Record<ScanMode, string> = {
+  'check-in': 'checked-in',
+  'check-out': 'checked-out'
+};
+
+const describeConflict = (outcome: string, message: string): string => {
+  if (outcome === 'already-checked-in') {
+    return 'Duplicate: already checked in on another device';
+  }
+  return message;
+};
+
+// randomUUID is only available on HTTPS and localhost
+const createClientId = (): string =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 12)}`;
+
+export const ScanQueueProvider = ({ children }: ScanQueueProviderProps) => {
+  const { isAuthenticated } = useContext(AuthContext);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queueDepth, setQueueDepth] = useState(0);
+  const [syncState, setSyncState] = useState<ScanSyncState>(navigator.onLine ? 'idle' : 'offline');
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<ScanConflict[]>([]);
+  const syncing = useRef(false);
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueueDepth(await countQueuedScans());
+      setConflicts(await getConflicts());
+    } catch (error) {
+      console.error('Error reading the offline scan queue:', error);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (syncing.current || !isAuthenticated) return;
+    syncing.current = true;
+    setSyncState('syncing');
+
+    try {
+      let queued = await getQueuedScans();
+      while (queued.length > 0) {
+        const batch = queued.slice(0, SYNC_BATCH_SIZE);
+        const results = await syncScans(batch);
+
+        const newConflicts: ScanConflict[] = [];
+        results.forEach(result => {
+          const scan = batch.find(s => s.clientId === result.clientId);
+          if (scan && result.outcome !== EXPECTED_OUTCOME[scan.mode]) {
+            newConflicts.push({
+              clientId: scan.clientId,
+              guestName: scan.guestName,
+              workshopId: scan.workshopId,
+              mode: scan.mode,
+              timestamp: scan.timestamp,
+              message: describeConflict(result.outcome, result.message)
+            });
+          }
+        });
+
+        await saveConflicts(newConflicts);
+        await removeQueuedScans(batch.map(scan => scan.clientId));
+        queued = queued.slice(batch.length);
+        await refreshQueue();
+      }
+
+      setLastSyncedAt(new Date().toISOString());
+      setSyncState('idle');
+    } catch (error) {
+      console.error('Error syncing offline scans:', error);
+      setSyncState(error instanceof NetworkError ? 'offline' : 'error');
+    } finally {
+      syncing.current = false;
+    }
+  }, [isAuthenticated, refreshQueue]);
+
+  const cacheRoster = useCallback(async (workshopId: string) => {
+    try {
+      const roster = await getScanRoster(workshopId);
+      await saveRoster(roster);
+      return roster;
+    } catch (error) {
+      console.error('Error caching scan roster, using the cached copy:', error);
+      return getRoster(workshopId).catch(() => null);
+    }
+  }, []);
+
+  const scanOffline = useCallback(async (qrCode: string, workshopId: string, mode: ScanMode) => {
+    const roster = await getRoster(workshopId);
+    if (!roster) {
+      throw new Error('Offline and no roster cached for this workshop');
+    }
+
+    const clientId = createClientId();
+    const timestamp = new Date().toISOString();
+    const result = evaluateOfflineScan(roster, qrCode, mode, timestamp, clientId);
+
+    if (result.outcome === 'checked-in' || result.outcome === 'checked-out') {
+      await enqueueScan({ clientId, qrCode, workshopId, mode, timestamp, guestName: result.guest?.name || 'Guest' });
+      await saveRoster(applyScanToRoster(roster, result));
+      await refreshQueue();
+    }
+
+    return result;
+  }, [refreshQueue]);
+
+  const recordOnlineScan = useCallback(async (workshopId: string, result: ScanResult) => {
+    try {
+      const roster = await getRoster(workshopId);
+      if (roster) {
+        await saveRoster(applyScanToRoster(roster, result));
+      }
+    } catch (error) {
+      console.error('Error updating the cached roster:', error);
+    }
+  }, []);
+
+  const clearConflicts = useCallback(async () => {
+    await clearStoredConflicts();
+    setConflicts([]);
+  }, []);
+
+  // Track connectivity and sync as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => {
+      setIsOnline(false);
+      setSyncState('offline');
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  // Sync whatever was left queued from an earlier visit
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    refreshQueue().then(() => {
+      if (navigator.onLine) syncNow();
+    });
+  }, [isAuthenticated, refreshQueue, syncNow]);
+
+  // Retry in the background while scans are waiting, in case the browser missed the online event
+  useEffect(() => {
+    if (!isAuthenticated || queueDepth === 0) return;
+    const interval = setInterval(() => {
+      if (navigator.onLine) syncNow();
+    }, SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, queueDepth, syncNow]);
+
+  return (
+    <ScanQueueContext.Provider value={{
+      isOnline,
+      queueDepth,
+      syncState,
+      lastSyncedAt,
+      conflicts,
+      cacheRoster,
+      scanOffline,
+      recordOnlineScan,
+      syncNow,
+      clearConflicts,
+    }}>
+      {children}
+    </ScanQueueContext.Provider>
+  );
+};
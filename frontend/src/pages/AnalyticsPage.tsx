@@ -1,15 +1,19 @@
 import { useEffect, useState, useContext } from 'react';
-import { Award, BookOpen, Calendar, CalendarDays, ChartBar, ClipboardCheck, SquareCheck, Users } from 'lucide-react';
-import { Workshop, Guest, AttendanceRecord } from '../types';
+import { Award, BookOpen, Calendar, CalendarDays, ChartBar, ClipboardCheck, SquareCheck, UserSearch, Users } from 'lucide-react';
+import { Workshop, Guest, AttendanceRecord, CheckInMethod } from '../types';
 import { ThemeContext } from '../context/ThemeContext';
+import { formatDwellTime } from '../utils/dataUtils';
+import { EventContext } from '../context/EventContext';
 import { 
   fetchWorkshops, 
   fetchGuests, 
   fetchAttendance, 
   isEligibleForAttestation, 
   calculateAttendancePercentage,
-  getLastCheckIns
-} from '../api/apiService';
+  getLastCheckIns,
+  fetchEnrolments,
+  getGuestEnrolments
+} from '../api';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -31,12 +35,28 @@ ChartJS.register(
   Legend
 );
 
+const CHECKIN_METHOD_LABELS: Record<CheckInMethod, string> = {
+  scan: 'QR scan',
+  manual: 'Manual',
+  import: 'Import'
+};
+
+// How a guest was identified at check-in; older records did not store it
+const checkInMethodLabel = (record: AttendanceRecord) => {
+  if (!record.checkinMethod) return 'Unknown';
+  if (record.checkinMethod === 'manual') {
+    return `Manual (${record.manualByUsername || 'unknown user'})`;
+  }
+  return CHECKIN_METHOD_LABELS[record.checkinMethod];
+};
+
 const GuestListItem = ({ guest, attendance, isSelected, onClick }: { 
   guest: Guest; 
   attendance: AttendanceRecord[];
   isSelected: boolean;
   onClick: () => void;
 }) => {
+  const { selectedEventId } = useContext(EventContext);
   const [attendancePercent, setAttendancePercent] = useState<number>(0);
   const [loading, setLoading] = useState(true);
   
@@ -47,7 +67,7 @@ const GuestListItem = ({ guest, attendance, isSelected, onClick }: {
       try {
         setLoading(true);
         console.log(`Fetching attendance percentage for guest ${guest.id}`);
-        const percent = await calculateAttendancePercentage(guest.id);
+        const percent = await calculateAttendancePercentage(guest.id, selectedEventId);
         
         if (isMounted) {
           console.log(`Guest ${guest.id} attendance percentage:`, percent);
@@ -68,7 +88,7 @@ const GuestListItem = ({ guest, attendance, isSelected, onClick }: {
     return () => {
       isMounted = false;
     };
-  }, [guest.id]);
+  }, [guest.id, selectedEventId]);
   
   const attendedCount = attendance.filter((a: AttendanceRecord) => a.guestId === guest.id).length;
   
@@ -91,9 +111,12 @@ const GuestListItem = ({ guest, attendance, isSelected, onClick }: {
 };
 
 const GuestAttendanceStats = ({ guestId, workshops }: { guestId: string | null, workshops: Workshop[] }) => {
+  const { selectedEventId, selectedEvent } = useContext(EventContext);
   const [percentage, setPercentage] = useState<number>(0);
   const [isEligible, setIsEligible] = useState<boolean>(false);
   const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [enrolledCount, setEnrolledCount] = useState<number | null>(null);
+  const countsEnrolled = selectedEvent?.attendanceBasis === 'enrolled';
   const [loading, setLoading] = useState(false);
   
   useEffect(() => {
@@ -107,10 +130,11 @@ const GuestAttendanceStats = ({ guestId, workshops }: { guestId: string | null,
         console.log(`Fetching stats for guest ${guestId}`);
         
         // Fetch all required data in parallel
-        const [percent, eligible, attendanceData] = await Promise.all([
-          calculateAttendancePercentage(guestId),
-          isEligibleForAttestation(guestId),
-          fetchAttendance()
+        const [percent, eligible, attendanceData, enrolments] = await Promise.all([
+          calculateAttendancePercentage(guestId, selectedEventId),
+          isEligibleForAttestation(guestId, selectedEventId),
+          fetchAttendance(selectedEventId),
+          countsEnrolled ? getGuestEnrolments(guestId, selectedEventId) : Promise.resolve(null)
         ]);
         
         if (isMounted) {
@@ -123,6 +147,7 @@ const GuestAttendanceStats = ({ guestId, workshops }: { guestId: string | null,
           setPercentage(percent);
           setIsEligible(eligible);
           setAttendance(attendanceData);
+          setEnrolledCount(enrolments ? enrolments.length : null);
           setLoading(false);
         }
       } catch (error) {
@@ -138,7 +163,7 @@ const GuestAttendanceStats = ({ guestId, workshops }: { guestId: string | null,
     return () => {
       isMounted = false;
     };
-  }, [guestId]);
+  }, [guestId, selectedEventId, countsEnrolled]);
   
   if (!guestId) return null;
   if (loading) return <div className="p-4 text-center">Loading guest statistics...</div>;
@@ -157,7 +182,7 @@ const GuestAttendanceStats = ({ guestId, workshops }: { guestId: string | null,
         <div className="flex flex-col items-center sm:items-start">
           <span className="text-sm text-neutral-500 dark:text-neutral-400">Workshops Attended:</span>
           <div className="text-2xl font-bold text-primary-600 dark:text-primary-400">
-            {attendedCount} of {workshops.length}
+            {attendedCount} of {enrolledCount ?? workshops.length}
           </div>
         </div>
         <div className="flex flex-col items-center sm:items-start">
@@ -173,16 +198,35 @@ const GuestAttendanceStats = ({ guestId, workshops }: { guestId: string | null,
   );
 };
 
+interface StatCardProps {
+  title: string;
+  value: string | number;
+  icon: React.ReactNode;
+  color: string;
+  subtext?: string;
+}
+
+interface RecentCheckin {
+  id: string;
+  guestId: string;
+  workshopId: string;
+  guestName: string;
+  workshopName: string;
+  timestamp: string;
+}
+
 const AnalyticsPage = () => {
   const { theme } = useContext(ThemeContext);
+  const { selectedEventId, selectedEvent } = useContext(EventContext);
+  const countsEnrolled = selectedEvent?.attendanceBasis === 'enrolled';
   const [workshops, setWorkshops] = useState<Workshop[]>([]);
   const [guests, setGuests] = useState<Guest[]>([]);
   const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
   // These states are set but not currently used in the UI
   // Keeping the setters for future functionality
-  const [, setWorkshopAttendance] = useState<any[]>([]);
-  const [, setAttestationData] = useState<any[]>([]);
-  const [, setGuestAttendanceData] = useState<any[]>([]);
+  const [, setWorkshopAttendance] = useState<unknown[]>([]);
+  const [, setAttestationData] = useState<unknown[]>([]);
+  const [, setGuestAttendanceData] = useState<unknown[]>([]);
   const [selectedWorkshop, setSelectedWorkshop] = useState<string | null>(null);
   const [selectedGuest, setSelectedGuest] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'workshops' | 'guests' | 'checkins'>('overview');
@@ -192,11 +236,12 @@ const AnalyticsPage = () => {
     totalWorkshops: 0,
     totalGuests: 0,
     totalAttendance: 0,
+    manualCheckins: 0,
     eligibleForAttestation: 0,
     percentAttended: 0,
     mostPopularWorkshop: { name: '', count: 0 },
     leastPopularWorkshop: { name: '', count: 0 },
-    recentCheckins: [] as any[]
+    recentCheckins: [] as RecentCheckin[]
   });
   
   useEffect(() => {
@@ -207,17 +252,18 @@ const AnalyticsPage = () => {
         
         // Fetch all necessary data from API
         const [workshopsData, guestsData] = await Promise.all([
-          fetchWorkshops(),
-          fetchGuests()
+          fetchWorkshops(selectedEventId),
+          fetchGuests(selectedEventId)
         ]);
         
         setWorkshops(workshopsData);
         setGuests(guestsData);
         
         // Then get attendance data and recent check-ins
-        const [attendanceData, recentCheckinsData] = await Promise.all([
-          fetchAttendance(),
-          getLastCheckIns(5)
+        const [attendanceData, recentCheckinsData, enrolmentsData] = await Promise.all([
+          fetchAttendance(selectedEventId),
+          getLastCheckIns(5, selectedEventId),
+          countsEnrolled ? fetchEnrolments(selectedEventId) : Promise.resolve(null)
         ]);
         
         setAttendance(attendanceData);
@@ -229,9 +275,13 @@ const AnalyticsPage = () => {
         });
         
         // Calculate attendance percentage per workshop
+        // Events counting enrolled workshops measure each workshop against its enrolments
         const workshopStats = workshopsData.map(workshop => {
           const totalAttendees = attendanceData.filter(record => record.workshopId === workshop.id).length;
-          const attendancePercentage = (totalAttendees / Math.max(guestsData.length, 1)) * 100;
+          const expectedAttendees = enrolmentsData
+            ? enrolmentsData.filter(enrolment => enrolment.workshopId === workshop.id).length
+            : guestsData.length;
+          const attendancePercentage = (totalAttendees / Math.max(expectedAttendees, 1)) * 100;
           
           return {
             id: workshop.id,
@@ -245,7 +295,7 @@ const AnalyticsPage = () => {
         const eligibleGuests = [];
         for (const guest of guestsData) {
           try {
-            const isEligible = await isEligibleForAttestation(guest.id);
+            const isEligible = await isEligibleForAttestation(guest.id, selectedEventId);
             if (isEligible) {
               eligibleGuests.push(guest);
             }
@@ -273,7 +323,7 @@ const AnalyticsPage = () => {
         
         for (const guest of guestsData) {
           try {
-            const percent = await calculateAttendancePercentage(guest.id);
+            const percent = await calculateAttendancePercentage(guest.id, selectedEventId);
             if (percent === 0) {
               guestAttendanceDistribution[0].count++;
             } else if (percent <= 25) {
@@ -295,12 +345,8 @@ const AnalyticsPage = () => {
         setGuestAttendanceData(guestAttendanceDistribution);
         
         // Set initial selections if data exists
-        if (workshopsData.length > 0) {
-          setSelectedWorkshop(workshopsData[0].id);
-        }
-        if (guestsData.length > 0) {
-          setSelectedGuest(guestsData[0].id);
-        }
+        setSelectedWorkshop(workshopsData.length > 0 ? workshopsData[0].id : null);
+        setSelectedGuest(guestsData.length > 0 ? guestsData[0].id : null);
         
         // Calculate stats for simple overview
         // Workshop popularity
@@ -321,17 +367,19 @@ const AnalyticsPage = () => {
         
         // Calculate overall attendance percentage
         let totalPossibleAttendance = guestsData.length * workshopsData.length;
+        let countedAttendance = attendanceData.length;
+        if (enrolmentsData) {
+          const enrolled = new Set(enrolmentsData.map(e => `${e.guestId}:${e.workshopId}`));
+          totalPossibleAttendance = enrolled.size;
+          countedAttendance = attendanceData.filter(a => enrolled.has(`${a.guestId}:${a.workshopId}`)).length;
+        }
         const percentAttended = totalPossibleAttendance > 0 
-          ? (attendanceData.length / totalPossibleAttendance) * 100 
+          ? (countedAttendance / totalPossibleAttendance) * 100 
           : 0;
         
         // Format recent check-ins
         const formattedCheckins = recentCheckinsData.map(checkin => {
-          // The API might be returning different field names than we're expecting
-          // Handle field name differences: guest_id/guestId and workshop_id/workshopId
-          const guestId = checkin.guestId || checkin.guest_id;
-          const workshopId = checkin.workshopId || checkin.workshop_id;
-          
+          const { guestId, workshopId } = checkin;
           const guest = guestsData.find(g => g.id === guestId);
           const workshop = workshopsData.find(w => w.id === workshopId);
           
@@ -349,6 +397,8 @@ const AnalyticsPage = () => {
           totalWorkshops: workshopsData.length,
           totalGuests: guestsData.length,
           totalAttendance: attendanceData.length,
+          // Guests checked in by name because their QR code could not be read
+          manualCheckins: attendanceData.filter(record => record.checkinMethod === 'manual').length,
           eligibleForAttestation: eligible,
           percentAttended: parseFloat(percentAttended.toFixed(1)),
           mostPopularWorkshop: mostPopular,
@@ -365,7 +415,7 @@ const AnalyticsPage = () => {
     };
     
     loadData();
-  }, []);
+  }, [selectedEventId, countsEnrolled]);
   
   const formatDate = (dateString: string) => {
     if (!dateString) return '';
@@ -410,7 +460,8 @@ const AnalyticsPage = () => {
         guestId: record.guestId,
         guestName: guest ? guest.name : `Unknown (ID: ${record.guestId})`,
         email: guest ? guest.email : '',
-        timestamp: record.timestamp
+        timestamp: record.timestamp,
+        dwellMinutes: record.dwellMinutes
       };
     });
   };
@@ -436,13 +487,14 @@ const AnalyticsPage = () => {
         workshopName: workshop ? workshop.name : `Unknown Workshop (ID: ${record.workshopId})`,
         date: workshop ? workshop.date : '',
         location: workshop ? workshop.location : '',
-        timestamp: record.timestamp
+        timestamp: record.timestamp,
+        dwellMinutes: record.dwellMinutes
       };
     });
   };
 
   // Simple overview stat card component
-  const StatCard = ({ title, value, icon, color, subtext }: any) => (
+  const StatCard = ({ title, value, icon, color, subtext }: StatCardProps) => (
     <div className="card p-6">
       <div className="flex items-start justify-between">
         <div>
@@ -561,12 +613,22 @@ const AnalyticsPage = () => {
               color="bg-secondary-50 dark:bg-secondary-900/20"
             />
 
+            <StatCard 
+              title="Manual Check-ins" 
+              value={stats.manualCheckins} 
+              icon={<UserSearch size={24} className="text-neutral-500 dark:text-neutral-400" />}
+              color="bg-neutral-100 dark:bg-neutral-800"
+              subtext={stats.totalAttendance > 0 ? 
+                `${Math.round((stats.manualCheckins / stats.totalAttendance) * 100)}% of check-ins found by name` : 
+                'No attendance recorded'}
+            />
+
             <StatCard 
               title="Overall Attendance Rate" 
               value={`${stats.percentAttended}%`} 
               icon={<ChartBar size={24} className="text-primary-500 dark:text-primary-400" />}
               color="bg-primary-50 dark:bg-primary-900/20"
-              subtext="Percentage of all possible check-ins"
+              subtext={countsEnrolled ? "Percentage of enrolled check-ins" : "Percentage of all possible check-ins"}
             />
             
             <StatCard 
@@ -760,6 +822,9 @@ const AnalyticsPage = () => {
                         <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
                           Check-in Time
                         </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                          Dwell Time
+                        </th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
@@ -776,12 +841,15 @@ const AnalyticsPage = () => {
                               {formatDate(attendee.timestamp)} at {formatTime(attendee.timestamp)}
                             </div>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-neutral-500 dark:text-neutral-400">{formatDwellTime(attendee.dwellMinutes)}</div>
+                          </td>
                         </tr>
                       ))}
                       
                       {getWorkshopAttendeesData(selectedWorkshop).length === 0 && (
                         <tr>
-                          <td colSpan={3} className="px-6 py-8 text-center text-neutral-500 dark:text-neutral-400">
+                          <td colSpan={4} className="px-6 py-8 text-center text-neutral-500 dark:text-neutral-400">
                             No attendees for this workshop yet
                           </td>
                         </tr>
@@ -857,6 +925,9 @@ const AnalyticsPage = () => {
                         <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
                           Check-in Time
                         </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                          Dwell Time
+                        </th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
@@ -876,12 +947,15 @@ const AnalyticsPage = () => {
                               {formatTime(record.timestamp)}
                             </div>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-neutral-500 dark:text-neutral-400">{formatDwellTime(record.dwellMinutes)}</div>
+                          </td>
                         </tr>
                       ))}
                       
                       {getGuestWorkshopsData(selectedGuest).length === 0 && (
                         <tr>
-                          <td colSpan={4} className="px-6 py-8 text-center text-neutral-500 dark:text-neutral-400">
+                          <td colSpan={5} className="px-6 py-8 text-center text-neutral-500 dark:text-neutral-400">
                             This guest hasn't attended any workshops yet
                           </td>
                         </tr>
@@ -941,6 +1015,9 @@ const AnalyticsPage = () => {
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
                     Time
                   </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                    Method
+                  </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
                     IDs
                   </th>
@@ -975,6 +1052,11 @@ const AnalyticsPage = () => {
                             {formatTime(record.timestamp)}
                           </div>
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-neutral-500 dark:text-neutral-400">
+                            {checkInMethodLabel(record)}
+                          </div>
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-xs text-neutral-500 dark:text-neutral-400">
                             Guest: {record.guestId}<br />
@@ -987,7 +1069,7 @@ const AnalyticsPage = () => {
                 
                 {attendance.length === 0 && (
                   <tr>
-                    <td colSpan={5} className="px-6 py-8 text-center text-neutral-500 dark:text-neutral-400">
+                    <td colSpan={6} className="px-6 py-8 text-center text-neutral-500 dark:text-neutral-400">
                       No check-ins recorded yet
                     </td>
                   </tr>
@@ -1,63 +1,136 @@
-import { useState, useEffect } from 'react';
-import { Search, Trash2, AlertCircle } from 'lucide-react';
+import { useState, useEffect, useContext, useCallback, useRef } from 'react';
+import { Search, Trash2, AlertCircle, Upload, X } from 'lucide-react';
+import { DEFAULT_PAGE_SIZE } from '@eventqrollcall/shared';
+import { EventContext } from '../context/EventContext';
+import { AuthContext } from '../context/AuthContext';
+import Pagination from '../components/Pagination';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { formatDwellTime, importAttendance, parseCsv } from '../utils/dataUtils';
 import { 
   fetchWorkshops, 
-  fetchGuests, 
-  fetchAttendance
-} from '../api/apiService';
-
-interface Workshop {
-  id: string;
-  name: string;
-  date: string;
-}
-
-interface Guest {
-  id: string;
-  name: string;
-  email: string;
-}
-
-interface AttendanceRecord {
-  id: string;
-  guestId: string;
-  workshopId: string;
-  timestamp: string;
-}
-
-const API_BASE_URL = 'http://161.35.163.90:3000/api';
+  fetchAttendancePage,
+  deleteAttendance as deleteAttendanceRecord
+} from '../api';
+import { AttendanceImportItem, AttendanceImportResult, AttendanceImportStatus, AttendanceListQuery, AttendanceRecord, Workshop } from '../types';
+
+// Orders the list can be sorted in, keyed by the value of the sort select
+const SORT_OPTIONS: Record<string, { label: string; sort: AttendanceListQuery['sort']; order: AttendanceListQuery['order'] }> = {
+  'newest': { label: 'Newest first', sort: 'timestamp', order: 'desc' },
+  'oldest': { label: 'Oldest first', sort: 'timestamp', order: 'asc' },
+  'guest': { label: 'Guest name', sort: 'guestName', order: 'asc' },
+  'workshop': { label: 'Workshop name', sort: 'workshopName', order: 'asc' },
+  'dwell': { label: 'Longest stay', sort: 'dwellMinutes', order: 'desc' }
+};
+
+const IMPORT_STATUS_STYLES: Record<AttendanceImportStatus, string> = {
+  'created': 'bg-success-100 dark:bg-success-900/30 text-success-800 dark:text-success-300',
+  'duplicate': 'bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300',
+  'denied': 'bg-error-100 dark:bg-error-900/30 text-error-800 dark:text-error-300',
+  'invalid': 'bg-error-100 dark:bg-error-900/30 text-error-800 dark:text-error-300',
+  'rolled-back': 'bg-warning-100 dark:bg-warning-900/30 text-warning-800 dark:text-warning-300',
+  'skipped': 'bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300'
+};
+
+// Turn sign-in sheet rows into import items; rows without a workshop column use the chosen workshop
+const toImportItems = (rows: Record<string, string>[], defaultWorkshopId: string): AttendanceImportItem[] =>
+  rows.map(row => {
+    const timestamp = row.timestamp || '';
+    const parsed = new Date(timestamp);
+    return {
+      guestId: row.guestId || row.guest_id || undefined,
+      qrCode: row.qrCode || row.qr_code || undefined,
+      workshopId: row.workshopId || row.workshop_id || defaultWorkshopId,
+      // Sheets hold local times; send instants, and leave anything unparseable for the server to report
+      timestamp: !timestamp ? undefined : Number.isNaN(parsed.getTime()) ? timestamp : parsed.toISOString()
+    };
+  });
 
 const AttendancePage = () => {
+  const { selectedEventId } = useContext(EventContext);
+  const { hasPermission } = useContext(AuthContext);
+  const canDelete = hasPermission('attendance:delete');
   const [workshops, setWorkshops] = useState<Workshop[]>([]);
-  const [guests, setGuests] = useState<Guest[]>([]);
   const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedWorkshop, setSelectedWorkshop] = useState<string>('all');
+  const [vipFilter, setVipFilter] = useState<'all' | 'vip' | 'regular'>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [sortKey, setSortKey] = useState('newest');
+  const search = useDebouncedValue(searchTerm.trim());
+  // Only the answer to the latest request is shown when filters change quickly
+  const latestRequest = useRef(0);
+  const [showImport, setShowImport] = useState(false);
+  const [importWorkshopId, setImportWorkshopId] = useState('');
+  const [importFileName, setImportFileName] = useState('');
+  const [importRows, setImportRows] = useState<Record<string, string>[]>([]);
+  const [allOrNothing, setAllOrNothing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<AttendanceImportResult | null>(null);
 
   useEffect(() => {
-    const loadData = async () => {
+    const loadWorkshops = async () => {
       try {
-        setLoading(true);
-        const [workshopsData, guestsData, attendanceData] = await Promise.all([
-          fetchWorkshops(),
-          fetchGuests(),
-          fetchAttendance()
-        ]);
-        setWorkshops(workshopsData);
-        setGuests(guestsData);
-        setAttendance(attendanceData);
+        setWorkshops(await fetchWorkshops(selectedEventId));
       } catch (error) {
-        console.error('Error loading data:', error);
+        console.error('Error loading workshops:', error);
         setError('Failed to load attendance data');
-      } finally {
-        setLoading(false);
       }
     };
 
-    loadData();
-  }, []);
+    setSelectedWorkshop('all');
+    setPage(1);
+    loadWorkshops();
+  }, [selectedEventId]);
+
+  const loadAttendance = useCallback(async () => {
+    const request = ++latestRequest.current;
+    const { sort, order } = SORT_OPTIONS[sortKey];
+    try {
+      setLoading(true);
+      const result = await fetchAttendancePage({
+        eventId: selectedEventId || undefined,
+        search: search || undefined,
+        workshopId: selectedWorkshop !== 'all' ? selectedWorkshop : undefined,
+        isVip: vipFilter === 'all' ? undefined : vipFilter === 'vip',
+        from: fromDate || undefined,
+        to: toDate || undefined,
+        sort,
+        order,
+        page,
+        pageSize: DEFAULT_PAGE_SIZE
+      });
+      if (request !== latestRequest.current) return;
+      setAttendance(result.items);
+      setTotal(result.total);
+      setError(null);
+    } catch (error) {
+      if (request !== latestRequest.current) return;
+      console.error('Error loading attendance:', error);
+      setError('Failed to load attendance data');
+    } finally {
+      if (request === latestRequest.current) {
+        setLoading(false);
+        setLoaded(true);
+      }
+    }
+  }, [selectedEventId, search, selectedWorkshop, vipFilter, fromDate, toDate, sortKey, page]);
+
+  useEffect(() => {
+    loadAttendance();
+  }, [loadAttendance]);
+
+  // Filters apply to the whole list, so changing one starts again from its first page
+  const changeFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
 
   const deleteAttendance = async (id: string) => {
     if (!window.confirm('Are you sure you want to delete this attendance record?')) {
@@ -65,36 +138,71 @@ const AttendancePage = () => {
     }
 
     try {
-      const response = await fetch(`${API_BASE_URL}/attendance/${id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
-        }
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete attendance record');
-      }
-
-      setAttendance(prev => prev.filter(record => record.id !== id));
+      await deleteAttendanceRecord(id);
+      await loadAttendance();
     } catch (error) {
       console.error('Error deleting attendance:', error);
       setError(error instanceof Error ? error.message : 'Failed to delete attendance record');
     }
   };
 
-  const filteredAttendance = attendance.filter(record => {
-    const guest = guests.find(g => g.id === record.guestId);
-    const workshop = workshops.find(w => w.id === record.workshopId);
-    const matchesSearch = (guest?.name.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
-                         (workshop?.name.toLowerCase() || '').includes(searchTerm.toLowerCase());
-    const matchesWorkshop = selectedWorkshop === 'all' || record.workshopId === selectedWorkshop;
-    return matchesSearch && matchesWorkshop;
-  });
+  const openImport = () => {
+    setImportWorkshopId(selectedWorkshop !== 'all' ? selectedWorkshop : workshops[0]?.id || '');
+    setImportFileName('');
+    setImportRows([]);
+    setAllOrNothing(false);
+    setImportError(null);
+    setImportResult(null);
+    setShowImport(true);
+  };
+
+  const closeImport = () => {
+    if (importing) return;
+    setShowImport(false);
+  };
 
-  if (loading) {
+  const handleImportFile = async (file: File | undefined) => {
+    setImportResult(null);
+    setImportError(null);
+    if (!file) return;
+
+    try {
+      const rows = parseCsv(await file.text());
+      setImportFileName(file.name);
+      setImportRows(rows);
+      if (rows.length === 0) {
+        setImportError('The file has no rows to import');
+      }
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setImportError('Could not read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    const items = toImportItems(importRows, importWorkshopId);
+    if (items.some(item => !item.workshopId)) {
+      setImportError('Choose a workshop or add a workshopId column');
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setImportError(null);
+      const result = await importAttendance(items, allOrNothing);
+      setImportResult(result);
+      if (result.committed && result.created > 0) {
+        await loadAttendance();
+      }
+    } catch (error) {
+      console.error('Error importing attendance:', error);
+      setImportError(error instanceof Error ? error.message : 'Failed to import attendance');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!loaded) {
     return (
       <div className="flex justify-center items-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
@@ -104,13 +212,23 @@ const AttendancePage = () => {
 
   return (
     <div className="max-w-6xl mx-auto">
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100 mb-2">
-          Attendance Management
-        </h1>
-        <p className="text-neutral-600 dark:text-neutral-400">
-          View and manage workshop attendance records
-        </p>
+      <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100 mb-2">
+            Attendance Management
+          </h1>
+          <p className="text-neutral-600 dark:text-neutral-400">
+            View and manage workshop attendance records
+          </p>
+        </div>
+        <button
+          onClick={openImport}
+          disabled={workshops.length === 0}
+          className="btn-primary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Upload size={18} className="mr-2" />
+          Import Check-ins
+        </button>
       </div>
 
       <div className="card p-6 mb-6">
@@ -121,14 +239,14 @@ const AttendancePage = () => {
               type="text"
               placeholder="Search by guest or workshop name..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => changeFilter(setSearchTerm)(e.target.value)}
               className="input-field pl-10 w-full"
             />
           </div>
           
           <select
             value={selectedWorkshop}
-            onChange={(e) => setSelectedWorkshop(e.target.value)}
+            onChange={(e) => changeFilter(setSelectedWorkshop)(e.target.value)}
             className="input-field w-full sm:w-auto"
           >
             <option value="all">All Workshops</option>
@@ -139,6 +257,53 @@ const AttendancePage = () => {
             ))}
           </select>
         </div>
+
+        <div className="mt-4 flex flex-col sm:flex-row flex-wrap gap-4 sm:items-center">
+          <select
+            value={vipFilter}
+            onChange={(e) => changeFilter(setVipFilter)(e.target.value as 'all' | 'vip' | 'regular')}
+            className="input-field w-full sm:w-auto"
+            aria-label="Guest type"
+          >
+            <option value="all">All Guests</option>
+            <option value="vip">VIP Guests</option>
+            <option value="regular">Regular Guests</option>
+          </select>
+
+          <label className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+            From
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => changeFilter(setFromDate)(e.target.value)}
+              className="input-field"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+            To
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => changeFilter(setToDate)(e.target.value)}
+              className="input-field"
+            />
+          </label>
+
+          <select
+            value={sortKey}
+            onChange={(e) => changeFilter(setSortKey)(e.target.value)}
+            className="input-field w-full sm:w-auto sm:ml-auto"
+            aria-label="Sort by"
+          >
+            {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+              <option key={key} value={key}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {error && (
@@ -150,7 +315,7 @@ const AttendancePage = () => {
         </div>
       )}
 
-      <div className="card overflow-hidden">
+      <div className={`card overflow-hidden transition-opacity ${loading ? 'opacity-60' : ''}`}>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-neutral-200 dark:divide-neutral-700">
             <thead className="bg-neutral-50 dark:bg-neutral-800">
@@ -164,36 +329,72 @@ const AttendancePage = () => {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
                   Date & Time
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                  Check-out
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
                   Actions
                 </th>
               </tr>
             </thead>
             <tbody className="bg-white dark:bg-neutral-900 divide-y divide-neutral-200 dark:divide-neutral-700">
-              {filteredAttendance.map(record => {
-                const guest = guests.find(g => g.id === record.guestId);
-                const workshop = workshops.find(w => w.id === record.workshopId);
-                return (
-                  <tr key={record.id} className="hover:bg-neutral-50 dark:hover:bg-neutral-800/50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
-                        {guest?.name || 'Unknown Guest'}
-                      </div>
-                      <div className="text-sm text-neutral-500 dark:text-neutral-400">
-                        {guest?.email || 'No email'}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-neutral-900 dark:text-neutral-100">
-                        {workshop?.name || 'Unknown Workshop'}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-neutral-500 dark:text-neutral-400">
-                        {new Date(record.timestamp).toLocaleString()}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
+              {attendance.map(record => (
+                <tr key={record.id} className="hover:bg-neutral-50 dark:hover:bg-neutral-800/50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
+                      {record.guestName || 'Unknown Guest'}
+                    </div>
+                    <div className="text-sm text-neutral-500 dark:text-neutral-400">
+                      {record.guestEmail || 'No email'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-neutral-900 dark:text-neutral-100">
+                      {record.workshopName || 'Unknown Workshop'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-neutral-500 dark:text-neutral-400">
+                      {new Date(record.timestamp).toLocaleString()}
+                    </div>
+                    {record.checkinStatus === 'late' && (
+                      <span className="inline-flex items-center px-2 py-0.5 mt-1 rounded-full text-xs font-medium bg-warning-100 dark:bg-warning-900/30 text-warning-800 dark:text-warning-300">
+                        Late
+                      </span>
+                    )}
+                    {record.vipOverrideBy && (
+                      <span
+                        className="inline-flex items-center px-2 py-0.5 mt-1 ml-1 rounded-full text-xs font-medium bg-error-100 dark:bg-error-900/30 text-error-800 dark:text-error-300"
+                        title={`Let in by ${record.vipOverrideUsername || 'an admin'}${record.vipOverrideReason ? `: ${record.vipOverrideReason}` : ''}`}
+                      >
+                        VIP override
+                      </span>
+                    )}
+                    {record.checkinMethod === 'manual' && (
+                      <span
+                        className="inline-flex items-center px-2 py-0.5 mt-1 ml-1 rounded-full text-xs font-medium bg-neutral-100 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-300"
+                        title={`Checked in by hand by ${record.manualByUsername || 'a staff member'}`}
+                      >
+                        Manual
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {record.checkedOutAt ? (
+                      <>
+                        <div className="text-sm text-neutral-500 dark:text-neutral-400">
+                          {new Date(record.checkedOutAt).toLocaleTimeString()}
+                        </div>
+                        <div className="text-xs text-neutral-400 dark:text-neutral-500">
+                          Stayed {formatDwellTime(record.dwellMinutes)}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-sm text-neutral-400 dark:text-neutral-500">Not checked out</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {canDelete && (
                       <button
                         onClick={() => deleteAttendance(record.id)}
                         className="text-error-600 hover:text-error-800 dark:text-error-400 dark:hover:text-error-300 transition-colors"
@@ -201,13 +402,13 @@ const AttendancePage = () => {
                       >
                         <Trash2 size={18} />
                       </button>
-                    </td>
-                  </tr>
-                );
-              })}
-              {filteredAttendance.length === 0 && (
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {attendance.length === 0 && (
                 <tr>
-                  <td colSpan={4} className="px-6 py-8 text-center text-neutral-500 dark:text-neutral-400">
+                  <td colSpan={5} className="px-6 py-8 text-center text-neutral-500 dark:text-neutral-400">
                     No attendance records found
                   </td>
                 </tr>
@@ -215,7 +416,152 @@ const AttendancePage = () => {
             </tbody>
           </table>
         </div>
+        <Pagination
+          page={page}
+          pageSize={DEFAULT_PAGE_SIZE}
+          total={total}
+          onPageChange={setPage}
+          disabled={loading}
+        />
       </div>
+
+      {/* Import check-ins modal */}
+      {showImport && (
+        <div className="fixed inset-0 z-50 overflow-y-auto animate-fade-in" onClick={closeImport}>
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div className="fixed inset-0 transition-opacity z-40">
+              <div className="absolute inset-0 bg-neutral-900 opacity-75 dark:opacity-80"></div>
+            </div>
+
+            {/* Modal content */}
+            <div
+              className="inline-block align-bottom card text-left overflow-hidden animate-slide-up sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full relative z-50"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100">
+                    Import Check-ins
+                  </h3>
+                  <button
+                    onClick={closeImport}
+                    className="text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300"
+                  >
+                    <X size={20} />
+                  </button>
+                </div>
+
+                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+                  Upload a CSV with a header row and a <code>guestId</code> or <code>qrCode</code> column.
+                  Optional columns: <code>workshopId</code> (otherwise the workshop below is used) and <code>timestamp</code> (otherwise the time of the import).
+                  Every row goes through the same checks as a scan at the door.
+                </p>
+
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="importWorkshop" className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-1">
+                      Workshop
+                    </label>
+                    <select
+                      id="importWorkshop"
+                      value={importWorkshopId}
+                      onChange={(e) => setImportWorkshopId(e.target.value)}
+                      className="input-field w-full"
+                    >
+                      {workshops.map(workshop => (
+                        <option key={workshop.id} value={workshop.id}>
+                          {workshop.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label htmlFor="importFile" className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-1">
+                      Sign-in sheet (CSV)
+                    </label>
+                    <input
+                      id="importFile"
+                      type="file"
+                      accept=".csv,text/csv"
+                      onChange={(e) => handleImportFile(e.target.files?.[0])}
+                      className="block w-full text-sm text-neutral-600 dark:text-neutral-400"
+                    />
+                    {importFileName && importRows.length > 0 && (
+                      <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                        {importFileName}: {importRows.length} {importRows.length === 1 ? 'row' : 'rows'}
+                      </p>
+                    )}
+                  </div>
+
+                  <label className="flex items-center text-sm text-neutral-700 dark:text-neutral-300">
+                    <input
+                      type="checkbox"
+                      checked={allOrNothing}
+                      onChange={(e) => setAllOrNothing(e.target.checked)}
+                      className="mr-2"
+                    />
+                    All or nothing: save no check-ins unless every row can be checked in
+                  </label>
+                </div>
+
+                {importError && (
+                  <div className="mt-4 p-3 bg-error-50 dark:bg-error-900/20 border-l-4 border-error-500 rounded text-sm text-error-700 dark:text-error-400">
+                    {importError}
+                  </div>
+                )}
+
+                {importResult && (
+                  <div className="mt-4">
+                    <p className={`text-sm font-medium mb-2 ${importResult.committed ? 'text-success-700 dark:text-success-400' : 'text-error-700 dark:text-error-400'}`}>
+                      {importResult.committed
+                        ? `${importResult.created} created, ${importResult.duplicates} duplicates, ${importResult.denied} denied, ${importResult.invalid} invalid`
+                        : 'Nothing was saved because some rows could not be checked in'}
+                    </p>
+                    <div className="max-h-64 overflow-y-auto border border-neutral-200 dark:border-neutral-700 rounded">
+                      <table className="min-w-full text-sm">
+                        <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                          {importResult.results.map(row => (
+                            <tr key={row.index}>
+                              <td className="px-3 py-2 text-neutral-500 dark:text-neutral-400">Row {row.index + 1}</td>
+                              <td className="px-3 py-2 text-neutral-900 dark:text-neutral-100">{row.guestName || '—'}</td>
+                              <td className="px-3 py-2">
+                                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${IMPORT_STATUS_STYLES[row.status]}`}>
+                                  {row.status}
+                                </span>
+                              </td>
+                              <td className="px-3 py-2 text-neutral-600 dark:text-neutral-400">{row.message}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-neutral-50 dark:bg-neutral-800/50 px-4 py-3 sm:px-6 flex flex-col sm:flex-row-reverse sm:gap-2">
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={importing || importRows.length === 0}
+                  className="btn-primary w-full sm:w-auto disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {importing ? 'Importing…' : 'Import'}
+                </button>
+                <button
+                  type="button"
+                  onClick={closeImport}
+                  disabled={importing}
+                  className="btn-secondary mt-3 sm:mt-0 w-full sm:w-auto"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
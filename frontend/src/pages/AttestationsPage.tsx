@@ -1,12 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useContext } from 'react';
 import { Download, Users, AlertCircle } from 'lucide-react';
 import { Guest } from '../types';
+import { EventContext } from '../context/EventContext';
 import { 
   fetchGuests, 
   generateCertificate,
   getGuestAttendance, 
   calculateAttendancePercentage
-} from '../api/apiService';
+} from '../api';
 
 interface GuestWithAttendance extends Guest {
   hasAttended: boolean;
@@ -14,6 +15,7 @@ interface GuestWithAttendance extends Guest {
 }
 
 const AttestationsPage = () => {
+  const { selectedEventId, selectedEvent } = useContext(EventContext);
   const [guests, setGuests] = useState<GuestWithAttendance[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -23,13 +25,13 @@ const AttestationsPage = () => {
       try {
         setLoading(true);
         setError(null);
-        const allGuests = await fetchGuests();
+        const allGuests = await fetchGuests(selectedEventId);
         
-        // Get attendance info for each guest
+        // Get attendance info for each guest within the selected event
         const guestsWithAttendance = await Promise.all(
           allGuests.map(async (guest) => {
-            const attendance = await getGuestAttendance(guest.id);
-            const percentage = await calculateAttendancePercentage(guest.id);
+            const attendance = await getGuestAttendance(guest.id, selectedEventId);
+            const percentage = await calculateAttendancePercentage(guest.id, selectedEventId);
             return {
               ...guest,
               hasAttended: attendance && attendance.length > 0,
@@ -48,7 +50,7 @@ const AttestationsPage = () => {
     };
     
     loadGuests();
-  }, []);
+  }, [selectedEventId]);
 
   const downloadCertificate = async (guest: GuestWithAttendance) => {
     if (!guest.hasAttended) {
@@ -57,7 +59,7 @@ const AttestationsPage = () => {
     }
     
     try {
-      const blob = await generateCertificate(guest.id, guest.name);
+      const blob = await generateCertificate(guest.id, guest.name, selectedEventId);
       
       // Create a URL for the blob
       const url = window.URL.createObjectURL(blob);
@@ -74,9 +76,9 @@ const AttestationsPage = () => {
       
       // Clean up the URL
       window.URL.revokeObjectURL(url);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error downloading certificate:', error);
-      setError(error.message || 'Failed to download certificate. Please try again.');
+      setError(error instanceof Error && error.message ? error.message : 'Failed to download certificate. Please try again.');
     }
   };
 
@@ -92,7 +94,9 @@ const AttestationsPage = () => {
     <div>
       <div className="mb-8">
         <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-2">Generate Certificates</h1>
-        <p className="text-gray-600 dark:text-gray-400">Select a name to generate their certificate</p>
+        <p className="text-gray-600 dark:text-gray-400">
+          Select a name to generate their certificate{selectedEvent ? ` for ${selectedEvent.name}` : ''}
+        </p>
       </div>
 
       {error && (
@@ -0,0 +1,122 @@
+import { useState, useContext } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { Lock } from 'lucide-react';
+import { AuthContext } from '../context/AuthContext';
+import PasswordRules from '../components/PasswordRules';
+
+type FormData = {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+};
+
+// Password change, from the profile or forced before anything else after
+// signing in with a default or admin-issued password
+const ChangePasswordPage = () => {
+  const navigate = useNavigate();
+  const { user, changePassword, logout } = useContext(AuthContext);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const required = Boolean(user?.mustChangePassword);
+
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<FormData>();
+
+  const onSubmit = async (data: FormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await changePassword(data.currentPassword, data.newPassword);
+      navigate(required ? '/' : '/profile', { replace: true });
+    } catch (err) {
+      console.error('Password change error:', err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName = "block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100";
+
+  const passwordField = (name: keyof FormData, label: string, options: Parameters<typeof register>[1], autoComplete: string) => (
+    <div>
+      <label htmlFor={name} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {label}
+      </label>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Lock className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          id={name}
+          type="password"
+          autoComplete={autoComplete}
+          {...register(name, options)}
+          className={inputClassName}
+          placeholder={label}
+        />
+      </div>
+      {errors[name] && (
+        <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors[name]?.message}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <div className="max-w-md w-full space-y-8 bg-white dark:bg-gray-800 p-8 rounded-xl shadow-lg">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-indigo-600 dark:text-indigo-400">EventQRollcall</h1>
+          <h2 className="mt-4 text-xl font-medium text-gray-900 dark:text-gray-100">Change your password</h2>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            {required
+              ? 'Your password was set for you. Choose your own before you continue.'
+              : 'Your other devices will be signed out.'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border-l-4 border-red-500 p-4 rounded">
+            <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div className="space-y-4">
+            {passwordField('currentPassword', 'Current password', { required: 'Current password is required' }, 'current-password')}
+            <div>
+              {passwordField('newPassword', 'New password', { required: 'New password is required' }, 'new-password')}
+              <PasswordRules />
+            </div>
+            {passwordField('confirmPassword', 'Confirm new password', {
+              validate: value => value === watch('newPassword') || 'Passwords do not match'
+            }, 'new-password')}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Saving...' : 'Change password'}
+          </button>
+        </form>
+
+        <div className="text-center text-sm">
+          {required ? (
+            <button type="button" onClick={logout} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+              Sign out
+            </button>
+          ) : (
+            <Link to="/profile" className="text-indigo-600 dark:text-indigo-400 hover:underline">
+              Back to profile
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePasswordPage;
@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { getWorkshops, getGuests, getAttendance, isEligibleForAttestation } from '../utils/dataUtils';
 import { ArrowRight, Award, BookOpen, QrCode, Users, AlertCircle } from 'lucide-react';
 import { AuthContext } from '../context/AuthContext';
+import { EventContext } from '../context/EventContext';
 
 interface StatCardType {
   title: string;
@@ -15,6 +16,7 @@ interface StatCardType {
 
 const Dashboard = () => {
   const { user, hasRole } = useContext(AuthContext);
+  const { selectedEventId, selectedEvent } = useContext(EventContext);
   const [stats, setStats] = useState({
     totalWorkshops: 0,
     totalGuests: 0,
@@ -29,14 +31,14 @@ const Dashboard = () => {
     const fetchData = async () => {
       try {
         setLoading(true);
-        const workshops = await getWorkshops();
-        const guests = await getGuests();
-        const attendance = await getAttendance();
+        const workshops = await getWorkshops(selectedEventId);
+        const guests = await getGuests(selectedEventId);
+        const attendance = await getAttendance(selectedEventId);
         
         // Calculate eligible guests - need to check each guest asynchronously
         let eligibleCount = 0;
         for (const guest of guests) {
-          const isEligible = await isEligibleForAttestation(guest.id);
+          const isEligible = await isEligibleForAttestation(guest.id, selectedEventId);
           if (isEligible) eligibleCount++;
         }
         
@@ -57,7 +59,7 @@ const Dashboard = () => {
     };
 
     fetchData();
-  }, []);
+  }, [selectedEventId]);
 
   // Define stat cards based on user role
   const getStatCards = (): StatCardType[] => {
@@ -157,6 +159,11 @@ const Dashboard = () => {
         <p className="text-gray-600 dark:text-gray-400">
           Welcome {user?.name}, you are logged in as{' '}
           <span className="font-semibold text-indigo-600 dark:text-indigo-400">{user?.role}</span>
+          {selectedEvent && (
+            <>
+              {' '}· viewing <span className="font-semibold">{selectedEvent.name}</span>
+            </>
+          )}
         </p>
       </div>
 
@@ -227,6 +234,7 @@ const Dashboard = () => {
             Welcome to EventTrackr! Follow these steps to set up your event tracking:
           </p>
           <ol className="list-decimal pl-5 space-y-2 text-gray-700 dark:text-gray-300">
+            <li>Create an event and select it in the sidebar</li>
             <li>Create workshops for your event</li>
             <li>Add guests to generate their QR codes</li>
             <li>Scan QR codes at each workshop to track attendance</li>
@@ -0,0 +1,401 @@
+import { useState, useContext } from 'react';
+import { CalendarDays, Check, MapPin, Pencil, Plus, Trash2 } from 'lucide-react';
+import { eventInputSchema, validate } from '@eventqrollcall/shared';
+import { EventInfo, FieldErrors } from '../types';
+import { EventContext } from '../context/EventContext';
+import FieldError from '../components/FieldError';
+import {
+  createEvent,
+  updateEvent as apiUpdateEvent,
+  deleteEvent,
+  getFieldErrors
+} from '../api';
+
+const emptyForm: Partial<EventInfo> = {
+  name: '',
+  description: '',
+  startDate: '',
+  endDate: '',
+  location: '',
+  logoUrl: '',
+  primaryColor: '#23519e',
+  attendanceBasis: 'all-workshops',
+  dynamicQr: false
+};
+
+const EventsPage = () => {
+  const { events, selectedEventId, selectEvent, refreshEvents } = useContext(EventContext);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<Partial<EventInfo>>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setFormData({
+      ...formData,
+      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validate(eventInputSchema, formData);
+    setFieldErrors(validation.success ? {} : validation.fields);
+    if (!validation.success) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (editingId) {
+        await apiUpdateEvent({
+          ...formData as EventInfo,
+          id: editingId
+        });
+      } else {
+        const newEvent = await createEvent({
+          name: formData.name || '',
+          description: formData.description || '',
+          startDate: formData.startDate || '',
+          endDate: formData.endDate || '',
+          location: formData.location || '',
+          logoUrl: formData.logoUrl || '',
+          primaryColor: formData.primaryColor || '',
+          attendanceBasis: formData.attendanceBasis || 'all-workshops',
+          dynamicQr: formData.dynamicQr || false
+        });
+
+        // Switch to the new event so it can be set up right away
+        selectEvent(newEvent.id);
+      }
+
+      await refreshEvents();
+      closeModal();
+    } catch (error) {
+      console.error('Error saving event:', error);
+      setFieldErrors(getFieldErrors(error) || {});
+      setError(error instanceof Error ? error.message : 'Failed to save event. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (event: EventInfo) => {
+    setFormData(event);
+    setEditingId(event.id);
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (window.confirm('Delete this event? Its workshops and their attendance records will be deleted too.')) {
+      try {
+        setLoading(true);
+        setError(null);
+        await deleteEvent(id);
+        await refreshEvents();
+      } catch (error) {
+        console.error('Error deleting event:', error);
+        setError('Failed to delete event. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    }
+  };
+
+  const openModal = () => {
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setFormData(emptyForm);
+    setFieldErrors({});
+    setEditingId(null);
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '';
+    const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+    return new Date(dateString).toLocaleDateString(undefined, options);
+  };
+
+  const formatDateRange = (event: EventInfo) => {
+    if (!event.startDate && !event.endDate) return 'No dates set';
+    if (!event.endDate || event.endDate === event.startDate) return formatDate(event.startDate);
+    return `${formatDate(event.startDate)} – ${formatDate(event.endDate)}`;
+  };
+
+  return (
+    <div>
+      {error &&
+        <div className="bg-error-50 dark:bg-error-950/50 border-l-4 border-error-500 text-error-700 dark:text-error-300 p-4 mb-4">
+          {error}
+        </div>
+      }
+
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100 mb-2">Events</h1>
+          <p className="text-neutral-600 dark:text-neutral-400">Group workshops and guests by conference</p>
+        </div>
+        <button
+          onClick={openModal}
+          className="flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+          disabled={loading}
+        >
+          <Plus size={18} className="mr-1" />
+          Add Event
+        </button>
+      </div>
+
+      {events.length === 0 ? (
+        <div className="card p-8 text-center">
+          <div className="flex justify-center mb-4">
+            <div className="rounded-full bg-primary-50 dark:bg-primary-900/20 p-3">
+              <CalendarDays size={24} className="text-primary-600 dark:text-primary-400" />
+            </div>
+          </div>
+          <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100 mb-2">No events yet</h3>
+          <p className="text-neutral-500 dark:text-neutral-400 mb-4">
+            Create an event before adding its workshops and guests
+          </p>
+          <button
+            onClick={openModal}
+            className="inline-flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+          >
+            <Plus size={18} className="mr-1" />
+            Add First Event
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {events.map((event) => (
+            <div
+              key={event.id}
+              className="card border-t-4"
+              style={{ borderTopColor: event.primaryColor || undefined }}
+            >
+              <div className="flex justify-between items-start mb-4">
+                <div className="flex items-center min-w-0">
+                  {event.logoUrl && (
+                    <img src={event.logoUrl} alt="" className="h-8 w-8 rounded object-contain mr-3 flex-shrink-0" />
+                  )}
+                  <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100 truncate">{event.name}</h3>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleEdit(event)}
+                    className="p-1 text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                    aria-label="Edit event"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(event.id)}
+                    className="p-1 text-neutral-500 hover:text-error-600 dark:hover:text-error-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                    aria-label="Delete event"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+
+              {event.description && (
+                <p className="text-neutral-600 dark:text-neutral-300 mb-4">{event.description}</p>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center text-neutral-500 dark:text-neutral-400">
+                  <CalendarDays size={16} className="mr-2" />
+                  <span>{formatDateRange(event)}</span>
+                </div>
+
+                {event.location && (
+                  <div className="flex items-center text-neutral-500 dark:text-neutral-400">
+                    <MapPin size={16} className="mr-2" />
+                    <span>{event.location}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="mt-4">
+                {event.id === selectedEventId ? (
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-success-100 dark:bg-success-900/30 text-success-800 dark:text-success-300">
+                    <Check size={12} className="mr-1" />
+                    Selected
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => selectEvent(event.id)}
+                    className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline"
+                  >
+                    Switch to this event
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-neutral-900 bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50 animate-fade-in">
+          <div className="card w-full max-w-md animate-slide-up max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-semibold mb-4 text-neutral-900 dark:text-neutral-100">
+              {editingId ? 'Edit Event' : 'Add New Event'}
+            </h2>
+            <form onSubmit={handleSubmit}>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Name</label>
+                  <input
+                    type="text"
+                    name="name"
+                    value={formData.name || ''}
+                    onChange={handleInputChange}
+                    className="input-field w-full"
+                    required
+                  />
+                  <FieldError message={fieldErrors.name} />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Description</label>
+                  <textarea
+                    name="description"
+                    value={formData.description || ''}
+                    onChange={handleInputChange}
+                    className="input-field w-full"
+                    rows={3}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Start Date</label>
+                    <input
+                      type="date"
+                      name="startDate"
+                      value={formData.startDate || ''}
+                      onChange={handleInputChange}
+                      className="input-field w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">End Date</label>
+                    <input
+                      type="date"
+                      name="endDate"
+                      value={formData.endDate || ''}
+                      onChange={handleInputChange}
+                      min={formData.startDate || undefined}
+                      className="input-field w-full"
+                    />
+                    <FieldError message={fieldErrors.endDate} />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Location</label>
+                  <input
+                    type="text"
+                    name="location"
+                    value={formData.location || ''}
+                    onChange={handleInputChange}
+                    className="input-field w-full"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Logo URL</label>
+                  <input
+                    type="url"
+                    name="logoUrl"
+                    value={formData.logoUrl || ''}
+                    onChange={handleInputChange}
+                    className="input-field w-full"
+                    placeholder="https://"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Brand Color</label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="color"
+                      name="primaryColor"
+                      value={formData.primaryColor || '#23519e'}
+                      onChange={handleInputChange}
+                      className="h-10 w-14 p-1 rounded border"
+                    />
+                    <span className="text-sm text-neutral-500 dark:text-neutral-400">
+                      Used on certificates and in the event selector
+                    </span>
+                  </div>
+                  <FieldError message={fieldErrors.primaryColor} />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Attendance Based On</label>
+                  <select
+                    name="attendanceBasis"
+                    value={formData.attendanceBasis || 'all-workshops'}
+                    onChange={handleInputChange}
+                    className="input-field w-full"
+                  >
+                    <option value="enrolled">Workshops each guest is enrolled in</option>
+                    <option value="all-workshops">Every workshop of the event</option>
+                  </select>
+                  <FieldError message={fieldErrors.attendanceBasis} />
+                </div>
+
+                <div>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      name="dynamicQr"
+                      id="dynamicQr"
+                      checked={formData.dynamicQr || false}
+                      onChange={handleInputChange}
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300 dark:border-neutral-700 rounded"
+                    />
+                    <label htmlFor="dynamicQr" className="ml-2 block text-sm text-neutral-700 dark:text-neutral-300">
+                      Rotating QR codes
+                    </label>
+                  </div>
+                  <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                    Guests check in with a code from their pass page that changes every 30 seconds, so screenshots can't be shared
+                  </p>
+                </div>
+              </div>
+
+              <div className="mt-6 flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="btn-secondary"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="btn-primary"
+                  disabled={loading}
+                >
+                  {loading ? 'Saving...' : editingId ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventsPage;
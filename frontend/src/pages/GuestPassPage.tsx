@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import QRCode from 'qrcode';
+import { QrCode, AlertCircle } from 'lucide-react';
+import { fetchGuestPass } from '../api';
+import { DynamicPass } from '../types';
+
+// How long to wait before trying again when the pass could not be loaded
+const RETRY_DELAY_MS = 10000;
+
+// Public page where a guest shows their rotating check-in code
+const GuestPassPage = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const [pass, setPass] = useState<DynamicPass | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  // Fetch the current code and fetch again as soon as it rotates
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const nextPass = await fetchGuestPass(token);
+        if (cancelled) return;
+
+        const dataUrl = await QRCode.toDataURL(nextPass.payload, { width: 280, margin: 1 });
+        if (cancelled) return;
+
+        setPass(nextPass);
+        setQrDataUrl(dataUrl);
+        setError(null);
+
+        // The server's clock decides when the code rotates; stay within one period in case ours is off
+        const untilExpiry = new Date(nextPass.expiresAt).getTime() - Date.now();
+        timeout = setTimeout(load, Math.min(Math.max(untilExpiry, 1000), nextPass.periodSeconds * 1000));
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error loading guest pass:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load pass');
+        timeout = setTimeout(load, RETRY_DELAY_MS);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [token]);
+
+  // Countdown until the code changes
+  useEffect(() => {
+    if (!pass) return;
+    const update = () => setSecondsLeft(Math.max(0, Math.ceil((new Date(pass.expiresAt).getTime() - Date.now()) / 1000)));
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [pass]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 shadow-lg rounded-lg overflow-hidden">
+        <div className="p-6">
+          <div className="flex justify-center mb-4">
+            <div className="rounded-full bg-indigo-100 dark:bg-indigo-900/30 p-3">
+              <QrCode size={32} className="text-indigo-600 dark:text-indigo-400" />
+            </div>
+          </div>
+
+          <h1 className="text-2xl font-bold text-center text-gray-900 dark:text-gray-100 mb-1">
+            {pass ? pass.guestName : 'Your Pass'}
+          </h1>
+          <p className="text-center text-gray-600 dark:text-gray-400 mb-6">
+            Show this code at the door. It changes every {pass?.periodSeconds ?? 30} seconds, so screenshots won't work.
+          </p>
+
+          {error && (
+            <div className="flex items-start p-3 mb-4 rounded-md bg-red-50 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {pass && qrDataUrl ? (
+            <div className="flex flex-col items-center">
+              <img src={qrDataUrl} alt="Check-in QR code" className={`w-64 h-64 ${error ? 'opacity-30' : ''}`} />
+              <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+                Refreshes in {secondsLeft}s
+              </p>
+            </div>
+          ) : !error && (
+            <div className="flex justify-center py-16">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GuestPassPage;
@@ -1,20 +1,56 @@
-import { useState, useEffect } from 'react';
-import { Pencil, Plus, QrCode, Trash2, User, Star } from 'lucide-react';
-import { Guest, Workshop } from '../types';
+import { useState, useEffect, useContext, useCallback, useRef } from 'react';
+import { Pencil, Plus, QrCode, Trash2, User, Star, UserPlus, UserMinus, ClipboardList, Ban, RefreshCw, Link, Search } from 'lucide-react';
+import { updateGuestSchema, validate, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@eventqrollcall/shared';
+import { Guest, GuestListQuery, Workshop, FieldErrors } from '../types';
+import FieldError from '../components/FieldError';
+import Pagination from '../components/Pagination';
 import QRCodeGenerator from '../components/QRCodeGenerator';
+import { EventContext } from '../context/EventContext';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
 import { 
-  fetchGuests, 
+  fetchGuestPage, 
   createGuest, 
   updateGuest, 
   deleteGuest,
   fetchWorkshops,
   addVipAccess,
   removeVipAccess,
-  getVipAccessList
-} from '../api/apiService';
+  getVipAccessList,
+  addGuestToEvent,
+  removeGuestFromEvent,
+  enrolGuest,
+  unenrolGuest,
+  getGuestEnrolments,
+  getGuestWaitlist,
+  revokeGuestQrCode,
+  reissueGuestQrCode,
+  getGuestPassToken,
+  getFieldErrors
+} from '../api';
+
+// Orders the list can be sorted in, keyed by the value of the sort select
+const SORT_OPTIONS: Record<string, { label: string; sort: GuestListQuery['sort']; order: GuestListQuery['order'] }> = {
+  'name': { label: 'Name', sort: 'name', order: 'asc' },
+  'email': { label: 'Email', sort: 'email', order: 'asc' },
+  'organization': { label: 'Organization', sort: 'organization', order: 'asc' },
+  'newest': { label: 'Newest first', sort: 'createdAt', order: 'desc' },
+  'oldest': { label: 'Oldest first', sort: 'createdAt', order: 'asc' }
+};
 
 const GuestsPage = () => {
+  const { selectedEventId, selectedEvent } = useContext(EventContext);
   const [guests, setGuests] = useState<Guest[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [vipFilter, setVipFilter] = useState<'all' | 'vip' | 'regular'>('all');
+  const [organizationFilter, setOrganizationFilter] = useState('');
+  const [sortKey, setSortKey] = useState('name');
+  const search = useDebouncedValue(searchTerm.trim());
+  const organization = useDebouncedValue(organizationFilter.trim());
+  // Only the answer to the latest request is shown when filters change quickly
+  const latestRequest = useRef(0);
+  const [loaded, setLoaded] = useState(false);
   const [workshops, setWorkshops] = useState<Workshop[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isVipModalOpen, setIsVipModalOpen] = useState(false);
@@ -23,40 +59,87 @@ const GuestsPage = () => {
   const [formData, setFormData] = useState<Partial<Guest>>({
     name: '',
     email: '',
+    organization: '',
     isVip: false
   });
   const [editingId, setEditingId] = useState<string | null>(null);
   const [activeQR, setActiveQR] = useState<string | null>(null);
   const [showQRModal, setShowQRModal] = useState(false);
+  const [passLinkCopied, setPassLinkCopied] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isRosterModalOpen, setIsRosterModalOpen] = useState(false);
+  const [otherGuests, setOtherGuests] = useState<Guest[]>([]);
+  const [otherGuestsTotal, setOtherGuestsTotal] = useState(0);
+  const [rosterSearchTerm, setRosterSearchTerm] = useState('');
+  const rosterSearch = useDebouncedValue(rosterSearchTerm.trim());
+  const [isEnrolmentModalOpen, setIsEnrolmentModalOpen] = useState(false);
+  const [guestEnrolments, setGuestEnrolments] = useState<string[]>([]);
+  // Waitlist place per workshop the guest is waiting for
+  const [guestWaitlist, setGuestWaitlist] = useState<Record<string, number>>({});
 
   useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
-      setError(null);
+    const loadWorkshops = async () => {
       try {
-        const [guestsList, workshopsList] = await Promise.all([
-          fetchGuests(),
-          fetchWorkshops()
-        ]);
-        setGuests(guestsList);
-        setWorkshops(workshopsList.filter(w => w.isVip));
+        setWorkshops(await fetchWorkshops(selectedEventId));
       } catch (err) {
-        console.error("Error fetching data:", err);
+        console.error("Error fetching workshops:", err);
         setError("Failed to load data. Please try again.");
-      } finally {
-        setLoading(false);
       }
     };
     
-    loadData();
-  }, []);
+    setPage(1);
+    loadWorkshops();
+  }, [selectedEventId]);
+
+  const loadGuests = useCallback(async () => {
+    const request = ++latestRequest.current;
+    const { sort, order } = SORT_OPTIONS[sortKey];
+    setLoading(true);
+    try {
+      const result = await fetchGuestPage({
+        eventId: selectedEventId || undefined,
+        search: search || undefined,
+        isVip: vipFilter === 'all' ? undefined : vipFilter === 'vip',
+        organization: organization || undefined,
+        sort,
+        order,
+        page,
+        pageSize: DEFAULT_PAGE_SIZE
+      });
+      if (request !== latestRequest.current) return;
+      setGuests(result.items);
+      setTotal(result.total);
+      setError(null);
+      setLoaded(true);
+    } catch (err) {
+      if (request !== latestRequest.current) return;
+      console.error("Error fetching guests:", err);
+      setError("Failed to load data. Please try again.");
+    } finally {
+      if (request === latestRequest.current) {
+        setLoading(false);
+      }
+    }
+  }, [selectedEventId, search, vipFilter, organization, sortKey, page]);
+
+  useEffect(() => {
+    loadGuests();
+  }, [loadGuests]);
+
+  // Filters apply to the whole list, so changing one starts again from its first page
+  const changeFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const hasFilters = Boolean(search || organization || vipFilter !== 'all');
 
   // Handle body scroll when modals are open
   useEffect(() => {
     // Prevent scrolling on the body when any modal is open
-    if (isModalOpen || showQRModal || isVipModalOpen) {
+    if (isModalOpen || showQRModal || isVipModalOpen || isRosterModalOpen || isEnrolmentModalOpen) {
       document.body.style.overflow = 'hidden';
     } else {
       document.body.style.overflow = '';
@@ -66,7 +149,7 @@ const GuestsPage = () => {
     return () => {
       document.body.style.overflow = '';
     };
-  }, [isModalOpen, showQRModal, isVipModalOpen]);
+  }, [isModalOpen, showQRModal, isVipModalOpen, isRosterModalOpen, isEnrolmentModalOpen]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target;
@@ -78,24 +161,25 @@ const GuestsPage = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    
+    const guestData = {
+      name: formData.name || '',
+      email: formData.email || '',
+      organization: formData.organization || '',
+      isVip: formData.isVip || false
+    };
+    
+    const validation = validate(updateGuestSchema, guestData);
+    setFieldErrors(validation.success ? {} : validation.fields);
+    if (!validation.success) return;
+    
     setLoading(true);
     setError(null);
     
     try {
       if (editingId) {
         // Edit existing guest
-        const existingGuest = guests.find((g: Guest) => g.id === editingId);
-        if (!existingGuest) throw new Error("Guest not found");
-        
-        const updatedGuest = await updateGuest({ 
-          id: existingGuest.id,
-          name: formData.name || existingGuest.name,
-          email: formData.email || existingGuest.email,
-          isVip: formData.isVip ?? existingGuest.isVip,
-          qr_code: existingGuest.qr_code,
-          created_at: existingGuest.created_at,
-          updated_at: existingGuest.updated_at
-        });
+        const updatedGuest = await updateGuest({ ...guestData, id: editingId });
         
         setGuests(guests.map((guest: Guest) => 
           guest.id === editingId ? updatedGuest : guest
@@ -104,21 +188,22 @@ const GuestsPage = () => {
       } else {
         // Create new guest
         const newGuest = await createGuest({
-          name: formData.name || '',
-          email: formData.email || '',
-          isVip: formData.isVip || false,
-          created_at: new Date().toISOString()
+          ...guestData,
+          eventId: selectedEventId || undefined
         });
         
+        // Shown on the current page until the list is next loaded, so its QR code can be looked up
         setGuests([...guests, newGuest]);
+        setTotal(total + 1);
         
         // Show QR code modal after creating guest
-        setActiveQR(newGuest.qr_code);
+        setActiveQR(newGuest.qrCode);
         setShowQRModal(true);
         closeModal();
       }
     } catch (err) {
       console.error("Error saving guest:", err);
+      setFieldErrors(getFieldErrors(err) || {});
       setError("Failed to save guest. Please try again.");
     } finally {
       setLoading(false);
@@ -129,6 +214,7 @@ const GuestsPage = () => {
     setFormData({
       name: guest.name,
       email: guest.email,
+      organization: guest.organization,
       isVip: guest.isVip
     });
     setEditingId(guest.id);
@@ -141,7 +227,7 @@ const GuestsPage = () => {
       setError(null);
       try {
         await deleteGuest(id);
-        setGuests(guests.filter((guest: Guest) => guest.id !== id));
+        await loadGuests();
       } catch (err) {
         console.error("Error deleting guest:", err);
         setError("Failed to delete guest. Please try again.");
@@ -151,6 +237,73 @@ const GuestsPage = () => {
     }
   };
 
+  // Guests from other events that can be added to the selected event's roster;
+  // the first page of them matching the search is listed
+  useEffect(() => {
+    if (!isRosterModalOpen || !selectedEventId) return;
+    
+    let cancelled = false;
+    const loadOtherGuests = async () => {
+      try {
+        const result = await fetchGuestPage({
+          excludeEventId: selectedEventId,
+          search: rosterSearch || undefined,
+          page: 1,
+          pageSize: MAX_PAGE_SIZE
+        });
+        if (cancelled) return;
+        setOtherGuests(result.items);
+        setOtherGuestsTotal(result.total);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Error fetching guests:", err);
+        setError("Failed to load guests. Please try again.");
+      }
+    };
+    
+    loadOtherGuests();
+    return () => {
+      cancelled = true;
+    };
+  }, [isRosterModalOpen, selectedEventId, rosterSearch]);
+
+  const openRosterModal = () => {
+    setError(null);
+    setIsRosterModalOpen(true);
+  };
+
+  const closeRosterModal = () => {
+    setIsRosterModalOpen(false);
+    setOtherGuests([]);
+    setOtherGuestsTotal(0);
+    setRosterSearchTerm('');
+  };
+
+  const handleAddToEvent = async (guest: Guest) => {
+    if (!selectedEventId) return;
+    try {
+      await addGuestToEvent(selectedEventId, guest.id);
+      setOtherGuests(prev => prev.filter(g => g.id !== guest.id));
+      setOtherGuestsTotal(prev => prev - 1);
+      await loadGuests();
+    } catch (err) {
+      console.error("Error adding guest to event:", err);
+      setError("Failed to add guest to event. Please try again.");
+    }
+  };
+
+  const handleRemoveFromEvent = async (guest: Guest) => {
+    if (!selectedEventId) return;
+    if (!window.confirm(`Remove ${guest.name} from ${selectedEvent?.name}? The guest itself is kept.`)) return;
+    try {
+      await removeGuestFromEvent(selectedEventId, guest.id);
+      await loadGuests();
+    } catch (err) {
+      console.error("Error removing guest from event:", err);
+      setError("Failed to remove guest from event. Please try again.");
+    }
+  };
+
   const showQRCode = (qrCode: string) => {
     setActiveQR(qrCode);
     setShowQRModal(true);
@@ -165,9 +318,11 @@ const GuestsPage = () => {
     setFormData({
       name: '',
       email: '',
+      organization: '',
       isVip: false
     });
     setEditingId(null);
+    setFieldErrors({});
   };
 
   const closeQRModal = () => {
@@ -177,7 +332,53 @@ const GuestsPage = () => {
 
   // Find guest by QR code for display in modal
   const getGuestByQRCode = (qrCode: string): Guest | undefined => {
-    return guests.find(g => g.qr_code === qrCode);
+    return guests.find(g => g.qrCode === qrCode);
+  };
+
+  // Replace the guest in the list with the server's copy after a QR code change
+  const replaceGuest = (updated: Guest) => {
+    setGuests(prev => prev.map(g => (g.id === updated.id ? { ...g, ...updated } : g)));
+  };
+
+  const handleRevokeQR = async (guest: Guest) => {
+    if (!window.confirm(`Revoke ${guest.name}'s QR code? It will stop working at the door until a new one is issued.`)) {
+      return;
+    }
+
+    try {
+      replaceGuest(await revokeGuestQrCode(guest.id));
+    } catch (err) {
+      console.error("Error revoking QR code:", err);
+      setError("Failed to revoke QR code. Please try again.");
+    }
+  };
+
+  const handleReissueQR = async (guest: Guest) => {
+    if (!window.confirm(`Issue ${guest.name} a new QR code? Their current code will stop working.`)) {
+      return;
+    }
+
+    try {
+      const updated = await reissueGuestQrCode(guest.id);
+      replaceGuest(updated);
+      setActiveQR(updated.qrCode);
+    } catch (err) {
+      console.error("Error issuing new QR code:", err);
+      setError("Failed to issue a new QR code. Please try again.");
+    }
+  };
+
+  // Copy the link to the guest's pass page, where their rotating code is shown
+  const handleCopyPassLink = async (guest: Guest) => {
+    try {
+      const token = await getGuestPassToken(guest.id);
+      await navigator.clipboard.writeText(`${window.location.origin}/pass/${token}`);
+      setPassLinkCopied(true);
+      setTimeout(() => setPassLinkCopied(false), 2000);
+    } catch (err) {
+      console.error("Error copying pass link:", err);
+      setError("Failed to copy the pass link. Please try again.");
+    }
   };
 
   const openVipModal = async (guest: Guest) => {
@@ -233,8 +434,72 @@ const GuestsPage = () => {
     }
   };
 
+  const openEnrolmentModal = async (guest: Guest) => {
+    setSelectedGuest(guest);
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const [enrolledWorkshops, waitlistedWorkshops] = await Promise.all([
+        getGuestEnrolments(guest.id, selectedEventId),
+        getGuestWaitlist(guest.id, selectedEventId)
+      ]);
+      setGuestEnrolments(enrolledWorkshops.map(w => w.id));
+      setGuestWaitlist(Object.fromEntries(waitlistedWorkshops.map(w => [w.id, w.waitlistPosition])));
+    } catch (error) {
+      console.error('Error fetching enrolments:', error);
+      setError('Failed to fetch workshop enrolments. Please try again.');
+    } finally {
+      setLoading(false);
+      setIsEnrolmentModalOpen(true);
+    }
+  };
+
+  const closeEnrolmentModal = () => {
+    setSelectedGuest(null);
+    setGuestEnrolments([]);
+    setGuestWaitlist({});
+    setIsEnrolmentModalOpen(false);
+  };
+
+  const handleEnrolmentToggle = async (workshopId: string) => {
+    if (!selectedGuest) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      
+      if (guestEnrolments.includes(workshopId) || guestWaitlist[workshopId]) {
+        await unenrolGuest(selectedGuest.id, workshopId);
+        setGuestEnrolments(prev => prev.filter(id => id !== workshopId));
+        setGuestWaitlist(prev => {
+          const next = { ...prev };
+          delete next[workshopId];
+          return next;
+        });
+      } else {
+        // Full workshops put the guest on the waitlist instead
+        const result = await enrolGuest(selectedGuest.id, workshopId);
+        if (result.status === 'waitlisted' && result.position) {
+          setGuestWaitlist(prev => ({ ...prev, [workshopId]: result.position as number }));
+        } else {
+          setGuestEnrolments(prev => [...prev, workshopId]);
+        }
+      }
+    } catch (error) {
+      console.error('Error updating enrolment:', error);
+      setError(`Failed to update enrolment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const availableVipWorkshops = workshops.filter(w => w.isVip);
+  // Non-VIP guests cannot enrol in VIP workshops
+  const enrollableWorkshops = selectedGuest?.isVip ? workshops : workshops.filter(w => !w.isVip);
+
   // Show loading or error states
-  if (loading && guests.length === 0) {
+  if (!loaded && !error) {
     return (
       <div className="flex justify-center items-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
@@ -242,7 +507,7 @@ const GuestsPage = () => {
     );
   }
 
-  if (error && guests.length === 0) {
+  if (error && !loaded) {
     return (
       <div className="bg-error-50 dark:bg-error-950 border-l-4 border-error-500 p-4 rounded-md">
         <div className="flex">
@@ -266,19 +531,80 @@ const GuestsPage = () => {
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-8 gap-4">
         <div>
           <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100 mb-2">Guests</h1>
-          <p className="text-neutral-600 dark:text-neutral-400">Manage your event participants</p>
+          <p className="text-neutral-600 dark:text-neutral-400">
+            {selectedEvent ? `Manage the participants of ${selectedEvent.name}` : 'Manage your event participants'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {selectedEventId && (
+            <button
+              onClick={openRosterModal}
+              className="flex items-center px-4 py-2 btn-secondary"
+              disabled={loading}
+            >
+              <UserPlus size={18} className="mr-1" />
+              Add Existing
+            </button>
+          )}
+          <button
+            onClick={openModal}
+            className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+            disabled={loading}
+          >
+            <Plus size={18} className="mr-1" />
+            Add Guest
+          </button>
         </div>
-        <button
-          onClick={openModal}
-          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
-          disabled={loading}
-        >
-          <Plus size={18} className="mr-1" />
-          Add Guest
-        </button>
       </div>
 
-      {guests.length === 0 ? (
+      {(total > 0 || hasFilters) && (
+        <div className="card p-6 mb-6">
+          <div className="flex flex-col sm:flex-row flex-wrap gap-4 sm:items-center">
+            <div className="relative flex-1 min-w-[12rem] max-w-sm">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={20} />
+              <input
+                type="text"
+                placeholder="Search by name, email or organization..."
+                value={searchTerm}
+                onChange={(e) => changeFilter(setSearchTerm)(e.target.value)}
+                className="input-field pl-10 w-full"
+              />
+            </div>
+            <input
+              type="text"
+              placeholder="Organization"
+              value={organizationFilter}
+              onChange={(e) => changeFilter(setOrganizationFilter)(e.target.value)}
+              className="input-field w-full sm:w-48"
+              aria-label="Organization"
+            />
+            <select
+              value={vipFilter}
+              onChange={(e) => changeFilter(setVipFilter)(e.target.value as 'all' | 'vip' | 'regular')}
+              className="input-field w-full sm:w-auto"
+              aria-label="Guest type"
+            >
+              <option value="all">All Guests</option>
+              <option value="vip">VIP Guests</option>
+              <option value="regular">Regular Guests</option>
+            </select>
+            <select
+              value={sortKey}
+              onChange={(e) => changeFilter(setSortKey)(e.target.value)}
+              className="input-field w-full sm:w-auto sm:ml-auto"
+              aria-label="Sort by"
+            >
+              {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+                <option key={key} value={key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {total === 0 && !hasFilters ? (
         <div className="card p-8 text-center">
           <div className="flex justify-center mb-4">
             <div className="rounded-full bg-primary-50 dark:bg-primary-900/30 p-3">
@@ -298,7 +624,7 @@ const GuestsPage = () => {
           </button>
         </div>
       ) : (
-        <div className="card overflow-hidden">
+        <div className={`card overflow-hidden transition-opacity ${loading ? 'opacity-60' : ''}`}>
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-neutral-200 dark:divide-neutral-700">
               <thead className="bg-neutral-50 dark:bg-neutral-800">
@@ -309,6 +635,9 @@ const GuestsPage = () => {
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
                     Email
                   </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                    Organization
+                  </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
                     Date Added
                   </th>
@@ -322,16 +651,34 @@ const GuestsPage = () => {
                   <tr key={guest.id} className="hover:bg-neutral-50 dark:hover:bg-neutral-700/50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="font-medium text-neutral-900 dark:text-neutral-100">{guest.name}</div>
+                      {guest.qrRevokedAt && (
+                        <span className="inline-flex items-center px-2 py-0.5 mt-1 rounded-full text-xs font-medium bg-error-100 dark:bg-error-900/30 text-error-800 dark:text-error-300">
+                          QR revoked
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-neutral-500 dark:text-neutral-400">{guest.email}</div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-neutral-500 dark:text-neutral-400">{guest.organization}</div>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-neutral-500 dark:text-neutral-400">
-                        {new Date(guest.created_at).toLocaleDateString()}
+                        {new Date(guest.createdAt).toLocaleDateString()}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {selectedEventId && (
+                        <button 
+                          onClick={() => openEnrolmentModal(guest)}
+                          className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 mr-3"
+                          title="Manage Enrolments"
+                          aria-label="Manage Enrolments"
+                        >
+                          <ClipboardList size={18} />
+                        </button>
+                      )}
                       {guest.isVip && (
                         <button 
                           onClick={() => openVipModal(guest)}
@@ -343,11 +690,11 @@ const GuestsPage = () => {
                         </button>
                       )}
                       <button 
-                        onClick={() => showQRCode(guest.qr_code)}
+                        onClick={() => showQRCode(guest.qrCode)}
                         className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 mr-3"
                         title="View QR Code"
                         aria-label="View QR Code"
-                        disabled={!guest.qr_code}
+                        disabled={!guest.qrCode}
                       >
                         <QrCode size={18} />
                       </button>
@@ -359,6 +706,16 @@ const GuestsPage = () => {
                       >
                         <Pencil size={18} />
                       </button>
+                      {selectedEventId && (
+                        <button 
+                          onClick={() => handleRemoveFromEvent(guest)}
+                          className="text-neutral-600 dark:text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-300 mr-3"
+                          title="Remove from Event"
+                          aria-label="Remove from Event"
+                        >
+                          <UserMinus size={18} />
+                        </button>
+                      )}
                       <button 
                         onClick={() => handleDelete(guest.id)}
                         className="text-error-600 dark:text-error-400 hover:text-error-700 dark:hover:text-error-300"
@@ -370,9 +727,23 @@ const GuestsPage = () => {
                     </td>
                   </tr>
                 ))}
+                {guests.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-neutral-500 dark:text-neutral-400">
+                      No guests found
+                    </td>
+                  </tr>
+                )}
               </tbody>
             </table>
           </div>
+          <Pagination
+            page={page}
+            pageSize={DEFAULT_PAGE_SIZE}
+            total={total}
+            onPageChange={setPage}
+            disabled={loading}
+          />
         </div>
       )}
 
@@ -408,6 +779,7 @@ const GuestsPage = () => {
                       required
                       className="input-field w-full"
                     />
+                    <FieldError message={fieldErrors.name} />
                   </div>
                   
                   <div className="mb-4">
@@ -422,6 +794,21 @@ const GuestsPage = () => {
                       onChange={handleInputChange}
                       className="input-field w-full"
                     />
+                    <FieldError message={fieldErrors.email} />
+                  </div>
+
+                  <div className="mb-4">
+                    <label htmlFor="organization" className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-1">
+                      Organization
+                    </label>
+                    <input
+                      type="text"
+                      id="organization"
+                      name="organization"
+                      value={formData.organization || ''}
+                      onChange={handleInputChange}
+                      className="input-field w-full"
+                    />
                   </div>
 
                   <div className="mb-4">
@@ -479,7 +866,13 @@ const GuestsPage = () => {
                   {getGuestByQRCode(activeQR)?.name || 'Guest'} QR Code
                 </h3>
                 
-                {getGuestByQRCode(activeQR) && (
+                {getGuestByQRCode(activeQR)?.qrRevokedAt && (
+                  <div className="mb-4 p-3 bg-error-50 dark:bg-error-900/20 border-l-4 border-error-500 rounded text-sm text-error-700 dark:text-error-400">
+                    This code was revoked and no longer checks the guest in. Issue a new code to replace it.
+                  </div>
+                )}
+
+                {getGuestByQRCode(activeQR) && !getGuestByQRCode(activeQR)?.qrRevokedAt && (
                   <div className="flex flex-col items-center">
                     <QRCodeGenerator 
                       value={activeQR} 
@@ -488,6 +881,16 @@ const GuestsPage = () => {
                     <p className="mt-4 text-neutral-600 dark:text-neutral-400 text-sm text-center">
                       Scan this code for check-in at the event
                     </p>
+                    {activeQR.startsWith('guest-') && (
+                      <p className="mt-2 text-warning-700 dark:text-warning-400 text-xs text-center">
+                        This is an old-style unsigned code. Issue a new code to replace it before old codes are retired.
+                      </p>
+                    )}
+                    {selectedEvent?.dynamicQr && (
+                      <p className="mt-2 text-warning-700 dark:text-warning-400 text-xs text-center">
+                        This event only accepts rotating codes. Send the guest their pass link instead of this code.
+                      </p>
+                    )}
                   </div>
                 )}
                 
@@ -498,7 +901,37 @@ const GuestsPage = () => {
                 )}
               </div>
               
-              <div className="bg-neutral-50 dark:bg-neutral-800/50 px-4 py-3 sm:px-6 flex justify-end">
+              <div className="bg-neutral-50 dark:bg-neutral-800/50 px-4 py-3 sm:px-6 flex flex-col sm:flex-row sm:justify-end sm:gap-2">
+                {getGuestByQRCode(activeQR) && !getGuestByQRCode(activeQR)?.qrRevokedAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevokeQR(getGuestByQRCode(activeQR)!)}
+                    className="inline-flex items-center justify-center px-4 py-2 text-sm text-error-600 dark:text-error-400 hover:bg-error-50 dark:hover:bg-error-900/20 rounded-lg mb-3 sm:mb-0"
+                  >
+                    <Ban size={16} className="mr-1" />
+                    Revoke Code
+                  </button>
+                )}
+                {getGuestByQRCode(activeQR) && !getGuestByQRCode(activeQR)?.qrRevokedAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleCopyPassLink(getGuestByQRCode(activeQR)!)}
+                    className="btn-secondary inline-flex items-center justify-center mb-3 sm:mb-0 sm:w-auto"
+                  >
+                    <Link size={16} className="mr-1" />
+                    {passLinkCopied ? 'Link Copied' : 'Copy Pass Link'}
+                  </button>
+                )}
+                {getGuestByQRCode(activeQR) && (
+                  <button
+                    type="button"
+                    onClick={() => handleReissueQR(getGuestByQRCode(activeQR)!)}
+                    className="btn-primary inline-flex items-center justify-center mb-3 sm:mb-0 sm:w-auto"
+                  >
+                    <RefreshCw size={16} className="mr-1" />
+                    Issue New Code
+                  </button>
+                )}
                 <button
                   type="button"
                   onClick={closeQRModal}
@@ -512,6 +945,80 @@ const GuestsPage = () => {
         </div>
       )}
 
+      {/* Add Existing Guests Modal */}
+      {isRosterModalOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto animate-fade-in" onClick={closeRosterModal}>
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div className="fixed inset-0 transition-opacity z-40">
+              <div className="absolute inset-0 bg-neutral-900 opacity-75 dark:opacity-80"></div>
+            </div>
+
+            {/* Modal content */}
+            <div 
+              className="inline-block align-bottom card text-left overflow-hidden animate-slide-up sm:my-8 sm:align-middle sm:max-w-lg sm:w-full relative z-50"
+              onClick={(e) => e.stopPropagation()} 
+            >
+              <div className="p-6">
+                <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100 mb-4">
+                  Add Guests to {selectedEvent?.name}
+                </h3>
+                
+                <div className="relative mb-4">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={20} />
+                  <input
+                    type="text"
+                    placeholder="Search guests..."
+                    value={rosterSearchTerm}
+                    onChange={(e) => setRosterSearchTerm(e.target.value)}
+                    className="input-field pl-10 w-full"
+                  />
+                </div>
+                
+                {otherGuests.length === 0 ? (
+                  <p className="text-neutral-500 dark:text-neutral-400">
+                    {rosterSearch ? 'No guests match your search.' : 'Every guest is already registered for this event.'}
+                  </p>
+                ) : (
+                  <div className="space-y-1 max-h-80 overflow-y-auto">
+                    {otherGuests.map(guest => (
+                      <div key={guest.id} className="flex items-center justify-between p-2 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded">
+                        <span>
+                          <span className="font-medium text-neutral-800 dark:text-neutral-200">{guest.name}</span>
+                          <span className="text-sm text-neutral-500 dark:text-neutral-400 ml-2">{guest.email}</span>
+                        </span>
+                        <button
+                          onClick={() => handleAddToEvent(guest)}
+                          className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300"
+                          title="Add to Event"
+                          aria-label="Add to Event"
+                        >
+                          <UserPlus size={18} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {otherGuestsTotal > otherGuests.length && (
+                  <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-400">
+                    Showing {otherGuests.length} of {otherGuestsTotal} guests; search to find others.
+                  </p>
+                )}
+              </div>
+              
+              <div className="bg-neutral-50 dark:bg-neutral-800/50 px-4 py-3 sm:px-6 flex justify-end">
+                <button
+                  type="button"
+                  onClick={closeRosterModal}
+                  className="btn-primary sm:w-auto"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* VIP Workshop Access Modal */}
       {isVipModalOpen && selectedGuest && (
         <div className="fixed inset-0 z-50 overflow-y-auto animate-fade-in" onClick={closeVipModal}>
@@ -534,11 +1041,11 @@ const GuestsPage = () => {
                   <div className="flex justify-center p-4">
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
                   </div>
-                ) : workshops.length === 0 ? (
+                ) : availableVipWorkshops.length === 0 ? (
                   <p className="text-neutral-500 dark:text-neutral-400">No VIP workshops available.</p>
                 ) : (
                   <div className="space-y-1">
-                    {workshops.map(workshop => (
+                    {availableVipWorkshops.map(workshop => (
                       <label key={workshop.id} className="flex items-center p-2 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded">
                         <input
                           type="checkbox"
@@ -575,6 +1082,77 @@ const GuestsPage = () => {
           </div>
         </div>
       )}
+
+      {/* Workshop Enrolment Modal */}
+      {isEnrolmentModalOpen && selectedGuest && (
+        <div className="fixed inset-0 z-50 overflow-y-auto animate-fade-in" onClick={closeEnrolmentModal}>
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div className="fixed inset-0 transition-opacity z-40">
+              <div className="absolute inset-0 bg-neutral-900 opacity-75 dark:opacity-80"></div>
+            </div>
+
+            {/* Modal content */}
+            <div 
+              className="inline-block align-bottom card text-left overflow-hidden animate-slide-up sm:my-8 sm:align-middle sm:max-w-lg sm:w-full relative z-50"
+              onClick={(e) => e.stopPropagation()} 
+            >
+              <div className="p-6">
+                <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100 mb-4">
+                  Workshop Enrolments for {selectedGuest.name}
+                </h3>
+                
+                {error && (
+                  <p className="text-sm text-error-600 dark:text-error-400 mb-3">{error}</p>
+                )}
+                
+                {loading && guestEnrolments.length === 0 ? (
+                  <div className="flex justify-center p-4">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
+                  </div>
+                ) : enrollableWorkshops.length === 0 ? (
+                  <p className="text-neutral-500 dark:text-neutral-400">No workshops available in this event.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {enrollableWorkshops.map(workshop => (
+                      <label key={workshop.id} className="flex items-center p-2 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded">
+                        <input
+                          type="checkbox"
+                          checked={guestEnrolments.includes(workshop.id) || Boolean(guestWaitlist[workshop.id])}
+                          onChange={() => handleEnrolmentToggle(workshop.id)}
+                          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300 dark:border-neutral-700 rounded"
+                          disabled={loading}
+                        />
+                        <span className="ml-2">
+                          <span className="font-medium text-neutral-800 dark:text-neutral-200">{workshop.name}</span>
+                          {workshop.isVip && (
+                            <span className="text-sm text-warning-600 dark:text-warning-400 ml-2">VIP</span>
+                          )}
+                          {guestWaitlist[workshop.id] && (
+                            <span className="text-sm text-neutral-500 dark:text-neutral-400 ml-2">
+                              Waitlisted #{guestWaitlist[workshop.id]}
+                            </span>
+                          )}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+              
+              <div className="bg-neutral-50 dark:bg-neutral-800/50 px-4 py-3 sm:px-6 flex justify-end">
+                <button
+                  type="button"
+                  onClick={closeEnrolmentModal}
+                  className="btn-primary sm:w-auto"
+                  disabled={loading}
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
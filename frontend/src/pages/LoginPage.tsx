@@ -1,36 +1,66 @@
 import { useState, useContext } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
-import { Eye, EyeOff, Lock, User } from 'lucide-react';
+import { Eye, EyeOff, KeyRound, Lock, User } from 'lucide-react';
 import { AuthContext } from '../context/AuthContext';
+import { startLoginTwoFactorSetup } from '../api';
+import { TwoFactorSetup } from '../types';
+import AuthenticatorSetup from '../components/AuthenticatorSetup';
+import RecoveryCodes from '../components/RecoveryCodes';
 
 type FormData = {
   username: string;
   password: string;
 };
 
+// "45 seconds" or "15 minutes"
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+};
+
 const LoginPage = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { login } = useContext(AuthContext);
+  const { login, completeTwoFactor } = useContext(AuthContext);
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+
+  // Second step for accounts with two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
   
   const { register, handleSubmit, formState: { errors } } = useForm<FormData>();
 
+  const goToApp = () => {
+    // Get the redirect path from location state or default to dashboard
+    const from = (location.state as { from?: { pathname?: string } } | null)?.from?.pathname || '/';
+    navigate(from, { replace: true });
+  };
+
   const onSubmit = async (data: FormData) => {
     setIsLoading(true);
     setError(null);
     
     try {
       // Use the login function from AuthContext
-      const success = await login(data.username, data.password);
+      const result = await login(data.username, data.password);
       
-      if (success) {
-        // Get the redirect path from location state or default to dashboard
-        const from = (location.state as any)?.from?.pathname || '/';
-        navigate(from, { replace: true });
+      if (result.status === 'signed-in') {
+        goToApp();
+      } else if (result.status === 'two-factor') {
+        setChallengeToken(result.challengeToken);
+        // Policy requires an authenticator app this account doesn't have yet
+        if (result.setupRequired) {
+          setSetup(await startLoginTwoFactorSetup(result.challengeToken));
+        }
+      } else if (result.status === 'throttled') {
+        setError(`Too many failed sign-in attempts. Try again in ${formatWait(result.retryAfter)}.`);
       } else {
         setError('Invalid username or password');
       }
@@ -42,6 +72,36 @@ const LoginPage = () => {
     }
   };
 
+  const onVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const result = await completeTwoFactor(challengeToken, useRecoveryCode ? { recoveryCode: code } : { code });
+      // A newly set up app comes with recovery codes to write down first
+      if (result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        goToApp();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      console.error('Two-factor error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const backToPassword = () => {
+    setChallengeToken(null);
+    setSetup(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setError(null);
+  };
+
   const togglePasswordVisibility = () => {
     setShowPassword(!showPassword);
   };
@@ -72,88 +132,167 @@ const LoginPage = () => {
           </div>
         )}
 
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="space-y-4">
+        {recoveryCodes ? (
+          <div className="space-y-6">
+            <RecoveryCodes codes={recoveryCodes} />
+            <button
+              type="button"
+              onClick={goToApp}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              I've saved my codes, continue
+            </button>
+          </div>
+        ) : challengeToken ? (
+          <form className="mt-8 space-y-6" onSubmit={onVerify}>
+            {setup ? (
+              <>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Your account needs two-factor authentication. Set up an authenticator app to continue.
+                </p>
+                <AuthenticatorSetup setup={setup} />
+              </>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {useRecoveryCode
+                  ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                  : 'Enter the 6-digit code from your authenticator app.'}
+              </p>
+            )}
+
             <div>
-              <label htmlFor="username" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Username
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
               </label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <User className="h-5 w-5 text-gray-400" />
+                  <KeyRound className="h-5 w-5 text-gray-400" />
                 </div>
                 <input
-                  id="username"
+                  id="code"
                   type="text"
-                  autoComplete="username"
-                  {...register('username', { required: 'Username is required' })}
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
                   className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
-                  placeholder="Username"
-                />
-              </div>
-              {errors.username && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.username.message}</p>
-              )}
-            </div>
-
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Password
-              </label>
-              <div className="relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Lock className="h-5 w-5 text-gray-400" />
-                </div>
-                <input
-                  id="password"
-                  type={showPassword ? "text" : "password"}
-                  autoComplete="current-password"
-                  {...register('password', { required: 'Password is required' })}
-                  className="block w-full pl-10 pr-10 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
-                  placeholder="Password"
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                  required
                 />
-                <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
-                  <button
-                    type="button"
-                    onClick={togglePasswordVisibility}
-                    className="text-gray-400 hover:text-gray-500 focus:outline-none"
-                  >
-                    {showPassword ? (
-                      <EyeOff className="h-5 w-5" />
-                    ) : (
-                      <Eye className="h-5 w-5" />
-                    )}
-                  </button>
-                </div>
               </div>
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.password.message}</p>
-              )}
             </div>
-          </div>
 
-          <div>
             <button
               type="submit"
               disabled={isLoading}
               className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? (
-                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-              ) : null}
-              Sign in
+              {isLoading ? 'Verifying...' : 'Verify'}
             </button>
-          </div>
 
-          <div className="text-center text-sm">
-            <p className="text-gray-500 dark:text-gray-500 text-xs">
-              Please enter your credentials to sign in
-            </p>
-          </div>
-        </form>
+            <div className="flex justify-between text-sm">
+              <button type="button" onClick={backToPassword} className="text-gray-500 dark:text-gray-400 hover:underline">
+                Back
+              </button>
+              {!setup && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode('');
+                  }}
+                  className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                </button>
+              )}
+            </div>
+          </form>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Username
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <User className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="username"
+                    type="text"
+                    autoComplete="username"
+                    {...register('username', { required: 'Username is required' })}
+                    className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    placeholder="Username"
+                  />
+                </div>
+                {errors.username && (
+                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.username.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Password
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    autoComplete="current-password"
+                    {...register('password', { required: 'Password is required' })}
+                    className="block w-full pl-10 pr-10 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    placeholder="Password"
+                  />
+                  <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
+                    <button
+                      type="button"
+                      onClick={togglePasswordVisibility}
+                      className="text-gray-400 hover:text-gray-500 focus:outline-none"
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-5 w-5" />
+                      ) : (
+                        <Eye className="h-5 w-5" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.password.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? (
+                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                ) : null}
+                Sign in
+              </button>
+            </div>
+
+            <div className="text-center text-sm">
+              <p className="text-gray-500 dark:text-gray-500 text-xs">
+                Please enter your credentials to sign in
+              </p>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,262 @@
+import { useState, useEffect, useContext } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, ShieldCheck, ShieldOff } from 'lucide-react';
+import { AuthContext } from '../context/AuthContext';
+import { TwoFactorSetup, TwoFactorStatus } from '../types';
+import {
+  fetchTwoFactorStatus,
+  startTwoFactorSetup,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+} from '../api';
+import AuthenticatorSetup from '../components/AuthenticatorSetup';
+import RecoveryCodes from '../components/RecoveryCodes';
+
+// Actions on an enabled app that need a code from it first
+type ConfirmAction = 'regenerate' | 'disable';
+
+// The signed-in user's account: password and two-factor authentication
+const ProfilePage = () => {
+  const { user } = useContext(AuthContext);
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const loadStatus = async () => {
+    try {
+      setError(null);
+      setStatus(await fetchTwoFactorStatus());
+    } catch (err) {
+      console.error('Error loading two-factor status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status');
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const resetForms = () => {
+    setSetup(null);
+    setConfirmAction(null);
+    setUseRecoveryCode(false);
+    setCode('');
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSetup(await startTwoFactorSetup());
+    } catch (err) {
+      console.error('Error starting two-factor setup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start two-factor setup');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading(true);
+      setError(null);
+      setRecoveryCodes(await enableTwoFactor(code));
+      resetForms();
+      await loadStatus();
+    } catch (err) {
+      console.error('Error enabling two-factor authentication:', err);
+      setError(err instanceof Error ? err.message : 'Failed to enable two-factor authentication');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading(true);
+      setError(null);
+      if (confirmAction === 'regenerate') {
+        setRecoveryCodes(await regenerateRecoveryCodes(code));
+      } else {
+        await disableTwoFactor(useRecoveryCode ? { recoveryCode: code } : { code });
+      }
+      resetForms();
+      await loadStatus();
+    } catch (err) {
+      console.error('Error updating two-factor authentication:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update two-factor authentication');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const codeInput = (
+    <div>
+      <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+        {useRecoveryCode ? 'Recovery code' : 'Code from your authenticator app'}
+      </label>
+      <input
+        type="text"
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className="input-field w-full max-w-xs"
+        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+        required
+      />
+    </div>
+  );
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-6 p-4 bg-error-50 dark:bg-error-900/20 border-l-4 border-error-500 rounded">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-error-500" />
+            <p className="ml-3 text-error-700 dark:text-error-400">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100 mb-2">Profile</h1>
+        <p className="text-neutral-600 dark:text-neutral-400">
+          Signed in as {user?.username} ({user?.role})
+        </p>
+      </div>
+
+      <div className="card max-w-2xl mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">Password</h2>
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              Changing it signs you out on your other devices.
+            </p>
+          </div>
+          <Link to="/change-password" className="btn-secondary whitespace-nowrap text-center">
+            Change Password
+          </Link>
+        </div>
+      </div>
+
+      <div className="card max-w-2xl">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">Two-factor authentication</h2>
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              Sign in with a code from an authenticator app on your phone as well as your password.
+            </p>
+          </div>
+          {status && (
+            status.enabled ? (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-success-100 dark:bg-success-900/30 text-success-800 dark:text-success-300 whitespace-nowrap">
+                <ShieldCheck size={14} className="mr-1" />
+                On
+              </span>
+            ) : (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 whitespace-nowrap">
+                <ShieldOff size={14} className="mr-1" />
+                Off
+              </span>
+            )
+          )}
+        </div>
+
+        {status?.required && !status.enabled && (
+          <p className="mb-4 text-sm text-warning-700 dark:text-warning-400">
+            Two-factor authentication is required for your role. You will be asked to set it up the next time you sign in.
+          </p>
+        )}
+
+        {recoveryCodes ? (
+          <div>
+            <RecoveryCodes codes={recoveryCodes} />
+            <div className="mt-4 flex justify-end">
+              <button type="button" onClick={() => setRecoveryCodes(null)} className="btn-primary">
+                Done
+              </button>
+            </div>
+          </div>
+        ) : setup ? (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <AuthenticatorSetup setup={setup} />
+            {codeInput}
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={resetForms} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary" disabled={loading}>
+                {loading ? 'Checking...' : 'Turn On'}
+              </button>
+            </div>
+          </form>
+        ) : confirmAction ? (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              {confirmAction === 'regenerate'
+                ? 'New recovery codes replace all of your current ones.'
+                : 'You will only need your password to sign in.'}
+            </p>
+            {codeInput}
+            {confirmAction === 'disable' && (
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                }}
+                className="text-sm text-primary-600 dark:text-primary-400 hover:underline"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+            )}
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={resetForms} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary" disabled={loading}>
+                {loading ? 'Saving...' : confirmAction === 'regenerate' ? 'Regenerate Codes' : 'Turn Off'}
+              </button>
+            </div>
+          </form>
+        ) : status?.enabled ? (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              {status.recoveryCodesLeft} recovery {status.recoveryCodesLeft === 1 ? 'code' : 'codes'} left
+            </p>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setConfirmAction('regenerate')} className="btn-secondary">
+                New Recovery Codes
+              </button>
+              {!status.required && (
+                <button type="button" onClick={() => setConfirmAction('disable')} className="btn-secondary text-error-600 dark:text-error-400">
+                  Turn Off
+                </button>
+              )}
+            </div>
+          </div>
+        ) : status && (
+          <div className="flex justify-end">
+            <button type="button" onClick={handleStartSetup} className="btn-primary" disabled={loading}>
+              Set Up Authenticator App
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePage;
@@ -1,14 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useContext } from 'react';
 import { getWorkshops } from '../utils/dataUtils';
+import { EventContext } from '../context/EventContext';
+import { ScanQueueContext } from '../context/ScanQueueContext';
 import QRScanner from '../components/QRScanner';
-import { CircleAlert, Info, Camera, CameraOff, XCircle, Volume2, VolumeX } from 'lucide-react';
+import ManualCheckIn from '../components/ManualCheckIn';
+import { ApiErrorCode, CheckInStatus, ScanMode, Workshop } from '../types';
+import { CircleAlert, Info, Camera, CameraOff, LogIn, LogOut, XCircle, Volume2, VolumeX, Wifi, WifiOff, RefreshCw, TriangleAlert, QrCode, UserSearch } from 'lucide-react';
 
-interface Workshop {
-  id: string;
-  name: string;
-  isVip: boolean;
-  maxCapacity?: number;
-}
+// Friendlier wording for refusals the door staff see most
+const ERROR_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  VIP_REQUIRED: 'This guest does not have VIP status for this workshop',
+  VIP_NOT_INVITED: 'This VIP guest is not on the invite list for this workshop',
+  CAPACITY_FULL: 'Workshop has reached its maximum capacity',
+  ALREADY_CHECKED_IN: 'Guest has already checked in to this workshop',
+  ALREADY_CHECKED_OUT: 'Guest has already checked out of this workshop',
+  NOT_CHECKED_IN: 'Guest has to check in before checking out'
+};
+
+// Scanning QR codes, or looking guests up by name when their code can't be read
+type CheckInMethod = 'qr' | 'manual';
 
 interface Notification {
   type: 'success' | 'error';
@@ -17,8 +27,12 @@ interface Notification {
 }
 
 const ScannerPage = () => {
+  const { selectedEventId } = useContext(EventContext);
+  const { isOnline, queueDepth, syncState, lastSyncedAt, conflicts, syncNow, clearConflicts } = useContext(ScanQueueContext);
   const [workshops, setWorkshops] = useState<Workshop[]>([]);
   const [selectedWorkshopId, setSelectedWorkshopId] = useState<string>('');
+  const [scanMode, setScanMode] = useState<ScanMode>('check-in');
+  const [checkInMethod, setCheckInMethod] = useState<CheckInMethod>('qr');
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [scannerActive, setScannerActive] = useState(false);
   const [scannerKey, setScannerKey] = useState(0);
@@ -30,11 +44,9 @@ const ScannerPage = () => {
     const fetchWorkshops = async () => {
       try {
         setLoading(true);
-        const workshopsData = await getWorkshops();
+        const workshopsData = await getWorkshops(selectedEventId);
         setWorkshops(workshopsData);
-        if (workshopsData.length > 0) {
-          setSelectedWorkshopId(workshopsData[0].id);
-        }
+        setSelectedWorkshopId(workshopsData.length > 0 ? workshopsData[0].id : '');
       } catch (error) {
         console.error('Error fetching workshops:', error);
         addNotification('error', 'Failed to load workshops. Please try again.');
@@ -49,7 +61,7 @@ const ScannerPage = () => {
       console.log('Scanner page unmounting, stopping scanner');
       setScannerActive(false);
     };
-  }, []);
+  }, [selectedEventId]);
 
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -87,24 +99,39 @@ const ScannerPage = () => {
     setNotifications(prev => prev.filter(n => n.timestamp !== timestamp));
   };
 
-  const handleSuccess = (guestName: string) => {
-    addNotification('success', `${guestName} checked in successfully!`);
+  const handleSuccess = (guestName: string, checkinStatus?: CheckInStatus | null) => {
+    if (scanMode === 'check-out') {
+      addNotification('success', `${guestName} checked out successfully!`);
+    } else if (checkinStatus === 'late') {
+      addNotification('success', `${guestName} checked in late.`);
+    } else {
+      addNotification('success', `${guestName} checked in successfully!`);
+    }
   };
 
-  const handleError = (message: string) => {
-    // Map backend error messages to more user-friendly messages
-    let displayMessage = message;
-    if (message.includes('Non-VIP guest cannot attend')) {
-      displayMessage = 'This guest does not have VIP status for this workshop';
-    } else if (message.includes('does not have access to this VIP workshop')) {
-      displayMessage = 'This VIP guest is not registered for this workshop';
-    } else if (message.includes('maximum capacity')) {
-      displayMessage = 'Workshop has reached its maximum capacity';
-    } else if (message.includes('already recorded')) {
-      displayMessage = 'Guest has already checked in to this workshop';
+  const handleError = (message: string, code?: ApiErrorCode) => {
+    addNotification('error', (code && ERROR_MESSAGES[code]) || message);
+  };
+
+  const syncLabel = () => {
+    if (syncState === 'syncing') return 'Syncing queued scans…';
+    if (!isOnline || syncState === 'offline') return 'Offline - scans are saved on this device';
+    if (syncState === 'error') return 'Sync failed - will retry';
+    if (queueDepth > 0) return 'Waiting to sync';
+    return lastSyncedAt
+      ? `All scans synced at ${new Date(lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+      : 'All scans synced';
+  };
+
+  const workshopName = (workshopId: string) =>
+    workshops.find(workshop => workshop.id === workshopId)?.name || 'Unknown workshop';
+
+  const changeCheckInMethod = (method: CheckInMethod) => {
+    setCheckInMethod(method);
+    // The camera is not needed while looking guests up by name
+    if (method === 'manual') {
+      setScannerActive(false);
     }
-    
-    addNotification('error', displayMessage);
   };
 
   const startScanning = () => {
@@ -126,7 +153,7 @@ const ScannerPage = () => {
       <div className="mb-8 flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-neutral-800 dark:text-neutral-100 mb-2">QR Scanner</h1>
-          <p className="text-neutral-600 dark:text-neutral-400">Scan guest QR codes to record attendance</p>
+          <p className="text-neutral-600 dark:text-neutral-400">Scan guest QR codes to record check-ins and check-outs</p>
         </div>
         <button
           onClick={toggleSound}
@@ -147,7 +174,7 @@ const ScannerPage = () => {
             <CircleAlert className="h-5 w-5 text-warning-500 mt-0.5 flex-shrink-0" />
             <div className="ml-3">
               <p className="text-warning-700 dark:text-warning-400">
-                No workshops created yet. Please create at least one workshop before scanning.
+                No workshops in this event yet. Please create at least one workshop before scanning.
               </p>
             </div>
           </div>
@@ -187,6 +214,119 @@ const ScannerPage = () => {
                 </option>
               ))}
             </select>
+
+            <div className="mt-4">
+              <span className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">Scan Mode</span>
+              <div className="inline-flex rounded-lg border border-neutral-200 dark:border-neutral-700 overflow-hidden">
+                <button
+                  onClick={() => setScanMode('check-in')}
+                  className={`flex items-center px-4 py-2 text-sm ${
+                    scanMode === 'check-in'
+                      ? 'bg-primary-600 text-white'
+                      : 'text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+                  }`}
+                >
+                  <LogIn size={16} className="mr-1.5" />
+                  Check-in
+                </button>
+                <button
+                  onClick={() => setScanMode('check-out')}
+                  className={`flex items-center px-4 py-2 text-sm ${
+                    scanMode === 'check-out'
+                      ? 'bg-primary-600 text-white'
+                      : 'text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+                  }`}
+                >
+                  <LogOut size={16} className="mr-1.5" />
+                  Check-out
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <span className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">Identify Guests By</span>
+              <div className="inline-flex rounded-lg border border-neutral-200 dark:border-neutral-700 overflow-hidden">
+                <button
+                  onClick={() => changeCheckInMethod('qr')}
+                  className={`flex items-center px-4 py-2 text-sm ${
+                    checkInMethod === 'qr'
+                      ? 'bg-primary-600 text-white'
+                      : 'text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+                  }`}
+                >
+                  <QrCode size={16} className="mr-1.5" />
+                  QR code
+                </button>
+                <button
+                  onClick={() => changeCheckInMethod('manual')}
+                  className={`flex items-center px-4 py-2 text-sm ${
+                    checkInMethod === 'manual'
+                      ? 'bg-primary-600 text-white'
+                      : 'text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+                  }`}
+                >
+                  <UserSearch size={16} className="mr-1.5" />
+                  Name search
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Offline queue and sync status */}
+          <div className={`card p-4 mb-6 border-l-4 ${
+            !isOnline || syncState === 'offline'
+              ? 'border-warning-500'
+              : syncState === 'error' ? 'border-error-500' : 'border-success-500'
+          }`}>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center">
+                {isOnline && syncState !== 'offline' ? (
+                  <Wifi className="h-5 w-5 text-success-500 flex-shrink-0" />
+                ) : (
+                  <WifiOff className="h-5 w-5 text-warning-500 flex-shrink-0" />
+                )}
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-neutral-800 dark:text-neutral-100">{syncLabel()}</p>
+                  <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                    {queueDepth === 1 ? '1 scan queued' : `${queueDepth} scans queued`}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => syncNow()}
+                disabled={!isOnline || queueDepth === 0 || syncState === 'syncing'}
+                className="flex items-center px-3 py-1.5 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RefreshCw size={14} className={`mr-1.5 ${syncState === 'syncing' ? 'animate-spin' : ''}`} />
+                Sync now
+              </button>
+            </div>
+
+            {conflicts.length > 0 && (
+              <div className="mt-4 border-t border-neutral-200 dark:border-neutral-700 pt-3">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="flex items-center text-sm font-medium text-error-700 dark:text-error-400">
+                    <TriangleAlert size={16} className="mr-1.5" />
+                    {conflicts.length === 1 ? '1 offline scan was not accepted' : `${conflicts.length} offline scans were not accepted`}
+                  </p>
+                  <button
+                    onClick={() => clearConflicts()}
+                    className="text-xs text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {conflicts.map(conflict => (
+                    <li key={conflict.clientId} className="text-xs text-neutral-600 dark:text-neutral-400">
+                      <span className="font-medium text-neutral-800 dark:text-neutral-200">{conflict.guestName}</span>
+                      {' '}({conflict.mode}, {workshopName(conflict.workshopId)},{' '}
+                      {new Date(conflict.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}): {conflict.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           {/* Notifications Stack */}
@@ -230,97 +370,113 @@ const ScannerPage = () => {
             ))}
           </div>
 
-          <div className="card overflow-hidden bg-neutral-900 dark:bg-neutral-800/50">
-            <div className="p-6">
-              <div className="flex items-center justify-between mb-6">
-                <div className="flex items-center space-x-2 px-4 py-2 bg-neutral-800 dark:bg-neutral-700 rounded-full">
-                  <div className={`w-2 h-2 rounded-full ${scannerActive ? 'bg-success-500 animate-pulse' : 'bg-neutral-600'}`} />
-                  <span className="text-sm text-neutral-300">
-                    {scannerActive ? 'Scanner Active - Ready to Scan' : 'Scanner Inactive'}
-                  </span>
+          {checkInMethod === 'manual' ? (
+            <div className="card p-6">
+              <ManualCheckIn
+                key={selectedWorkshopId}
+                workshopId={selectedWorkshopId}
+                mode={scanMode}
+                eventId={selectedEventId}
+                onSuccess={handleSuccess}
+                onError={handleError}
+              />
+            </div>
+          ) : (
+            <div className="card overflow-hidden bg-neutral-900 dark:bg-neutral-800/50">
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-6">
+                  <div className="flex items-center space-x-2 px-4 py-2 bg-neutral-800 dark:bg-neutral-700 rounded-full">
+                    <div className={`w-2 h-2 rounded-full ${scannerActive ? 'bg-success-500 animate-pulse' : 'bg-neutral-600'}`} />
+                    <span className="text-sm text-neutral-300">
+                      {scannerActive
+                        ? `Scanner Active - Ready to ${scanMode === 'check-out' ? 'Check Out' : 'Check In'}`
+                        : 'Scanner Inactive'}
+                    </span>
+                  </div>
+                  <button
+                    onClick={toggleSound}
+                    className="p-2 rounded-full hover:bg-neutral-800 dark:hover:bg-neutral-700 transition-colors"
+                    title={soundEnabled ? 'Disable Sound' : 'Enable Sound'}
+                  >
+                    {soundEnabled ? (
+                      <Volume2 className="w-5 h-5 text-neutral-400" />
+                    ) : (
+                      <VolumeX className="w-5 h-5 text-neutral-400" />
+                    )}
+                  </button>
                 </div>
-                <button
-                  onClick={toggleSound}
-                  className="p-2 rounded-full hover:bg-neutral-800 dark:hover:bg-neutral-700 transition-colors"
-                  title={soundEnabled ? 'Disable Sound' : 'Enable Sound'}
-                >
-                  {soundEnabled ? (
-                    <Volume2 className="w-5 h-5 text-neutral-400" />
-                  ) : (
-                    <VolumeX className="w-5 h-5 text-neutral-400" />
-                  )}
-                </button>
-              </div>
               
-              <div className="w-full max-w-md mx-auto">
-                {scannerActive && selectedWorkshopId ? (
-                  <div className="relative">
-                    <QRScanner 
-                      key={scannerKey}
-                      workshopId={selectedWorkshopId}
-                      onSuccess={handleSuccess}
-                      onError={handleError}
-                      soundEnabled={soundEnabled}
-                    />
-                    <div className="absolute inset-0 pointer-events-none">
-                      <div className="w-full h-full flex items-center justify-center">
-                        <div className="w-48 h-48 border-2 border-primary-400/50 rounded-lg">
-                          <div className="w-full h-full relative">
-                            <div className="absolute top-0 left-0 w-4 h-4 border-t-2 border-l-2 border-primary-400"></div>
-                            <div className="absolute top-0 right-0 w-4 h-4 border-t-2 border-r-2 border-primary-400"></div>
-                            <div className="absolute bottom-0 left-0 w-4 h-4 border-b-2 border-l-2 border-primary-400"></div>
-                            <div className="absolute bottom-0 right-0 w-4 h-4 border-b-2 border-r-2 border-primary-400"></div>
+                <div className="w-full max-w-md mx-auto">
+                  {scannerActive && selectedWorkshopId ? (
+                    <div className="relative">
+                      <QRScanner 
+                        key={scannerKey}
+                        workshopId={selectedWorkshopId}
+                        mode={scanMode}
+                        onSuccess={handleSuccess}
+                        onError={handleError}
+                        soundEnabled={soundEnabled}
+                      />
+                      <div className="absolute inset-0 pointer-events-none">
+                        <div className="w-full h-full flex items-center justify-center">
+                          <div className="w-48 h-48 border-2 border-primary-400/50 rounded-lg">
+                            <div className="w-full h-full relative">
+                              <div className="absolute top-0 left-0 w-4 h-4 border-t-2 border-l-2 border-primary-400"></div>
+                              <div className="absolute top-0 right-0 w-4 h-4 border-t-2 border-r-2 border-primary-400"></div>
+                              <div className="absolute bottom-0 left-0 w-4 h-4 border-b-2 border-l-2 border-primary-400"></div>
+                              <div className="absolute bottom-0 right-0 w-4 h-4 border-b-2 border-r-2 border-primary-400"></div>
+                            </div>
                           </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                ) : (
-                  <div className="relative h-[300px] flex items-center justify-center bg-neutral-800 dark:bg-neutral-700/50 rounded-lg overflow-hidden">
-                    <div className="absolute inset-0 flex items-center justify-center">
-                      <div className="relative w-48 h-48 border-2 border-neutral-600/50 rounded-lg">
-                        <div className="w-full h-full relative">
-                          <div className="absolute top-0 left-0 w-4 h-4 border-t-2 border-l-2 border-neutral-500"></div>
-                          <div className="absolute top-0 right-0 w-4 h-4 border-t-2 border-r-2 border-neutral-500"></div>
-                          <div className="absolute bottom-0 left-0 w-4 h-4 border-b-2 border-l-2 border-neutral-500"></div>
-                          <div className="absolute bottom-0 right-0 w-4 h-4 border-b-2 border-r-2 border-neutral-500"></div>
+                  ) : (
+                    <div className="relative h-[300px] flex items-center justify-center bg-neutral-800 dark:bg-neutral-700/50 rounded-lg overflow-hidden">
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <div className="relative w-48 h-48 border-2 border-neutral-600/50 rounded-lg">
+                          <div className="w-full h-full relative">
+                            <div className="absolute top-0 left-0 w-4 h-4 border-t-2 border-l-2 border-neutral-500"></div>
+                            <div className="absolute top-0 right-0 w-4 h-4 border-t-2 border-r-2 border-neutral-500"></div>
+                            <div className="absolute bottom-0 left-0 w-4 h-4 border-b-2 border-l-2 border-neutral-500"></div>
+                            <div className="absolute bottom-0 right-0 w-4 h-4 border-b-2 border-r-2 border-neutral-500"></div>
+                          </div>
                         </div>
                       </div>
+                      <div className="flex flex-col items-center justify-center z-10">
+                        <Camera size={48} className="text-neutral-500 mb-4" />
+                        <p className="text-neutral-400 text-center">
+                          Camera preview will<br />appear here
+                        </p>
+                      </div>
                     </div>
-                    <div className="flex flex-col items-center justify-center z-10">
-                      <Camera size={48} className="text-neutral-500 mb-4" />
-                      <p className="text-neutral-400 text-center">
-                        Camera preview will<br />appear here
-                      </p>
-                    </div>
-                  </div>
-                )}
+                  )}
                 
-                <div className="mt-6 flex justify-center">
-                  <button 
-                    onClick={scannerActive ? () => setScannerActive(false) : startScanning}
-                    className={`px-6 py-3 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2 ${
-                      scannerActive
-                        ? 'bg-error-600 hover:bg-error-700 text-white'
-                        : 'bg-primary-600 hover:bg-primary-700 text-white'
-                    }`}
-                  >
-                    {scannerActive ? (
-                      <>
-                        <CameraOff size={20} />
-                        <span>Stop Scanning</span>
-                      </>
-                    ) : (
-                      <>
-                        <Camera size={20} />
-                        <span>Start Scanning</span>
-                      </>
-                    )}
-                  </button>
+                  <div className="mt-6 flex justify-center">
+                    <button 
+                      onClick={scannerActive ? () => setScannerActive(false) : startScanning}
+                      className={`px-6 py-3 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2 ${
+                        scannerActive
+                          ? 'bg-error-600 hover:bg-error-700 text-white'
+                          : 'bg-primary-600 hover:bg-primary-700 text-white'
+                      }`}
+                    >
+                      {scannerActive ? (
+                        <>
+                          <CameraOff size={20} />
+                          <span>Stop Scanning</span>
+                        </>
+                      ) : (
+                        <>
+                          <Camera size={20} />
+                          <span>Start Scanning</span>
+                        </>
+                      )}
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,383 @@
+import { useState, useEffect } from 'react';
+import { AlertCircle, Copy, KeyRound, Plus, Trash2 } from 'lucide-react';
+import { ApiKey, ApiKeyScope, ServerSetting } from '../types';
+import { fetchApiKeys, createApiKey, revokeApiKey, fetchServerSettings } from '../api';
+
+// Scopes by the kind of record they cover, as offered when creating a key
+const SCOPE_GROUPS: { label: string; scopes: { scope: ApiKeyScope; label: string }[] }[] = [
+  { label: 'Events', scopes: [{ scope: 'events:read', label: 'Read' }, { scope: 'events:write', label: 'Write' }] },
+  { label: 'Workshops', scopes: [{ scope: 'workshops:read', label: 'Read' }, { scope: 'workshops:write', label: 'Write' }] },
+  { label: 'Guests and enrolments', scopes: [{ scope: 'guests:read', label: 'Read' }, { scope: 'guests:write', label: 'Write' }] },
+  { label: 'Attendance and scans', scopes: [{ scope: 'attendance:read', label: 'Read' }, { scope: 'attendance:write', label: 'Write' }] },
+  { label: 'Analytics and certificates', scopes: [{ scope: 'analytics:read', label: 'Read' }] }
+];
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return '—';
+  // SQLite timestamps have no zone marker but are UTC
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  return date.toLocaleString();
+};
+
+const SOURCE_LABELS: Record<ServerSetting['source'], string> = {
+  default: 'Default',
+  file: 'Config file',
+  env: 'Environment'
+};
+
+const formatSettingValue = (value: ServerSetting['value']) => {
+  if (value === null) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  return String(value);
+};
+
+const emptyForm = { name: '', scopes: [] as ApiKeyScope[], allowedIps: '', expiresOn: '' };
+
+// Admin settings: the admin's own API keys for integrations such as the registration
+// site, badge printers and kiosks, and the server's configuration as it is in effect
+const SettingsPage = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [serverSettings, setServerSettings] = useState<ServerSetting[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New key modal; `createdKey` holds the key to hand out once it is made
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [createdKey, setCreatedKey] = useState<ApiKey | null>(null);
+  const [keyCopied, setKeyCopied] = useState(false);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [keyList, settingList] = await Promise.all([fetchApiKeys(), fetchServerSettings()]);
+      setApiKeys(keyList);
+      setServerSettings(settingList);
+    } catch (err) {
+      console.error('Error loading settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setForm(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope) ? prev.scopes.filter(s => s !== scope) : [...prev.scopes, scope]
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading(true);
+      setError(null);
+      const created = await createApiKey({
+        name: form.name,
+        scopes: form.scopes,
+        allowedIps: form.allowedIps.split(/[\s,]+/).filter(Boolean),
+        // The key works until the end of the chosen day
+        expiresAt: form.expiresOn ? new Date(`${form.expiresOn}T23:59:59`).toISOString() : null
+      });
+      setCreatedKey(created);
+      // The list doesn't keep the secret
+      setApiKeys(prev => [{ ...created, key: undefined }, ...prev]);
+    } catch (err) {
+      console.error('Error creating API key:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke ${apiKey.name}? Anything using it stops working straight away.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await revokeApiKey(apiKey.id);
+      setApiKeys(prev => prev.filter(k => k.id !== apiKey.id));
+    } catch (err) {
+      console.error('Error revoking API key:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    }
+  };
+
+  const copyKey = (key: string) => {
+    navigator.clipboard.writeText(key)
+      .then(() => {
+        setKeyCopied(true);
+        setTimeout(() => setKeyCopied(false), 2000);
+      })
+      .catch(err => console.error('Could not copy API key:', err));
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setForm(emptyForm);
+    setCreatedKey(null);
+    setKeyCopied(false);
+  };
+
+  const isExpired = (apiKey: ApiKey) => Boolean(apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date());
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-6 p-4 bg-error-50 dark:bg-error-900/20 border-l-4 border-error-500 rounded">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-error-500" />
+            <p className="ml-3 text-error-700 dark:text-error-400">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100 mb-2">Settings</h1>
+          <p className="text-neutral-600 dark:text-neutral-400">Your API keys for integrations and the server's configuration</p>
+        </div>
+        <button
+          onClick={() => setIsModalOpen(true)}
+          className="flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+          disabled={loading}
+        >
+          <Plus size={18} className="mr-1" />
+          New API Key
+        </button>
+      </div>
+
+      <div className="card overflow-hidden mb-8">
+        {apiKeys.length === 0 ? (
+          <div className="py-8 text-center text-neutral-500 dark:text-neutral-400">
+            <KeyRound size={32} className="mx-auto mb-2 opacity-60" />
+            <p>{loading ? 'Loading API keys...' : 'No API keys yet'}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-neutral-200 dark:divide-neutral-700">
+              <thead className="bg-neutral-50 dark:bg-neutral-800">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                    Key
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                    Scopes
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                    Restrictions
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                    Last Used
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-neutral-900 divide-y divide-neutral-200 dark:divide-neutral-700">
+                {apiKeys.map(apiKey => (
+                  <tr key={apiKey.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-neutral-900 dark:text-neutral-100">{apiKey.name}</div>
+                      <div className="text-xs font-mono text-neutral-500 dark:text-neutral-400">{apiKey.keyPrefix}…</div>
+                      <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                        Created {formatDateTime(apiKey.createdAt)}{apiKey.createdBy && ` by ${apiKey.createdBy}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map(scope => (
+                          <span
+                            key={scope}
+                            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-300"
+                          >
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-neutral-600 dark:text-neutral-400">
+                      <div className={isExpired(apiKey) ? 'text-error-600 dark:text-error-400' : undefined}>
+                        {apiKey.expiresAt
+                          ? `${isExpired(apiKey) ? 'Expired' : 'Expires'} ${formatDateTime(apiKey.expiresAt)}`
+                          : 'Never expires'}
+                      </div>
+                      <div className="text-xs">
+                        {apiKey.allowedIps.length > 0 ? `Only from ${apiKey.allowedIps.join(', ')}` : 'Any IP address'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-600 dark:text-neutral-400">
+                      {apiKey.lastUsedAt ? (
+                        <>
+                          <div>{formatDateTime(apiKey.lastUsedAt)}</div>
+                          {apiKey.lastUsedIp && <div className="text-xs">from {apiKey.lastUsedIp}</div>}
+                        </>
+                      ) : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => handleRevoke(apiKey)}
+                        className="p-1 text-neutral-500 hover:text-error-600 dark:hover:text-error-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                        aria-label="Revoke API key"
+                        title="Revoke API key"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {serverSettings.length > 0 && (
+        <div className="card">
+          <h2 className="text-lg font-medium text-neutral-900 dark:text-neutral-100 mb-1">Server Settings</h2>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+            Set in the backend's config file or environment; changes apply after a restart. Secrets are not shown.
+          </p>
+          <dl className="divide-y divide-neutral-200 dark:divide-neutral-700">
+            {serverSettings.map(setting => (
+              <div key={setting.name} className="py-3 grid grid-cols-1 sm:grid-cols-3 gap-1 sm:gap-4">
+                <dt>
+                  <div className="text-sm font-medium text-neutral-900 dark:text-neutral-100">{setting.description}</div>
+                  <div className="text-xs font-mono text-neutral-500 dark:text-neutral-400">{setting.env}</div>
+                </dt>
+                <dd className="sm:col-span-2 flex items-start justify-between gap-4">
+                  <span className="text-sm font-mono text-neutral-800 dark:text-neutral-200 break-all">{formatSettingValue(setting.value)}</span>
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${
+                      setting.source === 'default'
+                        ? 'bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300'
+                        : 'bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-300'
+                    }`}
+                    title={setting.source === 'default' ? undefined : `Default: ${formatSettingValue(setting.default)}`}
+                  >
+                    {SOURCE_LABELS[setting.source]}
+                  </span>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      {/* New API Key Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-neutral-900 bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50 animate-fade-in">
+          <div className="card w-full max-w-lg max-h-[90vh] overflow-y-auto animate-slide-up">
+            <h2 className="text-xl font-semibold mb-4 text-neutral-900 dark:text-neutral-100">New API Key</h2>
+            {createdKey?.key ? (
+              <div>
+                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+                  Copy this key into {createdKey.name} now. It acts with your account's access, within its scopes, and won't be shown again.
+                </p>
+                <div className="flex gap-2">
+                  <input type="text" readOnly value={createdKey.key} className="input-field w-full text-sm font-mono" onFocus={(e) => e.target.select()} />
+                  <button
+                    type="button"
+                    onClick={() => copyKey(createdKey.key!)}
+                    className="btn-secondary inline-flex items-center whitespace-nowrap"
+                  >
+                    <Copy size={16} className="mr-1" />
+                    {keyCopied ? 'Copied' : 'Copy'}
+                  </button>
+                </div>
+                <div className="mt-6 flex justify-end">
+                  <button type="button" onClick={closeModal} className="btn-primary">
+                    Done
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="input-field w-full"
+                    placeholder="Badge printer, registration site..."
+                    required
+                  />
+                </div>
+
+                <div>
+                  <span className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">Scopes</span>
+                  <div className="space-y-2">
+                    {SCOPE_GROUPS.map(group => (
+                      <div key={group.label} className="flex items-center justify-between">
+                        <span className="text-sm text-neutral-700 dark:text-neutral-300">{group.label}</span>
+                        <div className="flex gap-4">
+                          {group.scopes.map(({ scope, label }) => (
+                            <label key={scope} className="flex items-center text-sm text-neutral-600 dark:text-neutral-400">
+                              <input
+                                type="checkbox"
+                                checked={form.scopes.includes(scope)}
+                                onChange={() => toggleScope(scope)}
+                                className="mr-1"
+                              />
+                              {label}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Expires on</label>
+                  <input
+                    type="date"
+                    value={form.expiresOn}
+                    onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+                    className="input-field w-full"
+                  />
+                  <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">Leave empty for a key that doesn't expire.</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Allowed IP addresses</label>
+                  <textarea
+                    value={form.allowedIps}
+                    onChange={(e) => setForm({ ...form, allowedIps: e.target.value })}
+                    className="input-field w-full font-mono text-sm"
+                    rows={2}
+                    placeholder="203.0.113.7, 10.0.0.0/8"
+                  />
+                  <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">Addresses or CIDR ranges. Leave empty to allow any.</p>
+                </div>
+
+                <div className="flex justify-end space-x-3">
+                  <button type="button" onClick={closeModal} className="btn-secondary">
+                    Cancel
+                  </button>
+                  <button type="submit" className="btn-primary" disabled={loading || form.scopes.length === 0}>
+                    {loading ? 'Creating...' : 'Create Key'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPage;
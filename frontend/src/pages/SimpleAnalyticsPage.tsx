@@ -59,7 +59,7 @@ const SimpleAnalyticsPage = () => {
         const eligibleCount = eligibleGuests.filter(Boolean).length;
         
         // Calculate overall attendance percentage
-        let totalPossibleAttendance = guests.length * workshops.length;
+        const totalPossibleAttendance = guests.length * workshops.length;
         const percentAttended = totalPossibleAttendance > 0 
           ? (attendance.length / totalPossibleAttendance) * 100 
           : 0;
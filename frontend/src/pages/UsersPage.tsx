@@ -0,0 +1,854 @@
+import { useState, useEffect, useContext, Fragment } from 'react';
+import { AlertCircle, Ban, CheckCircle, Clock, Copy, KeyRound, LogOut, Mail, MapPin, MonitorSmartphone, Plus, ShieldCheck, ShieldOff, Trash2, UserCog } from 'lucide-react';
+import { AuthContext } from '../context/AuthContext';
+import { EventInfo, ManagedUser, ScannerAssignments, UserInvite, UserRole, UserSession, Workshop } from '../types';
+import {
+  fetchUsers,
+  createUser,
+  updateUser,
+  resetUserPassword,
+  deleteUser,
+  fetchInvites,
+  createInvite,
+  deleteInvite,
+  fetchUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
+  resetUserTwoFactor,
+  fetchScannerAssignments,
+  updateScannerAssignments,
+  fetchEvents,
+  fetchWorkshops
+} from '../api';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  scanner: 'Scanner'
+};
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return '—';
+  // SQLite timestamps have no zone marker but are UTC
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  return date.toLocaleString();
+};
+
+const inviteLink = (token: string) => `${window.location.origin}/register?invite=${encodeURIComponent(token)}`;
+
+const UsersPage = () => {
+  const { user: currentUser } = useContext(AuthContext);
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [invites, setInvites] = useState<UserInvite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedUserId, setExpandedUserId] = useState<number | null>(null);
+
+  // Add user modal
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [newUser, setNewUser] = useState<{ username: string; password: string; role: UserRole }>({ username: '', password: '', role: 'scanner' });
+
+  // Reset password modal
+  const [passwordUser, setPasswordUser] = useState<ManagedUser | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  // Sessions modal
+  const [sessionsUser, setSessionsUser] = useState<ManagedUser | null>(null);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+
+  // Access modal for scanners: the events and workshops they work at, and what they may delete
+  const [accessUser, setAccessUser] = useState<ManagedUser | null>(null);
+  const [accessEvents, setAccessEvents] = useState<EventInfo[]>([]);
+  const [accessWorkshops, setAccessWorkshops] = useState<Workshop[]>([]);
+  const [assignments, setAssignments] = useState<ScannerAssignments>({ eventIds: [], workshopIds: [] });
+  const [canDeleteAttendance, setCanDeleteAttendance] = useState(false);
+
+  // Invite modal; `createdInvite` holds the link to hand out once it is made
+  const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+  const [inviteRole, setInviteRole] = useState<UserRole>('scanner');
+  const [createdInvite, setCreatedInvite] = useState<UserInvite | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const isSelf = (user: ManagedUser) => String(user.id) === String(currentUser?.id);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [userList, inviteList] = await Promise.all([fetchUsers(), fetchInvites()]);
+      setUsers(userList);
+      setInvites(inviteList);
+    } catch (err) {
+      console.error('Error loading users:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const replaceUser = (updated: ManagedUser) => {
+    setUsers(prev => prev.map(u => (u.id === updated.id ? updated : u)));
+  };
+
+  const handleRoleChange = async (user: ManagedUser, role: UserRole) => {
+    try {
+      setError(null);
+      replaceUser(await updateUser(user.id, { role }));
+    } catch (err) {
+      console.error('Error changing role:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    }
+  };
+
+  const handleToggleDisabled = async (user: ManagedUser) => {
+    if (!user.disabled && !window.confirm(`Disable ${user.username}? They will be signed out and can't log in until the account is enabled again.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      replaceUser(await updateUser(user.id, { disabled: !user.disabled }));
+    } catch (err) {
+      console.error('Error updating account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update account');
+    }
+  };
+
+  const handleResetTwoFactor = async (user: ManagedUser) => {
+    if (!window.confirm(`Turn off two-factor authentication for ${user.username}? Only do this once you are sure it's really them asking.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      replaceUser(await resetUserTwoFactor(user.id));
+    } catch (err) {
+      console.error('Error resetting two-factor authentication:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reset two-factor authentication');
+    }
+  };
+
+  const handleDelete = async (user: ManagedUser) => {
+    if (!window.confirm(`Delete ${user.username}? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await deleteUser(user.id);
+      setUsers(prev => prev.filter(u => u.id !== user.id));
+    } catch (err) {
+      console.error('Error deleting user:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete user');
+    }
+  };
+
+  const handleAddUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading(true);
+      setError(null);
+      const created = await createUser(newUser.username, newUser.password, newUser.role);
+      setUsers(prev => [...prev, created]);
+      closeAddModal();
+    } catch (err) {
+      console.error('Error creating user:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create user');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordUser) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      await resetUserPassword(passwordUser.id, newPassword);
+      if (!isSelf(passwordUser)) {
+        replaceUser({ ...passwordUser, mustChangePassword: true });
+      }
+      closePasswordModal();
+    } catch (err) {
+      console.error('Error resetting password:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openSessionsModal = async (user: ManagedUser) => {
+    setSessionsUser(user);
+    setSessions([]);
+
+    try {
+      setError(null);
+      setSessions(await fetchUserSessions(user.id));
+    } catch (err) {
+      console.error('Error loading sessions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    }
+  };
+
+  const handleRevokeSession = async (session: UserSession) => {
+    if (!sessionsUser) return;
+
+    try {
+      setError(null);
+      await revokeUserSession(sessionsUser.id, session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      console.error('Error revoking session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke session');
+    }
+  };
+
+  const handleRevokeAllSessions = async () => {
+    if (!sessionsUser) return;
+    const warning = isSelf(sessionsUser) ? ' This includes the session you are using now.' : '';
+    if (!window.confirm(`Sign ${sessionsUser.username} out on every device?${warning}`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await revokeAllUserSessions(sessionsUser.id);
+      setSessions([]);
+    } catch (err) {
+      console.error('Error revoking sessions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke sessions');
+    }
+  };
+
+  const openAccessModal = async (user: ManagedUser) => {
+    setAccessUser(user);
+    setAssignments({ eventIds: [], workshopIds: [] });
+    setCanDeleteAttendance(user.permissions.includes('attendance:delete'));
+
+    try {
+      setError(null);
+      const [eventList, workshopList, current] = await Promise.all([
+        fetchEvents(),
+        fetchWorkshops(),
+        fetchScannerAssignments(user.id)
+      ]);
+      setAccessEvents(eventList);
+      setAccessWorkshops(workshopList);
+      setAssignments(current);
+    } catch (err) {
+      console.error('Error loading assignments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load assignments');
+    }
+  };
+
+  const toggleAssignment = (key: keyof ScannerAssignments, id: string) => {
+    setAssignments(prev => ({
+      ...prev,
+      [key]: prev[key].includes(id) ? prev[key].filter(existing => existing !== id) : [...prev[key], id]
+    }));
+  };
+
+  const handleSaveAccess = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accessUser) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      // Workshops of an assigned event are already covered by it
+      await updateScannerAssignments(accessUser.id, {
+        eventIds: assignments.eventIds,
+        workshopIds: assignments.workshopIds.filter(id => {
+          const workshop = accessWorkshops.find(w => w.id === id);
+          return !workshop?.eventId || !assignments.eventIds.includes(workshop.eventId);
+        })
+      });
+      replaceUser(await updateUser(accessUser.id, { permissions: canDeleteAttendance ? ['attendance:delete'] : [] }));
+      setAccessUser(null);
+    } catch (err) {
+      console.error('Error saving access:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save access');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const invite = await createInvite(inviteRole);
+      setCreatedInvite(invite);
+      setInvites(prev => [invite, ...prev]);
+    } catch (err) {
+      console.error('Error creating invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create invite');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteInvite = async (invite: UserInvite) => {
+    try {
+      setError(null);
+      await deleteInvite(invite.id);
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+    } catch (err) {
+      console.error('Error deleting invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete invite');
+    }
+  };
+
+  const copyInviteLink = (token: string) => {
+    navigator.clipboard.writeText(inviteLink(token))
+      .then(() => {
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      })
+      .catch(err => console.error('Could not copy invite link:', err));
+  };
+
+  const closeAddModal = () => {
+    setIsAddModalOpen(false);
+    setNewUser({ username: '', password: '', role: 'scanner' });
+  };
+
+  const closePasswordModal = () => {
+    setPasswordUser(null);
+    setNewPassword('');
+  };
+
+  const closeInviteModal = () => {
+    setIsInviteModalOpen(false);
+    setInviteRole('scanner');
+    setCreatedInvite(null);
+    setLinkCopied(false);
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-6 p-4 bg-error-50 dark:bg-error-900/20 border-l-4 border-error-500 rounded">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-error-500" />
+            <p className="ml-3 text-error-700 dark:text-error-400">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100 mb-2">Users</h1>
+          <p className="text-neutral-600 dark:text-neutral-400">Manage admin and scanner accounts</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setIsInviteModalOpen(true)}
+            className="flex items-center px-4 py-2 border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-lg transition-colors"
+            disabled={loading}
+          >
+            <Mail size={18} className="mr-1" />
+            Invite User
+          </button>
+          <button
+            onClick={() => setIsAddModalOpen(true)}
+            className="flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+            disabled={loading}
+          >
+            <Plus size={18} className="mr-1" />
+            Add User
+          </button>
+        </div>
+      </div>
+
+      <div className="card overflow-hidden mb-8">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-neutral-200 dark:divide-neutral-700">
+            <thead className="bg-neutral-50 dark:bg-neutral-800">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                  User
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                  Role
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                  Status
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                  Last Login
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-neutral-900 divide-y divide-neutral-200 dark:divide-neutral-700">
+              {users.map(user => {
+                const lastLogin = [...user.loginHistory].reverse().find(login => login.event !== 'lockout');
+                return (
+                  <Fragment key={user.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
+                          {user.username}
+                          {isSelf(user) && <span className="ml-2 text-xs text-neutral-500 dark:text-neutral-400">(you)</span>}
+                        </div>
+                        <div className="text-xs text-neutral-500 dark:text-neutral-400">Created {formatDateTime(user.createdAt)}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <select
+                          value={user.role}
+                          onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                          disabled={isSelf(user)}
+                          className="input-field py-1 text-sm"
+                          aria-label={`Role of ${user.username}`}
+                        >
+                          {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {user.disabled ? (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-error-100 dark:bg-error-900/30 text-error-800 dark:text-error-300">
+                            Disabled
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-success-100 dark:bg-success-900/30 text-success-800 dark:text-success-300">
+                            Active
+                          </span>
+                        )}
+                        {user.twoFactorEnabled && (
+                          <span
+                            className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-300"
+                            title="Signs in with an authenticator app"
+                          >
+                            <ShieldCheck size={12} className="mr-1" />
+                            2FA
+                          </span>
+                        )}
+                        {user.mustChangePassword && (
+                          <span
+                            className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-warning-100 dark:bg-warning-900/30 text-warning-800 dark:text-warning-300"
+                            title="Has to choose a new password at the next login"
+                          >
+                            New password
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-600 dark:text-neutral-400">
+                        {lastLogin ? formatDateTime(lastLogin.timestamp) : 'Never'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => setExpandedUserId(expandedUserId === user.id ? null : user.id)}
+                            className="p-1 text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                            aria-label="Show login history"
+                            title="Login history"
+                          >
+                            <Clock size={16} />
+                          </button>
+                          <button
+                            onClick={() => openSessionsModal(user)}
+                            className="p-1 text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                            aria-label="Show sessions"
+                            title="Signed-in devices"
+                          >
+                            <MonitorSmartphone size={16} />
+                          </button>
+                          {user.role === 'scanner' && (
+                            <button
+                              onClick={() => openAccessModal(user)}
+                              className="p-1 text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                              aria-label="Edit access"
+                              title="Assigned events and workshops"
+                            >
+                              <MapPin size={16} />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setPasswordUser(user)}
+                            className="p-1 text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                            aria-label="Reset password"
+                            title="Reset password"
+                          >
+                            <KeyRound size={16} />
+                          </button>
+                          {!isSelf(user) && (
+                            <>
+                              {user.twoFactorEnabled && (
+                                <button
+                                  onClick={() => handleResetTwoFactor(user)}
+                                  className="p-1 text-neutral-500 hover:text-warning-600 dark:hover:text-warning-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                                  aria-label="Reset two-factor authentication"
+                                  title="Reset two-factor authentication"
+                                >
+                                  <ShieldOff size={16} />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleToggleDisabled(user)}
+                                className="p-1 text-neutral-500 hover:text-warning-600 dark:hover:text-warning-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                                aria-label={user.disabled ? 'Enable account' : 'Disable account'}
+                                title={user.disabled ? 'Enable account' : 'Disable account'}
+                              >
+                                {user.disabled ? <CheckCircle size={16} /> : <Ban size={16} />}
+                              </button>
+                              <button
+                                onClick={() => handleDelete(user)}
+                                className="p-1 text-neutral-500 hover:text-error-600 dark:hover:text-error-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                                aria-label="Delete user"
+                                title="Delete user"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {expandedUserId === user.id && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 bg-neutral-50 dark:bg-neutral-800/50">
+                          {user.loginHistory.length === 0 ? (
+                            <p className="text-sm text-neutral-500 dark:text-neutral-400">No logins recorded</p>
+                          ) : (
+                            <ul className="space-y-1 text-sm text-neutral-600 dark:text-neutral-400">
+                              {[...user.loginHistory].reverse().map((login, index) => (
+                                <li key={index}>
+                                  <span className="font-medium text-neutral-800 dark:text-neutral-200">{formatDateTime(login.timestamp)}</span>
+                                  {login.event === 'lockout' && (
+                                    <span className="ml-2 text-error-600 dark:text-error-400">
+                                      {login.lockedBy === 'ip' ? 'IP locked out' : 'Account locked out'} after failed sign-ins
+                                      {login.lockedUntil && ` until ${formatDateTime(login.lockedUntil)}`}
+                                    </span>
+                                  )}
+                                  {login.ip && <span> from {login.ip}</span>}
+                                  {login.userAgent && <span className="block text-xs truncate">{login.userAgent}</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {invites.length > 0 && (
+        <div className="card">
+          <h2 className="text-lg font-medium text-neutral-900 dark:text-neutral-100 mb-4">Pending Invitations</h2>
+          <ul className="divide-y divide-neutral-200 dark:divide-neutral-700">
+            {invites.map(invite => (
+              <li key={invite.id} className="py-3 flex justify-between items-center">
+                <div>
+                  <div className="text-sm font-medium text-neutral-900 dark:text-neutral-100">{ROLE_LABELS[invite.role]} invitation</div>
+                  <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                    {new Date(invite.expiresAt) < new Date() ? 'Expired' : `Expires ${formatDateTime(invite.expiresAt)}`}
+                    {invite.createdBy && ` · created by ${invite.createdBy}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDeleteInvite(invite)}
+                  className="p-1 text-neutral-500 hover:text-error-600 dark:hover:text-error-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                  aria-label="Delete invitation"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Add User Modal */}
+      {isAddModalOpen && (
+        <div className="fixed inset-0 bg-neutral-900 bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50 animate-fade-in">
+          <div className="card w-full max-w-md animate-slide-up">
+            <h2 className="text-xl font-semibold mb-4 text-neutral-900 dark:text-neutral-100">Add User</h2>
+            <form onSubmit={handleAddUser}>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Username</label>
+                  <input
+                    type="text"
+                    value={newUser.username}
+                    onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+                    className="input-field w-full"
+                    autoComplete="off"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Password</label>
+                  <input
+                    type="password"
+                    value={newUser.password}
+                    onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                    className="input-field w-full"
+                    autoComplete="new-password"
+                    required
+                  />
+                  <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                    They will be asked to choose their own password when they first sign in.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Role</label>
+                  <select
+                    value={newUser.role}
+                    onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+                    className="input-field w-full"
+                  >
+                    {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="mt-6 flex justify-end space-x-3">
+                <button type="button" onClick={closeAddModal} className="btn-secondary">
+                  Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={loading}>
+                  {loading ? 'Saving...' : 'Add User'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Reset Password Modal */}
+      {passwordUser && (
+        <div className="fixed inset-0 bg-neutral-900 bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50 animate-fade-in">
+          <div className="card w-full max-w-md animate-slide-up">
+            <h2 className="flex items-center text-xl font-semibold mb-4 text-neutral-900 dark:text-neutral-100">
+              <UserCog size={20} className="mr-2" />
+              Reset Password for {passwordUser.username}
+            </h2>
+            <form onSubmit={handleResetPassword}>
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">New Password</label>
+                <input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className="input-field w-full"
+                  autoComplete="new-password"
+                  required
+                />
+                {!isSelf(passwordUser) && (
+                  <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                    {passwordUser.username} will be asked to choose a new password at their next sign-in.
+                  </p>
+                )}
+              </div>
+
+              <div className="mt-6 flex justify-end space-x-3">
+                <button type="button" onClick={closePasswordModal} className="btn-secondary">
+                  Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={loading}>
+                  {loading ? 'Saving...' : 'Reset Password'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Sessions Modal */}
+      {sessionsUser && (
+        <div className="fixed inset-0 bg-neutral-900 bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50 animate-fade-in">
+          <div className="card w-full max-w-lg animate-slide-up max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-semibold mb-4 text-neutral-900 dark:text-neutral-100">
+              Devices Signed In as {sessionsUser.username}
+            </h2>
+            {sessions.length === 0 ? (
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">No active sessions</p>
+            ) : (
+              <ul className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                {sessions.map(session => (
+                  <li key={session.id} className="py-3 flex justify-between items-start gap-4">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate">
+                        {session.userAgent || 'Unknown device'}
+                      </div>
+                      <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                        {session.ip || 'Unknown IP'} · last seen {formatDateTime(session.lastSeenAt)}
+                        {session.current && ' · this session'}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevokeSession(session)}
+                      className="inline-flex items-center text-sm text-error-600 dark:text-error-400 hover:underline whitespace-nowrap"
+                    >
+                      <LogOut size={14} className="mr-1" />
+                      Sign out
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              {sessions.length > 0 && (
+                <button type="button" onClick={handleRevokeAllSessions} className="btn-secondary text-error-600 dark:text-error-400">
+                  Sign Out Everywhere
+                </button>
+              )}
+              <button type="button" onClick={() => setSessionsUser(null)} className="btn-primary">
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Access Modal */}
+      {accessUser && (
+        <div className="fixed inset-0 bg-neutral-900 bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50 animate-fade-in">
+          <div className="card w-full max-w-lg animate-slide-up max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-semibold mb-1 text-neutral-900 dark:text-neutral-100">
+              Access for {accessUser.username}
+            </h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-4">
+              Scanners only see and scan guests of the events and workshops they are assigned to.
+            </p>
+            <form onSubmit={handleSaveAccess}>
+              {accessEvents.length === 0 ? (
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">You have no events yet</p>
+              ) : (
+                <ul className="space-y-3">
+                  {accessEvents.map(event => {
+                    const eventAssigned = assignments.eventIds.includes(event.id);
+                    return (
+                      <li key={event.id}>
+                        <label className="flex items-center text-sm font-medium text-neutral-900 dark:text-neutral-100">
+                          <input
+                            type="checkbox"
+                            checked={eventAssigned}
+                            onChange={() => toggleAssignment('eventIds', event.id)}
+                            className="mr-2"
+                          />
+                          {event.name}
+                          <span className="ml-2 text-xs font-normal text-neutral-500 dark:text-neutral-400">all workshops</span>
+                        </label>
+                        <ul className="mt-1 ml-6 space-y-1">
+                          {accessWorkshops.filter(workshop => workshop.eventId === event.id).map(workshop => (
+                            <li key={workshop.id}>
+                              <label className="flex items-center text-sm text-neutral-700 dark:text-neutral-300">
+                                <input
+                                  type="checkbox"
+                                  checked={eventAssigned || assignments.workshopIds.includes(workshop.id)}
+                                  disabled={eventAssigned}
+                                  onChange={() => toggleAssignment('workshopIds', workshop.id)}
+                                  className="mr-2"
+                                />
+                                {workshop.name}
+                              </label>
+                            </li>
+                          ))}
+                        </ul>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              <div className="mt-6 pt-4 border-t border-neutral-200 dark:border-neutral-700">
+                <label className="flex items-center text-sm text-neutral-700 dark:text-neutral-300">
+                  <input
+                    type="checkbox"
+                    checked={canDeleteAttendance}
+                    onChange={(e) => setCanDeleteAttendance(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Can delete attendance records
+                </label>
+              </div>
+
+              <div className="mt-6 flex justify-end space-x-3">
+                <button type="button" onClick={() => setAccessUser(null)} className="btn-secondary">
+                  Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={loading}>
+                  {loading ? 'Saving...' : 'Save Access'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Invite Modal */}
+      {isInviteModalOpen && (
+        <div className="fixed inset-0 bg-neutral-900 bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50 animate-fade-in">
+          <div className="card w-full max-w-md animate-slide-up">
+            <h2 className="text-xl font-semibold mb-4 text-neutral-900 dark:text-neutral-100">Invite User</h2>
+            {createdInvite?.token ? (
+              <div>
+                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+                  Send this link to the new {ROLE_LABELS[createdInvite.role].toLowerCase()}. It works once and expires {formatDateTime(createdInvite.expiresAt)}.
+                  It won't be shown again.
+                </p>
+                <div className="flex gap-2">
+                  <input type="text" readOnly value={inviteLink(createdInvite.token)} className="input-field w-full text-sm" onFocus={(e) => e.target.select()} />
+                  <button
+                    type="button"
+                    onClick={() => copyInviteLink(createdInvite.token!)}
+                    className="btn-secondary inline-flex items-center whitespace-nowrap"
+                  >
+                    <Copy size={16} className="mr-1" />
+                    {linkCopied ? 'Copied' : 'Copy'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Role</label>
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as UserRole)}
+                  className="input-field w-full"
+                >
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button type="button" onClick={closeInviteModal} className="btn-secondary">
+                {createdInvite ? 'Done' : 'Cancel'}
+              </button>
+              {!createdInvite && (
+                <button type="button" onClick={handleCreateInvite} className="btn-primary" disabled={loading}>
+                  {loading ? 'Creating...' : 'Create Invite Link'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsersPage;
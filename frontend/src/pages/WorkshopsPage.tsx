@@ -1,15 +1,68 @@
-import { useState, useEffect } from 'react';
-import { Calendar, Pencil, MapPin, Plus, Trash2 } from 'lucide-react';
-import { Workshop } from '../types';
+import { useState, useEffect, useContext, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, Calendar, CircleAlert, Clock, Pencil, MapPin, Plus, Search, Trash2, UserX, Users, X } from 'lucide-react';
+import { createWorkshopSchema, updateWorkshopSchema, validate, DEFAULT_PAGE_SIZE } from '@eventqrollcall/shared';
+import { Workshop, WorkshopListQuery, EnrolledGuest, WaitlistedGuest, FieldErrors } from '../types';
+import { EventContext } from '../context/EventContext';
+import FieldError from '../components/FieldError';
+import Pagination from '../components/Pagination';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
 import { 
-  fetchWorkshops, 
+  fetchWorkshopPage, 
   createWorkshop, 
   updateWorkshop as apiUpdateWorkshop, 
-  deleteWorkshop 
-} from '../api/apiService';
+  deleteWorkshop,
+  getWorkshopEnrolments,
+  getWorkshopWaitlist,
+  unenrolGuest,
+  markNoShow,
+  reorderWaitlist,
+  getFieldErrors
+} from '../api';
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Suggestions for the time zone field; any IANA zone name is accepted
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'Africa/Casablanca',
+  'Africa/Lagos',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin'
+];
+
+// Orders the list can be sorted in, keyed by the value of the sort select
+const SORT_OPTIONS: Record<string, { label: string; sort: WorkshopListQuery['sort']; order: WorkshopListQuery['order'] }> = {
+  'start': { label: 'Start time', sort: 'startTime', order: 'asc' },
+  'name': { label: 'Name', sort: 'name', order: 'asc' },
+  'location': { label: 'Location', sort: 'location', order: 'asc' },
+  'newest': { label: 'Newest first', sort: 'createdAt', order: 'desc' }
+};
 
 const WorkshopsPage = () => {
+  const { selectedEventId, selectedEvent } = useContext(EventContext);
   const [workshops, setWorkshops] = useState<Workshop[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [vipFilter, setVipFilter] = useState<'all' | 'vip' | 'regular'>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [sortKey, setSortKey] = useState('start');
+  const search = useDebouncedValue(searchTerm.trim());
+  // Only the answer to the latest request is shown when filters change quickly
+  const latestRequest = useRef(0);
+  const [loaded, setLoaded] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [formData, setFormData] = useState<Partial<Workshop>>({
     name: '',
@@ -17,30 +70,79 @@ const WorkshopsPage = () => {
     date: '',
     location: '',
     isVip: false,
-    maxCapacity: undefined
+    maxCapacity: null,
+    minDwellMinutes: null,
+    startTime: '',
+    endTime: '',
+    timezone: browserTimeZone,
+    checkinOpensMinutes: 15,
+    checkinClosesMinutes: 20
   });
   const [editingId, setEditingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [enrolmentWorkshop, setEnrolmentWorkshop] = useState<Workshop | null>(null);
+  const [enrolledGuests, setEnrolledGuests] = useState<EnrolledGuest[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistedGuest[]>([]);
+  const [enrolmentLoading, setEnrolmentLoading] = useState(false);
+  const [enrolmentError, setEnrolmentError] = useState<string | null>(null);
 
   useEffect(() => {
-    loadWorkshops();
-  }, []);
+    setPage(1);
+  }, [selectedEventId]);
 
-  const loadWorkshops = async () => {
+  const loadWorkshops = useCallback(async () => {
+    const request = ++latestRequest.current;
+    if (!selectedEventId) {
+      setWorkshops([]);
+      setTotal(0);
+      setLoading(false);
+      return;
+    }
+    
+    const { sort, order } = SORT_OPTIONS[sortKey];
     try {
       setLoading(true);
+      const result = await fetchWorkshopPage({
+        eventId: selectedEventId,
+        search: search || undefined,
+        isVip: vipFilter === 'all' ? undefined : vipFilter === 'vip',
+        from: fromDate || undefined,
+        to: toDate || undefined,
+        sort,
+        order,
+        page,
+        pageSize: DEFAULT_PAGE_SIZE
+      });
+      if (request !== latestRequest.current) return;
+      setWorkshops(result.items);
+      setTotal(result.total);
       setError(null);
-      const workshopsData = await fetchWorkshops();
-      setWorkshops(workshopsData);
+      setLoaded(true);
     } catch (error) {
+      if (request !== latestRequest.current) return;
       console.error('Error fetching workshops:', error);
       setError('Failed to load workshops. Please try again.');
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) {
+        setLoading(false);
+      }
     }
+  }, [selectedEventId, search, vipFilter, fromDate, toDate, sortKey, page]);
+
+  useEffect(() => {
+    loadWorkshops();
+  }, [loadWorkshops]);
+
+  // Filters apply to the whole list, so changing one starts again from its first page
+  const changeFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
   };
 
+  const hasFilters = Boolean(search || fromDate || toDate || vipFilter !== 'all');
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     if (type === 'checkbox') {
@@ -49,10 +151,10 @@ const WorkshopsPage = () => {
         ...formData,
         [name]: checkbox.checked
       });
-    } else if (name === 'maxCapacity') {
+    } else if (name === 'maxCapacity' || name === 'minDwellMinutes' || name === 'checkinOpensMinutes' || name === 'checkinClosesMinutes') {
       setFormData({
         ...formData,
-        [name]: value ? parseInt(value) : undefined
+        [name]: value ? parseInt(value) : null
       });
     } else {
       setFormData({
@@ -65,52 +167,71 @@ const WorkshopsPage = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    const workshopData = {
+      name: formData.name || '',
+      description: formData.description || '',
+      // Keep the legacy date column in step with the start time
+      date: formData.startTime || formData.date || '',
+      location: formData.location || '',
+      maxCapacity: formData.maxCapacity ?? null,
+      minDwellMinutes: formData.minDwellMinutes ?? null,
+      startTime: formData.startTime || null,
+      endTime: formData.endTime || null,
+      timezone: formData.timezone || null,
+      checkinOpensMinutes: formData.checkinOpensMinutes ?? null,
+      checkinClosesMinutes: formData.checkinClosesMinutes ?? null,
+      dynamicQr: formData.dynamicQr || false
+    };
+    const newWorkshopData = {
+      ...workshopData,
+      isVip: formData.isVip || false,
+      eventId: selectedEventId || ''
+    };
+    
+    const validation = editingId
+      ? validate(updateWorkshopSchema, workshopData)
+      : validate(createWorkshopSchema, newWorkshopData);
+    setFieldErrors(validation.success ? {} : validation.fields);
+    if (!validation.success) return;
+    
     try {
       setLoading(true);
       setError(null);
       
       if (editingId) {
         // Edit existing workshop
-        const updatedWorkshop = await apiUpdateWorkshop({
-          ...formData as Workshop,
-          id: editingId
-        });
+        const updatedWorkshop = await apiUpdateWorkshop({ ...workshopData, id: editingId });
         
         // Update local state
         setWorkshops(prevWorkshops => 
           prevWorkshops.map(workshop => 
-            workshop.id === editingId ? updatedWorkshop : workshop
+            workshop.id === editingId ? { ...workshop, ...updatedWorkshop } : workshop
           )
         );
       } else {
         // Create new workshop
-        const newWorkshopData = {
-          name: formData.name || '',
-          description: formData.description || '',
-          date: formData.date || '',
-          location: formData.location || '',
-          isVip: formData.isVip || false,
-          maxCapacity: formData.maxCapacity,
-          createdAt: new Date().toISOString()
-        };
-        
         const newWorkshop = await createWorkshop(newWorkshopData);
         
-        // Update local state
+        // Shown on the current page until the list is next loaded
         setWorkshops(prevWorkshops => [...prevWorkshops, newWorkshop]);
+        setTotal(prevTotal => prevTotal + 1);
       }
       
       closeModal();
     } catch (error) {
       console.error('Error saving workshop:', error);
-      setError('Failed to save workshop. Please try again.');
+      setFieldErrors(getFieldErrors(error) || {});
+      setError(error instanceof Error ? error.message : 'Failed to save workshop. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
   const handleEdit = (workshop: Workshop) => {
-    setFormData(workshop);
+    setFormData({
+      ...workshop,
+      timezone: workshop.timezone || browserTimeZone
+    });
     setEditingId(workshop.id);
     setIsModalOpen(true);
   };
@@ -121,8 +242,7 @@ const WorkshopsPage = () => {
         setLoading(true);
         setError(null);
         await deleteWorkshop(id);
-        // Update local state
-        setWorkshops(prevWorkshops => prevWorkshops.filter(workshop => workshop.id !== id));
+        await loadWorkshops();
       } catch (error) {
         console.error('Error deleting workshop:', error);
         setError('Failed to delete workshop. Please try again.');
@@ -144,18 +264,131 @@ const WorkshopsPage = () => {
       date: '',
       location: '',
       isVip: false,
-      maxCapacity: undefined
+      maxCapacity: null,
+      minDwellMinutes: null,
+      startTime: '',
+      endTime: '',
+      timezone: browserTimeZone,
+      checkinOpensMinutes: 15,
+      checkinClosesMinutes: 20
     });
+    setFieldErrors({});
     setEditingId(null);
   };
 
+  const loadEnrolments = async (workshopId: string) => {
+    const [enrolled, waiting] = await Promise.all([
+      getWorkshopEnrolments(workshopId),
+      getWorkshopWaitlist(workshopId)
+    ]);
+    setEnrolledGuests(enrolled);
+    setWaitlist(waiting);
+
+    // Keep the counts on the workshop card in step
+    setWorkshops(prevWorkshops =>
+      prevWorkshops.map(workshop =>
+        workshop.id === workshopId
+          ? {
+              ...workshop,
+              enrolledCount: enrolled.filter(guest => guest.enrolmentStatus === 'enrolled').length,
+              waitlistCount: waiting.length
+            }
+          : workshop
+      )
+    );
+  };
+
+  const openEnrolmentModal = async (workshop: Workshop) => {
+    setEnrolmentWorkshop(workshop);
+    setEnrolmentError(null);
+    setEnrolmentLoading(true);
+    try {
+      await loadEnrolments(workshop.id);
+    } catch (error) {
+      console.error('Error fetching enrolments:', error);
+      setEnrolmentError('Failed to load enrolments. Please try again.');
+    } finally {
+      setEnrolmentLoading(false);
+    }
+  };
+
+  const closeEnrolmentModal = () => {
+    setEnrolmentWorkshop(null);
+    setEnrolledGuests([]);
+    setWaitlist([]);
+    setEnrolmentError(null);
+  };
+
+  // Run an enrolment change and reload the lists, since it may promote waitlisted guests
+  const runEnrolmentAction = async (action: () => Promise<unknown>) => {
+    if (!enrolmentWorkshop) return;
+    try {
+      setEnrolmentLoading(true);
+      setEnrolmentError(null);
+      await action();
+      await loadEnrolments(enrolmentWorkshop.id);
+    } catch (error) {
+      console.error('Error updating enrolments:', error);
+      setEnrolmentError(error instanceof Error ? error.message : 'Failed to update enrolments. Please try again.');
+    } finally {
+      setEnrolmentLoading(false);
+    }
+  };
+
+  const handleRemoveEnrolment = (guestId: string) => {
+    if (!enrolmentWorkshop) return;
+    runEnrolmentAction(() => unenrolGuest(guestId, enrolmentWorkshop.id));
+  };
+
+  const handleMarkNoShow = (guestId: string) => {
+    if (!enrolmentWorkshop) return;
+    runEnrolmentAction(() => markNoShow(guestId, enrolmentWorkshop.id));
+  };
+
+  const handleMoveWaitlisted = (index: number, offset: number) => {
+    if (!enrolmentWorkshop) return;
+    const target = index + offset;
+    if (target < 0 || target >= waitlist.length) return;
+
+    const guestIds = waitlist.map(guest => guest.id);
+    [guestIds[index], guestIds[target]] = [guestIds[target], guestIds[index]];
+    runEnrolmentAction(() => reorderWaitlist(enrolmentWorkshop.id, guestIds));
+  };
+
   const formatDate = (dateString: string) => {
     if (!dateString) return '';
     const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
     return new Date(dateString).toLocaleDateString(undefined, options);
   };
 
-  if (loading && workshops.length === 0) {
+  // Start/end are wall-clock strings in the workshop's time zone, so format them as-is
+  const formatTime = (dateTime: string) => {
+    return new Date(dateTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const formatSchedule = (workshop: Workshop) => {
+    if (!workshop.startTime) return formatDate(workshop.date);
+    const range = workshop.endTime
+      ? `${formatTime(workshop.startTime)} – ${formatTime(workshop.endTime)}`
+      : formatTime(workshop.startTime);
+    return `${formatDate(workshop.startTime)}, ${range} (${workshop.timezone})`;
+  };
+
+  if (!selectedEventId) {
+    return (
+      <div className="card p-6 border-l-4 border-warning-500">
+        <div className="flex items-start">
+          <CircleAlert className="h-5 w-5 text-warning-500 mt-0.5 flex-shrink-0" />
+          <p className="ml-3 text-warning-700 dark:text-warning-400">
+            Workshops belong to an event.{' '}
+            <Link to="/events" className="font-medium underline">Create an event</Link> first.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading && !loaded) {
     return (
       <div className="flex justify-center items-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
@@ -163,7 +396,7 @@ const WorkshopsPage = () => {
     );
   }
 
-  if (error && workshops.length === 0) {
+  if (error && !loaded) {
     return (
       <div className="bg-error-50 dark:bg-error-950 border-l-4 border-error-500 p-4 rounded-md">
         <div className="flex">
@@ -192,7 +425,7 @@ const WorkshopsPage = () => {
       <div className="flex justify-between items-center mb-8">
         <div>
           <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100 mb-2">Workshops</h1>
-          <p className="text-neutral-600 dark:text-neutral-400">Manage your event workshops</p>
+          <p className="text-neutral-600 dark:text-neutral-400">Manage the workshops of {selectedEvent?.name}</p>
         </div>
         <button
           onClick={openModal}
@@ -204,7 +437,66 @@ const WorkshopsPage = () => {
         </button>
       </div>
 
-      {workshops.length === 0 ? (
+      {(total > 0 || hasFilters) && (
+        <div className="card p-6 mb-6">
+          <div className="flex flex-col sm:flex-row flex-wrap gap-4 sm:items-center">
+            <div className="relative flex-1 min-w-[12rem] max-w-sm">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={20} />
+              <input
+                type="text"
+                placeholder="Search by name, description or location..."
+                value={searchTerm}
+                onChange={(e) => changeFilter(setSearchTerm)(e.target.value)}
+                className="input-field pl-10 w-full"
+              />
+            </div>
+            <select
+              value={vipFilter}
+              onChange={(e) => changeFilter(setVipFilter)(e.target.value as 'all' | 'vip' | 'regular')}
+              className="input-field w-full sm:w-auto"
+              aria-label="Workshop type"
+            >
+              <option value="all">All Workshops</option>
+              <option value="vip">VIP Workshops</option>
+              <option value="regular">Regular Workshops</option>
+            </select>
+            <label className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+              From
+              <input
+                type="date"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => changeFilter(setFromDate)(e.target.value)}
+                className="input-field"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+              To
+              <input
+                type="date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => changeFilter(setToDate)(e.target.value)}
+                className="input-field"
+              />
+            </label>
+            <select
+              value={sortKey}
+              onChange={(e) => changeFilter(setSortKey)(e.target.value)}
+              className="input-field w-full sm:w-auto sm:ml-auto"
+              aria-label="Sort by"
+            >
+              {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+                <option key={key} value={key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {total === 0 && !hasFilters ? (
         <div className="card p-8 text-center">
           <div className="flex justify-center mb-4">
             <div className="rounded-full bg-primary-50 dark:bg-primary-900/20 p-3">
@@ -224,72 +516,241 @@ const WorkshopsPage = () => {
           </button>
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {workshops.map((workshop) => (
-            <div key={workshop.id} className="card">
-              <div className="flex justify-between items-start mb-4">
-                <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100">{workshop.name}</h3>
-                <div className="flex space-x-2">
-                  <button
-                    onClick={() => handleEdit(workshop)}
-                    className="p-1 text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
-                    aria-label="Edit workshop"
-                  >
-                    <Pencil size={16} />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(workshop.id)}
-                    className="p-1 text-neutral-500 hover:text-error-600 dark:hover:text-error-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
-                    aria-label="Delete workshop"
-                  >
-                    <Trash2 size={16} />
-                  </button>
-                </div>
-              </div>
-              
-              {workshop.description && (
-                <p className="text-neutral-600 dark:text-neutral-300 mb-4">{workshop.description}</p>
-              )}
-              
-              <div className="space-y-2">
-                <div className="flex items-center text-neutral-500 dark:text-neutral-400">
-                  <Calendar size={16} className="mr-2" />
-                  <span>{formatDate(workshop.date)}</span>
+        <div className={`transition-opacity ${loading ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {workshops.map((workshop) => (
+              <div key={workshop.id} className="card">
+                <div className="flex justify-between items-start mb-4">
+                  <h3 className="text-lg font-medium text-neutral-900 dark:text-neutral-100">{workshop.name}</h3>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleEdit(workshop)}
+                      className="p-1 text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                      aria-label="Edit workshop"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(workshop.id)}
+                      className="p-1 text-neutral-500 hover:text-error-600 dark:hover:text-error-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                      aria-label="Delete workshop"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
                 </div>
                 
-                {workshop.location && (
+                {workshop.description && (
+                  <p className="text-neutral-600 dark:text-neutral-300 mb-4">{workshop.description}</p>
+                )}
+                
+                <div className="space-y-2">
                   <div className="flex items-center text-neutral-500 dark:text-neutral-400">
-                    <MapPin size={16} className="mr-2" />
-                    <span>{workshop.location}</span>
+                    <Calendar size={16} className="mr-2" />
+                    <span>{formatSchedule(workshop)}</span>
                   </div>
-                )}
 
-                {workshop.isVip && (
-                  <div className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-warning-100 dark:bg-warning-900/30 text-warning-800 dark:text-warning-300">
-                    VIP Workshop
-                  </div>
-                )}
+                  {workshop.startTime && (
+                    <div className="flex items-center text-sm text-neutral-500 dark:text-neutral-400">
+                      <Clock size={16} className="mr-2" />
+                      <span>
+                        Check-in opens {workshop.checkinOpensMinutes ?? 15} min before, closes {workshop.checkinClosesMinutes ?? 20} min after start
+                      </span>
+                    </div>
+                  )}
+                  
+                  {workshop.location && (
+                    <div className="flex items-center text-neutral-500 dark:text-neutral-400">
+                      <MapPin size={16} className="mr-2" />
+                      <span>{workshop.location}</span>
+                    </div>
+                  )}
 
-                {workshop.maxCapacity && (
-                  <div className="text-sm text-neutral-500 dark:text-neutral-400">
-                    Max Capacity: {workshop.maxCapacity}
-                  </div>
-                )}
+                  {workshop.isVip && (
+                    <div className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-warning-100 dark:bg-warning-900/30 text-warning-800 dark:text-warning-300">
+                      VIP Workshop
+                    </div>
+                  )}
+
+                  {workshop.dynamicQr ? (
+                    <div className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-300">
+                      Rotating QR codes
+                    </div>
+                  ) : null}
+
+                  {workshop.maxCapacity && (
+                    <div className="text-sm text-neutral-500 dark:text-neutral-400">
+                      Max Capacity: {workshop.maxCapacity}
+                    </div>
+                  )}
+
+                  {workshop.eventId && (
+                    <button
+                      type="button"
+                      onClick={() => openEnrolmentModal(workshop)}
+                      className="flex items-center text-sm text-neutral-500 dark:text-neutral-400 hover:text-primary-600 dark:hover:text-primary-400"
+                    >
+                      <Users size={16} className="mr-2" />
+                      <span>
+                        {workshop.enrolledCount ?? 0}{workshop.maxCapacity ? ` of ${workshop.maxCapacity}` : ''} enrolled
+                        {workshop.waitlistCount ? `, ${workshop.waitlistCount} waitlisted` : ''}
+                      </span>
+                    </button>
+                  )}
+
+                  {workshop.minDwellMinutes ? (
+                    <div className="flex items-center text-sm text-neutral-500 dark:text-neutral-400">
+                      <Clock size={16} className="mr-2" />
+                      <span>Counts after {workshop.minDwellMinutes} min</span>
+                    </div>
+                  ) : null}
+                </div>
               </div>
+            ))}
+          </div>
+          {workshops.length === 0 && (
+            <div className="card p-8 text-center text-neutral-500 dark:text-neutral-400">
+              No workshops found
             </div>
-          ))}
+          )}
+          <div className="mt-6">
+            <Pagination
+              page={page}
+              pageSize={DEFAULT_PAGE_SIZE}
+              total={total}
+              onPageChange={setPage}
+              disabled={loading}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Enrolments and waitlist modal */}
+      {enrolmentWorkshop && (
+        <div className="fixed inset-0 bg-neutral-900 bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50 animate-fade-in" onClick={closeEnrolmentModal}>
+          <div className="card w-full max-w-lg animate-slide-up max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+            <h2 className="text-xl font-semibold mb-1 text-neutral-900 dark:text-neutral-100">
+              {enrolmentWorkshop.name}
+            </h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-4">
+              {enrolmentWorkshop.maxCapacity
+                ? `${enrolledGuests.filter(guest => guest.enrolmentStatus === 'enrolled').length} of ${enrolmentWorkshop.maxCapacity} seats taken`
+                : 'No capacity limit'}
+            </p>
+
+            {enrolmentError && (
+              <p className="text-sm text-error-600 dark:text-error-400 mb-3">{enrolmentError}</p>
+            )}
+
+            <h3 className="text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">Enrolled</h3>
+            {enrolledGuests.length === 0 ? (
+              <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-4">No guests enrolled yet.</p>
+            ) : (
+              <ul className="divide-y divide-neutral-200 dark:divide-neutral-700 mb-4">
+                {enrolledGuests.map(guest => (
+                  <li key={guest.id} className="flex items-center justify-between py-2">
+                    <span className="text-neutral-800 dark:text-neutral-200">
+                      {guest.name}
+                      {guest.enrolmentStatus === 'no-show' && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400">
+                          No-show
+                        </span>
+                      )}
+                    </span>
+                    <span className="flex space-x-2">
+                      {guest.enrolmentStatus === 'enrolled' && (
+                        <button
+                          onClick={() => handleMarkNoShow(guest.id)}
+                          className="p-1 text-neutral-500 hover:text-warning-600 dark:hover:text-warning-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                          title="Mark as no-show"
+                          aria-label="Mark as no-show"
+                          disabled={enrolmentLoading}
+                        >
+                          <UserX size={16} />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRemoveEnrolment(guest.id)}
+                        className="p-1 text-neutral-500 hover:text-error-600 dark:hover:text-error-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                        title="Cancel enrolment"
+                        aria-label="Cancel enrolment"
+                        disabled={enrolmentLoading}
+                      >
+                        <X size={16} />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <h3 className="text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">Waitlist</h3>
+            {waitlist.length === 0 ? (
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">Nobody is waiting for a seat.</p>
+            ) : (
+              <ol className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                {waitlist.map((guest, index) => (
+                  <li key={guest.id} className="flex items-center justify-between py-2">
+                    <span className="text-neutral-800 dark:text-neutral-200">
+                      <span className="text-neutral-500 dark:text-neutral-400 mr-2">{guest.waitlistPosition}.</span>
+                      {guest.name}
+                    </span>
+                    <span className="flex space-x-2">
+                      <button
+                        onClick={() => handleMoveWaitlisted(index, -1)}
+                        className="p-1 text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-40"
+                        aria-label="Move up"
+                        disabled={enrolmentLoading || index === 0}
+                      >
+                        <ArrowUp size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleMoveWaitlisted(index, 1)}
+                        className="p-1 text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-40"
+                        aria-label="Move down"
+                        disabled={enrolmentLoading || index === waitlist.length - 1}
+                      >
+                        <ArrowDown size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleRemoveEnrolment(guest.id)}
+                        className="p-1 text-neutral-500 hover:text-error-600 dark:hover:text-error-400 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                        title="Remove from waitlist"
+                        aria-label="Remove from waitlist"
+                        disabled={enrolmentLoading}
+                      >
+                        <X size={16} />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className="mt-6 flex justify-end">
+              <button
+                type="button"
+                onClick={closeEnrolmentModal}
+                className="btn-primary"
+              >
+                Done
+              </button>
+            </div>
+          </div>
         </div>
       )}
 
       {/* Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 bg-neutral-900 bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50 animate-fade-in">
-          <div className="card w-full max-w-md animate-slide-up">
+          <div className="card w-full max-w-md animate-slide-up max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-semibold mb-4 text-neutral-900 dark:text-neutral-100">
               {editingId ? 'Edit Workshop' : 'Add New Workshop'}
             </h2>
             <form onSubmit={handleSubmit}>
               <div className="space-y-4">
+                <FieldError message={fieldErrors.eventId} />
+
                 <div>
                   <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Name</label>
                   <input
@@ -300,6 +761,7 @@ const WorkshopsPage = () => {
                     className="input-field w-full"
                     required
                   />
+                  <FieldError message={fieldErrors.name} />
                 </div>
                 
                 <div>
@@ -313,16 +775,78 @@ const WorkshopsPage = () => {
                   />
                 </div>
                 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Starts</label>
+                    <input
+                      type="datetime-local"
+                      name="startTime"
+                      value={formData.startTime || ''}
+                      onChange={handleInputChange}
+                      className="input-field w-full"
+                      required
+                    />
+                    <FieldError message={fieldErrors.startTime} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Ends</label>
+                    <input
+                      type="datetime-local"
+                      name="endTime"
+                      value={formData.endTime || ''}
+                      onChange={handleInputChange}
+                      min={formData.startTime || undefined}
+                      className="input-field w-full"
+                    />
+                    <FieldError message={fieldErrors.endTime} />
+                  </div>
+                </div>
+
                 <div>
-                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Date</label>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Time Zone</label>
                   <input
-                    type="datetime-local"
-                    name="date"
-                    value={formData.date || ''}
+                    type="text"
+                    name="timezone"
+                    list="workshop-time-zones"
+                    value={formData.timezone || ''}
                     onChange={handleInputChange}
                     className="input-field w-full"
+                    placeholder="Europe/Paris"
                     required
                   />
+                  <datalist id="workshop-time-zones">
+                    {COMMON_TIME_ZONES.map(zone => (
+                      <option key={zone} value={zone} />
+                    ))}
+                  </datalist>
+                  <FieldError message={fieldErrors.timezone} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Check-in Opens (min before)</label>
+                    <input
+                      type="number"
+                      name="checkinOpensMinutes"
+                      value={formData.checkinOpensMinutes ?? ''}
+                      onChange={handleInputChange}
+                      className="input-field w-full"
+                      min="0"
+                    />
+                    <FieldError message={fieldErrors.checkinOpensMinutes} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Check-in Closes (min after)</label>
+                    <input
+                      type="number"
+                      name="checkinClosesMinutes"
+                      value={formData.checkinClosesMinutes ?? ''}
+                      onChange={handleInputChange}
+                      className="input-field w-full"
+                      min="0"
+                    />
+                    <FieldError message={fieldErrors.checkinClosesMinutes} />
+                  </div>
                 </div>
                 
                 <div>
@@ -346,6 +870,23 @@ const WorkshopsPage = () => {
                     className="input-field w-full"
                     min="1"
                   />
+                  <FieldError message={fieldErrors.maxCapacity} />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">Minimum Stay (minutes)</label>
+                  <input
+                    type="number"
+                    name="minDwellMinutes"
+                    value={formData.minDwellMinutes ?? ''}
+                    onChange={handleInputChange}
+                    className="input-field w-full"
+                    min="0"
+                  />
+                  <FieldError message={fieldErrors.minDwellMinutes} />
+                  <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                    Guests must check out after staying this long for the workshop to count towards their attestation. Leave empty to count every check-in.
+                  </p>
                 </div>
 
                 <div className="flex items-center">
@@ -361,6 +902,20 @@ const WorkshopsPage = () => {
                     VIP Workshop
                   </label>
                 </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    name="dynamicQr"
+                    id="dynamicQr"
+                    checked={!!formData.dynamicQr}
+                    onChange={handleInputChange}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300 dark:border-neutral-700 rounded"
+                  />
+                  <label htmlFor="dynamicQr" className="ml-2 block text-sm text-neutral-700 dark:text-neutral-300">
+                    Rotating QR codes only
+                  </label>
+                </div>
               </div>
 
               <div className="mt-6 flex justify-end space-x-3">
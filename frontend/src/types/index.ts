@@ -1,39 +1,393 @@
-export interface Workshop {
-  id: string;
-  name: string;
-  description?: string;
-  date: string;
-  location?: string;
-  user_id: number;
-  created_at: string;
-  updated_at?: string;
-  isVip: boolean;
-  maxCapacity?: number;
+import type { CheckInStatus, CheckInMethod, EnrolmentStatus, ScanMode, UserRole, UserPermission, ApiKeyScope, EventInfo, Workshop, Guest, AttendanceRecord } from '@eventqrollcall/shared';
+
+// Records the API returns and bodies it accepts are described by the schemas
+// of the shared package; see shared/domain.js, shared/requests.js and shared/queries.js
+export type {
+  AttendanceBasis,
+  CheckInStatus,
+  CheckInMethod,
+  EnrolmentStatus,
+  ScanMode,
+  UserRole,
+  UserPermission,
+  ApiKeyScope,
+  EventInfo,
+  Workshop,
+  Guest,
+  EnrolledGuest,
+  WaitlistedGuest,
+  WaitlistedWorkshop,
+  AttendanceRecord,
+  UserInvite,
+  EventInput,
+  NewWorkshopInput,
+  WorkshopInput,
+  NewGuestInput,
+  GuestInput,
+  ApiKeyInput,
+  GuestListQuery,
+  WorkshopListQuery,
+  AttendanceListQuery,
+  FieldErrors
+} from '@eventqrollcall/shared';
+
+// One page of a list route; `total` counts the matching records on all pages
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface Enrolment {
+  guestId: string;
+  workshopId: string;
+  status?: EnrolmentStatus;
+  createdAt?: string;
+}
+
+export interface EnrolmentResult {
+  guestId: string;
+  workshopId: string;
+  status: EnrolmentStatus | 'waitlisted';
+  position: number | null;
+}
+
+// Why a guest was refused entry to a VIP workshop
+export type VipDenialReason = 'not-vip' | 'not-invited';
+
+export type ScanOutcome = 'checked-in' | 'already-checked-in' | 'checked-out' | 'denied';
+
+export type ScanDenialReason =
+  | VipDenialReason
+  | 'invalid-qr'
+  | 'legacy-qr'
+  | 'qr-revoked'
+  | 'qr-expired'
+  | 'dynamic-qr-required'
+  | 'guest-not-found'
+  | 'workshop-not-found'
+  | 'not-registered'
+  | 'capacity'
+  | 'out-of-window'
+  | 'not-checked-in'
+  | 'already-checked-out'
+  | 'checkout-before-checkin';
+
+// Outcome of POST /api/scan
+export interface ScanResult {
+  outcome: ScanOutcome;
+  reason?: ScanDenialReason;
+  // Error code of denials, as the server would send for the same refusal
+  code?: ApiErrorCode;
+  message: string;
+  // Set on VIP denials when the scanning user may let the guest in anyway
+  canOverride?: boolean;
+  // Check-in window of out-of-window denials
+  opensAt?: string;
+  closesAt?: string;
+  guest: {
+    id: string;
+    name: string;
+    email: string;
+    isVip: boolean;
+  } | null;
+  attendance: {
+    id: string;
+    timestamp: string;
+    checkinStatus: CheckInStatus | null;
+    checkedOutAt: string | null;
+    dwellMinutes: number | null;
+    vipOverrideBy: number | null;
+    checkinMethod?: CheckInMethod | null;
+    // Set on check-ins staff made by hand instead of scanning a QR code
+    manualBy?: number | null;
+  } | null;
+}
+
+// Workshop rules and guests cached by the scanner for offline check-ins
+export interface ScanRoster {
+  workshop: {
+    id: string;
+    name: string;
+    eventId: string | null;
+    isVip: boolean;
+    maxCapacity: number | null;
+    seatsInUse: number;
+    // Set on the workshop or its event
+    dynamicQr: boolean;
+    checkInWindow: {
+      opensAt: string;
+      startsAt: string;
+      closesAt: string;
+    } | null;
+  };
+  guests: RosterGuest[];
+  generatedAt: string;
 }
 
-export interface Guest {
+export interface RosterGuest {
   id: string;
   name: string;
   email: string;
-  qr_code: string;
-  user_id?: number;
-  created_at: string;
-  updated_at?: string;
+  qrCode: string;
+  // The server would refuse this code (revoked, or a retired legacy code)
+  qrRevoked: boolean;
   isVip: boolean;
+  invited: boolean;
+  // Holds a seat; no-shows gave theirs up
+  enrolled: boolean;
+  checkedInAt: string | null;
+  checkedOutAt: string | null;
 }
 
-export interface AttendanceRecord {
-  id: string;
+// Current rotating code shown on a guest's pass page
+export interface DynamicPass {
+  guestName: string;
+  payload: string;
+  expiresAt: string;
+  periodSeconds: number;
+}
+
+// A scan accepted offline, waiting to be sent to the server
+export interface QueuedScan {
+  clientId: string;
+  qrCode: string;
   workshopId: string;
-  guestId: string;
+  mode: ScanMode;
   timestamp: string;
-  workshop_id?: string;
-  guest_id?: string;
-  created_at?: string;
+  guestName: string;
+}
+
+// Result of one scan sent through POST /api/scan/batch
+export type BatchScanResult = Omit<ScanResult, 'outcome'> & {
+  clientId: string;
+  outcome: ScanOutcome | 'invalid';
+};
+
+// A queued scan the server did not accept when it was synced
+export interface ScanConflict {
+  clientId: string;
+  guestName: string;
+  workshopId: string;
+  mode: ScanMode;
+  timestamp: string;
+  message: string;
+}
+
+export type ScanSyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+// One check-in to import through POST /api/attendance/batch
+export interface AttendanceImportItem {
+  guestId?: string;
+  qrCode?: string;
+  workshopId: string;
+  timestamp?: string;
+}
+
+// 'rolled-back' items would have been created but an all-or-nothing import failed
+export type AttendanceImportStatus = 'created' | 'duplicate' | 'denied' | 'invalid' | 'rolled-back' | 'skipped';
+
+export interface AttendanceImportResult {
+  committed: boolean;
+  created: number;
+  duplicates: number;
+  denied: number;
+  invalid: number;
+  results: {
+    index: number;
+    status: AttendanceImportStatus;
+    reason?: ScanDenialReason;
+    message: string;
+    guestId: string | null;
+    guestName: string | null;
+    attendanceId: string | null;
+  }[];
 }
 
+// Machine-readable `code` of API error responses; see backend/errors.js for what each means
+export type ApiErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'WEAK_PASSWORD'
+  | 'SERVER_ERROR'
+  | 'UNAUTHENTICATED'
+  | 'INVALID_CREDENTIALS'
+  | 'TOKEN_EXPIRED'
+  | 'SESSION_ENDED'
+  | 'REFRESH_TOKEN_REUSED'
+  | 'LOGIN_CHALLENGE_EXPIRED'
+  | 'INVALID_TWO_FACTOR_CODE'
+  | 'TWO_FACTOR_REQUIRED'
+  | 'TWO_FACTOR_NOT_ENABLED'
+  | 'TWO_FACTOR_ALREADY_ENABLED'
+  | 'TWO_FACTOR_SETUP_REQUIRED'
+  | 'TOO_MANY_ATTEMPTS'
+  | 'PASSWORD_CHANGE_REQUIRED'
+  | 'ACCOUNT_DISABLED'
+  | 'INVALID_API_KEY'
+  | 'API_KEY_SCOPE_MISSING'
+  | 'API_KEY_NOT_ALLOWED'
+  | 'API_KEY_IP_NOT_ALLOWED'
+  | 'FORBIDDEN'
+  | 'SELF_CHANGE_NOT_ALLOWED'
+  | 'USERNAME_TAKEN'
+  | 'USER_OWNS_DATA'
+  | 'INVITE_REQUIRED'
+  | 'INVITE_INVALID'
+  | 'EVENT_NOT_FOUND'
+  | 'WORKSHOP_NOT_FOUND'
+  | 'GUEST_NOT_FOUND'
+  | 'USER_NOT_FOUND'
+  | 'SESSION_NOT_FOUND'
+  | 'INVITE_NOT_FOUND'
+  | 'API_KEY_NOT_FOUND'
+  | 'ATTENDANCE_NOT_FOUND'
+  | 'PASS_NOT_FOUND'
+  | 'PASS_REVOKED'
+  | 'NOT_ENROLLED'
+  | 'NOT_VIP_WORKSHOP'
+  | 'WAITLIST_CHANGED'
+  | 'NOT_ELIGIBLE'
+  | 'ALREADY_CHECKED_IN'
+  | 'ALREADY_CHECKED_OUT'
+  | 'NOT_CHECKED_IN'
+  | 'CHECKOUT_BEFORE_CHECKIN'
+  | 'CAPACITY_FULL'
+  | 'VIP_REQUIRED'
+  | 'VIP_NOT_INVITED'
+  | 'NOT_REGISTERED'
+  | 'OUTSIDE_CHECKIN_WINDOW'
+  | 'INVALID_QR_CODE'
+  | 'LEGACY_QR_CODE'
+  | 'QR_CODE_REVOKED'
+  | 'QR_CODE_EXPIRED'
+  | 'DYNAMIC_QR_REQUIRED'
+  | 'IMPORT_ROLLED_BACK';
+
 export interface ApplicationState {
+  events: EventInfo[];
   workshops: Workshop[];
   guests: Guest[];
   attendance: AttendanceRecord[];
 }
+
+export interface LoginRecord {
+  timestamp: string;
+  ip?: string;
+  userAgent?: string;
+  // Set on entries for sign-ins locked out after too many failed attempts, at the account or its IP
+  event?: 'lockout';
+  lockedBy?: 'account' | 'ip';
+  lockedUntil?: string;
+}
+
+// The signed-in user, as the login and profile routes describe them
+export interface AccountProfile {
+  id: number;
+  username: string;
+  role: UserRole;
+  permissions: UserPermission[];
+  mustChangePassword: boolean;
+  loginHistory: LoginRecord[];
+  // Only on the profile route
+  createdAt?: string;
+  twoFactor?: TwoFactorStatus;
+}
+
+// Answer of a login step: a new session, or what the second step needs
+export interface LoginResponse {
+  token?: string;
+  refreshToken?: string;
+  expiresIn?: number;
+  user?: AccountProfile;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challengeToken?: string;
+  // Recovery codes of an authenticator app set up during login
+  recoveryCodes?: string[];
+}
+
+// An account as listed on the Users page
+export interface ManagedUser {
+  id: number;
+  username: string;
+  role: UserRole;
+  permissions: UserPermission[];
+  disabled: boolean;
+  disabledAt: string | null;
+  twoFactorEnabled: boolean;
+  // Has to pick a new password at the next login
+  mustChangePassword: boolean;
+  createdAt: string;
+  // Latest logins and lockouts, oldest first
+  loginHistory: LoginRecord[];
+}
+
+// Events and workshops a scanner account works at; an event covers all its workshops
+export interface ScannerAssignments {
+  eventIds: string[];
+  workshopIds: string[];
+}
+
+// Key an integration uses instead of a login; `key` is only known right after creation
+export interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, to tell keys apart
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  // Addresses or CIDR ranges the key works from; empty for anywhere
+  allowedIps: string[];
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  key?: string;
+}
+
+// A server setting as it is in effect; secrets are never sent
+export interface ServerSetting {
+  name: string;
+  // Environment variable that overrides it
+  env: string;
+  value: string | number | boolean | string[] | null;
+  default: string | number | boolean | string[] | null;
+  source: 'default' | 'file' | 'env';
+  description: string;
+}
+
+// Rules new passwords have to follow
+export interface PasswordPolicy {
+  minLength: number;
+  requireMixedCase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+// Two-factor authentication state on the current user's profile
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  // Policy requires it for the user's role, so it can't be turned off
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+// Authenticator secret being set up, as text and as an otpauth:// URI for a QR code
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// A device a user is signed in on
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  // The session of the admin looking at the list
+  current: boolean;
+}
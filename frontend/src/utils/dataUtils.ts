@@ -1,16 +1,16 @@
-import { Workshop, Guest, AttendanceRecord } from '../types';
-import * as apiService from '../api/apiService';
+import { Workshop, NewWorkshopInput, WorkshopInput, Guest, NewGuestInput, GuestInput, AttendanceRecord, ScanMode, ScanResult, AttendanceImportItem, AttendanceImportResult } from '../types';
+import * as apiService from '../api';
 
 // Workshop operations
-export const getWorkshops = async (): Promise<Workshop[]> => {
-  return apiService.fetchWorkshops();
+export const getWorkshops = async (eventId?: string | null): Promise<Workshop[]> => {
+  return apiService.fetchWorkshops(eventId);
 };
 
-export const saveWorkshop = async (workshop: Omit<Workshop, 'id'>): Promise<Workshop> => {
+export const saveWorkshop = async (workshop: NewWorkshopInput): Promise<Workshop> => {
   return apiService.createWorkshop(workshop);
 };
 
-export const updateWorkshop = async (workshop: Workshop): Promise<Workshop> => {
+export const updateWorkshop = async (workshop: WorkshopInput & { id: string }): Promise<Workshop> => {
   return apiService.updateWorkshop(workshop);
 };
 
@@ -23,15 +23,15 @@ export const getWorkshopById = async (id: string): Promise<Workshop> => {
 };
 
 // Guest operations
-export const getGuests = async (): Promise<Guest[]> => {
-  return apiService.fetchGuests();
+export const getGuests = async (eventId?: string | null): Promise<Guest[]> => {
+  return apiService.fetchGuests(eventId);
 };
 
-export const saveGuest = async (guest: Omit<Guest, 'id' | 'qrCode'>): Promise<Guest> => {
+export const saveGuest = async (guest: NewGuestInput): Promise<Guest> => {
   return apiService.createGuest(guest);
 };
 
-export const updateGuest = async (guest: Guest): Promise<Guest> => {
+export const updateGuest = async (guest: GuestInput & { id: string }): Promise<Guest> => {
   return apiService.updateGuest(guest);
 };
 
@@ -49,40 +49,109 @@ export const getGuestByQRCode = async (qrCode: string): Promise<Guest | undefine
 };
 
 // Attendance operations
-export const getAttendance = async (): Promise<AttendanceRecord[]> => {
-  return apiService.fetchAttendance();
+export const getAttendance = async (eventId?: string | null): Promise<AttendanceRecord[]> => {
+  return apiService.fetchAttendance(eventId);
 };
 
-export const recordAttendance = async (guestId: string, workshopId: string): Promise<AttendanceRecord> => {
-  return apiService.recordAttendance(guestId, workshopId);
+export const recordAttendance = async (guestId: string, workshopId: string, vipOverride?: { reason?: string }): Promise<AttendanceRecord> => {
+  return apiService.recordAttendance(guestId, workshopId, vipOverride);
+};
+
+export const checkOutAttendance = async (guestId: string, workshopId: string): Promise<AttendanceRecord> => {
+  return apiService.checkOutAttendance(guestId, workshopId);
+};
+
+export const scanQRCode = async (qrCode: string, workshopId: string, mode: ScanMode = 'check-in', vipOverride?: { reason?: string }): Promise<ScanResult> => {
+  return apiService.scanQRCode(qrCode, workshopId, mode, vipOverride);
+};
+
+export const manualScan = async (guestId: string, workshopId: string, mode: ScanMode = 'check-in', vipOverride?: { reason?: string }): Promise<ScanResult> => {
+  return apiService.manualScan(guestId, workshopId, mode, vipOverride);
+};
+
+export const importAttendance = async (items: AttendanceImportItem[], allOrNothing: boolean = false): Promise<AttendanceImportResult> => {
+  return apiService.importAttendance(items, allOrNothing);
 };
 
 // Analytics
-export const getGuestAttendance = async (guestId: string): Promise<Workshop[]> => {
-  return apiService.getGuestAttendance(guestId);
+export const getGuestAttendance = async (guestId: string, eventId?: string | null): Promise<Workshop[]> => {
+  return apiService.getGuestAttendance(guestId, eventId);
 };
 
 export const getWorkshopAttendees = async (workshopId: string): Promise<Guest[]> => {
   return apiService.getWorkshopAttendees(workshopId);
 };
 
-export const calculateAttendancePercentage = async (guestId: string): Promise<number> => {
-  return apiService.calculateAttendancePercentage(guestId);
+export const calculateAttendancePercentage = async (guestId: string, eventId?: string | null): Promise<number> => {
+  return apiService.calculateAttendancePercentage(guestId, eventId);
 };
 
-export const isEligibleForAttestation = async (guestId: string): Promise<boolean> => {
-  return apiService.isEligibleForAttestation(guestId);
+export const isEligibleForAttestation = async (guestId: string, eventId?: string | null): Promise<boolean> => {
+  return apiService.isEligibleForAttestation(guestId, eventId);
 };
 
 export const getWorkshopAttendancePercentage = async (workshopId: string): Promise<number> => {
   return apiService.getWorkshopAttendancePercentage(workshopId);
 };
 
-export const getLastCheckIns = async (count: number = 5): Promise<AttendanceRecord[]> => {
-  return apiService.getLastCheckIns(count);
+export const getLastCheckIns = async (count: number = 5, eventId?: string | null): Promise<AttendanceRecord[]> => {
+  return apiService.getLastCheckIns(count, eventId);
 };
 
 // Utility functions
-export const generateQRCode = (guestId: string): string => {
-  return `guest-${guestId}`;
+export const formatDwellTime = (minutes?: number | null): string => {
+  if (minutes === null || minutes === undefined) return '—';
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+// Parse CSV text into one object per row, keyed by the header row
+// Handles quoted fields with commas, doubled quotes and line breaks
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) return [];
+
+  const headers = nonEmpty[0].map(header => header.trim());
+  return nonEmpty.slice(1).map(values =>
+    Object.fromEntries(headers.map((header, index) => [header, (values[index] || '').trim()]))
+  );
 }; 
\ No newline at end of file
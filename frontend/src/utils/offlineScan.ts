@@ -0,0 +1,158 @@
+import { ApiErrorCode, CheckInStatus, RosterGuest, ScanDenialReason, ScanMode, ScanResult, ScanRoster } from '../types';
+
+// Same rules as the server's scan processing, applied to a cached roster so
+// the door keeps working without a connection. The server has the final say
+// when the scan is synced.
+
+const summarizeGuest = (guest: RosterGuest): ScanResult['guest'] => ({
+  id: guest.id,
+  name: guest.name,
+  email: guest.email,
+  isVip: guest.isVip
+});
+
+// Error code the server sends for each refusal
+const DENIAL_CODES: Record<ScanDenialReason, ApiErrorCode> = {
+  'not-vip': 'VIP_REQUIRED',
+  'not-invited': 'VIP_NOT_INVITED',
+  'invalid-qr': 'INVALID_QR_CODE',
+  'legacy-qr': 'LEGACY_QR_CODE',
+  'qr-revoked': 'QR_CODE_REVOKED',
+  'qr-expired': 'QR_CODE_EXPIRED',
+  'dynamic-qr-required': 'DYNAMIC_QR_REQUIRED',
+  'guest-not-found': 'GUEST_NOT_FOUND',
+  'workshop-not-found': 'WORKSHOP_NOT_FOUND',
+  'not-registered': 'NOT_REGISTERED',
+  'capacity': 'CAPACITY_FULL',
+  'out-of-window': 'OUTSIDE_CHECKIN_WINDOW',
+  'not-checked-in': 'NOT_CHECKED_IN',
+  'already-checked-out': 'ALREADY_CHECKED_OUT',
+  'checkout-before-checkin': 'CHECKOUT_BEFORE_CHECKIN'
+};
+
+const deny = (reason: ScanDenialReason, message: string, guest: RosterGuest | null, extra: Partial<ScanResult> = {}): ScanResult => ({
+  outcome: 'denied',
+  reason,
+  code: DENIAL_CODES[reason],
+  message,
+  guest: guest ? summarizeGuest(guest) : null,
+  attendance: null,
+  ...extra
+});
+
+const classifyCheckIn = (roster: ScanRoster, timestamp: string): CheckInStatus | 'out-of-window' | null => {
+  const window = roster.workshop.checkInWindow;
+  if (!window) return null;
+
+  const time = new Date(timestamp).getTime();
+  if (time < new Date(window.opensAt).getTime() || time > new Date(window.closesAt).getTime()) {
+    return 'out-of-window';
+  }
+  return time <= new Date(window.startsAt).getTime() ? 'on-time' : 'late';
+};
+
+// Guest ID of a rotating pass code (`eqt1.<guestId>.<code>`), or null for static codes
+const dynamicGuestId = (qrCode: string): string | null => {
+  const match = /^eqt1\.([^.]+)\.\d+$/.exec(qrCode);
+  return match ? match[1] : null;
+};
+
+// Check a scan against the cached roster; nothing is stored
+export const evaluateOfflineScan = (roster: ScanRoster, qrCode: string, mode: ScanMode, timestamp: string, clientId: string): ScanResult => {
+  // Rotating codes can't be verified without the server; they are accepted
+  // here and checked against the scan time when the queue syncs
+  const dynamicId = dynamicGuestId(qrCode);
+  const guest = dynamicId
+    ? roster.guests.find(g => g.id === dynamicId)
+    : roster.guests.find(g => g.qrCode === qrCode);
+  if (!guest) {
+    return deny('guest-not-found', 'Guest not found on the cached roster', null);
+  }
+  if (guest.qrRevoked) {
+    return deny('qr-revoked', 'QR code has been revoked or replaced', guest);
+  }
+  if (!dynamicId && roster.workshop.dynamicQr) {
+    return deny('dynamic-qr-required', 'This workshop only accepts the live QR code from the guest\'s pass page', guest);
+  }
+
+  if (mode === 'check-out') {
+    if (!guest.checkedInAt) {
+      return deny('not-checked-in', 'Guest has not checked in to this workshop', guest);
+    }
+    if (guest.checkedOutAt) {
+      return deny('already-checked-out', 'Guest already checked out', guest);
+    }
+    if (new Date(timestamp) < new Date(guest.checkedInAt)) {
+      return deny('checkout-before-checkin', 'Check-out time must be after check-in time', guest);
+    }
+
+    const dwellMinutes = Math.round((new Date(timestamp).getTime() - new Date(guest.checkedInAt).getTime()) / 6000) / 10;
+    return {
+      outcome: 'checked-out',
+      message: 'Guest checked out',
+      guest: summarizeGuest(guest),
+      attendance: { id: clientId, timestamp: guest.checkedInAt, checkinStatus: null, checkedOutAt: timestamp, dwellMinutes, vipOverrideBy: null }
+    };
+  }
+
+  if (guest.checkedInAt) {
+    return {
+      outcome: 'already-checked-in',
+      message: 'Guest already checked in to this workshop',
+      guest: summarizeGuest(guest),
+      attendance: null
+    };
+  }
+
+  // Admin overrides need the server, so offline VIP denials are final
+  if (roster.workshop.isVip && !guest.isVip) {
+    return deny('not-vip', 'Non-VIP guest cannot attend VIP workshops', guest);
+  }
+  if (roster.workshop.isVip && !guest.invited) {
+    return deny('not-invited', 'Guest is not invited to this VIP workshop', guest);
+  }
+
+  const { maxCapacity, seatsInUse } = roster.workshop;
+  if (maxCapacity && !guest.enrolled && seatsInUse >= maxCapacity) {
+    return deny('capacity', 'Workshop has reached maximum capacity', guest);
+  }
+
+  const checkinStatus = classifyCheckIn(roster, timestamp);
+  if (checkinStatus === 'out-of-window') {
+    const window = roster.workshop.checkInWindow!;
+    return deny('out-of-window', 'Check-in is outside the workshop check-in window', guest, {
+      opensAt: window.opensAt,
+      closesAt: window.closesAt
+    });
+  }
+
+  return {
+    outcome: 'checked-in',
+    message: checkinStatus === 'late' ? 'Guest checked in late' : 'Guest checked in',
+    guest: summarizeGuest(guest),
+    attendance: { id: clientId, timestamp, checkinStatus, checkedOutAt: null, dwellMinutes: null, vipOverrideBy: null }
+  };
+};
+
+// Reflect an accepted scan (online or offline) in the cached roster so later
+// offline scans see it
+export const applyScanToRoster = (roster: ScanRoster, result: ScanResult): ScanRoster => {
+  if (!result.guest || !result.attendance) return roster;
+  if (result.outcome !== 'checked-in' && result.outcome !== 'checked-out') return roster;
+
+  const { id: guestId } = result.guest;
+  const { timestamp, checkedOutAt } = result.attendance;
+  const guest = roster.guests.find(g => g.id === guestId);
+  const takesSeat = result.outcome === 'checked-in' && !!guest && !guest.enrolled;
+
+  return {
+    ...roster,
+    workshop: {
+      ...roster.workshop,
+      seatsInUse: roster.workshop.seatsInUse + (takesSeat ? 1 : 0)
+    },
+    guests: roster.guests.map(g => g.id === guestId
+      ? { ...g, checkedInAt: g.checkedInAt || timestamp, checkedOutAt: checkedOutAt || g.checkedOutAt }
+      : g)
+  };
+};
@@ -0,0 +1,94 @@
+import { QueuedScan, ScanConflict, ScanRoster } from '../types';
+
+// IndexedDB storage for the offline scanner: cached workshop rosters, scans
+// waiting to be synced and the conflicts reported when they were
+const DB_NAME = 'eventq-scanner';
+const DB_VERSION = 1;
+const ROSTERS = 'rosters';
+const QUEUE = 'queue';
+const CONFLICTS = 'conflicts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ROSTERS)) {
+          db.createObjectStore(ROSTERS);
+        }
+        if (!db.objectStoreNames.contains(QUEUE)) {
+          db.createObjectStore(QUEUE, { keyPath: 'clientId' });
+        }
+        if (!db.objectStoreNames.contains(CONFLICTS)) {
+          db.createObjectStore(CONFLICTS, { keyPath: 'clientId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request against a store and resolve with its result once the transaction commits
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Rosters, keyed by workshop
+export const saveRoster = (roster: ScanRoster): Promise<void> =>
+  withStore<IDBValidKey>(ROSTERS, 'readwrite', store => store.put(roster, roster.workshop.id)).then(() => undefined);
+
+export const getRoster = async (workshopId: string): Promise<ScanRoster | null> => {
+  const roster = await withStore<ScanRoster | undefined>(ROSTERS, 'readonly', store => store.get(workshopId));
+  return roster || null;
+};
+
+// Queued scans, oldest first
+export const enqueueScan = (scan: QueuedScan): Promise<void> =>
+  withStore<IDBValidKey>(QUEUE, 'readwrite', store => store.put(scan)).then(() => undefined);
+
+export const getQueuedScans = async (): Promise<QueuedScan[]> => {
+  const scans = await withStore<QueuedScan[]>(QUEUE, 'readonly', store => store.getAll());
+  return scans.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+export const countQueuedScans = (): Promise<number> =>
+  withStore<number>(QUEUE, 'readonly', store => store.count());
+
+export const removeQueuedScans = (clientIds: string[]): Promise<void> =>
+  withStore<void>(QUEUE, 'readwrite', store => {
+    clientIds.forEach(clientId => store.delete(clientId));
+  });
+
+// Conflicts reported by the server, kept until someone dismisses them
+export const saveConflicts = (conflicts: ScanConflict[]): Promise<void> =>
+  withStore<void>(CONFLICTS, 'readwrite', store => {
+    conflicts.forEach(conflict => store.put(conflict));
+  });
+
+export const getConflicts = async (): Promise<ScanConflict[]> => {
+  const conflicts = await withStore<ScanConflict[]>(CONFLICTS, 'readonly', store => store.getAll());
+  return conflicts.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+export const clearConflicts = (): Promise<void> =>
+  withStore<undefined>(CONFLICTS, 'readwrite', store => store.clear()).then(() => undefined);
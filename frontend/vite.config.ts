@@ -10,7 +10,7 @@ export default defineConfig({
       name: "mocha-error-reporter",
 
       // ref: https://vite.dev/guide/api-plugin.html#transformindexhtml
-      transformIndexHtml(html) {
+      transformIndexHtml() {
         if (process.env.NODE_ENV !== "development" && process.env.SHOW_WATERMARK !== "false") {
           return [
             {
@@ -0,0 +1,196 @@
+/**
+ * Records as the API returns them
+ *
+ * The frontend parses responses with these schemas once their keys are
+ * camelCase. SQLite hands flags back as 0 or 1 and unset columns as null, so
+ * the schemas turn those into booleans, empty strings and nulls here rather
+ * than on every page.
+ */
+
+import { z } from 'zod';
+
+// Flags are 0 or 1 in rows straight from the database
+const flag = z.union([z.boolean(), z.number()]).nullish().transform(Boolean);
+
+// Text columns left empty
+const text = z.string().nullish().transform(value => value ?? '');
+
+/**
+ * A column that may be unset, always null rather than undefined when it is
+ * @template {z.ZodType} T
+ * @param {T} schema
+ */
+const nullable = schema => schema.nullish().transform(value => value ?? null);
+
+// Whether attendance percentages count enrolled workshops or every workshop
+export const attendanceBasisSchema = z.enum(['enrolled', 'all-workshops']);
+export const ATTENDANCE_BASES = attendanceBasisSchema.options;
+
+export const checkInStatusSchema = z.enum(['on-time', 'late']);
+
+// No-shows keep their enrolment but give up their seat
+export const enrolmentStatusSchema = z.enum(['enrolled', 'no-show']);
+
+// Whether a scan records a guest entering or leaving a workshop
+export const scanModeSchema = z.enum(['check-in', 'check-out']);
+
+// How a checked-in guest was identified: their QR code, staff picking them by
+// name or ID when the code could not be read, or an attendance import
+export const checkInMethodSchema = z.enum(['scan', 'manual', 'import']);
+export const CHECKIN_METHODS = checkInMethodSchema.options;
+
+// Roles an account can have
+export const userRoleSchema = z.enum(['admin', 'scanner']);
+export const USER_ROLES = userRoleSchema.options;
+
+// Destructive actions a scanner account can be granted; admins can always take them
+export const userPermissionSchema = z.enum(['attendance:delete']);
+export const USER_PERMISSIONS = userPermissionSchema.options;
+
+// What an API key may do: read or change one kind of record
+export const apiKeyScopeSchema = z.enum([
+  'events:read',
+  'events:write',
+  'workshops:read',
+  'workshops:write',
+  'guests:read',
+  'guests:write',
+  'attendance:read',
+  'attendance:write',
+  'analytics:read'
+]);
+export const API_KEY_SCOPES = apiKeyScopeSchema.options;
+
+export const eventSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: text,
+  startDate: text,
+  endDate: text,
+  location: text,
+  logoUrl: text,
+  primaryColor: text,
+  attendanceBasis: attendanceBasisSchema.nullish().transform(basis => basis ?? 'all-workshops'),
+  // Check-ins only accept the rotating codes from guests' pass pages
+  dynamicQr: flag,
+  userId: z.number().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional()
+});
+
+export const workshopSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: text,
+  date: text,
+  location: text,
+  userId: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+  isVip: flag,
+  maxCapacity: nullable(z.number()),
+  eventId: nullable(z.string()),
+  minDwellMinutes: nullable(z.number()),
+  // Wall-clock times (YYYY-MM-DDTHH:mm) in the workshop's IANA time zone
+  startTime: nullable(z.string()),
+  endTime: nullable(z.string()),
+  timezone: nullable(z.string()),
+  checkinOpensMinutes: nullable(z.number()),
+  checkinClosesMinutes: nullable(z.number()),
+  // Only accept rotating codes, even when the event does not require them
+  dynamicQr: flag,
+  enrolledCount: z.number().optional(),
+  waitlistCount: z.number().optional()
+});
+
+export const guestSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: text,
+  organization: text,
+  qrCode: z.string(),
+  // Set when an admin revoked the guest's QR code
+  qrRevokedAt: nullable(z.string()),
+  userId: z.number().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+  isVip: flag
+});
+
+export const enrolledGuestSchema = guestSchema.extend({
+  enrolmentStatus: enrolmentStatusSchema
+});
+
+export const waitlistedGuestSchema = guestSchema.extend({
+  waitlistPosition: z.number()
+});
+
+// A workshop a guest is waiting for, with their place in the queue
+export const waitlistedWorkshopSchema = workshopSchema.extend({
+  waitlistPosition: z.number()
+});
+
+export const attendanceRecordSchema = z.object({
+  id: z.string(),
+  workshopId: z.string(),
+  guestId: z.string(),
+  timestamp: z.string(),
+  checkedOutAt: nullable(z.string()),
+  dwellMinutes: nullable(z.number()),
+  checkinStatus: nullable(checkInStatusSchema),
+  // Set when an admin let the guest into a VIP workshop despite the invite list
+  vipOverrideBy: nullable(z.number()),
+  vipOverrideUsername: nullable(z.string()),
+  vipOverrideReason: nullable(z.string()),
+  // Unset on check-ins recorded before the method was
+  checkinMethod: nullable(checkInMethodSchema),
+  // Set when staff checked the guest in by hand instead of scanning their QR code
+  manualBy: nullable(z.number()),
+  manualByUsername: nullable(z.string()),
+  // Filled in by the attendance list so pages need not look them up
+  guestName: text,
+  guestEmail: text,
+  workshopName: text
+});
+
+// Invitation to register an account; `token` is only sent right after creation,
+// which is also when the server leaves out `createdAt`
+export const userInviteSchema = z.object({
+  id: z.string(),
+  role: userRoleSchema,
+  createdAt: text,
+  expiresAt: z.string(),
+  createdByUsername: nullable(z.string()),
+  token: z.string().optional()
+}).transform(({ createdByUsername, ...invite }) => ({ ...invite, createdBy: createdByUsername }));
+
+/**
+ * One page of a list route, with the number of matching records on all pages
+ * @template {z.ZodType} T
+ * @param {T} itemSchema
+ */
+export const pageSchema = itemSchema => z.object({
+  items: z.array(itemSchema),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number()
+});
+
+/**
+ * @typedef {z.output<typeof attendanceBasisSchema>} AttendanceBasis
+ * @typedef {z.output<typeof checkInStatusSchema>} CheckInStatus
+ * @typedef {z.output<typeof enrolmentStatusSchema>} EnrolmentStatus
+ * @typedef {z.output<typeof scanModeSchema>} ScanMode
+ * @typedef {z.output<typeof checkInMethodSchema>} CheckInMethod
+ * @typedef {z.output<typeof userRoleSchema>} UserRole
+ * @typedef {z.output<typeof userPermissionSchema>} UserPermission
+ * @typedef {z.output<typeof apiKeyScopeSchema>} ApiKeyScope
+ * @typedef {z.output<typeof eventSchema>} EventInfo
+ * @typedef {z.output<typeof workshopSchema>} Workshop
+ * @typedef {z.output<typeof guestSchema>} Guest
+ * @typedef {z.output<typeof enrolledGuestSchema>} EnrolledGuest
+ * @typedef {z.output<typeof waitlistedGuestSchema>} WaitlistedGuest
+ * @typedef {z.output<typeof waitlistedWorkshopSchema>} WaitlistedWorkshop
+ * @typedef {z.output<typeof attendanceRecordSchema>} AttendanceRecord
+ * @typedef {z.output<typeof userInviteSchema>} UserInvite
+ */
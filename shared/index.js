@@ -0,0 +1,11 @@
+/**
+ * Domain types and request validation shared by the backend and the frontend
+ *
+ * Schemas are zod schemas; the types of the records they describe are
+ * exported as JSDoc typedefs, so TypeScript code can import them by name.
+ */
+
+export * from './domain.js';
+export * from './requests.js';
+export * from './queries.js';
+export * from './validation.js';
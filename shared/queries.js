@@ -0,0 +1,117 @@
+/**
+ * Query strings the list routes accept
+ *
+ * GET /api/guests, /api/workshops and /api/attendance search, filter and sort
+ * on the server. Sending `page` or `pageSize` asks for one page of the list,
+ * answered as `{ items, total, page, pageSize }`; without either the whole
+ * list comes back as an array, for reports and exports that need every row.
+ *
+ * GET /api/guests/search is not a list: it answers with the best matches
+ * for a few words, at most `limit` of them, rather than with pages.
+ */
+
+import { z } from 'zod';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export const DEFAULT_SEARCH_RESULTS = 10;
+export const MAX_SEARCH_RESULTS = 25;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A query parameter that may be left out or sent empty
+ * @template {z.ZodType} T
+ * @param {T} schema
+ */
+const optionalParam = schema => z.string().optional().transform(value => value || undefined).pipe(schema.optional());
+
+/**
+ * @param {string} error
+ * @param {number} [max]
+ */
+const wholeNumberParam = (error, max = Number.MAX_SAFE_INTEGER) =>
+  optionalParam(z.coerce.number({ error }).int(error).min(1, error).max(max, error));
+
+/**
+ * @param {string} error
+ */
+const flagParam = error => optionalParam(z.enum(['true', 'false'], { error }).transform(value => value === 'true'));
+
+/**
+ * @param {string} error
+ */
+const dateParam = error => optionalParam(z.string().regex(DATE_PATTERN, error));
+
+/**
+ * @template {readonly [string, ...string[]]} T
+ * @param {T} sorts
+ */
+const sortParam = sorts => optionalParam(z.enum(sorts, { error: `Sort must be one of: ${sorts.join(', ')}` }));
+
+export const GUEST_SORTS = /** @type {const} */ (['name', 'email', 'organization', 'createdAt']);
+export const WORKSHOP_SORTS = /** @type {const} */ (['startTime', 'name', 'location', 'createdAt']);
+export const ATTENDANCE_SORTS = /** @type {const} */ (['timestamp', 'guestName', 'workshopName', 'dwellMinutes']);
+
+const listFields = {
+  eventId: optionalParam(z.string()),
+  search: optionalParam(z.string().trim().max(200, 'Search must be at most 200 characters')),
+  order: optionalParam(z.enum(['asc', 'desc'], { error: 'Order must be asc or desc' })),
+  page: wholeNumberParam('Page must be a positive whole number'),
+  pageSize: wholeNumberParam(`Page size must be a whole number from 1 to ${MAX_PAGE_SIZE}`, MAX_PAGE_SIZE),
+  isVip: flagParam('isVip must be true or false')
+};
+
+// Inclusive range of days, as YYYY-MM-DD
+const dateRangeFields = {
+  from: dateParam('From must be a date formatted as YYYY-MM-DD'),
+  to: dateParam('To must be a date formatted as YYYY-MM-DD')
+};
+
+/**
+ * @param {{ from?: string, to?: string }} query
+ */
+const isOrderedRange = ({ from, to }) => !from || !to || from <= to;
+
+const RANGE_ERROR = { path: ['to'], error: 'To must not be before from' };
+
+export const guestListQuerySchema = z.object({
+  ...listFields,
+  sort: sortParam(GUEST_SORTS),
+  organization: optionalParam(z.string().trim()),
+  // Guests enrolled in this workshop
+  workshopId: optionalParam(z.string()),
+  // Guests not on this event's roster yet
+  excludeEventId: optionalParam(z.string())
+});
+
+export const workshopListQuerySchema = z.object({
+  ...listFields,
+  ...dateRangeFields,
+  sort: sortParam(WORKSHOP_SORTS)
+}).refine(isOrderedRange, RANGE_ERROR);
+
+export const attendanceListQuerySchema = z.object({
+  ...listFields,
+  ...dateRangeFields,
+  sort: sortParam(ATTENDANCE_SORTS),
+  organization: optionalParam(z.string().trim()),
+  workshopId: optionalParam(z.string()),
+  guestId: optionalParam(z.string())
+}).refine(isOrderedRange, RANGE_ERROR);
+
+export const guestSearchQuerySchema = z.object({
+  q: z.string({ error: 'Search is required' }).trim().min(1, 'Search is required').max(100, 'Search must be at most 100 characters'),
+  // Guests on this event's roster
+  eventId: optionalParam(z.string()),
+  limit: wholeNumberParam(`Limit must be a whole number from 1 to ${MAX_SEARCH_RESULTS}`, MAX_SEARCH_RESULTS)
+    .transform(limit => limit ?? DEFAULT_SEARCH_RESULTS)
+});
+
+/**
+ * @typedef {z.output<typeof guestListQuerySchema>} GuestListQuery
+ * @typedef {z.output<typeof workshopListQuerySchema>} WorkshopListQuery
+ * @typedef {z.output<typeof attendanceListQuerySchema>} AttendanceListQuery
+ * @typedef {z.output<typeof guestSearchQuerySchema>} GuestSearchQuery
+ */
@@ -0,0 +1,271 @@
+/**
+ * Request bodies the API accepts
+ *
+ * The backend checks bodies against these before a route runs and answers
+ * 400 with the problem of each field; the frontend checks its forms with the
+ * same schemas before sending them. Fields the API does not know are dropped.
+ */
+
+import { z } from 'zod';
+import {
+  attendanceBasisSchema,
+  scanModeSchema,
+  userRoleSchema,
+  userPermissionSchema,
+  apiKeyScopeSchema,
+  USER_ROLES,
+  USER_PERMISSIONS,
+  API_KEY_SCOPES
+} from './domain.js';
+
+const LOCAL_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * A text field forms may leave empty, which counts as not filled in
+ * @template {z.ZodType<unknown, string | undefined>} T
+ * @param {T} schema
+ */
+const optionalField = schema => z.string().nullish().transform(value => value || undefined).pipe(schema.optional());
+
+/**
+ * @param {string} error
+ */
+const requiredText = error => z.string({ error }).trim().min(1, error);
+
+/**
+ * @param {string} error
+ */
+const minutes = error => z.number({ error }).int(error).min(0, error).nullish();
+
+// When a queued or imported check-in or check-out happened; defaults to now. Only
+// batches carry one, the live routes always use the server's clock
+const timestampField = optionalField(z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Timestamp is not a valid date'));
+
+const modeField = z.enum(scanModeSchema.options, { error: 'Mode must be check-in or check-out' }).default('check-in');
+
+/**
+ * @param {string} timeZone
+ */
+const isValidTimeZone = timeZone => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const eventInputSchema = z.object({
+  name: requiredText('Event name is required'),
+  description: z.string().nullish(),
+  startDate: z.string().nullish(),
+  endDate: z.string().nullish(),
+  location: z.string().nullish(),
+  logoUrl: z.string().nullish(),
+  // The color ends up in the certificate SVG, so only plain hex values are accepted
+  primaryColor: optionalField(z.string().regex(HEX_COLOR_PATTERN, 'Primary color must be a hex color such as #23519e')),
+  attendanceBasis: optionalField(z.enum(attendanceBasisSchema.options, {
+    error: `Attendance basis must be one of: ${attendanceBasisSchema.options.join(', ')}`
+  })),
+  dynamicQr: z.boolean().optional()
+}).refine(event => !event.startDate || !event.endDate || new Date(event.endDate) >= new Date(event.startDate), {
+  path: ['endDate'],
+  error: 'Event end date must be after its start date'
+});
+
+const workshopFields = {
+  name: requiredText('Workshop name is required'),
+  description: z.string().nullish(),
+  date: z.string().nullish(),
+  location: z.string().nullish(),
+  // Wall-clock times in `timezone`
+  startTime: optionalField(z.string().regex(LOCAL_DATE_TIME_PATTERN, 'Start time must be formatted as YYYY-MM-DDTHH:mm')),
+  endTime: optionalField(z.string().regex(LOCAL_DATE_TIME_PATTERN, 'End time must be formatted as YYYY-MM-DDTHH:mm')),
+  timezone: optionalField(z.string().refine(isValidTimeZone, 'Unknown time zone')),
+  checkinOpensMinutes: minutes('Check-in window offsets must be whole numbers of minutes'),
+  checkinClosesMinutes: minutes('Check-in window offsets must be whole numbers of minutes'),
+  maxCapacity: z.number({ error: 'Maximum capacity must be a positive whole number' })
+    .int('Maximum capacity must be a positive whole number')
+    .positive('Maximum capacity must be a positive whole number')
+    .nullish(),
+  minDwellMinutes: minutes('Minimum dwell time must be a whole number of minutes'),
+  dynamicQr: z.boolean().optional()
+};
+
+/**
+ * Rules between the schedule fields of a workshop
+ * @param {{ startTime?: string | null, endTime?: string | null, timezone?: string | null }} workshop
+ * @param {z.RefinementCtx} ctx
+ */
+const checkSchedule = ({ startTime, endTime, timezone }, ctx) => {
+  if (endTime && !startTime) {
+    ctx.addIssue({ code: 'custom', path: ['startTime'], message: 'End time requires a start time' });
+  }
+  if (startTime && endTime && endTime <= startTime) {
+    ctx.addIssue({ code: 'custom', path: ['endTime'], message: 'Workshop end time must be after its start time' });
+  }
+  if (startTime && !timezone) {
+    ctx.addIssue({ code: 'custom', path: ['timezone'], message: 'Time zone is required when a start time is set' });
+  }
+};
+
+export const createWorkshopSchema = z.object({
+  ...workshopFields,
+  eventId: requiredText('Event ID is required'),
+  // Fixed once the workshop exists
+  isVip: z.boolean().optional()
+}).superRefine(checkSchedule);
+
+export const updateWorkshopSchema = z.object(workshopFields).superRefine(checkSchedule);
+
+const guestFields = {
+  name: requiredText('Guest name is required'),
+  email: optionalField(z.email('Email must be a valid email address')),
+  organization: z.string().nullish(),
+  isVip: z.boolean().optional()
+};
+
+export const createGuestSchema = z.object({
+  ...guestFields,
+  // New guests join this event's roster
+  eventId: optionalField(z.string())
+});
+
+export const updateGuestSchema = z.object(guestFields);
+
+// An admin letting a guest into a VIP workshop despite the invite list
+const vipOverrideFields = {
+  vipOverride: z.boolean().optional(),
+  overrideReason: z.string().nullish()
+};
+
+export const checkInSchema = z.object({
+  guestId: requiredText('Guest ID is required'),
+  workshopId: requiredText('Workshop ID is required'),
+  ...vipOverrideFields
+});
+
+export const checkOutSchema = z.object({
+  guestId: requiredText('Guest ID is required'),
+  workshopId: requiredText('Workshop ID is required')
+});
+
+export const scanSchema = z.object({
+  qrCode: requiredText('QR code is required'),
+  workshopId: requiredText('Workshop ID is required'),
+  mode: modeField,
+  ...vipOverrideFields
+});
+
+// A check-in or check-out by hand, for a guest looked up by name whose QR code can't be read
+export const manualScanSchema = z.object({
+  guestId: requiredText('Guest ID is required'),
+  workshopId: requiredText('Workshop ID is required'),
+  mode: modeField,
+  ...vipOverrideFields
+});
+
+const BATCH_ITEM_ERROR = 'Each item needs a guest ID or QR code and a workshop ID';
+
+// One check-in or check-out of POST /api/scan/batch or /api/attendance/batch
+export const batchItemSchema = z.object({
+  qrCode: optionalField(z.string()),
+  guestId: optionalField(z.string()),
+  workshopId: requiredText(BATCH_ITEM_ERROR),
+  mode: modeField,
+  timestamp: timestampField
+}).refine(item => item.qrCode || item.guestId, { path: ['guestId'], error: BATCH_ITEM_ERROR });
+
+// Adds an existing guest to an event's roster, a workshop or a VIP workshop's invite list
+export const guestReferenceSchema = z.object({
+  guestId: requiredText('Guest ID is required')
+});
+
+// The new order of a workshop's waitlist, which must hold exactly the guests waiting
+export const waitlistOrderSchema = z.object({
+  guestIds: z.array(z.string(), { error: 'Guest IDs must be a list' })
+});
+
+/**
+ * Passwords are taken as typed, spaces included. Whether one is strong enough
+ * is up to the server's password policy, checked by the route
+ * @param {string} error
+ */
+const password = error => z.string({ error }).min(1, error);
+
+const roleField = z.enum(userRoleSchema.options, { error: `Role must be one of: ${USER_ROLES.join(', ')}` });
+
+// Registration with an invitation; the route answers 403 when the token is missing
+export const registerSchema = z.object({
+  username: requiredText('Username is required'),
+  password: password('Password is required'),
+  inviteToken: optionalField(z.string())
+});
+
+export const createUserSchema = z.object({
+  username: requiredText('Username is required'),
+  password: password('Password is required'),
+  role: roleField.default('scanner')
+});
+
+// Fields left out stay as they are
+export const updateUserSchema = z.object({
+  role: roleField.optional(),
+  permissions: z.array(
+    z.enum(userPermissionSchema.options, { error: `Permissions must be a list of: ${USER_PERMISSIONS.join(', ')}` }),
+    { error: `Permissions must be a list of: ${USER_PERMISSIONS.join(', ')}` }
+  ).optional(),
+  disabled: z.boolean({ error: 'Disabled must be true or false' }).optional()
+});
+
+// An admin setting a user's password
+export const resetPasswordSchema = z.object({
+  password: password('Password is required')
+});
+
+// A scanner's events and workshops; an event covers all its workshops
+export const scannerAssignmentsSchema = z.object({
+  eventIds: z.array(z.string(), { error: 'Event IDs must be a list' }).default([]),
+  workshopIds: z.array(z.string(), { error: 'Workshop IDs must be a list' }).default([])
+});
+
+export const inviteSchema = z.object({
+  role: roleField.default('scanner')
+});
+
+const SCOPES_ERROR = `Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`;
+
+// Allowed IPs are only checked for being text here; the server checks they are addresses or CIDR ranges
+export const apiKeyInputSchema = z.object({
+  name: requiredText('Name is required'),
+  scopes: z.array(z.enum(apiKeyScopeSchema.options, { error: SCOPES_ERROR }), { error: SCOPES_ERROR }).min(1, SCOPES_ERROR),
+  allowedIps: z.array(z.string().trim(), { error: 'Allowed IPs must be a list of addresses or CIDR ranges' }).default([]),
+  expiresAt: optionalField(z.string().refine(value => Date.parse(value) > Date.now(), 'Expiry must be a date in the future'))
+});
+
+// Changing your own password
+export const changePasswordSchema = z.object({
+  currentPassword: password('Current password is required'),
+  newPassword: password('New password is required')
+});
+
+// A code from the user's authenticator app, to confirm a two-factor change
+export const twoFactorCodeSchema = z.object({
+  code: requiredText('Authentication code is required')
+});
+
+// Turning two-factor authentication off takes an app code or a recovery code
+export const twoFactorDisableSchema = z.object({
+  code: optionalField(z.string().trim()),
+  recoveryCode: optionalField(z.string().trim())
+}).refine(factor => factor.code || factor.recoveryCode, { path: ['code'], error: 'Authentication code is required' });
+
+/**
+ * @typedef {z.input<typeof eventInputSchema>} EventInput
+ * @typedef {z.input<typeof createWorkshopSchema>} NewWorkshopInput
+ * @typedef {z.input<typeof updateWorkshopSchema>} WorkshopInput
+ * @typedef {z.input<typeof createGuestSchema>} NewGuestInput
+ * @typedef {z.input<typeof updateGuestSchema>} GuestInput
+ * @typedef {z.input<typeof apiKeyInputSchema>} ApiKeyInput
+ */
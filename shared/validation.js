@@ -0,0 +1,40 @@
+/**
+ * Checking data against a schema with one message per field
+ */
+
+import { z } from 'zod';
+
+/**
+ * Problem of each invalid field, keyed by its path such as `endTime` or `items.2.workshopId`
+ * @typedef {Record<string, string>} FieldErrors
+ */
+
+/**
+ * @template T
+ * @typedef {{ success: true, data: T } | { success: false, message: string, fields: FieldErrors }} ValidationResult
+ */
+
+/**
+ * Check data against a schema. Gives the parsed data, or the first problem
+ * found and the first problem of each field
+ * @template {z.ZodType} T
+ * @param {T} schema
+ * @param {unknown} data
+ * @returns {ValidationResult<z.output<T>>}
+ */
+export function validate(schema, data) {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  /** @type {FieldErrors} */
+  const fields = {};
+  for (const issue of result.error.issues) {
+    const path = issue.path.join('.');
+    if (path && !(path in fields)) {
+      fields[path] = issue.message;
+    }
+  }
+  return { success: false, message: result.error.issues[0].message, fields };
+}